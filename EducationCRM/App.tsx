@@ -11,8 +11,10 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import AppNavigator from './src/navigation/AppNavigator';
 import SettingsService from './src/services/SettingsService';
 import RecordingCacheService from './src/services/RecordingCacheService';
-import UploadQueueService from './src/services/UploadQueueService';
 import OfflineStorageService from './src/services/OfflineStorageService';
+import SyncOutboxService from './src/services/SyncOutboxService';
+import LocalLeadStore from './src/services/LocalLeadStore';
+import PipelineService from './src/services/PipelineService';
 import PermissionService from './src/services/PermissionService';
 import AccessibilityService from './src/services/AccessibilityService';
 import AccessibilitySetupPrompt from './src/components/AccessibilitySetupPrompt';
@@ -41,14 +43,29 @@ function App() {
           if (!permissions.phoneState) {
             await PermissionService.requestPermissionWithHandling('phoneState');
           }
+          // Call log gives the real duration and result of each call
+          if (!permissions.callLog) {
+            await PermissionService.requestPermissionWithHandling('callLog');
+          }
         }
+
+        // Needed to show follow-up reminders
+        await PermissionService.requestNotificationPermission();
         
         await SettingsService.initialize();
         await RecordingCacheService.initialize();
-        await UploadQueueService.initialize();
         await OfflineStorageService.initialize();
+        await SyncOutboxService.initialize();
+        await LocalLeadStore.initialize();
+        await PipelineService.initialize();
         console.log('[App] Services initialized successfully');
 
+        // Pull lead changes in the background; the local store serves reads until then
+        LocalLeadStore.sync().catch(error => {
+          console.warn('[App] Initial lead sync failed:', error);
+        });
+        PipelineService.refresh();
+
         // Check accessibility service status (Android only)
         if (Platform.OS === 'android') {
           await checkAccessibilityService();
@@ -62,7 +79,7 @@ function App() {
 
     // Cleanup on unmount
     return () => {
-      UploadQueueService.cleanup();
+      SyncOutboxService.cleanup();
       OfflineStorageService.cleanup();
     };
   }, []);
@@ -0,0 +1,264 @@
+/**
+ * @format
+ */
+
+import {
+  CallRecordingEvent,
+  CallRecordingStateMachine,
+  INITIAL_SNAPSHOT,
+  isActive,
+  transition,
+} from '../src/managers/CallRecordingStateMachine';
+
+const dial: CallRecordingEvent = {
+  type: 'DIAL',
+  leadId: 'lead-1',
+  callLogId: 'call-1',
+  phoneNumber: '1234567890',
+  recordInApp: true,
+  at: 1000,
+};
+
+const stopped = (filePath: string, fileSize: number = 2048): CallRecordingEvent => ({
+  type: 'RECORDING_STOPPED',
+  filePath,
+  durationSeconds: 42,
+  fileSize,
+});
+
+const run = (events: CallRecordingEvent[]) => {
+  const machine = new CallRecordingStateMachine();
+  const accepted = events.map(event => machine.send(event));
+  return { machine, accepted };
+};
+
+describe('CallRecordingStateMachine', () => {
+  test('goes through a manual recording from dial to done', () => {
+    const { machine, accepted } = run([
+      dial,
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      { type: 'APP_ACTIVE', at: 62000 },
+      stopped('/rec/a.m4a'),
+      { type: 'UPLOAD_SUCCEEDED' },
+    ]);
+
+    expect(accepted).toEqual([true, true, true, true, true, true]);
+    expect(machine.getSnapshot().state).toBe('done');
+    expect(machine.getSnapshot().context).toMatchObject({
+      leadId: 'lead-1',
+      callLogId: 'call-1',
+      recorder: 'app',
+      filePath: '/rec/a.m4a',
+      durationSeconds: 42,
+      backgroundAt: 2000,
+      returnedAt: 62000,
+    });
+  });
+
+  test('follows an accessibility recording that starts before the dialer is reported', () => {
+    const { machine } = run([
+      { ...dial, recordInApp: false },
+      { type: 'CALL_RECORDING_STARTED', filePath: '/rec/b.m4a' },
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'CALL_RECORDING_ENDED' },
+      stopped('/rec/b.m4a'),
+    ]);
+
+    expect(machine.getSnapshot().state).toBe('uploading');
+    expect(machine.getSnapshot().context.recorder).toBe('accessibility');
+    expect(machine.getSnapshot().context.backgroundAt).toBe(2000);
+  });
+
+  test('ignores a return to the app before the dialer opened', () => {
+    const { machine, accepted } = run([dial, { type: 'APP_ACTIVE', at: 1500 }]);
+
+    expect(accepted).toEqual([true, false]);
+    expect(machine.getSnapshot().state).toBe('dialing');
+  });
+
+  test('refuses a second recorder for the same call', () => {
+    const { machine, accepted } = run([
+      dial,
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'CALL_RECORDING_STARTED', filePath: '/rec/native.m4a' },
+      { type: 'RECORDING_STARTED', filePath: '/rec/app.m4a' },
+    ]);
+
+    expect(accepted[3]).toBe(false);
+    expect(machine.getSnapshot().context.filePath).toBe('/rec/native.m4a');
+  });
+
+  test('uploads a recording only once when its stop is reported twice', () => {
+    const { machine, accepted } = run([
+      dial,
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      { type: 'STOP' },
+      stopped('/rec/a.m4a'),
+      stopped('/rec/a.m4a'),
+    ]);
+
+    expect(accepted.slice(4)).toEqual([true, false]);
+    expect(machine.getSnapshot().state).toBe('uploading');
+  });
+
+  test('ignores the stop of a recording that is not this call', () => {
+    const { machine, accepted } = run([
+      dial,
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      stopped('/rec/other.m4a'),
+    ]);
+
+    expect(accepted[3]).toBe(false);
+    expect(machine.getSnapshot().state).toBe('recording');
+  });
+
+  test('leaves a queued upload pending rather than failed', () => {
+    const { machine } = run([
+      dial,
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      stopped('/rec/a.m4a'),
+      { type: 'UPLOAD_QUEUED', reason: 'Network Error' },
+    ]);
+
+    expect(machine.getSnapshot().state).toBe('upload_pending');
+    expect(machine.getSnapshot().context.error).toBe('Network Error');
+    expect(machine.send(dial)).toBe(true);
+  });
+
+  test('fails an empty recording instead of uploading it', () => {
+    const { machine } = run([
+      dial,
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      stopped('/rec/a.m4a', 0),
+    ]);
+
+    expect(machine.getSnapshot().state).toBe('failed');
+    expect(machine.getSnapshot().context.error).toBe('Recording is empty');
+  });
+
+  test('counts the return from the dialer once, even after the upload finished', () => {
+    const { machine, accepted } = run([
+      dial,
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      { type: 'STOP' },
+      stopped('/rec/a.m4a'),
+      { type: 'UPLOAD_SUCCEEDED' },
+      { type: 'APP_ACTIVE', at: 90000 },
+      { type: 'APP_ACTIVE', at: 95000 },
+    ]);
+
+    expect(accepted.slice(6)).toEqual([true, false]);
+    expect(machine.getSnapshot().state).toBe('done');
+    expect(machine.getSnapshot().context.returnedAt).toBe(90000);
+  });
+
+  test('ends a call without a recording when the user returns', () => {
+    const { machine } = run([
+      { ...dial, recordInApp: false },
+      { type: 'APP_BACKGROUND', at: 2000 },
+      { type: 'APP_ACTIVE', at: 30000 },
+    ]);
+
+    expect(machine.getSnapshot().state).toBe('done');
+  });
+
+  test('does not dial while a call is still in progress', () => {
+    expect(run([dial, dial]).accepted).toEqual([true, false]);
+    expect(run([dial, { type: 'RESET' }, dial]).accepted).toEqual([true, true, true]);
+  });
+
+  test('starts a new call with a fresh context', () => {
+    const { machine } = run([
+      dial,
+      { type: 'FAIL', error: 'No dialer' },
+      { ...dial, leadId: 'lead-2', callLogId: null },
+    ]);
+
+    expect(machine.getSnapshot().state).toBe('dialing');
+    expect(machine.getSnapshot().context).toMatchObject({
+      leadId: 'lead-2',
+      callLogId: null,
+      error: null,
+    });
+  });
+
+  test('keeps bookmarks made while recording in offset order', () => {
+    const { machine, accepted } = run([
+      dial,
+      { type: 'BOOKMARK', label: 'Too early', offsetSeconds: 1 },
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      { type: 'BOOKMARK', label: 'Fee discussed', offsetSeconds: 30.5 },
+      { type: 'BOOKMARK', label: 'Parent joined', offsetSeconds: 12 },
+      { type: 'STOP' },
+      { type: 'BOOKMARK', label: 'Too late', offsetSeconds: 60 },
+      stopped('/rec/a.m4a'),
+    ]);
+
+    expect(accepted).toEqual([true, false, true, true, true, true, false, true]);
+    expect(machine.getSnapshot().context.bookmarks).toEqual([
+      { offset_seconds: 12, label: 'Parent joined' },
+      { offset_seconds: 30.5, label: 'Fee discussed' },
+    ]);
+  });
+
+  test('drops bookmarks with a cancelled recording and on the next call', () => {
+    const bookmark: CallRecordingEvent = { type: 'BOOKMARK', label: 'Fee discussed', offsetSeconds: 5 };
+    const cancelled = run([
+      dial,
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      bookmark,
+      { type: 'RECORDING_CANCELLED' },
+    ]);
+    expect(cancelled.machine.getSnapshot().context.bookmarks).toEqual([]);
+
+    const redialled = run([
+      dial,
+      { type: 'RECORDING_STARTED', filePath: '/rec/a.m4a' },
+      bookmark,
+      { type: 'FAIL', error: 'Recorder crashed' },
+      dial,
+    ]);
+    expect(redialled.machine.getSnapshot().context.bookmarks).toEqual([]);
+  });
+
+  test('notifies subscribers of accepted events only', () => {
+    const machine = new CallRecordingStateMachine();
+    const states: string[] = [];
+    const unsubscribe = machine.subscribe(snapshot => states.push(snapshot.state));
+
+    machine.send(dial);
+    machine.send({ type: 'UPLOAD_SUCCEEDED' });
+    machine.send({ type: 'APP_BACKGROUND', at: 2000 });
+    unsubscribe();
+    machine.send({ type: 'RESET' });
+
+    expect(states).toEqual(['dialing', 'in_call']);
+  });
+});
+
+describe('transition', () => {
+  test('leaves the snapshot untouched', () => {
+    const next = transition(INITIAL_SNAPSHOT, dial);
+
+    expect(next?.state).toBe('dialing');
+    expect(INITIAL_SNAPSHOT.state).toBe('idle');
+    expect(INITIAL_SNAPSHOT.context.leadId).toBeNull();
+  });
+});
+
+describe('isActive', () => {
+  test('is true only while a call is running', () => {
+    expect(isActive('idle')).toBe(false);
+    expect(isActive('dialing')).toBe(true);
+    expect(isActive('uploading')).toBe(true);
+    expect(isActive('upload_pending')).toBe(false);
+    expect(isActive('done')).toBe(false);
+    expect(isActive('failed')).toBe(false);
+  });
+});
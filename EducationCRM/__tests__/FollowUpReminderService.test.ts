@@ -0,0 +1,95 @@
+/**
+ * @format
+ */
+
+import { NativeModules } from 'react-native';
+import FollowUpReminderService from '../src/services/FollowUpReminderService';
+import { FollowUp } from '../src/services/FollowUpService';
+
+jest.mock('react-native', () => ({
+  NativeModules: {
+    FollowUpReminderModule: {
+      getReminders: jest.fn(),
+      cancelReminder: jest.fn(),
+      scheduleReminder: jest.fn(),
+    },
+  },
+  Platform: { OS: 'android' },
+  DeviceEventEmitter: { addListener: jest.fn() },
+}));
+
+const { FollowUpReminderModule } = NativeModules;
+const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+const followUp = (id: string, scheduledAt: string, changes: Partial<FollowUp> = {}): FollowUp => ({
+  id,
+  lead_id: `lead-${id}`,
+  telecaller_id: 'telecaller-1',
+  scheduled_at: scheduledAt,
+  completed: false,
+  inserted_at: scheduledAt,
+  updated_at: scheduledAt,
+  ...changes,
+});
+
+const reminder = (followUpId: string, scheduledAt: string) => ({
+  followUpId,
+  leadId: `lead-${followUpId}`,
+  scheduledAt,
+  triggerAt: new Date(scheduledAt).getTime(),
+  fired: false,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('syncReminders', () => {
+  test('keeps reminders for follow-ups that were not fetched', async () => {
+    const later = inHours(24 * 45);
+    FollowUpReminderModule.getReminders.mockResolvedValue([reminder('far-ahead', later)]);
+
+    await FollowUpReminderService.syncReminders([followUp('soon', inHours(2))]);
+
+    expect(FollowUpReminderModule.cancelReminder).not.toHaveBeenCalled();
+  });
+
+  test('cancels reminders for completed and cancelled follow-ups', async () => {
+    const soon = inHours(2);
+    FollowUpReminderModule.getReminders.mockResolvedValue([
+      reminder('completed', soon),
+      reminder('cancelled', soon),
+      reminder('pending', soon),
+    ]);
+
+    await FollowUpReminderService.syncReminders([
+      followUp('completed', soon, { completed: true, completed_at: soon }),
+      followUp('cancelled', soon, { completed: true, cancelled_at: soon }),
+      followUp('pending', soon),
+    ]);
+
+    expect(FollowUpReminderModule.cancelReminder.mock.calls).toEqual([
+      ['completed'],
+      ['cancelled'],
+    ]);
+    expect(FollowUpReminderModule.scheduleReminder).not.toHaveBeenCalled();
+  });
+
+  test('schedules new and rescheduled follow-ups', async () => {
+    const soon = inHours(2);
+    const later = inHours(5);
+    FollowUpReminderModule.getReminders.mockResolvedValue([reminder('moved', soon)]);
+
+    await FollowUpReminderService.syncReminders([followUp('moved', later), followUp('new', soon)]);
+
+    const scheduledIds = FollowUpReminderModule.scheduleReminder.mock.calls.map(
+      ([followUpId]: [string]) => followUpId,
+    );
+    expect(scheduledIds).toEqual(['moved', 'new']);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @format
+ */
+
+import { LeadDetail } from '../src/services/LeadService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+// Values are stored unencrypted, as on a device without the native module
+jest.mock('../src/services/SecureStorageService', () => ({
+  __esModule: true,
+  default: {
+    encrypt: jest.fn(async (value: string) => value),
+    decrypt: jest.fn(async (stored: string | null) => stored),
+  },
+}));
+jest.mock('../src/services/ApiService', () => ({
+  __esModule: true,
+  default: { get: jest.fn() },
+}));
+
+const LEAD_KEY_PREFIX = '@lead_store_lead:';
+const LEGACY_LEADS_STORAGE_KEY = '@lead_store_leads';
+const META_STORAGE_KEY = '@lead_store_meta';
+
+const lead = (id: string, changes: Partial<LeadDetail> = {}): LeadDetail => ({
+  id,
+  student_name: `Student ${id}`,
+  phone_number: '9876543210',
+  status: 'new',
+  telecaller_id: 'telecaller-1',
+  branch_id: 'branch-1',
+  call_count: 0,
+  inserted_at: '2024-12-01T09:00:00Z',
+  updated_at: '2024-12-01T09:00:00Z',
+  notes: [],
+  call_logs: [],
+  followups: [],
+  ...changes,
+});
+
+// A fresh store, as after an app restart, reading whatever is stored
+const startApp = (stored: Record<string, string> = {}) => {
+  jest.resetModules();
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  Object.assign(AsyncStorage.__INTERNAL_MOCK_STORAGE__, stored);
+
+  return {
+    AsyncStorage,
+    apiClient: require('../src/services/ApiService').default,
+    LocalLeadStore: require('../src/services/LocalLeadStore').default,
+  };
+};
+
+const syncPage = (leads: LeadDetail[], nextCursor: string, hasMore: boolean = false) => ({
+  data: { data: leads, meta: { next_cursor: nextCursor, has_more: hasMore } },
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('persistence', () => {
+  test('stores each lead under its own key', async () => {
+    const { AsyncStorage, LocalLeadStore } = startApp();
+
+    await LocalLeadStore.upsertLead(lead('lead-1'));
+    await LocalLeadStore.upsertLead(lead('lead-2'));
+
+    expect(AsyncStorage.multiSet).toHaveBeenLastCalledWith([
+      [`${LEAD_KEY_PREFIX}lead-2`, JSON.stringify(lead('lead-2'))],
+    ]);
+    expect(await AsyncStorage.getItem(LEGACY_LEADS_STORAGE_KEY)).toBeNull();
+
+    const restarted = startApp({ ...AsyncStorage.__INTERNAL_MOCK_STORAGE__ });
+    expect((await restarted.LocalLeadStore.getLead('lead-1'))?.student_name).toBe(
+      'Student lead-1',
+    );
+    expect(await restarted.LocalLeadStore.getLead('lead-2')).not.toBeNull();
+  });
+
+  test('moves leads stored as one value to a key per lead', async () => {
+    const { AsyncStorage, LocalLeadStore } = startApp({
+      [LEGACY_LEADS_STORAGE_KEY]: JSON.stringify([lead('lead-1'), lead('lead-2')]),
+    });
+
+    expect(await LocalLeadStore.getLead('lead-2')).not.toBeNull();
+    expect(await AsyncStorage.getItem(`${LEAD_KEY_PREFIX}lead-1`)).not.toBeNull();
+    expect(await AsyncStorage.getItem(`${LEAD_KEY_PREFIX}lead-2`)).not.toBeNull();
+    expect(await AsyncStorage.getItem(LEGACY_LEADS_STORAGE_KEY)).toBeNull();
+  });
+
+  test('reports a failed save and retries it with the next change', async () => {
+    const { AsyncStorage, LocalLeadStore } = startApp();
+    const listener = jest.fn();
+    LocalLeadStore.subscribePersistError(listener);
+
+    AsyncStorage.multiSet.mockRejectedValueOnce(new Error('database or disk is full'));
+    await LocalLeadStore.upsertLead(lead('lead-1'));
+
+    expect(LocalLeadStore.getPersistError()).not.toBeNull();
+    expect(listener).toHaveBeenLastCalledWith(LocalLeadStore.getPersistError());
+
+    await LocalLeadStore.upsertLead(lead('lead-2'));
+
+    expect(LocalLeadStore.getPersistError()).toBeNull();
+    expect(listener).toHaveBeenLastCalledWith(null);
+    expect(await AsyncStorage.getItem(`${LEAD_KEY_PREFIX}lead-1`)).not.toBeNull();
+  });
+
+  test('keeps the sync cursor when synced leads could not be saved', async () => {
+    const { AsyncStorage, apiClient, LocalLeadStore } = startApp();
+    apiClient.get.mockResolvedValue(syncPage([lead('lead-1')], '2024-12-02T09:00:00Z'));
+    AsyncStorage.multiSet.mockRejectedValueOnce(new Error('database or disk is full'));
+
+    await expect(LocalLeadStore.sync()).rejects.toThrow('Synced leads could not be saved');
+
+    expect(await AsyncStorage.getItem(META_STORAGE_KEY)).toBeNull();
+  });
+
+  test('removes every stored lead when cleared', async () => {
+    const { AsyncStorage, LocalLeadStore } = startApp();
+    await LocalLeadStore.upsertLead(lead('lead-1'));
+    await LocalLeadStore.upsertLead(lead('lead-2'));
+
+    await LocalLeadStore.clear();
+
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+});
+
+describe('sync', () => {
+  const syncedSince = (apiClient: { get: jest.Mock }) =>
+    apiClient.get.mock.calls.map(([, { params }]) => params.updated_since);
+
+  test('pages through changes and continues from the last cursor', async () => {
+    const { AsyncStorage, apiClient, LocalLeadStore } = startApp();
+    apiClient.get
+      .mockResolvedValueOnce(syncPage([lead('lead-1')], '2024-12-02T09:00:00Z', true))
+      .mockResolvedValueOnce(syncPage([lead('lead-2')], '2024-12-03T09:00:00Z'));
+
+    await LocalLeadStore.sync();
+
+    expect(syncedSince(apiClient)).toEqual(['1970-01-01T00:00:00Z', '2024-12-02T09:00:00Z']);
+    expect(JSON.parse(await AsyncStorage.getItem(META_STORAGE_KEY))).toMatchObject({
+      cursor: '2024-12-03T09:00:00Z',
+    });
+
+    // After a restart only leads changed since then are fetched
+    const restarted = startApp({ ...AsyncStorage.__INTERNAL_MOCK_STORAGE__ });
+    restarted.apiClient.get.mockResolvedValueOnce(
+      syncPage([lead('lead-1', { status: 'contacted' })], '2024-12-04T09:00:00Z'),
+    );
+
+    await restarted.LocalLeadStore.sync();
+
+    expect(syncedSince(restarted.apiClient)).toEqual(['2024-12-03T09:00:00Z']);
+    expect((await restarted.LocalLeadStore.getLead('lead-1'))?.status).toBe('contacted');
+    expect(await restarted.LocalLeadStore.getLead('lead-2')).not.toBeNull();
+  });
+
+  test('removes leads reassigned to someone else on a full sync', async () => {
+    const { AsyncStorage, apiClient, LocalLeadStore } = startApp();
+    await LocalLeadStore.upsertLead(lead('lead-1'));
+    await LocalLeadStore.upsertLead(lead('lead-2'));
+    apiClient.get.mockResolvedValueOnce(syncPage([lead('lead-1')], '2024-12-02T09:00:00Z'));
+
+    await LocalLeadStore.sync(true);
+
+    expect(await LocalLeadStore.getLead('lead-1')).not.toBeNull();
+    expect(await LocalLeadStore.getLead('lead-2')).toBeNull();
+    expect(await AsyncStorage.getItem(`${LEAD_KEY_PREFIX}lead-2`)).toBeNull();
+  });
+
+  test('keeps leads missing from a delta sync', async () => {
+    const { apiClient, LocalLeadStore } = startApp();
+    apiClient.get.mockResolvedValueOnce(
+      syncPage([lead('lead-1'), lead('lead-2')], '2024-12-02T09:00:00Z'),
+    );
+    await LocalLeadStore.sync();
+
+    apiClient.get.mockResolvedValueOnce(syncPage([lead('lead-1')], '2024-12-03T09:00:00Z'));
+    await LocalLeadStore.sync();
+
+    expect(await LocalLeadStore.getLead('lead-2')).not.toBeNull();
+  });
+});
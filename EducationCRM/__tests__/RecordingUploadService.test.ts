@@ -0,0 +1,207 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import ReactNativeBlobUtil from 'react-native-blob-util';
+import apiClient from '../src/services/ApiService';
+import S3Service from '../src/services/S3Service';
+import RecordingUploadService, {
+  RecordingIntegrityError,
+} from '../src/services/RecordingUploadService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-blob-util', () => ({
+  __esModule: true,
+  default: {
+    fs: {
+      dirs: { CacheDir: '/cache' },
+      hash: jest.fn(),
+      stat: jest.fn(),
+      slice: jest.fn(),
+      unlink: jest.fn(),
+    },
+    fetch: jest.fn(),
+    wrap: jest.fn((path: string) => `wrapped:${path}`),
+  },
+}));
+jest.mock('../src/services/ApiService', () => ({
+  __esModule: true,
+  default: { post: jest.fn() },
+  API_BASE_URL: 'https://crm.example.com/api',
+  TOKEN_KEY: '@auth_token',
+}));
+jest.mock('../src/services/S3Service', () => ({
+  __esModule: true,
+  default: { uploadFile: jest.fn() },
+}));
+jest.mock('../src/services/SyncOutboxService', () => ({
+  __esModule: true,
+  default: { isLocalId: jest.fn(() => false), enqueue: jest.fn() },
+}));
+jest.mock('../src/services/SecureStorageService', () => ({
+  __esModule: true,
+  default: { isEncryptedFile: jest.fn(async () => false) },
+}));
+
+const UPLOAD_SESSIONS_KEY = '@recording_upload_sessions';
+const MB = 1024 * 1024;
+const filePath = '/recordings/call.aac';
+const fs = ReactNativeBlobUtil.fs as unknown as Record<string, jest.Mock>;
+const blobFetch = ReactNativeBlobUtil.fetch as jest.Mock;
+const post = apiClient.post as jest.Mock;
+
+// Server responses to the JSON actions of the recordings endpoint
+const respond = (responses: Record<string, any>) =>
+  post.mockImplementation(async (_url: string, body: { action?: string }) => {
+    const response = responses[body.action || 'presign'];
+    if (response instanceof Error) {
+      throw response;
+    }
+    return { data: { data: response } };
+  });
+
+const sentChunks = () =>
+  blobFetch.mock.calls.map(([, , , parts]: [string, string, object, any[]]) =>
+    Object.fromEntries(parts.map(part => [part.name, part.data])),
+  );
+
+const upload = () =>
+  RecordingUploadService.performUpload({ filePath, leadId: 'lead-1', callLogId: 'call-1' });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  fs.unlink.mockResolvedValue(undefined);
+  fs.slice.mockResolvedValue(undefined);
+  // The whole recording first, then one hash per chunk
+  let hashes = 0;
+  fs.hash.mockImplementation(async () => (hashes++ === 0 ? 'file-sha' : `chunk-sha-${hashes - 2}`));
+  (S3Service.uploadFile as jest.Mock).mockRejectedValue(new Error('S3 unavailable'));
+  blobFetch.mockImplementation(() => ({
+    uploadProgress: async () => ({
+      info: () => ({ status: 200 }),
+      json: () => ({ data: {} }),
+    }),
+  }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('chunked upload', () => {
+  test('sends every chunk with its own checksum and finalizes with the file checksum', async () => {
+    fs.stat.mockResolvedValue({ size: 2.5 * MB });
+    respond({
+      presign: { upload_url: 'https://s3.example.com/put', key: 'recordings/call.aac' },
+      init: { upload_id: 'upload-1' },
+      finalize: { id: 'call-1', recording_path: 'recordings/call.aac' },
+    });
+
+    const result = await upload();
+
+    expect(result).toMatchObject({ success: true, recordingId: 'call-1' });
+    expect(sentChunks()).toEqual(
+      [0, 1, 2].map(index =>
+        expect.objectContaining({
+          upload_id: 'upload-1',
+          chunk_index: String(index),
+          checksum: `chunk-sha-${index}`,
+        }),
+      ),
+    );
+    expect(fs.slice.mock.calls.map(([, , start, end]) => [start, end])).toEqual([
+      [0, MB],
+      [MB, 2 * MB],
+      [2 * MB, 2.5 * MB],
+    ]);
+    expect(post).toHaveBeenLastCalledWith(
+      '/leads/lead-1/recordings',
+      expect.objectContaining({
+        action: 'finalize',
+        upload_id: 'upload-1',
+        total_chunks: 3,
+        sha256: 'file-sha',
+      }),
+    );
+    expect(JSON.parse((await AsyncStorage.getItem(UPLOAD_SESSIONS_KEY))!)).toEqual({});
+  });
+
+  test('resumes a stored session from the chunks the server already has', async () => {
+    await AsyncStorage.setItem(
+      UPLOAD_SESSIONS_KEY,
+      JSON.stringify({ 'call-1': { uploadId: 'upload-1', fileSize: 3 * MB, chunkSize: MB } }),
+    );
+    fs.stat.mockResolvedValue({ size: 3 * MB });
+    respond({
+      status: { upload_id: 'upload-1', chunks_received: 2, total_size: 2 * MB },
+      finalize: { id: 'call-1', recording_path: 'recordings/call.aac' },
+    });
+
+    await upload();
+
+    // Carried on with the chunked upload rather than starting over on S3
+    expect(S3Service.uploadFile).not.toHaveBeenCalled();
+    expect(post).not.toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: 'init' }),
+    );
+    expect(sentChunks()).toEqual([expect.objectContaining({ chunk_index: '2' })]);
+    expect(fs.slice).toHaveBeenCalledWith(filePath, expect.any(String), 2 * MB, 3 * MB);
+  });
+
+  test('starts a new session when the server has dropped the stored one', async () => {
+    await AsyncStorage.setItem(
+      UPLOAD_SESSIONS_KEY,
+      JSON.stringify({ 'call-1': { uploadId: 'upload-old', fileSize: MB, chunkSize: MB } }),
+    );
+    fs.stat.mockResolvedValue({ size: MB });
+    respond({
+      status: Object.assign(new Error('Not found'), { response: { status: 404 } }),
+      init: { upload_id: 'upload-new' },
+      finalize: { id: 'call-1', recording_path: 'recordings/call.aac' },
+    });
+
+    await upload();
+
+    expect(sentChunks()).toEqual([
+      expect.objectContaining({ upload_id: 'upload-new', chunk_index: '0' }),
+    ]);
+  });
+
+  test('keeps the session when a chunk fails, so the retry resumes it', async () => {
+    fs.stat.mockResolvedValue({ size: 2 * MB });
+    respond({ presign: new Error('Offline'), init: { upload_id: 'upload-1' } });
+    blobFetch.mockImplementationOnce(() => ({
+      uploadProgress: async () => ({ info: () => ({ status: 503 }), json: () => ({}) }),
+    }));
+
+    await expect(upload()).rejects.toThrow('Chunk 0 upload failed with status 503');
+
+    expect(JSON.parse((await AsyncStorage.getItem(UPLOAD_SESSIONS_KEY))!)).toEqual({
+      'call-1': { uploadId: 'upload-1', fileSize: 2 * MB, chunkSize: MB },
+    });
+  });
+
+  test('starts over when the assembled recording does not match its checksum', async () => {
+    fs.stat.mockResolvedValue({ size: MB });
+    respond({
+      presign: new Error('Offline'),
+      init: { upload_id: 'upload-1' },
+      finalize: Object.assign(new Error('Checksum mismatch'), {
+        response: { status: 422, data: { error: { code: 'CHECKSUM_MISMATCH' } } },
+      }),
+    });
+
+    await expect(upload()).rejects.toBeInstanceOf(RecordingIntegrityError);
+
+    expect(JSON.parse((await AsyncStorage.getItem(UPLOAD_SESSIONS_KEY))!)).toEqual({});
+  });
+});
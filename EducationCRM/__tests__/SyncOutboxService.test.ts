@@ -0,0 +1,259 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import LeadService from '../src/services/LeadService';
+import SecureStorageService from '../src/services/SecureStorageService';
+import SyncOutboxService, {
+  OUTBOX_PRIORITY,
+  OutboxItem,
+  OutboxItemType,
+  OutboxOwnedByOtherUserError,
+  OutboxUnreadableError,
+} from '../src/services/SyncOutboxService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock'),
+);
+jest.mock('../src/services/SecureStorageService', () => ({
+  __esModule: true,
+  default: { getItem: jest.fn(), setItem: jest.fn() },
+}));
+jest.mock('../src/services/LeadService', () => ({
+  __esModule: true,
+  default: { logCall: jest.fn(), updateCall: jest.fn(), addNote: jest.fn() },
+}));
+jest.mock('../src/services/FollowUpService', () => ({ __esModule: true, default: {} }));
+
+const OUTBOX_STORAGE_KEY = '@sync_outbox';
+const OUTBOX_OWNER_KEY = '@sync_outbox_owner';
+const getItem = SecureStorageService.getItem as jest.Mock;
+const setItem = SecureStorageService.setItem as jest.Mock;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  // Values pass through unencrypted, as on a device without the native module
+  getItem.mockImplementation((key: string) => AsyncStorage.getItem(key));
+  setItem.mockImplementation((key: string, value: string) => AsyncStorage.setItem(key, value));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('unreadable outbox', () => {
+  const storedOutbox = 'enc:v1:c2VhbGVk';
+
+  beforeEach(async () => {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, storedOutbox);
+    // The key that encrypted the outbox is gone
+    getItem.mockResolvedValue(null);
+  });
+
+  test('is not read as an empty outbox', async () => {
+    await expect(SyncOutboxService.getItems()).rejects.toBeInstanceOf(OutboxUnreadableError);
+  });
+
+  test('is not overwritten by an enqueue', async () => {
+    await expect(
+      SyncOutboxService.enqueue({ type: 'add_note', leadId: 'lead-1', payload: { note: 'Hi' } }),
+    ).rejects.toThrow('Could not save add_note to the outbox');
+
+    expect(setItem).not.toHaveBeenCalled();
+    expect(await AsyncStorage.getItem(OUTBOX_STORAGE_KEY)).toBe(storedOutbox);
+  });
+
+  test('is not overwritten by a status update', async () => {
+    await SyncOutboxService.retryFailed();
+
+    expect(setItem).not.toHaveBeenCalled();
+    expect(await AsyncStorage.getItem(OUTBOX_STORAGE_KEY)).toBe(storedOutbox);
+  });
+
+  test('is treated as unreadable when it is corrupt', async () => {
+    getItem.mockResolvedValue('{"truncated');
+
+    await expect(SyncOutboxService.getItems()).rejects.toBeInstanceOf(OutboxUnreadableError);
+  });
+
+  test('can still be cleared', async () => {
+    await SyncOutboxService.clearAll();
+
+    expect(await AsyncStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe('missing outbox', () => {
+  test('is read as empty', async () => {
+    expect(await SyncOutboxService.getItems()).toEqual([]);
+  });
+});
+
+describe('claim', () => {
+  const storeItems = (states: string[]) =>
+    AsyncStorage.setItem(
+      OUTBOX_STORAGE_KEY,
+      JSON.stringify(
+        states.map((state, index) => ({
+          id: `item-${index}`,
+          type: 'add_note',
+          leadId: 'lead-1',
+          payload: {},
+          state,
+          priority: 20,
+          dependsOn: [],
+          attempts: 0,
+          nextAttemptAt: 0,
+          createdAt: 0,
+        })),
+      ),
+    );
+
+  test('refuses a different user while changes are unsynced', async () => {
+    await AsyncStorage.setItem(OUTBOX_OWNER_KEY, 'user-a');
+    await storeItems(['pending', 'failed', 'done']);
+
+    const claim = SyncOutboxService.claim('user-b');
+    await expect(claim).rejects.toBeInstanceOf(OutboxOwnedByOtherUserError);
+    await expect(claim).rejects.toMatchObject({ unsyncedCount: 2 });
+
+    expect(await AsyncStorage.getItem(OUTBOX_OWNER_KEY)).toBe('user-a');
+    expect(await SyncOutboxService.getItems()).toHaveLength(3);
+  });
+
+  test('clears a different user\'s outbox once it has synced', async () => {
+    await AsyncStorage.setItem(OUTBOX_OWNER_KEY, 'user-a');
+    await storeItems(['done']);
+
+    await SyncOutboxService.claim('user-b');
+
+    expect(await AsyncStorage.getItem(OUTBOX_OWNER_KEY)).toBe('user-b');
+    expect(await SyncOutboxService.getItems()).toEqual([]);
+  });
+
+  test('keeps the outbox for the same user', async () => {
+    await AsyncStorage.setItem(OUTBOX_OWNER_KEY, 'user-a');
+    await storeItems(['pending']);
+
+    await SyncOutboxService.claim('user-a');
+
+    expect(await SyncOutboxService.getItems()).toHaveLength(1);
+  });
+
+  test('keeps an outbox queued before owners were recorded', async () => {
+    await storeItems(['pending']);
+
+    await SyncOutboxService.claim('user-b');
+
+    expect(await AsyncStorage.getItem(OUTBOX_OWNER_KEY)).toBe('user-b');
+    expect(await SyncOutboxService.getItems()).toHaveLength(1);
+  });
+});
+
+describe('processing', () => {
+  const logCall = LeadService.logCall as jest.Mock;
+  const updateCall = LeadService.updateCall as jest.Mock;
+  const addNote = LeadService.addNote as jest.Mock;
+
+  const outboxItem = (
+    id: string,
+    type: OutboxItemType,
+    changes: Partial<OutboxItem> = {},
+  ): OutboxItem => ({
+    id,
+    type,
+    leadId: 'lead-1',
+    payload: {},
+    state: 'pending',
+    priority: OUTBOX_PRIORITY[type],
+    dependsOn: [],
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: 0,
+    ...changes,
+  });
+
+  const storeOutbox = (items: OutboxItem[]) =>
+    AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(items));
+
+  beforeEach(() => {
+    logCall.mockResolvedValue({ id: 'call-42' });
+    updateCall.mockResolvedValue({ id: 'call-42' });
+    addNote.mockResolvedValue({ id: 'note-1' });
+  });
+
+  afterEach(() => {
+    // Drop the retry timer of anything left pending
+    SyncOutboxService.cleanup();
+  });
+
+  test('runs higher priority items first', async () => {
+    await storeOutbox([
+      outboxItem('note', 'add_note', { payload: { note: 'Call back after 6' }, createdAt: 1 }),
+      outboxItem('call', 'log_call', { payload: { outcome: 'no_answer' }, createdAt: 2 }),
+    ]);
+
+    await SyncOutboxService.processQueue();
+
+    expect(logCall.mock.invocationCallOrder[0]).toBeLessThan(addNote.mock.invocationCallOrder[0]);
+    expect(await SyncOutboxService.getItems()).toEqual([]);
+  });
+
+  test('waits for the items it depends on', async () => {
+    // The call log is backing off after a failed attempt
+    await storeOutbox([
+      outboxItem('local_call', 'log_call', { attempts: 1, nextAttemptAt: Date.now() + 60000 }),
+      outboxItem('update', 'update_call', {
+        payload: { callLogId: 'local_call', outcome: 'connected' },
+        dependsOn: ['local_call'],
+      }),
+    ]);
+
+    await SyncOutboxService.processQueue();
+
+    expect(logCall).not.toHaveBeenCalled();
+    expect(updateCall).not.toHaveBeenCalled();
+    expect((await SyncOutboxService.getItems()).map(item => item.state)).toEqual([
+      'pending',
+      'pending',
+    ]);
+  });
+
+  test('replaces local ids with the server id of the item that created them', async () => {
+    await storeOutbox([
+      outboxItem('local_call', 'log_call', { payload: { outcome: 'pending' } }),
+      outboxItem('update', 'update_call', {
+        payload: { callLogId: 'local_call', outcome: 'connected' },
+        dependsOn: ['local_call'],
+      }),
+    ]);
+
+    await SyncOutboxService.processQueue();
+
+    expect(updateCall).toHaveBeenCalledWith('lead-1', 'call-42', { outcome: 'connected' }, false);
+    expect(await SyncOutboxService.getItems()).toEqual([]);
+  });
+
+  test('parks items the server rejects instead of retrying them', async () => {
+    addNote.mockRejectedValue({
+      response: { status: 422, data: { error: { message: 'note is too long' } } },
+    });
+    await storeOutbox([outboxItem('note', 'add_note', { payload: { note: 'x' } })]);
+
+    await SyncOutboxService.processQueue();
+
+    expect(await SyncOutboxService.getItems()).toEqual([
+      expect.objectContaining({ id: 'note', state: 'failed', lastError: 'note is too long' }),
+    ]);
+  });
+});
+
@@ -0,0 +1,161 @@
+/**
+ * @format
+ */
+
+import {
+  addDays,
+  calendarDaysBetween,
+  combineDateAndTime,
+  formatBusinessTime,
+  formatDayLabel,
+  formatRelative,
+  formatTime,
+  isSameDay,
+  parseDateTime,
+  toApiDateTime,
+  validateFutureDateTime,
+} from '../src/utils/dateTime';
+
+// Newer ICU versions put a narrow no-break space before AM/PM
+const normalize = (label: string) => label.replace(/\s/g, ' ');
+
+// Local times, so the tests pass whatever timezone they run in
+const now = new Date(2024, 11, 4, 12, 0);
+const at = (day: number, hours: number, minutes: number = 0) =>
+  new Date(2024, 11, day, hours, minutes);
+
+describe('parseDateTime', () => {
+  test('reads naive API timestamps as UTC', () => {
+    expect(parseDateTime('2024-12-02T09:00:00')?.toISOString()).toBe('2024-12-02T09:00:00.000Z');
+  });
+
+  test('reads timestamps with a Z or an offset as they are', () => {
+    expect(parseDateTime('2024-12-02T09:00:00Z')?.toISOString()).toBe('2024-12-02T09:00:00.000Z');
+    expect(parseDateTime('2024-12-02T14:30:00+05:30')?.toISOString()).toBe(
+      '2024-12-02T09:00:00.000Z',
+    );
+  });
+
+  test('keeps fractional seconds of naive timestamps', () => {
+    expect(parseDateTime('2024-12-02T09:00:00.123456')?.toISOString()).toBe(
+      '2024-12-02T09:00:00.123Z',
+    );
+  });
+
+  test('does not add a Z to date-only values', () => {
+    expect(parseDateTime('2024-12-02')?.toISOString()).toBe('2024-12-02T00:00:00.000Z');
+  });
+
+  test('returns null for missing or unparseable values', () => {
+    expect(parseDateTime(null)).toBeNull();
+    expect(parseDateTime(undefined)).toBeNull();
+    expect(parseDateTime('')).toBeNull();
+    expect(parseDateTime('not a date')).toBeNull();
+    expect(parseDateTime(new Date(NaN))).toBeNull();
+  });
+
+  test('passes valid dates through', () => {
+    const date = new Date();
+    expect(parseDateTime(date)).toBe(date);
+  });
+
+  test('round-trips with toApiDateTime', () => {
+    const date = parseDateTime('2024-12-02T09:00:00')!;
+    expect(parseDateTime(toApiDateTime(date))?.getTime()).toBe(date.getTime());
+  });
+});
+
+describe('calendar days', () => {
+  test('counts calendar days, not 24 hour periods', () => {
+    expect(calendarDaysBetween(at(5, 0, 30), at(4, 23, 30))).toBe(1);
+    expect(calendarDaysBetween(at(3, 23, 59), now)).toBe(-1);
+    expect(calendarDaysBetween(at(4, 0), now)).toBe(0);
+  });
+
+  test('compares days in local time', () => {
+    expect(isSameDay(at(4, 0), at(4, 23, 59))).toBe(true);
+    expect(isSameDay(at(4, 23, 59), at(5, 0))).toBe(false);
+  });
+
+  test('adds days across a month end, keeping the time of day', () => {
+    const result = addDays(at(31, 9, 15), 1);
+    expect(result.getMonth()).toBe(0);
+    expect(result.getDate()).toBe(1);
+    expect(result.getHours()).toBe(9);
+    expect(result.getMinutes()).toBe(15);
+  });
+});
+
+describe('combineDateAndTime', () => {
+  test('takes the day from one date and the time from the other', () => {
+    const result = combineDateAndTime(new Date(2025, 0, 15, 8, 0), new Date(2024, 5, 1, 16, 45, 30));
+
+    expect(result.getFullYear()).toBe(2025);
+    expect(result.getMonth()).toBe(0);
+    expect(result.getDate()).toBe(15);
+    expect(result.getHours()).toBe(16);
+    expect(result.getMinutes()).toBe(45);
+    expect(result.getSeconds()).toBe(0);
+    expect(result.getMilliseconds()).toBe(0);
+  });
+
+  test('does not change its arguments', () => {
+    const day = at(10, 8);
+    combineDateAndTime(day, at(1, 17));
+    expect(day.getHours()).toBe(8);
+  });
+});
+
+describe('validateFutureDateTime', () => {
+  test('requires a date', () => {
+    expect(validateFutureDateTime(null, now)).toBe('Please select a date and time');
+    expect(validateFutureDateTime(new Date(NaN), now)).toBe('Please select a date and time');
+  });
+
+  test('rejects past times and times inside the minimum lead time', () => {
+    expect(validateFutureDateTime(at(4, 11), now)).toBe('Follow-up time must be in the future');
+    expect(validateFutureDateTime(new Date(now.getTime() + 30 * 1000), now)).toBe(
+      'Follow-up time must be in the future',
+    );
+    expect(validateFutureDateTime(at(4, 12, 10), now, 15)).toBe(
+      'Follow-up time must be in the future',
+    );
+  });
+
+  test('accepts times at or after the minimum lead time', () => {
+    expect(validateFutureDateTime(at(4, 12, 1), now)).toBeNull();
+    expect(validateFutureDateTime(at(4, 12, 15), now, 15)).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  test('formats times of day', () => {
+    expect(normalize(formatTime(at(2, 14, 30)))).toBe('2:30 PM');
+    expect(normalize(formatTime(at(2, 0, 5)))).toBe('12:05 AM');
+  });
+
+  test('formats business time in IST whatever the device timezone', () => {
+    expect(normalize(formatBusinessTime(new Date('2024-12-02T09:00:00Z')))).toBe('2:30 PM IST');
+    expect(normalize(formatBusinessTime(new Date('2024-12-02T20:00:00Z')))).toBe('1:30 AM IST');
+  });
+
+  test('labels days relative to today', () => {
+    expect(formatDayLabel(at(4, 18), now)).toBe('Today');
+    expect(formatDayLabel(at(3, 8), now)).toBe('Yesterday');
+    expect(formatDayLabel(at(5, 8), now)).toBe('Tomorrow');
+    expect(formatDayLabel(at(20, 8), now)).toBe('Fri, Dec 20, 2024');
+  });
+
+  test('labels times relative to today', () => {
+    expect(normalize(formatRelative(at(4, 14, 30), now))).toBe('Today at 2:30 PM');
+    expect(normalize(formatRelative(at(3, 9), now))).toBe('Yesterday at 9:00 AM');
+    expect(normalize(formatRelative(at(5, 10), now))).toBe('Tomorrow at 10:00 AM');
+    expect(normalize(formatRelative(at(9, 16), now))).toBe('Mon 4:00 PM');
+    expect(normalize(formatRelative(at(20, 14, 30), now))).toBe('Dec 20, 2:30 PM');
+  });
+
+  test('reads naive API timestamps as UTC when formatting', () => {
+    const utc = '2024-12-04T09:00:00';
+    expect(formatRelative(utc, now)).toBe(formatRelative(new Date('2024-12-04T09:00:00Z'), now));
+  });
+});
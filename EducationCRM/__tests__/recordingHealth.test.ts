@@ -0,0 +1,126 @@
+/**
+ * @format
+ */
+
+import { analyzeLevels, LevelProfile } from '../src/utils/recordingHealth';
+
+const WINDOW_MS = 500;
+const SPEECH = -20;
+const SILENCE = -100;
+
+// Levels of a recording made of consecutive stretches, e.g. [[-20, 5], [-100, 3]]
+const profile = (stretches: [number, number][]): LevelProfile => {
+  const levels = stretches.flatMap(([level, seconds]) =>
+    new Array<number>(Math.round((seconds * 1000) / WINDOW_MS)).fill(level),
+  );
+  return { durationMs: levels.length * WINDOW_MS, windowMs: WINDOW_MS, levels };
+};
+
+describe('analyzeLevels', () => {
+  test('accepts a recording with both sides talking', () => {
+    const health = analyzeLevels(
+      profile([
+        [SPEECH, 4],
+        [SILENCE, 2],
+        [-30, 10],
+        [SPEECH, 6],
+      ]),
+    );
+
+    expect(health).toEqual({
+      verdict: 'ok',
+      durationSeconds: 22,
+      peakDb: -20,
+      averageDb: -32,
+      activeRatio: 0.91,
+      longestSilenceSeconds: 2,
+    });
+  });
+
+  test('treats an empty profile as silent', () => {
+    expect(analyzeLevels({ durationMs: 0, windowMs: WINDOW_MS, levels: [] })).toEqual({
+      verdict: 'silent',
+      durationSeconds: 0,
+      peakDb: -100,
+      averageDb: -100,
+      activeRatio: 0,
+      longestSilenceSeconds: 0,
+    });
+  });
+
+  test('treats digital silence as silent', () => {
+    const health = analyzeLevels(profile([[SILENCE, 20]]));
+    expect(health.verdict).toBe('silent');
+    expect(health.longestSilenceSeconds).toBe(20);
+  });
+
+  test('treats a recording that never gets loud enough as silent', () => {
+    // Above the silence threshold, but below the audible peak
+    expect(analyzeLevels(profile([[-45, 20]])).verdict).toBe('silent');
+    expect(analyzeLevels(profile([[-40, 20]])).verdict).toBe('ok');
+  });
+
+  test('needs at least 5% of the windows to have sound', () => {
+    // 1 and 2 of 40 windows
+    expect(analyzeLevels(profile([[SPEECH, 0.5], [SILENCE, 19.5]])).verdict).toBe('silent');
+    expect(
+      analyzeLevels(
+        profile([
+          [SPEECH, 0.5],
+          [SILENCE, 5],
+          [SPEECH, 0.5],
+          [SILENCE, 5],
+          [-55, 9],
+        ]),
+      ).verdict,
+    ).toBe('one_sided');
+  });
+
+  test('counts windows at the silence threshold as silence', () => {
+    const health = analyzeLevels(profile([[SPEECH, 10], [-50, 6], [SPEECH, 4]]));
+    expect(health.verdict).toBe('one_sided');
+    expect(health.longestSilenceSeconds).toBe(6);
+  });
+
+  test('judges recordings shorter than 15 seconds as too short', () => {
+    expect(analyzeLevels(profile([[SPEECH, 14]])).verdict).toBe('too_short');
+    expect(analyzeLevels(profile([[SPEECH, 15]])).verdict).toBe('ok');
+  });
+
+  test('reports silence before too short', () => {
+    expect(analyzeLevels(profile([[SILENCE, 5]])).verdict).toBe('silent');
+  });
+
+  test('flags a gap of 6 seconds or more as one-sided', () => {
+    expect(analyzeLevels(profile([[SPEECH, 5], [SILENCE, 6], [SPEECH, 9]])).verdict).toBe(
+      'one_sided',
+    );
+    expect(analyzeLevels(profile([[SPEECH, 5], [SILENCE, 5.5], [SPEECH, 9.5]])).verdict).toBe(
+      'ok',
+    );
+  });
+
+  test('finds gaps at the start and end of the recording', () => {
+    expect(analyzeLevels(profile([[SILENCE, 7], [SPEECH, 13]])).verdict).toBe('one_sided');
+    expect(analyzeLevels(profile([[SPEECH, 13], [SILENCE, 7]])).verdict).toBe('one_sided');
+  });
+
+  test('uses the longest of several gaps', () => {
+    const health = analyzeLevels(
+      profile([
+        [SPEECH, 2],
+        [SILENCE, 3],
+        [SPEECH, 2],
+        [SILENCE, 4.5],
+        [SPEECH, 8.5],
+      ]),
+    );
+    expect(health.verdict).toBe('ok');
+    expect(health.longestSilenceSeconds).toBe(4.5);
+  });
+
+  test('rounds the duration to whole seconds', () => {
+    const health = analyzeLevels({ ...profile([[SPEECH, 20]]), durationMs: 20400 });
+    expect(health.durationSeconds).toBe(20);
+  });
+});
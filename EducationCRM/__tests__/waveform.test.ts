@@ -0,0 +1,137 @@
+/**
+ * @format
+ */
+
+import {
+  buildWaveform,
+  computePeaks,
+  findSilentRegions,
+  silentRegionAt,
+  WAVEFORM_BARS,
+} from '../src/utils/waveform';
+
+// 100 samples per silence window
+const SAMPLE_RATE = 1000;
+const SPEECH = 0.5;
+
+// Samples of consecutive stretches at a constant level, e.g. [[0.5, 1], [0, 3]]
+const audio = (stretches: [number, number][]): Float32Array => {
+  const samples = stretches.flatMap(([level, seconds]) =>
+    new Array<number>(Math.round(seconds * SAMPLE_RATE)).fill(level),
+  );
+  return Float32Array.from(samples);
+};
+
+describe('computePeaks', () => {
+  test('scales the loudest bar to 1', () => {
+    expect(computePeaks([0.1, 0.2, 0.4, 0.2], 2)).toEqual([0.5, 1]);
+  });
+
+  test('uses the magnitude of negative samples', () => {
+    expect(computePeaks([0.25, -0.5, 0.1, -0.1], 2)).toEqual([1, 0.2]);
+  });
+
+  test('returns flat bars for empty or silent audio', () => {
+    expect(computePeaks([], 4)).toEqual([0, 0, 0, 0]);
+    expect(computePeaks([0, 0, 0, 0], 2)).toEqual([0, 0]);
+  });
+
+  test('spreads samples that do not divide evenly over every bar', () => {
+    expect(computePeaks([1, 0, 0, 0, 0, 0, 0.5], 3)).toEqual([1, 0, 0.5]);
+  });
+
+  test('leaves bars without samples flat when there are fewer samples than bars', () => {
+    expect(computePeaks([1, 0.5], 4)).toEqual([1, 0, 0.5, 0]);
+  });
+});
+
+describe('findSilentRegions', () => {
+  test('finds nothing in continuous speech or empty audio', () => {
+    expect(findSilentRegions(audio([[SPEECH, 10]]), SAMPLE_RATE)).toEqual([]);
+    expect(findSilentRegions(new Float32Array(0), SAMPLE_RATE)).toEqual([]);
+  });
+
+  test('ignores pauses shorter than 2 seconds', () => {
+    const samples = audio([
+      [SPEECH, 3],
+      [0, 1.9],
+      [SPEECH, 3],
+    ]);
+    expect(findSilentRegions(samples, SAMPLE_RATE)).toEqual([]);
+  });
+
+  test('finds pauses of 2 seconds or more', () => {
+    const samples = audio([
+      [SPEECH, 3],
+      [0, 2],
+      [SPEECH, 1],
+      [0, 4],
+      [SPEECH, 1],
+    ]);
+    expect(findSilentRegions(samples, SAMPLE_RATE)).toEqual([
+      { start: 3, end: 5 },
+      { start: 6, end: 10 },
+    ]);
+  });
+
+  test('finds silence at the start and up to the end', () => {
+    const samples = audio([
+      [0, 2.5],
+      [SPEECH, 3],
+      [0, 3],
+    ]);
+    expect(findSilentRegions(samples, SAMPLE_RATE)).toEqual([
+      { start: 0, end: 2.5 },
+      { start: 5.5, end: 8.5 },
+    ]);
+  });
+
+  test('treats quiet background noise as silence', () => {
+    const quiet = audio([[SPEECH, 1], [0.005, 3], [SPEECH, 1]]);
+    expect(findSilentRegions(quiet, SAMPLE_RATE)).toEqual([{ start: 1, end: 4 }]);
+
+    const audible = audio([[SPEECH, 1], [0.006, 3], [SPEECH, 1]]);
+    expect(findSilentRegions(audible, SAMPLE_RATE)).toEqual([]);
+  });
+
+  test('judges silence by window level, so a single click breaks a pause', () => {
+    // The click's window is loud, leaving two pauses of under 2 seconds
+    const samples = audio([[0, 3]]);
+    samples[1550] = 1;
+    expect(findSilentRegions(samples, SAMPLE_RATE)).toEqual([]);
+  });
+});
+
+describe('buildWaveform', () => {
+  test('combines peaks, silent regions and duration', () => {
+    const waveform = buildWaveform(audio([[SPEECH, 1], [0, 3]]), SAMPLE_RATE);
+
+    expect(waveform.peaks).toHaveLength(WAVEFORM_BARS);
+    expect(waveform.peaks[0]).toBe(1);
+    expect(waveform.peaks[WAVEFORM_BARS - 1]).toBe(0);
+    expect(waveform.silentRegions).toEqual([{ start: 1, end: 4 }]);
+    expect(waveform.duration).toBe(4);
+  });
+
+  test('takes a custom bar count', () => {
+    expect(buildWaveform(audio([[SPEECH, 1]]), SAMPLE_RATE, 10).peaks).toHaveLength(10);
+  });
+});
+
+describe('silentRegionAt', () => {
+  const regions = [
+    { start: 3, end: 5 },
+    { start: 8, end: 12 },
+  ];
+
+  test('finds the region a position falls in, including its start', () => {
+    expect(silentRegionAt(regions, 3)).toEqual({ start: 3, end: 5 });
+    expect(silentRegionAt(regions, 10)).toEqual({ start: 8, end: 12 });
+  });
+
+  test('returns null outside regions and at their end', () => {
+    expect(silentRegionAt(regions, 2.9)).toBeNull();
+    expect(silentRegionAt(regions, 5)).toBeNull();
+    expect(silentRegionAt([], 1)).toBeNull();
+  });
+});
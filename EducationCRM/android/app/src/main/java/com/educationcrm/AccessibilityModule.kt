@@ -17,6 +17,7 @@ class AccessibilityModule(reactContext: ReactApplicationContext) : ReactContextB
     private var recordingStartedReceiver: BroadcastReceiver? = null
     private var recordingEndedReceiver: BroadcastReceiver? = null
     private var recordingStoppedReceiver: BroadcastReceiver? = null
+    private var recordingBookmarkReceiver: BroadcastReceiver? = null
 
     init {
         setupBroadcastReceivers()
@@ -30,10 +31,12 @@ class AccessibilityModule(reactContext: ReactApplicationContext) : ReactContextB
             override fun onReceive(context: Context?, intent: Intent?) {
                 val filePath = intent?.getStringExtra("filePath")
                 val phoneNumber = intent?.getStringExtra("phoneNumber")
+                val direction = intent?.getStringExtra("direction")
                 
                 val params = Arguments.createMap().apply {
                     putString("filePath", filePath)
                     putString("phoneNumber", phoneNumber)
+                    putString("direction", direction)
                 }
                 
                 sendEvent("com.educationcrm.CALL_RECORDING_STARTED", params)
@@ -74,14 +77,29 @@ class AccessibilityModule(reactContext: ReactApplicationContext) : ReactContextB
             }
         }
         
+        // Receiver for bookmarks added from the recording notification
+        recordingBookmarkReceiver = object : BroadcastReceiver() {
+            override fun onReceive(context: Context?, intent: Intent?) {
+                val params = Arguments.createMap().apply {
+                    putString("filePath", intent?.getStringExtra("filePath"))
+                    putString("label", intent?.getStringExtra("label"))
+                    putDouble("offsetSeconds", intent?.getDoubleExtra("offsetSeconds", 0.0) ?: 0.0)
+                }
+
+                sendEvent("com.educationcrm.RECORDING_BOOKMARK", params)
+            }
+        }
+        
         // Register receivers
         val startedFilter = IntentFilter("com.educationcrm.CALL_RECORDING_STARTED")
         val endedFilter = IntentFilter("com.educationcrm.CALL_RECORDING_ENDED")
         val stoppedFilter = IntentFilter("com.educationcrm.RECORDING_STOPPED")
+        val bookmarkFilter = IntentFilter("com.educationcrm.RECORDING_BOOKMARK")
         
         reactApplicationContext.registerReceiver(recordingStartedReceiver, startedFilter)
         reactApplicationContext.registerReceiver(recordingEndedReceiver, endedFilter)
         reactApplicationContext.registerReceiver(recordingStoppedReceiver, stoppedFilter)
+        reactApplicationContext.registerReceiver(recordingBookmarkReceiver, bookmarkFilter)
     }
 
     private fun sendEvent(eventName: String, params: WritableMap?) {
@@ -96,6 +114,7 @@ class AccessibilityModule(reactContext: ReactApplicationContext) : ReactContextB
             recordingStartedReceiver?.let { reactApplicationContext.unregisterReceiver(it) }
             recordingEndedReceiver?.let { reactApplicationContext.unregisterReceiver(it) }
             recordingStoppedReceiver?.let { reactApplicationContext.unregisterReceiver(it) }
+            recordingBookmarkReceiver?.let { reactApplicationContext.unregisterReceiver(it) }
         } catch (e: Exception) {
             // Ignore if already unregistered
         }
@@ -1,7 +1,13 @@
 package com.educationcrm
 
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+import android.content.IntentFilter
 import android.media.MediaRecorder
 import android.os.Build
+import android.os.Handler
+import android.os.Looper
 import com.facebook.react.bridge.*
 import java.io.File
 import java.io.IOException
@@ -9,6 +15,11 @@ import java.io.IOException
 class AudioRecorderModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
     
     private var recordingFilePath: String? = null
+
+    companion object {
+        // The service normally reports the finished recording within a second
+        private const val STOP_TIMEOUT_MS = 10_000L
+    }
     
     override fun getName(): String {
         return "AudioRecorderModule"
@@ -41,6 +52,10 @@ class AudioRecorderModule(reactContext: ReactApplicationContext) : ReactContextB
         }
     }
     
+    /**
+     * Stop recording. Resolves once the service has finished and encrypted the
+     * file, so the reported size is that of the file the app uploads.
+     */
     @ReactMethod
     fun stopRecording(promise: Promise) {
         try {
@@ -54,31 +69,53 @@ class AudioRecorderModule(reactContext: ReactApplicationContext) : ReactContextB
             }
             
             val filePath = recordingFilePath
+            val handler = Handler(Looper.getMainLooper())
+            var settled = false
+
+            // Return metadata
+            fun resolve(fileSize: Double) {
+                if (settled) return
+                settled = true
+
+                val result = Arguments.createMap().apply {
+                    putString("filePath", filePath)
+                    putDouble("duration", duration)
+                    putDouble("fileSize", fileSize)
+                    putDouble("timestamp", System.currentTimeMillis().toDouble())
+                }
+                promise.resolve(result)
+            }
+
+            val stoppedReceiver = object : BroadcastReceiver() {
+                override fun onReceive(context: Context?, intent: Intent?) {
+                    if (intent?.getStringExtra("filePath") != filePath) return
+
+                    reactApplicationContext.unregisterReceiver(this)
+                    handler.removeCallbacksAndMessages(null)
+                    resolve(intent?.getLongExtra("fileSize", 0L)?.toDouble() ?: 0.0)
+                }
+            }
+            reactApplicationContext.registerReceiver(
+                stoppedReceiver,
+                IntentFilter("com.educationcrm.RECORDING_STOPPED")
+            )
+
+            // Fall back to the file as it is if the service never reports back
+            handler.postDelayed({
+                try {
+                    reactApplicationContext.unregisterReceiver(stoppedReceiver)
+                } catch (e: IllegalArgumentException) {
+                    // Already unregistered
+                }
+                val file = filePath?.let { File(it) }
+                resolve(if (file != null && file.exists()) file.length().toDouble() else 0.0)
+            }, STOP_TIMEOUT_MS)
             
             // Stop the service
             val intent = android.content.Intent(reactApplicationContext, RecordingService::class.java).apply {
                 action = RecordingService.ACTION_STOP_RECORDING
             }
             reactApplicationContext.startService(intent)
-            
-            // Calculate file size
-            var fileSize = 0.0
-            if (filePath != null) {
-                val file = java.io.File(filePath)
-                if (file.exists()) {
-                    fileSize = file.length().toDouble()
-                }
-            }
-            
-            // Return metadata
-            val result = Arguments.createMap().apply {
-                putString("filePath", filePath)
-                putDouble("duration", duration)
-                putDouble("fileSize", fileSize)
-                putDouble("timestamp", System.currentTimeMillis().toDouble())
-            }
-            
-            promise.resolve(result)
         } catch (e: Exception) {
             promise.reject("RECORDING_ERROR", "Failed to stop recording: ${e.message}", e)
         }
@@ -26,6 +26,8 @@ class CallRecordingAccessibilityService : AccessibilityService() {
     private var phoneStateListener: PhoneStateListener? = null
     private var telephonyCallback: TelephonyCallback? = null
     private var isCallActive = false
+    // A call that rang before going off-hook is one the telecaller answered
+    private var isIncomingCall = false
     private var currentPhoneNumber: String? = null
     private var recordingFilePath: String? = null
 
@@ -126,10 +128,14 @@ class CallRecordingAccessibilityService : AccessibilityService() {
                     isCallActive = false
                     onCallEnded()
                 }
+                isIncomingCall = false
             }
             TelephonyManager.CALL_STATE_RINGING -> {
                 // Incoming call ringing - don't start recording yet
                 android.util.Log.d(TAG, "Phone ringing")
+                if (!isCallActive) {
+                    isIncomingCall = true
+                }
             }
         }
     }
@@ -169,6 +175,7 @@ class CallRecordingAccessibilityService : AccessibilityService() {
         sendBroadcast(Intent("com.educationcrm.CALL_RECORDING_STARTED").apply {
             putExtra("filePath", recordingFilePath)
             putExtra("phoneNumber", currentPhoneNumber)
+            putExtra("direction", if (isIncomingCall) "inbound" else "outbound")
         })
     }
 
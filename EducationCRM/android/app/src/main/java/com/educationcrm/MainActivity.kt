@@ -1,5 +1,8 @@
 package com.educationcrm
 
+import android.content.Intent
+import android.os.Bundle
+import com.educationcrm.reminders.FollowUpReminderModule
 import com.facebook.react.ReactActivity
 import com.facebook.react.ReactActivityDelegate
 import com.facebook.react.defaults.DefaultNewArchitectureEntryPoint.fabricEnabled
@@ -19,4 +22,16 @@ class MainActivity : ReactActivity() {
    */
   override fun createReactActivityDelegate(): ReactActivityDelegate =
       DefaultReactActivityDelegate(this, mainComponentName, fabricEnabled)
+
+  override fun onCreate(savedInstanceState: Bundle?) {
+    super.onCreate(savedInstanceState)
+    // Opened by tapping a follow-up reminder
+    FollowUpReminderModule.handleIntent(intent)
+  }
+
+  override fun onNewIntent(intent: Intent) {
+    super.onNewIntent(intent)
+    setIntent(intent)
+    FollowUpReminderModule.handleIntent(intent)
+  }
 }
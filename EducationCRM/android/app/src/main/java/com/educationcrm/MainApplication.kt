@@ -1,6 +1,12 @@
 package com.educationcrm
 
 import android.app.Application
+import com.educationcrm.calllog.DeviceCallLogPackage
+import com.educationcrm.diagnostics.RecordingDiagnosticsPackage
+import com.educationcrm.pickers.DateTimePickerPackage
+import com.educationcrm.playback.RecordingStreamPackage
+import com.educationcrm.reminders.FollowUpReminderPackage
+import com.educationcrm.security.SecureStoragePackage
 import com.facebook.react.PackageList
 import com.facebook.react.ReactApplication
 import com.facebook.react.ReactHost
@@ -18,6 +24,12 @@ class MainApplication : Application(), ReactApplication {
           // add(MyReactNativePackage())
           add(AudioRecorderPackage())
           add(AccessibilityPackage())
+          add(FollowUpReminderPackage())
+          add(DateTimePickerPackage())
+          add(DeviceCallLogPackage())
+          add(RecordingDiagnosticsPackage())
+          add(RecordingStreamPackage())
+          add(SecureStoragePackage())
         },
     )
   }
@@ -10,8 +10,12 @@ import android.content.Intent
 import android.content.SharedPreferences
 import android.media.MediaRecorder
 import android.os.Build
+import android.os.Handler
 import android.os.IBinder
+import android.os.Looper
+import android.widget.Toast
 import androidx.core.app.NotificationCompat
+import com.educationcrm.security.LocalDataCipher
 import java.io.File
 
 class RecordingService : Service() {
@@ -20,21 +24,27 @@ class RecordingService : Service() {
     private var recordingFilePath: String? = null
     private var recordingStartTime: Long = 0
     private var currentAudioSource: Int = MediaRecorder.AudioSource.MIC
+    private val mainHandler = Handler(Looper.getMainLooper())
 
     companion object {
         const val ACTION_START_RECORDING = "com.educationcrm.action.START_RECORDING"
         const val ACTION_STOP_RECORDING = "com.educationcrm.action.STOP_RECORDING"
         const val ACTION_START_CALL_RECORDING = "com.educationcrm.action.START_CALL_RECORDING"
+        const val ACTION_BOOKMARK = "com.educationcrm.action.BOOKMARK"
         const val EXTRA_FILE_PATH = "com.educationcrm.extra.FILE_PATH"
         const val EXTRA_SAMPLE_RATE = "com.educationcrm.extra.SAMPLE_RATE"
         const val EXTRA_BIT_RATE = "com.educationcrm.extra.BIT_RATE"
         const val EXTRA_PHONE_NUMBER = "com.educationcrm.extra.PHONE_NUMBER"
+        const val EXTRA_BOOKMARK_LABEL = "com.educationcrm.extra.BOOKMARK_LABEL"
         
         const val CHANNEL_ID = "CallRecordingChannel"
         const val NOTIFICATION_ID = 12345
         const val PREFS_NAME = "CallRecordingPrefs"
         const val PREF_WORKING_AUDIO_SOURCE = "working_audio_source"
         const val PREF_LAST_RECORDING_SUCCESS = "last_recording_success"
+
+        // Bookmark actions on the recording notification, usable without leaving the call
+        val NOTIFICATION_BOOKMARK_LABELS = listOf("Fee discussed", "Parent joined", "Bookmark")
         
         // Audio sources to try in order of preference
         val AUDIO_SOURCES = listOf(
@@ -78,6 +88,9 @@ class RecordingService : Service() {
             ACTION_STOP_RECORDING -> {
                 stopRecording()
             }
+            ACTION_BOOKMARK -> {
+                addBookmark(intent.getStringExtra(EXTRA_BOOKMARK_LABEL) ?: "Bookmark")
+            }
         }
         return START_NOT_STICKY
     }
@@ -104,13 +117,49 @@ class RecordingService : Service() {
             PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
         )
 
-        return NotificationCompat.Builder(this, CHANNEL_ID)
+        val builder = NotificationCompat.Builder(this, CHANNEL_ID)
             .setContentTitle("Recording Call")
             .setContentText("Using: $audioSourceName")
             .setSmallIcon(android.R.drawable.ic_btn_speak_now)
             .setOngoing(true)
             .setContentIntent(pendingIntent)
-            .build()
+
+        NOTIFICATION_BOOKMARK_LABELS.forEachIndexed { index, label ->
+            val bookmarkIntent = Intent(this, RecordingService::class.java).apply {
+                action = ACTION_BOOKMARK
+                putExtra(EXTRA_BOOKMARK_LABEL, label)
+            }
+            // One request code per label, otherwise the extras of the last action win
+            val bookmarkPendingIntent = PendingIntent.getService(
+                this, index + 1, bookmarkIntent,
+                PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+            )
+            builder.addAction(android.R.drawable.star_off, "🔖 $label", bookmarkPendingIntent)
+        }
+
+        return builder.build()
+    }
+
+    /**
+     * Mark the current moment of the recording. The app stores the bookmark
+     * with the call and uploads it alongside the recording.
+     */
+    private fun addBookmark(label: String) {
+        val filePath = recordingFilePath
+        if (!isRecording || filePath == null) {
+            android.util.Log.w("RecordingService", "Bookmark ignored, not recording")
+            return
+        }
+
+        val offsetSeconds = currentDuration
+        sendBroadcast(Intent("com.educationcrm.RECORDING_BOOKMARK").apply {
+            putExtra("filePath", filePath)
+            putExtra("label", label)
+            putExtra("offsetSeconds", offsetSeconds)
+        })
+
+        Toast.makeText(this, "Bookmarked: $label", Toast.LENGTH_SHORT).show()
+        android.util.Log.d("RecordingService", "Bookmark '$label' at $offsetSeconds s")
     }
 
 
@@ -246,9 +295,16 @@ class RecordingService : Service() {
         stopRecordingInternal()
         stopForeground(STOP_FOREGROUND_REMOVE)
         
-        if (wasRecording && filePath != null) {
-            // Check if file has content
+        if (!wasRecording || filePath == null) {
+            stopSelf()
+            return
+        }
+
+        // The recording is encrypted off the main thread before anyone is told it exists
+        val audioSource = usedAudioSource
+        Thread {
             val file = File(filePath)
+            LocalDataCipher.encryptRecording(file)
             val fileSize = if (file.exists()) file.length() else 0
             
             // Broadcast recording stopped
@@ -256,13 +312,18 @@ class RecordingService : Service() {
                 putExtra("filePath", filePath)
                 putExtra("duration", duration)
                 putExtra("fileSize", fileSize)
-                putExtra("audioSource", usedAudioSource)
+                putExtra("audioSource", audioSource)
             })
             
             android.util.Log.d("RecordingService", "Recording stopped. Duration: $duration, Size: $fileSize bytes")
-        }
-        
-        stopSelf()
+
+            // A new call may have started recording in the meantime
+            mainHandler.post {
+                if (!isRecording) {
+                    stopSelf()
+                }
+            }
+        }.start()
     }
 
     private fun stopRecordingInternal() {
@@ -0,0 +1,79 @@
+package com.educationcrm.calllog
+
+import android.Manifest
+import android.content.pm.PackageManager
+import android.provider.CallLog
+import androidx.core.content.ContextCompat
+import com.facebook.react.bridge.*
+
+/**
+ * React Native module to read the phone's own call log, which records how long
+ * a call really lasted and whether it was answered, rejected or missed.
+ */
+class DeviceCallLogModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+
+    override fun getName(): String = "DeviceCallLogModule"
+
+    /**
+     * Find the most recent call with a number since a point in time.
+     * Numbers are compared by their last 10 digits, so country and trunk prefixes don't matter.
+     * Resolves null when the phone has no such call (yet).
+     */
+    @ReactMethod
+    fun findCall(phoneNumber: String, sinceMillis: Double, promise: Promise) {
+        if (ContextCompat.checkSelfPermission(reactApplicationContext, Manifest.permission.READ_CALL_LOG)
+            != PackageManager.PERMISSION_GRANTED
+        ) {
+            promise.reject("PERMISSION_DENIED", "READ_CALL_LOG permission not granted")
+            return
+        }
+
+        try {
+            val wanted = phoneKey(phoneNumber)
+            val projection = arrayOf(
+                CallLog.Calls.NUMBER,
+                CallLog.Calls.TYPE,
+                CallLog.Calls.DURATION,
+                CallLog.Calls.DATE
+            )
+
+            reactApplicationContext.contentResolver.query(
+                CallLog.Calls.CONTENT_URI,
+                projection,
+                "${CallLog.Calls.DATE} >= ?",
+                arrayOf(sinceMillis.toLong().toString()),
+                "${CallLog.Calls.DATE} DESC"
+            )?.use { cursor ->
+                while (cursor.moveToNext()) {
+                    val number = cursor.getString(0) ?: continue
+                    if (wanted.isEmpty() || phoneKey(number) != wanted) {
+                        continue
+                    }
+
+                    promise.resolve(Arguments.createMap().apply {
+                        putString("phoneNumber", number)
+                        putString("type", callType(cursor.getInt(1)))
+                        putDouble("durationSeconds", cursor.getLong(2).toDouble())
+                        putDouble("startedAt", cursor.getLong(3).toDouble())
+                    })
+                    return
+                }
+            }
+
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("ERROR", "Failed to read call log: ${e.message}", e)
+        }
+    }
+
+    private fun phoneKey(phoneNumber: String): String = phoneNumber.filter { it.isDigit() }.takeLast(10)
+
+    private fun callType(type: Int): String = when (type) {
+        CallLog.Calls.OUTGOING_TYPE -> "outgoing"
+        CallLog.Calls.INCOMING_TYPE -> "incoming"
+        CallLog.Calls.MISSED_TYPE -> "missed"
+        CallLog.Calls.REJECTED_TYPE -> "rejected"
+        CallLog.Calls.BLOCKED_TYPE -> "blocked"
+        else -> "other"
+    }
+}
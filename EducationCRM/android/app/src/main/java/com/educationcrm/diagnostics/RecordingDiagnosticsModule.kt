@@ -0,0 +1,170 @@
+package com.educationcrm.diagnostics
+
+import android.media.MediaCodec
+import android.media.MediaDataSource
+import android.media.MediaExtractor
+import android.media.MediaFormat
+import com.educationcrm.security.LocalDataCipher
+import com.facebook.react.bridge.*
+import java.io.File
+import java.nio.ByteOrder
+import kotlin.math.log10
+import kotlin.math.max
+import kotlin.math.sqrt
+
+/**
+ * React Native module to measure how loud a recording is over time, so the app
+ * can tell a silent or one-sided call recording from a good one.
+ */
+class RecordingDiagnosticsModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        private const val TIMEOUT_US = 10_000L
+        private const val SILENCE_DB = -100.0
+    }
+
+    override fun getName(): String = "RecordingDiagnosticsModule"
+
+    /**
+     * Decode a recording and measure its RMS level in windows of windowMs.
+     * Resolves { durationMs, windowMs, sampleRate, channelCount, levels } with levels in dBFS.
+     * Decoding runs off the JS thread. Encrypted recordings are decrypted into
+     * memory only; test calls are short.
+     */
+    @ReactMethod
+    fun measureLevels(filePath: String, windowMs: Int, promise: Promise) {
+        Thread {
+            try {
+                promise.resolve(decodeLevels(filePath.removePrefix("file://"), windowMs))
+            } catch (e: Exception) {
+                android.util.Log.e("RecordingDiagnostics", "Failed to analyze $filePath", e)
+                promise.reject("ANALYSIS_FAILED", "Failed to analyze recording: ${e.message}", e)
+            }
+        }.start()
+    }
+
+    private fun decodeLevels(path: String, windowMs: Int): WritableMap {
+        val extractor = MediaExtractor()
+        val file = File(path)
+        if (LocalDataCipher.isEncrypted(file)) {
+            extractor.setDataSource(ByteArrayDataSource(LocalDataCipher.readDecrypted(file)))
+        } else {
+            extractor.setDataSource(path)
+        }
+
+        val trackIndex = (0 until extractor.trackCount).firstOrNull {
+            extractor.getTrackFormat(it).getString(MediaFormat.KEY_MIME)?.startsWith("audio/") == true
+        } ?: run {
+            extractor.release()
+            throw IllegalArgumentException("No audio track in recording")
+        }
+
+        extractor.selectTrack(trackIndex)
+        val format = extractor.getTrackFormat(trackIndex)
+        var sampleRate = format.getInteger(MediaFormat.KEY_SAMPLE_RATE)
+        var channelCount = format.getInteger(MediaFormat.KEY_CHANNEL_COUNT)
+
+        val codec = MediaCodec.createDecoderByType(format.getString(MediaFormat.KEY_MIME)!!)
+        codec.configure(format, null, null, 0)
+        codec.start()
+
+        val levels = Arguments.createArray()
+        val info = MediaCodec.BufferInfo()
+        var samplesPerWindow = samplesPerWindow(sampleRate, channelCount, windowMs)
+        var sumSquares = 0.0
+        var windowSamples = 0
+        var totalSamples = 0L
+        var inputDone = false
+        var outputDone = false
+
+        try {
+            while (!outputDone) {
+                if (!inputDone) {
+                    val inIndex = codec.dequeueInputBuffer(TIMEOUT_US)
+                    if (inIndex >= 0) {
+                        val size = extractor.readSampleData(codec.getInputBuffer(inIndex)!!, 0)
+                        if (size < 0) {
+                            codec.queueInputBuffer(inIndex, 0, 0, 0, MediaCodec.BUFFER_FLAG_END_OF_STREAM)
+                            inputDone = true
+                        } else {
+                            codec.queueInputBuffer(inIndex, 0, size, extractor.sampleTime, 0)
+                            extractor.advance()
+                        }
+                    }
+                }
+
+                val outIndex = codec.dequeueOutputBuffer(info, TIMEOUT_US)
+                if (outIndex == MediaCodec.INFO_OUTPUT_FORMAT_CHANGED) {
+                    sampleRate = codec.outputFormat.getInteger(MediaFormat.KEY_SAMPLE_RATE)
+                    channelCount = codec.outputFormat.getInteger(MediaFormat.KEY_CHANNEL_COUNT)
+                    samplesPerWindow = samplesPerWindow(sampleRate, channelCount, windowMs)
+                } else if (outIndex >= 0) {
+                    // Decoders output 16-bit PCM
+                    val output = codec.getOutputBuffer(outIndex)!!
+                    output.position(info.offset)
+                    output.limit(info.offset + info.size)
+                    val samples = output.order(ByteOrder.nativeOrder()).asShortBuffer()
+
+                    while (samples.hasRemaining()) {
+                        val value = samples.get() / 32768.0
+                        sumSquares += value * value
+                        windowSamples++
+                        totalSamples++
+
+                        if (windowSamples == samplesPerWindow) {
+                            levels.pushDouble(toDecibels(sumSquares / windowSamples))
+                            sumSquares = 0.0
+                            windowSamples = 0
+                        }
+                    }
+
+                    codec.releaseOutputBuffer(outIndex, false)
+                    if (info.flags and MediaCodec.BUFFER_FLAG_END_OF_STREAM != 0) {
+                        outputDone = true
+                    }
+                }
+            }
+        } finally {
+            codec.stop()
+            codec.release()
+            extractor.release()
+        }
+
+        if (windowSamples > 0) {
+            levels.pushDouble(toDecibels(sumSquares / windowSamples))
+        }
+
+        return Arguments.createMap().apply {
+            putDouble("durationMs", totalSamples * 1000.0 / (sampleRate * channelCount))
+            putInt("windowMs", windowMs)
+            putInt("sampleRate", sampleRate)
+            putInt("channelCount", channelCount)
+            putArray("levels", levels)
+        }
+    }
+
+    private fun samplesPerWindow(sampleRate: Int, channelCount: Int, windowMs: Int): Int =
+        max(1, sampleRate * channelCount * windowMs / 1000)
+
+    private fun toDecibels(meanSquare: Double): Double {
+        val rms = sqrt(meanSquare)
+        return if (rms <= 0.0) SILENCE_DB else max(SILENCE_DB, 20 * log10(rms))
+    }
+
+    /**
+     * Lets MediaExtractor read a recording held in memory.
+     */
+    private class ByteArrayDataSource(private val data: ByteArray) : MediaDataSource() {
+        override fun readAt(position: Long, buffer: ByteArray, offset: Int, size: Int): Int {
+            if (position >= data.size) return -1
+
+            val length = minOf(size.toLong(), data.size - position).toInt()
+            System.arraycopy(data, position.toInt(), buffer, offset, length)
+            return length
+        }
+
+        override fun getSize(): Long = data.size.toLong()
+
+        override fun close() {}
+    }
+}
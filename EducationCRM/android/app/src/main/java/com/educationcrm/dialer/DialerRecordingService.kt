@@ -10,11 +10,14 @@ import android.content.Intent
 import android.media.MediaRecorder
 import android.os.Build
 import android.os.Environment
+import android.os.Handler
 import android.os.IBinder
+import android.os.Looper
 import android.os.StatFs
 import androidx.core.app.NotificationCompat
 import com.educationcrm.R
 import com.educationcrm.dialer.models.RecordingResult
+import com.educationcrm.security.LocalDataCipher
 import java.io.File
 
 /**
@@ -30,6 +33,7 @@ class DialerRecordingService : Service() {
     private var currentCallId: String? = null
     private var currentPhoneNumber: String? = null
     private var currentLeadId: String? = null
+    private val mainHandler = Handler(Looper.getMainLooper())
 
     companion object {
         const val ACTION_START_RECORDING = "com.educationcrm.dialer.action.START_RECORDING"
@@ -190,9 +194,23 @@ class DialerRecordingService : Service() {
                 release()
             }
             mediaRecorder = null
-            
-            // Calculate duration and file size
-            val duration = System.currentTimeMillis() - recordingStartTime
+        } catch (e: Exception) {
+            android.util.Log.e("DialerRecordingService", "Error stopping recording: ${e.message}", e)
+            emitRecordingError(callId, e.message ?: "Unknown error", "RECORDING_STOP_FAILED")
+            cleanupRecorder()
+            stopForeground(STOP_FOREGROUND_REMOVE)
+            stopSelf()
+            return
+        }
+
+        val duration = System.currentTimeMillis() - recordingStartTime
+        val startedAt = recordingStartTime
+        cleanupRecorder()
+        stopForeground(STOP_FOREGROUND_REMOVE)
+
+        // The recording is encrypted off the main thread before the app is told it exists
+        Thread {
+            LocalDataCipher.encryptRecording(file)
             val fileSize = if (file.exists()) file.length() else 0L
             
             // Create result
@@ -203,22 +221,21 @@ class DialerRecordingService : Service() {
                 fileSize = fileSize,
                 phoneNumber = phoneNumber,
                 leadId = leadId,
-                timestamp = recordingStartTime
+                timestamp = startedAt
             )
             
             // Emit recording stopped event
             emitRecordingStopped(result)
             
             android.util.Log.i("DialerRecordingService", "Recording stopped. Duration: ${duration}ms, Size: ${fileSize} bytes")
-            
-        } catch (e: Exception) {
-            android.util.Log.e("DialerRecordingService", "Error stopping recording: ${e.message}", e)
-            emitRecordingError(callId, e.message ?: "Unknown error", "RECORDING_STOP_FAILED")
-        } finally {
-            cleanupRecorder()
-            stopForeground(STOP_FOREGROUND_REMOVE)
-            stopSelf()
-        }
+
+            // A new call may have started recording in the meantime
+            mainHandler.post {
+                if (outputFile == null) {
+                    stopSelf()
+                }
+            }
+        }.start()
     }
 
     /**
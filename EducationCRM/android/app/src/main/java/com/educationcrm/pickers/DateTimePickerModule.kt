@@ -0,0 +1,110 @@
+package com.educationcrm.pickers
+
+import android.app.DatePickerDialog
+import android.app.TimePickerDialog
+import android.text.format.DateFormat
+import com.facebook.react.bridge.*
+import java.util.Calendar
+
+/**
+ * React Native module that shows the platform date and time picker dialogs.
+ *
+ * Both pickers take and return epoch milliseconds in device local time and
+ * resolve null when the user dismisses the dialog.
+ */
+class DateTimePickerModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+
+    override fun getName(): String = "DateTimePickerModule"
+
+    /**
+     * Show a date picker
+     *
+     * @param initialMs Date selected when the dialog opens
+     * @param minimumMs Earliest selectable date, or a negative value for no limit
+     */
+    @ReactMethod
+    fun pickDate(initialMs: Double, minimumMs: Double, promise: Promise) {
+        val activity = currentActivity
+        if (activity == null) {
+            promise.reject("NO_ACTIVITY", "No activity to show the date picker")
+            return
+        }
+
+        val initial = Calendar.getInstance().apply { timeInMillis = initialMs.toLong() }
+
+        activity.runOnUiThread {
+            var settled = false
+            val dialog = DatePickerDialog(
+                activity,
+                { _, year, month, dayOfMonth ->
+                    settled = true
+                    val picked = Calendar.getInstance().apply {
+                        timeInMillis = initial.timeInMillis
+                        set(year, month, dayOfMonth)
+                    }
+                    promise.resolve(picked.timeInMillis.toDouble())
+                },
+                initial.get(Calendar.YEAR),
+                initial.get(Calendar.MONTH),
+                initial.get(Calendar.DAY_OF_MONTH)
+            )
+
+            if (minimumMs >= 0) {
+                dialog.datePicker.minDate = minimumMs.toLong()
+            }
+
+            dialog.setOnDismissListener {
+                if (!settled) {
+                    settled = true
+                    promise.resolve(null)
+                }
+            }
+            dialog.show()
+        }
+    }
+
+    /**
+     * Show a time picker, using the device's 12/24-hour setting
+     *
+     * @param initialMs Time selected when the dialog opens; its date is kept in the result
+     */
+    @ReactMethod
+    fun pickTime(initialMs: Double, promise: Promise) {
+        val activity = currentActivity
+        if (activity == null) {
+            promise.reject("NO_ACTIVITY", "No activity to show the time picker")
+            return
+        }
+
+        val initial = Calendar.getInstance().apply { timeInMillis = initialMs.toLong() }
+
+        activity.runOnUiThread {
+            var settled = false
+            val dialog = TimePickerDialog(
+                activity,
+                { _, hourOfDay, minute ->
+                    settled = true
+                    val picked = Calendar.getInstance().apply {
+                        timeInMillis = initial.timeInMillis
+                        set(Calendar.HOUR_OF_DAY, hourOfDay)
+                        set(Calendar.MINUTE, minute)
+                        set(Calendar.SECOND, 0)
+                        set(Calendar.MILLISECOND, 0)
+                    }
+                    promise.resolve(picked.timeInMillis.toDouble())
+                },
+                initial.get(Calendar.HOUR_OF_DAY),
+                initial.get(Calendar.MINUTE),
+                DateFormat.is24HourFormat(activity)
+            )
+
+            dialog.setOnDismissListener {
+                if (!settled) {
+                    settled = true
+                    promise.resolve(null)
+                }
+            }
+            dialog.show()
+        }
+    }
+}
@@ -0,0 +1,250 @@
+package com.educationcrm.playback
+
+import android.media.MediaCodec
+import android.media.MediaExtractor
+import android.media.MediaFormat
+import android.util.Base64
+import com.facebook.react.bridge.*
+import java.io.ByteArrayOutputStream
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.ExecutorService
+import java.util.concurrent.Executors
+import java.util.concurrent.atomic.AtomicInteger
+
+/**
+ * React Native module to decode a remote recording a segment at a time, so
+ * playback can start before the whole file is downloaded.
+ * MediaExtractor reads the file with HTTP Range requests, including the MP4
+ * index that MediaRecorder writes at the end.
+ */
+class RecordingStreamModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        private const val TAG = "RecordingStream"
+        private const val TIMEOUT_US = 10_000L
+    }
+
+    private class Stream(
+        val extractor: MediaExtractor,
+        val codec: MediaCodec,
+        var sampleRate: Int,
+        var channelCount: Int
+    ) {
+        var inputDone = false
+        var ended = false
+        /** Position of the next decoded sample in microseconds */
+        var positionUs = 0L
+    }
+
+    private val streams = ConcurrentHashMap<Int, Stream>()
+    private val nextId = AtomicInteger(1)
+
+    // Calls for one stream must not overlap, so everything runs on one thread
+    private val executor: ExecutorService = Executors.newSingleThreadExecutor()
+
+    override fun getName(): String = "RecordingStreamModule"
+
+    /**
+     * Open a remote recording for streaming.
+     * Resolves { streamId, durationMs, sampleRate, channelCount }.
+     */
+    @ReactMethod
+    fun open(url: String, headers: ReadableMap?, promise: Promise) {
+        executor.execute {
+            try {
+                promise.resolve(openStream(url, toHeaderMap(headers)))
+            } catch (e: Exception) {
+                android.util.Log.e(TAG, "Failed to open $url", e)
+                promise.reject("STREAM_FAILED", "Failed to open recording: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Decode the next segment of about segmentMs.
+     * Resolves { pcm, sampleRate, channelCount, startMs, durationMs, ended } with pcm
+     * as base64 interleaved 16-bit samples.
+     */
+    @ReactMethod
+    fun read(streamId: Int, segmentMs: Int, promise: Promise) {
+        executor.execute {
+            val stream = streams[streamId]
+            if (stream == null) {
+                promise.reject("STREAM_CLOSED", "Stream $streamId is not open")
+                return@execute
+            }
+
+            try {
+                promise.resolve(readSegment(stream, segmentMs))
+            } catch (e: Exception) {
+                android.util.Log.e(TAG, "Failed to read stream $streamId", e)
+                promise.reject("STREAM_FAILED", "Failed to read recording: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Move the stream to positionMs; the next read starts there.
+     */
+    @ReactMethod
+    fun seek(streamId: Int, positionMs: Double, promise: Promise) {
+        executor.execute {
+            val stream = streams[streamId]
+            if (stream == null) {
+                promise.reject("STREAM_CLOSED", "Stream $streamId is not open")
+                return@execute
+            }
+
+            try {
+                val positionUs = (positionMs * 1000).toLong()
+                stream.extractor.seekTo(positionUs, MediaExtractor.SEEK_TO_CLOSEST_SYNC)
+                stream.codec.flush()
+                stream.inputDone = false
+                stream.ended = false
+                stream.positionUs = maxOf(0L, stream.extractor.sampleTime)
+                promise.resolve(stream.positionUs / 1000.0)
+            } catch (e: Exception) {
+                android.util.Log.e(TAG, "Failed to seek stream $streamId", e)
+                promise.reject("STREAM_FAILED", "Failed to seek recording: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Close a stream and release its decoder.
+     */
+    @ReactMethod
+    fun close(streamId: Int) {
+        executor.execute {
+            streams.remove(streamId)?.let { release(it) }
+        }
+    }
+
+    override fun invalidate() {
+        executor.execute {
+            streams.values.forEach { release(it) }
+            streams.clear()
+        }
+        executor.shutdown()
+        super.invalidate()
+    }
+
+    private fun openStream(url: String, headers: Map<String, String>): WritableMap {
+        val extractor = MediaExtractor()
+        try {
+            extractor.setDataSource(url, headers)
+
+            val trackIndex = (0 until extractor.trackCount).firstOrNull {
+                extractor.getTrackFormat(it).getString(MediaFormat.KEY_MIME)?.startsWith("audio/") == true
+            } ?: throw IllegalArgumentException("No audio track in recording")
+
+            extractor.selectTrack(trackIndex)
+            val format = extractor.getTrackFormat(trackIndex)
+
+            val codec = MediaCodec.createDecoderByType(format.getString(MediaFormat.KEY_MIME)!!)
+            codec.configure(format, null, null, 0)
+            codec.start()
+
+            val stream = Stream(
+                extractor,
+                codec,
+                format.getInteger(MediaFormat.KEY_SAMPLE_RATE),
+                format.getInteger(MediaFormat.KEY_CHANNEL_COUNT)
+            )
+            val streamId = nextId.getAndIncrement()
+            streams[streamId] = stream
+
+            val durationUs = if (format.containsKey(MediaFormat.KEY_DURATION)) {
+                format.getLong(MediaFormat.KEY_DURATION)
+            } else {
+                0L
+            }
+
+            return Arguments.createMap().apply {
+                putInt("streamId", streamId)
+                putDouble("durationMs", durationUs / 1000.0)
+                putInt("sampleRate", stream.sampleRate)
+                putInt("channelCount", stream.channelCount)
+            }
+        } catch (e: Exception) {
+            extractor.release()
+            throw e
+        }
+    }
+
+    private fun readSegment(stream: Stream, segmentMs: Int): WritableMap {
+        val pcm = ByteArrayOutputStream()
+        val info = MediaCodec.BufferInfo()
+        val startUs = stream.positionUs
+        // Decoders output 16-bit PCM
+        val targetBytes = stream.sampleRate.toLong() * stream.channelCount * 2 * segmentMs / 1000
+
+        while (!stream.ended && pcm.size() < targetBytes) {
+            if (!stream.inputDone) {
+                val inIndex = stream.codec.dequeueInputBuffer(TIMEOUT_US)
+                if (inIndex >= 0) {
+                    val size = stream.extractor.readSampleData(stream.codec.getInputBuffer(inIndex)!!, 0)
+                    if (size < 0) {
+                        stream.codec.queueInputBuffer(inIndex, 0, 0, 0, MediaCodec.BUFFER_FLAG_END_OF_STREAM)
+                        stream.inputDone = true
+                    } else {
+                        stream.codec.queueInputBuffer(inIndex, 0, size, stream.extractor.sampleTime, 0)
+                        stream.extractor.advance()
+                    }
+                }
+            }
+
+            val outIndex = stream.codec.dequeueOutputBuffer(info, TIMEOUT_US)
+            if (outIndex == MediaCodec.INFO_OUTPUT_FORMAT_CHANGED) {
+                stream.sampleRate = stream.codec.outputFormat.getInteger(MediaFormat.KEY_SAMPLE_RATE)
+                stream.channelCount = stream.codec.outputFormat.getInteger(MediaFormat.KEY_CHANNEL_COUNT)
+            } else if (outIndex >= 0) {
+                val output = stream.codec.getOutputBuffer(outIndex)!!
+                val bytes = ByteArray(info.size)
+                output.position(info.offset)
+                output.get(bytes)
+                pcm.write(bytes)
+
+                stream.codec.releaseOutputBuffer(outIndex, false)
+                if (info.flags and MediaCodec.BUFFER_FLAG_END_OF_STREAM != 0) {
+                    stream.ended = true
+                }
+            }
+        }
+
+        val frames = pcm.size() / (stream.channelCount * 2)
+        val durationUs = frames * 1_000_000L / stream.sampleRate
+        stream.positionUs = startUs + durationUs
+
+        return Arguments.createMap().apply {
+            putString("pcm", Base64.encodeToString(pcm.toByteArray(), Base64.NO_WRAP))
+            putInt("sampleRate", stream.sampleRate)
+            putInt("channelCount", stream.channelCount)
+            putDouble("startMs", startUs / 1000.0)
+            putDouble("durationMs", durationUs / 1000.0)
+            putBoolean("ended", stream.ended)
+        }
+    }
+
+    private fun release(stream: Stream) {
+        try {
+            stream.codec.stop()
+        } catch (e: IllegalStateException) {
+            // Already stopped
+        }
+        stream.codec.release()
+        stream.extractor.release()
+    }
+
+    private fun toHeaderMap(headers: ReadableMap?): Map<String, String> {
+        val map = mutableMapOf<String, String>()
+        if (headers == null) return map
+
+        val iterator = headers.keySetIterator()
+        while (iterator.hasNextKey()) {
+            val key = iterator.nextKey()
+            headers.getString(key)?.let { map[key] = it }
+        }
+        return map
+    }
+}
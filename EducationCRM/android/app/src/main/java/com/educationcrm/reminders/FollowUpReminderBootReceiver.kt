@@ -0,0 +1,19 @@
+package com.educationcrm.reminders
+
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+
+/**
+ * FollowUpReminderBootReceiver - Restores reminder alarms after a reboot.
+ *
+ * Android clears all alarms when the device restarts.
+ */
+class FollowUpReminderBootReceiver : BroadcastReceiver() {
+
+    override fun onReceive(context: Context, intent: Intent) {
+        if (intent.action == Intent.ACTION_BOOT_COMPLETED) {
+            FollowUpReminderScheduler.rescheduleAll(context)
+        }
+    }
+}
@@ -0,0 +1,135 @@
+package com.educationcrm.reminders
+
+import android.content.Intent
+import com.facebook.react.bridge.*
+import com.facebook.react.modules.core.DeviceEventManagerModule
+
+/**
+ * React Native module to schedule follow-up reminders and report reminder taps.
+ */
+class FollowUpReminderModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        const val EVENT_REMINDER_OPENED = "com.educationcrm.FOLLOW_UP_REMINDER_OPENED"
+
+        private var instance: FollowUpReminderModule? = null
+
+        // Lead opened from a reminder before JS was ready to receive the event
+        private var pendingLeadId: String? = null
+
+        /**
+         * Handles an intent delivered to MainActivity, forwarding reminder taps to JS.
+         *
+         * @param intent Intent that launched or resumed the activity
+         */
+        fun handleIntent(intent: Intent?) {
+            val leadId = intent?.getStringExtra(FollowUpReminderScheduler.EXTRA_LEAD_ID) ?: return
+            intent.removeExtra(FollowUpReminderScheduler.EXTRA_LEAD_ID)
+
+            val module = instance
+            if (module != null && module.reactApplicationContext.hasActiveReactInstance()) {
+                val params = Arguments.createMap().apply {
+                    putString("leadId", leadId)
+                }
+                module.sendEvent(EVENT_REMINDER_OPENED, params)
+            } else {
+                pendingLeadId = leadId
+            }
+        }
+    }
+
+    init {
+        instance = this
+    }
+
+    override fun getName(): String = "FollowUpReminderModule"
+
+    override fun onCatalystInstanceDestroy() {
+        super.onCatalystInstanceDestroy()
+        if (instance == this) {
+            instance = null
+        }
+    }
+
+    /**
+     * Schedule (or replace) the reminder for a follow-up
+     */
+    @ReactMethod
+    fun scheduleReminder(
+        followUpId: String,
+        leadId: String,
+        title: String,
+        body: String,
+        scheduledAt: String,
+        triggerAt: Double,
+        promise: Promise
+    ) {
+        try {
+            FollowUpReminderScheduler.schedule(
+                reactApplicationContext,
+                FollowUpReminderScheduler.Reminder(
+                    followUpId = followUpId,
+                    leadId = leadId,
+                    title = title,
+                    body = body,
+                    scheduledAt = scheduledAt,
+                    triggerAt = triggerAt.toLong()
+                )
+            )
+            promise.resolve(true)
+        } catch (e: Exception) {
+            promise.reject("ERROR", "Failed to schedule reminder: ${e.message}", e)
+        }
+    }
+
+    /**
+     * Cancel the reminder for a follow-up
+     */
+    @ReactMethod
+    fun cancelReminder(followUpId: String, promise: Promise) {
+        try {
+            FollowUpReminderScheduler.cancel(reactApplicationContext, followUpId)
+            promise.resolve(true)
+        } catch (e: Exception) {
+            promise.reject("ERROR", "Failed to cancel reminder: ${e.message}", e)
+        }
+    }
+
+    /**
+     * Get all stored reminders
+     */
+    @ReactMethod
+    fun getReminders(promise: Promise) {
+        try {
+            val reminders = Arguments.createArray()
+            FollowUpReminderScheduler.getAll(reactApplicationContext).forEach { reminder ->
+                reminders.pushMap(Arguments.createMap().apply {
+                    putString("followUpId", reminder.followUpId)
+                    putString("leadId", reminder.leadId)
+                    putString("scheduledAt", reminder.scheduledAt)
+                    putDouble("triggerAt", reminder.triggerAt.toDouble())
+                    putBoolean("fired", reminder.fired)
+                })
+            }
+            promise.resolve(reminders)
+        } catch (e: Exception) {
+            promise.reject("ERROR", "Failed to get reminders: ${e.message}", e)
+        }
+    }
+
+    /**
+     * Get (and clear) the lead opened from a reminder before JS was listening
+     */
+    @ReactMethod
+    fun getInitialLeadId(promise: Promise) {
+        val leadId = pendingLeadId
+        pendingLeadId = null
+        promise.resolve(leadId)
+    }
+
+    private fun sendEvent(eventName: String, params: WritableMap?) {
+        reactApplicationContext
+            .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+            .emit(eventName, params)
+    }
+}
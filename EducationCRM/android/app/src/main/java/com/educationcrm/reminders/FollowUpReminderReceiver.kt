@@ -0,0 +1,42 @@
+package com.educationcrm.reminders
+
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+import android.util.Log
+
+/**
+ * FollowUpReminderReceiver - Handles reminder alarms and notification actions.
+ *
+ * This receiver processes:
+ * - Alarms that fire when a follow-up is due
+ * - Snooze actions from the reminder notification
+ */
+class FollowUpReminderReceiver : BroadcastReceiver() {
+
+    companion object {
+        private const val TAG = "FollowUpReminderReceiver"
+    }
+
+    override fun onReceive(context: Context, intent: Intent) {
+        val followUpId = intent.getStringExtra(FollowUpReminderScheduler.EXTRA_FOLLOW_UP_ID)
+        if (followUpId == null) {
+            Log.w(TAG, "Received ${intent.action} without a follow-up ID")
+            return
+        }
+
+        when (intent.action) {
+            FollowUpReminderScheduler.ACTION_SHOW_REMINDER -> {
+                FollowUpReminderScheduler.show(context, followUpId)
+            }
+            FollowUpReminderScheduler.ACTION_SNOOZE_REMINDER -> {
+                val snooze = intent.getStringExtra(FollowUpReminderScheduler.EXTRA_SNOOZE)
+                    ?: FollowUpReminderScheduler.SNOOZE_10_MINUTES
+                FollowUpReminderScheduler.snooze(context, followUpId, snooze)
+            }
+            else -> {
+                Log.w(TAG, "Unknown action: ${intent.action}")
+            }
+        }
+    }
+}
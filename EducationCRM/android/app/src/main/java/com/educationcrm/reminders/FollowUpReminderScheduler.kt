@@ -0,0 +1,313 @@
+package com.educationcrm.reminders
+
+import android.app.AlarmManager
+import android.app.Notification
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.content.Context
+import android.content.Intent
+import android.os.Build
+import android.util.Log
+import androidx.core.app.NotificationCompat
+import com.educationcrm.MainActivity
+import com.educationcrm.R
+import org.json.JSONObject
+import java.util.Calendar
+
+/**
+ * FollowUpReminderScheduler - Schedules on-device reminders for follow-ups.
+ *
+ * This object handles:
+ * - Persisting reminders so they survive app restarts and reboots
+ * - Scheduling alarms with AlarmManager
+ * - Showing the reminder notification with snooze actions
+ * - Snoozing and cancelling reminders
+ *
+ * Reminders are keyed by follow-up ID. A reminder stays stored after it fires so the
+ * app doesn't schedule it again, until the follow-up is completed or rescheduled.
+ */
+object FollowUpReminderScheduler {
+
+    private const val TAG = "FollowUpReminderScheduler"
+    private const val PREFS_NAME = "follow_up_reminders"
+    private const val CHANNEL_ID = "follow_up_reminders"
+    private const val CHANNEL_NAME = "Follow-up Reminders"
+
+    const val ACTION_SHOW_REMINDER = "com.educationcrm.ACTION_SHOW_FOLLOW_UP_REMINDER"
+    const val ACTION_SNOOZE_REMINDER = "com.educationcrm.ACTION_SNOOZE_FOLLOW_UP_REMINDER"
+
+    const val EXTRA_FOLLOW_UP_ID = "followUpId"
+    const val EXTRA_LEAD_ID = "reminderLeadId"
+    const val EXTRA_SNOOZE = "snooze"
+
+    const val SNOOZE_10_MINUTES = "10m"
+    const val SNOOZE_1_HOUR = "1h"
+    const val SNOOZE_TOMORROW = "tomorrow"
+
+    /**
+     * A scheduled reminder.
+     *
+     * @property scheduledAt Follow-up time the reminder was created for (ISO8601), used by
+     *   the app to detect rescheduled follow-ups
+     * @property triggerAt Time the notification shows, in epoch millis (later than the
+     *   follow-up time once snoozed)
+     */
+    data class Reminder(
+        val followUpId: String,
+        val leadId: String,
+        val title: String,
+        val body: String,
+        val scheduledAt: String,
+        val triggerAt: Long,
+        val fired: Boolean = false
+    ) {
+        fun toJson(): String = JSONObject().apply {
+            put("followUpId", followUpId)
+            put("leadId", leadId)
+            put("title", title)
+            put("body", body)
+            put("scheduledAt", scheduledAt)
+            put("triggerAt", triggerAt)
+            put("fired", fired)
+        }.toString()
+
+        companion object {
+            fun fromJson(json: String): Reminder {
+                val obj = JSONObject(json)
+                return Reminder(
+                    followUpId = obj.getString("followUpId"),
+                    leadId = obj.getString("leadId"),
+                    title = obj.getString("title"),
+                    body = obj.getString("body"),
+                    scheduledAt = obj.getString("scheduledAt"),
+                    triggerAt = obj.getLong("triggerAt"),
+                    fired = obj.optBoolean("fired", false)
+                )
+            }
+        }
+    }
+
+    /**
+     * Stores a reminder and schedules its alarm, replacing any existing reminder
+     * for the same follow-up.
+     *
+     * @param context Application context
+     * @param reminder Reminder to schedule
+     */
+    fun schedule(context: Context, reminder: Reminder) {
+        cancelNotification(context, reminder.followUpId)
+        save(context, reminder)
+        setAlarm(context, reminder)
+        Log.d(TAG, "Scheduled reminder for follow-up ${reminder.followUpId} at ${reminder.triggerAt}")
+    }
+
+    /**
+     * Cancels a reminder's alarm and notification and forgets it.
+     *
+     * @param context Application context
+     * @param followUpId Follow-up ID
+     */
+    fun cancel(context: Context, followUpId: String) {
+        val alarmManager = context.getSystemService(Context.ALARM_SERVICE) as AlarmManager
+        alarmManager.cancel(createAlarmIntent(context, followUpId))
+        cancelNotification(context, followUpId)
+
+        prefs(context).edit().remove(followUpId).apply()
+        Log.d(TAG, "Cancelled reminder for follow-up $followUpId")
+    }
+
+    /**
+     * Pushes a reminder back and dismisses its notification.
+     *
+     * @param context Application context
+     * @param followUpId Follow-up ID
+     * @param snooze One of [SNOOZE_10_MINUTES], [SNOOZE_1_HOUR] or [SNOOZE_TOMORROW]
+     */
+    fun snooze(context: Context, followUpId: String, snooze: String) {
+        val reminder = get(context, followUpId) ?: return
+        val now = System.currentTimeMillis()
+
+        val triggerAt = when (snooze) {
+            SNOOZE_10_MINUTES -> now + 10 * 60 * 1000L
+            SNOOZE_1_HOUR -> now + 60 * 60 * 1000L
+            else -> Calendar.getInstance().apply {
+                add(Calendar.DAY_OF_YEAR, 1)
+                set(Calendar.HOUR_OF_DAY, 10)
+                set(Calendar.MINUTE, 0)
+                set(Calendar.SECOND, 0)
+                set(Calendar.MILLISECOND, 0)
+            }.timeInMillis
+        }
+
+        schedule(context, reminder.copy(triggerAt = triggerAt, fired = false))
+    }
+
+    /**
+     * Shows the notification for a due reminder.
+     *
+     * @param context Application context
+     * @param followUpId Follow-up ID
+     */
+    fun show(context: Context, followUpId: String) {
+        val reminder = get(context, followUpId) ?: return
+        createNotificationChannel(context)
+
+        // Tapping the notification opens the lead in the app
+        val openIntent = Intent(context, MainActivity::class.java).apply {
+            flags = Intent.FLAG_ACTIVITY_NEW_TASK or Intent.FLAG_ACTIVITY_SINGLE_TOP
+            putExtra(EXTRA_LEAD_ID, reminder.leadId)
+            putExtra(EXTRA_FOLLOW_UP_ID, reminder.followUpId)
+        }
+
+        val openPendingIntent = PendingIntent.getActivity(
+            context,
+            requestCode(followUpId),
+            openIntent,
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+
+        val notification = NotificationCompat.Builder(context, CHANNEL_ID)
+            .setSmallIcon(android.R.drawable.ic_menu_call)
+            .setContentTitle(reminder.title)
+            .setContentText(reminder.body)
+            .setContentIntent(openPendingIntent)
+            .setPriority(NotificationCompat.PRIORITY_HIGH)
+            .setCategory(NotificationCompat.CATEGORY_REMINDER)
+            .setAutoCancel(true)
+            .addAction(createSnoozeAction(context, followUpId, SNOOZE_10_MINUTES, R.string.snooze_10_minutes))
+            .addAction(createSnoozeAction(context, followUpId, SNOOZE_1_HOUR, R.string.snooze_1_hour))
+            .addAction(createSnoozeAction(context, followUpId, SNOOZE_TOMORROW, R.string.snooze_tomorrow))
+            .build()
+
+        val notificationManager = context.getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+        notificationManager.notify(notificationId(followUpId), notification)
+
+        save(context, reminder.copy(fired = true))
+    }
+
+    /**
+     * Schedules alarms for every stored reminder that hasn't fired.
+     *
+     * Alarms are cleared on reboot, so this is called from [FollowUpReminderBootReceiver].
+     *
+     * @param context Application context
+     */
+    fun rescheduleAll(context: Context) {
+        val reminders = getAll(context).filter { !it.fired }
+        reminders.forEach { setAlarm(context, it) }
+        Log.d(TAG, "Rescheduled ${reminders.size} reminders")
+    }
+
+    /**
+     * Gets all stored reminders.
+     *
+     * @param context Application context
+     * @return Stored reminders
+     */
+    fun getAll(context: Context): List<Reminder> {
+        return prefs(context).all.values.mapNotNull { value ->
+            try {
+                Reminder.fromJson(value as String)
+            } catch (e: Exception) {
+                Log.w(TAG, "Skipping unreadable reminder", e)
+                null
+            }
+        }
+    }
+
+    private fun get(context: Context, followUpId: String): Reminder? {
+        val json = prefs(context).getString(followUpId, null) ?: return null
+        return Reminder.fromJson(json)
+    }
+
+    private fun save(context: Context, reminder: Reminder) {
+        prefs(context).edit().putString(reminder.followUpId, reminder.toJson()).apply()
+    }
+
+    private fun prefs(context: Context) =
+        context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+
+    private fun setAlarm(context: Context, reminder: Reminder) {
+        val alarmManager = context.getSystemService(Context.ALARM_SERVICE) as AlarmManager
+        val pendingIntent = createAlarmIntent(context, reminder.followUpId)
+
+        // Exact alarms need a special permission on Android 12+; fall back to an inexact alarm
+        val canScheduleExact = Build.VERSION.SDK_INT < Build.VERSION_CODES.S ||
+            alarmManager.canScheduleExactAlarms()
+
+        if (canScheduleExact) {
+            alarmManager.setExactAndAllowWhileIdle(AlarmManager.RTC_WAKEUP, reminder.triggerAt, pendingIntent)
+        } else {
+            alarmManager.setAndAllowWhileIdle(AlarmManager.RTC_WAKEUP, reminder.triggerAt, pendingIntent)
+        }
+    }
+
+    private fun createAlarmIntent(context: Context, followUpId: String): PendingIntent {
+        val intent = Intent(context, FollowUpReminderReceiver::class.java).apply {
+            action = ACTION_SHOW_REMINDER
+            putExtra(EXTRA_FOLLOW_UP_ID, followUpId)
+        }
+
+        return PendingIntent.getBroadcast(
+            context,
+            requestCode(followUpId),
+            intent,
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+    }
+
+    private fun createSnoozeAction(
+        context: Context,
+        followUpId: String,
+        snooze: String,
+        labelRes: Int
+    ): NotificationCompat.Action {
+        val intent = Intent(context, FollowUpReminderReceiver::class.java).apply {
+            action = ACTION_SNOOZE_REMINDER
+            // Unique data so each snooze option gets its own PendingIntent
+            data = android.net.Uri.parse("educationcrm://reminders/$followUpId/$snooze")
+            putExtra(EXTRA_FOLLOW_UP_ID, followUpId)
+            putExtra(EXTRA_SNOOZE, snooze)
+        }
+
+        val pendingIntent = PendingIntent.getBroadcast(
+            context,
+            requestCode(followUpId),
+            intent,
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+
+        return NotificationCompat.Action.Builder(
+            android.R.drawable.ic_popup_reminder,
+            context.getString(labelRes),
+            pendingIntent
+        ).build()
+    }
+
+    private fun cancelNotification(context: Context, followUpId: String) {
+        val notificationManager = context.getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+        notificationManager.cancel(notificationId(followUpId))
+    }
+
+    private fun createNotificationChannel(context: Context) {
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+            val channel = NotificationChannel(
+                CHANNEL_ID,
+                CHANNEL_NAME,
+                NotificationManager.IMPORTANCE_HIGH
+            ).apply {
+                description = "Reminders for scheduled follow-up calls"
+                lockscreenVisibility = Notification.VISIBILITY_PRIVATE
+            }
+
+            val notificationManager = context.getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+            notificationManager.createNotificationChannel(channel)
+        }
+    }
+
+    private fun requestCode(followUpId: String): Int = followUpId.hashCode()
+
+    // Offset keeps reminder notifications clear of the in-call notification ID
+    private fun notificationId(followUpId: String): Int = 2000 + (followUpId.hashCode() and 0xFFFFFF)
+}
@@ -0,0 +1,212 @@
+package com.educationcrm.security
+
+import android.security.keystore.KeyGenParameterSpec
+import android.security.keystore.KeyProperties
+import android.util.Log
+import java.io.ByteArrayInputStream
+import java.io.File
+import java.io.FileInputStream
+import java.io.FileOutputStream
+import java.io.InputStream
+import java.io.SequenceInputStream
+import java.security.KeyStore
+import javax.crypto.Cipher
+import javax.crypto.CipherInputStream
+import javax.crypto.CipherOutputStream
+import javax.crypto.KeyGenerator
+import javax.crypto.SecretKey
+import javax.crypto.spec.GCMParameterSpec
+
+/**
+ * AES-256-GCM encryption with the app's key in the Android Keystore, shared by
+ * SecureStorageModule and the recorders, which encrypt call recordings as soon
+ * as they stop.
+ *
+ * Files are stored as a header, the 12-byte IV and the ciphertext, so an
+ * encrypted recording can be told apart from one made before recordings were
+ * encrypted. Files encrypted before the header was added start with the IV and
+ * can still be read.
+ */
+object LocalDataCipher {
+
+    private const val TAG = "LocalDataCipher"
+    private const val KEYSTORE = "AndroidKeyStore"
+    private const val KEY_ALIAS = "educationcrm_local_data"
+    private const val TRANSFORMATION = "AES/GCM/NoPadding"
+    private const val IV_SIZE = 12
+    private const val TAG_BITS = 128
+    private const val BUFFER_SIZE = 64 * 1024
+    private val FILE_HEADER = "ECRMENC1".toByteArray(Charsets.US_ASCII)
+
+    /** Thrown when decrypting without a key, e.g. after it was destroyed on logout */
+    class MissingKeyException : IllegalStateException("No encryption key")
+
+    /**
+     * Cipher encrypting with the key, which is created on first use, and a fresh IV.
+     */
+    fun encryptingCipher(): Cipher =
+        Cipher.getInstance(TRANSFORMATION).apply { init(Cipher.ENCRYPT_MODE, getOrCreateKey()) }
+
+    /**
+     * Cipher decrypting data encrypted with the key and the IV at [offset] of [iv].
+     */
+    fun decryptingCipher(iv: ByteArray, offset: Int = 0): Cipher {
+        val key = getKey() ?: throw MissingKeyException()
+        return Cipher.getInstance(TRANSFORMATION).apply {
+            init(Cipher.DECRYPT_MODE, key, GCMParameterSpec(TAG_BITS, iv, offset, IV_SIZE))
+        }
+    }
+
+    /**
+     * Encrypt [source] into [dest], which may be the same file. The source is
+     * deleted once the encrypted copy is complete, and kept if it fails.
+     */
+    fun encryptFile(source: File, dest: File) {
+        val temp = File("${dest.path}.enc.part")
+        try {
+            val cipher = encryptingCipher()
+
+            FileInputStream(source).use { input ->
+                FileOutputStream(temp).use { output ->
+                    output.write(FILE_HEADER)
+                    output.write(cipher.iv)
+                    CipherOutputStream(output, cipher).use { encrypted ->
+                        input.copyTo(encrypted, BUFFER_SIZE)
+                    }
+                }
+            }
+
+            source.delete()
+            if (!temp.renameTo(dest)) {
+                throw IllegalStateException("Could not move encrypted file to ${dest.path}")
+            }
+        } catch (e: Exception) {
+            temp.delete()
+            throw e
+        }
+    }
+
+    /**
+     * Encrypt a finished recording in place. Empty files are left alone, so a
+     * failed recording still reads as empty, and a recording that can't be
+     * encrypted is kept rather than losing the call; uploads handle both.
+     * @return Whether the recording is now encrypted
+     */
+    fun encryptRecording(file: File): Boolean {
+        if (!file.exists() || file.length() == 0L) {
+            return false
+        }
+
+        return try {
+            encryptFile(file, file)
+            true
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to encrypt recording ${file.path}", e)
+            false
+        }
+    }
+
+    /**
+     * Whether [file] was written by encryptFile. Files encrypted before the
+     * header was added can't be recognized.
+     */
+    fun isEncrypted(file: File): Boolean {
+        if (file.length() < FILE_HEADER.size + IV_SIZE) {
+            return false
+        }
+
+        val header = ByteArray(FILE_HEADER.size)
+        FileInputStream(file).use { input -> readFully(input, header) }
+        return header.contentEquals(FILE_HEADER)
+    }
+
+    /**
+     * Open an encrypted file for reading its plaintext.
+     */
+    fun openDecrypted(file: File): InputStream {
+        val input = FileInputStream(file)
+        try {
+            val prefix = ByteArray(FILE_HEADER.size + IV_SIZE)
+            readFully(input, prefix)
+
+            if (prefix.copyOf(FILE_HEADER.size).contentEquals(FILE_HEADER)) {
+                return CipherInputStream(input, decryptingCipher(prefix, FILE_HEADER.size))
+            }
+
+            // Without a header the IV comes first, followed by the start of the ciphertext
+            val rest = ByteArrayInputStream(prefix, IV_SIZE, prefix.size - IV_SIZE)
+            return CipherInputStream(SequenceInputStream(rest, input), decryptingCipher(prefix))
+        } catch (e: Exception) {
+            input.close()
+            throw e
+        }
+    }
+
+    /**
+     * Decrypt a whole file into memory.
+     */
+    fun readDecrypted(file: File): ByteArray = openDecrypted(file).use { it.readBytes() }
+
+    /**
+     * Write the plaintext of an encrypted file to [dest]; the source is kept.
+     */
+    fun decryptFile(source: File, dest: File) {
+        try {
+            openDecrypted(source).use { input ->
+                FileOutputStream(dest).use { output -> input.copyTo(output, BUFFER_SIZE) }
+            }
+        } catch (e: Exception) {
+            dest.delete()
+            throw e
+        }
+    }
+
+    /**
+     * Delete the key. Everything encrypted with it can no longer be read, and
+     * the next encryption creates a new key.
+     */
+    @Synchronized
+    fun destroyKey() {
+        val keyStore = KeyStore.getInstance(KEYSTORE).apply { load(null) }
+        if (keyStore.containsAlias(KEY_ALIAS)) {
+            keyStore.deleteEntry(KEY_ALIAS)
+        }
+    }
+
+    @Synchronized
+    private fun getKey(): SecretKey? {
+        val keyStore = KeyStore.getInstance(KEYSTORE).apply { load(null) }
+        return (keyStore.getEntry(KEY_ALIAS, null) as? KeyStore.SecretKeyEntry)?.secretKey
+    }
+
+    // Synchronized so the module and a recorder can't each create a key, one replacing the other
+    @Synchronized
+    private fun getOrCreateKey(): SecretKey {
+        getKey()?.let { return it }
+
+        val generator = KeyGenerator.getInstance(KeyProperties.KEY_ALGORITHM_AES, KEYSTORE)
+        generator.init(
+            KeyGenParameterSpec.Builder(
+                KEY_ALIAS,
+                KeyProperties.PURPOSE_ENCRYPT or KeyProperties.PURPOSE_DECRYPT
+            )
+                .setBlockModes(KeyProperties.BLOCK_MODE_GCM)
+                .setEncryptionPaddings(KeyProperties.ENCRYPTION_PADDING_NONE)
+                .setKeySize(256)
+                .build()
+        )
+        Log.d(TAG, "Created encryption key")
+        return generator.generateKey()
+    }
+
+    private fun readFully(input: InputStream, buffer: ByteArray) {
+        var read = 0
+        while (read < buffer.size) {
+            val count = input.read(buffer, read, buffer.size - read)
+            if (count < 0) {
+                throw IllegalArgumentException("File is too short to be encrypted")
+            }
+            read += count
+        }
+    }
+}
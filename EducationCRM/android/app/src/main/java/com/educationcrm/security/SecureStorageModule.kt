@@ -0,0 +1,161 @@
+package com.educationcrm.security
+
+import android.util.Base64
+import android.util.Log
+import com.facebook.react.bridge.*
+import java.io.File
+import java.util.concurrent.ExecutorService
+import java.util.concurrent.Executors
+
+/**
+ * React Native module encrypting offline data, cached recordings and the
+ * app's own call recordings with an AES-256-GCM key kept in the Android
+ * Keystore (see LocalDataCipher). The key never leaves the device, so copied
+ * files and storage are unreadable elsewhere, and deleting it on logout makes
+ * everything encrypted with it unreadable.
+ *
+ * Strings are stored as the 12-byte IV followed by the ciphertext.
+ */
+class SecureStorageModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        private const val TAG = "SecureStorage"
+        private const val IV_SIZE = 12
+    }
+
+    // Keystore and file work stays off the JS thread
+    private val executor: ExecutorService = Executors.newSingleThreadExecutor()
+
+    override fun getName(): String = "SecureStorageModule"
+
+    /**
+     * Encrypt a string. Resolves the IV and ciphertext as base64.
+     */
+    @ReactMethod
+    fun encryptString(plaintext: String, promise: Promise) {
+        executor.execute {
+            try {
+                val cipher = LocalDataCipher.encryptingCipher()
+                val encrypted = cipher.iv + cipher.doFinal(plaintext.toByteArray(Charsets.UTF_8))
+                promise.resolve(Base64.encodeToString(encrypted, Base64.NO_WRAP))
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to encrypt string", e)
+                promise.reject("ENCRYPT_FAILED", "Failed to encrypt data: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Decrypt a string from encryptString. Rejects when it was encrypted with
+     * another key, e.g. one destroyed on logout.
+     */
+    @ReactMethod
+    fun decryptString(encoded: String, promise: Promise) {
+        executor.execute {
+            try {
+                val encrypted = Base64.decode(encoded, Base64.NO_WRAP)
+                val cipher = LocalDataCipher.decryptingCipher(encrypted)
+                val plaintext = cipher.doFinal(encrypted, IV_SIZE, encrypted.size - IV_SIZE)
+                promise.resolve(String(plaintext, Charsets.UTF_8))
+            } catch (e: LocalDataCipher.MissingKeyException) {
+                promise.reject("NO_KEY", "No encryption key")
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to decrypt string", e)
+                promise.reject("DECRYPT_FAILED", "Failed to decrypt data: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Encrypt sourcePath into destPath. The source is deleted once the
+     * encrypted copy is complete; destPath may be the same as sourcePath.
+     */
+    @ReactMethod
+    fun encryptFile(sourcePath: String, destPath: String, promise: Promise) {
+        executor.execute {
+            try {
+                LocalDataCipher.encryptFile(File(sourcePath), File(destPath))
+                promise.resolve(null)
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to encrypt $sourcePath", e)
+                promise.reject("ENCRYPT_FAILED", "Failed to encrypt file: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Read a file from encryptFile. Resolves the plaintext as base64, so the
+     * decrypted recording only ever exists in memory.
+     */
+    @ReactMethod
+    fun readDecryptedFile(path: String, promise: Promise) {
+        executor.execute {
+            try {
+                val plaintext = LocalDataCipher.readDecrypted(File(path))
+                promise.resolve(Base64.encodeToString(plaintext, Base64.NO_WRAP))
+            } catch (e: LocalDataCipher.MissingKeyException) {
+                promise.reject("NO_KEY", "No encryption key")
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to decrypt $path", e)
+                promise.reject("DECRYPT_FAILED", "Failed to decrypt file: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Decrypt sourcePath into destPath, e.g. a recording about to be uploaded.
+     * The encrypted source is kept.
+     */
+    @ReactMethod
+    fun decryptFile(sourcePath: String, destPath: String, promise: Promise) {
+        executor.execute {
+            try {
+                LocalDataCipher.decryptFile(File(sourcePath), File(destPath))
+                promise.resolve(null)
+            } catch (e: LocalDataCipher.MissingKeyException) {
+                promise.reject("NO_KEY", "No encryption key")
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to decrypt $sourcePath", e)
+                promise.reject("DECRYPT_FAILED", "Failed to decrypt file: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Resolve whether a file was encrypted by encryptFile or a recorder.
+     */
+    @ReactMethod
+    fun isEncryptedFile(path: String, promise: Promise) {
+        executor.execute {
+            try {
+                promise.resolve(LocalDataCipher.isEncrypted(File(path)))
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to read $path", e)
+                promise.reject("READ_FAILED", "Failed to read file: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Delete the key. Everything encrypted with it can no longer be read, and
+     * the next encryption creates a new key.
+     */
+    @ReactMethod
+    fun destroyKey(promise: Promise) {
+        executor.execute {
+            try {
+                LocalDataCipher.destroyKey()
+                Log.d(TAG, "Encryption key destroyed")
+                promise.resolve(null)
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to destroy key", e)
+                promise.reject("DESTROY_FAILED", "Failed to destroy encryption key: ${e.message}", e)
+            }
+        }
+    }
+
+    override fun invalidate() {
+        executor.shutdown()
+        super.invalidate()
+    }
+}
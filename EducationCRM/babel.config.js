@@ -1,3 +1,9 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
+  env: {
+    // Jest runs without ES module support, so dynamic imports become requires
+    test: {
+      plugins: ['@babel/plugin-transform-dynamic-import'],
+    },
+  },
 };
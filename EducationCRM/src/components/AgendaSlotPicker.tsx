@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import FollowUpService, { FollowUp } from '../services/FollowUpService';
+import { AGENDA_HOURS, SLOT_CAPACITY, dayKey, slotKey } from '../utils/agenda';
+import { parseDateTime, toApiDateTime } from '../utils/dateTime';
+
+interface AgendaSlotPickerProps {
+  visible: boolean;
+  followUp: FollowUp | null;
+  days: Date[];
+  slotLoad: Map<string, number>;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const formatHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour} ${suffix}`;
+};
+
+/**
+ * AgendaSlotPicker - Moves a follow-up to another day and hour of the agenda
+ * Shows how many callbacks each hour already holds and warns before overbooking one
+ */
+const AgendaSlotPicker: React.FC<AgendaSlotPickerProps> = ({
+  visible,
+  followUp,
+  days,
+  slotLoad,
+  onClose,
+  onSaved,
+}) => {
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const [selectedHour, setSelectedHour] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    // Start from the follow-up's current slot each time the picker opens
+    if (visible && followUp) {
+      const current = parseDateTime(followUp.scheduled_at)!;
+      const match = days.find(day => dayKey(day) === dayKey(current));
+      setSelectedDay(match || null);
+      setSelectedHour(match ? current.getHours() : null);
+    }
+  }, [visible, followUp, days]);
+
+  const slotDate = (day: Date, hour: number): Date => {
+    const date = new Date(day);
+    date.setHours(hour, 0, 0, 0);
+    return date;
+  };
+
+  const slotCount = (day: Date, hour: number): number => {
+    const count = slotLoad.get(slotKey(slotDate(day, hour))) || 0;
+    const current = followUp ? parseDateTime(followUp.scheduled_at) : null;
+
+    // The follow-up being moved doesn't count against its own slot
+    if (current && slotKey(current) === slotKey(slotDate(day, hour))) {
+      return count - 1;
+    }
+    return count;
+  };
+
+  const save = async (scheduledAt: Date) => {
+    if (!followUp) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await FollowUpService.updateFollowUp(followUp.lead_id, followUp.id, {
+        scheduled_at: toApiDateTime(scheduledAt),
+      });
+      onSaved();
+    } catch (error) {
+      console.error('[AgendaSlotPicker] Failed to reschedule follow-up:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', `Failed to reschedule follow-up: ${errorMessage}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!selectedDay || selectedHour === null) {
+      Alert.alert('Error', 'Please pick a day and time');
+      return;
+    }
+
+    const scheduledAt = slotDate(selectedDay, selectedHour);
+    const count = slotCount(selectedDay, selectedHour);
+
+    if (count >= SLOT_CAPACITY) {
+      Alert.alert(
+        'Slot Is Full',
+        `${count} callbacks are already booked at ${formatHour(selectedHour)}. Book this one too?`,
+        [
+          { text: 'Pick Another', style: 'cancel' },
+          { text: 'Book Anyway', onPress: () => save(scheduledAt) },
+        ]
+      );
+      return;
+    }
+
+    save(scheduledAt);
+  };
+
+  const now = new Date();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <ScrollView>
+            <Text style={styles.title}>Move Follow-up</Text>
+            {followUp?.lead?.student_name || followUp?.lead_name ? (
+              <Text style={styles.subtitle}>
+                {followUp.lead?.student_name || followUp.lead_name}
+              </Text>
+            ) : null}
+
+            <Text style={styles.label}>Day</Text>
+            <View style={styles.chipRow}>
+              {days.map(day => {
+                const isSelected = selectedDay !== null && dayKey(selectedDay) === dayKey(day);
+                const isPast = slotDate(day, AGENDA_HOURS[AGENDA_HOURS.length - 1]) < now;
+
+                return (
+                  <TouchableOpacity
+                    key={dayKey(day)}
+                    style={[styles.chip, isSelected && styles.chipSelected, isPast && styles.chipDisabled]}
+                    onPress={() => {
+                      setSelectedDay(day);
+                      setSelectedHour(null);
+                    }}
+                    disabled={isPast}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {day.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {selectedDay && (
+              <>
+                <Text style={styles.label}>Time</Text>
+                <View style={styles.chipRow}>
+                  {AGENDA_HOURS.map(hour => {
+                    const count = slotCount(selectedDay, hour);
+                    const isSelected = selectedHour === hour;
+                    const isPast = slotDate(selectedDay, hour) < now;
+                    const isFull = count >= SLOT_CAPACITY;
+
+                    return (
+                      <TouchableOpacity
+                        key={hour}
+                        style={[
+                          styles.chip,
+                          isFull && styles.chipFull,
+                          isSelected && styles.chipSelected,
+                          isPast && styles.chipDisabled,
+                        ]}
+                        onPress={() => setSelectedHour(hour)}
+                        disabled={isPast}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                          {formatHour(hour)}
+                          {count > 0 ? ` · ${count}` : ''}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {selectedHour !== null && slotCount(selectedDay, selectedHour) >= SLOT_CAPACITY && (
+                  <Text style={styles.warningText}>
+                    ⚠️ This hour already has {slotCount(selectedDay, selectedHour)} callbacks booked
+                  </Text>
+                )}
+              </>
+            )}
+
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.closeButton} onPress={onClose} disabled={isSaving}>
+                <Text style={styles.closeButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Move</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  chipSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipFull: {
+    borderColor: '#f59e0b',
+    backgroundColor: '#fffbeb',
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#b45309',
+    marginBottom: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  closeButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default AgendaSlotPicker;
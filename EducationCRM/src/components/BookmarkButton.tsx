@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+} from 'react-native';
+
+/** Labels offered for a one-tap bookmark */
+export const QUICK_BOOKMARK_LABELS = [
+  'Fee discussed',
+  'Parent joined',
+  'Interested',
+  'Objection',
+  'Callback requested',
+];
+
+// Matches the server's limit on bookmark labels
+const MAX_LABEL_LENGTH = 50;
+
+interface BookmarkButtonProps {
+  /** Called with the chosen label; returns whether the bookmark was added */
+  onBookmark: (label: string) => boolean;
+}
+
+/**
+ * BookmarkButton - Marks the current moment of a call recording
+ * Opens a quick label picker with room for a custom label
+ */
+const BookmarkButton: React.FC<BookmarkButtonProps> = ({ onBookmark }) => {
+  const [showPicker, setShowPicker] = useState(false);
+  const [customLabel, setCustomLabel] = useState('');
+  const [lastLabel, setLastLabel] = useState<string | null>(null);
+
+  const handleSelect = (label: string) => {
+    const trimmed = label.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    if (onBookmark(trimmed)) {
+      setLastLabel(trimmed);
+    }
+    setCustomLabel('');
+    setShowPicker(false);
+  };
+
+  return (
+    <View>
+      <TouchableOpacity style={styles.button} onPress={() => setShowPicker(true)}>
+        <Text style={styles.buttonText}>🔖 Bookmark</Text>
+      </TouchableOpacity>
+      {lastLabel && <Text style={styles.lastText}>Bookmarked: {lastLabel}</Text>}
+
+      <Modal
+        visible={showPicker}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowPicker(false)}
+      >
+        <TouchableOpacity
+          style={styles.overlay}
+          activeOpacity={1}
+          onPress={() => setShowPicker(false)}
+        >
+          <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+            <Text style={styles.title}>Bookmark this moment</Text>
+
+            <View style={styles.labels}>
+              {QUICK_BOOKMARK_LABELS.map(label => (
+                <TouchableOpacity
+                  key={label}
+                  style={styles.labelChip}
+                  onPress={() => handleSelect(label)}
+                >
+                  <Text style={styles.labelChipText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.customRow}>
+              <TextInput
+                style={styles.input}
+                placeholder="Custom label"
+                placeholderTextColor="#9ca3af"
+                value={customLabel}
+                onChangeText={setCustomLabel}
+                maxLength={MAX_LABEL_LENGTH}
+                returnKeyType="done"
+                onSubmitEditing={() => handleSelect(customLabel)}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, !customLabel.trim() && styles.addButtonDisabled]}
+                onPress={() => handleSelect(customLabel)}
+                disabled={!customLabel.trim()}
+              >
+                <Text style={styles.addButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#fcd34d',
+    backgroundColor: '#fffbeb',
+    marginTop: 8,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#b45309',
+    fontFamily: 'System',
+  },
+  lastText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 4,
+    fontFamily: 'System',
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 16,
+    fontFamily: 'System',
+  },
+  labels: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  labelChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#fcd34d',
+    backgroundColor: '#fffbeb',
+  },
+  labelChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#b45309',
+    fontFamily: 'System',
+  },
+  customRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+    fontFamily: 'System',
+  },
+  addButton: {
+    justifyContent: 'center',
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    backgroundColor: '#f59e0b',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+    fontFamily: 'System',
+  },
+});
+
+export default BookmarkButton;
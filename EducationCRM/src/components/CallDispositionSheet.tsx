@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import LeadService, { CallData } from '../services/LeadService';
+import FollowUpService from '../services/FollowUpService';
+import StatusReasonFields from './StatusReasonFields';
+import { FOLLOW_UP_PRESETS, followUpDateFor } from '../utils/followUpPresets';
+import { canTransition, requiresStatusReason } from '../utils/leadStatus';
+import { usePipeline } from '../hooks/usePipeline';
+
+interface CallDispositionSheetProps {
+  visible: boolean;
+  leadId: string;
+  callLogId: string | null;
+  durationSeconds: number;
+  /** Outcome read from the phone's call log, preselected when known */
+  measuredOutcome?: CallData['outcome'] | null;
+  currentStatus: string;
+  onClose: () => void;
+  onSaved: (callData: CallData) => void;
+}
+
+const OUTCOME_OPTIONS: { label: string; value: CallData['outcome']; color: string }[] = [
+  { label: 'Connected', value: 'connected', color: '#10b981' },
+  { label: 'No Answer', value: 'no_answer', color: '#f59e0b' },
+  { label: 'Busy', value: 'busy', color: '#ef4444' },
+  { label: 'Invalid Number', value: 'invalid_number', color: '#6b7280' },
+];
+
+/**
+ * CallDispositionSheet - Captures the real result of a call once the user returns from the dialer
+ * Updates the call log created when the call started, and optionally adds a note,
+ * changes the lead status and schedules the next follow-up. That call log is
+ * 'pending' until an outcome is saved, so the sheet can't be skipped while one exists.
+ */
+const CallDispositionSheet: React.FC<CallDispositionSheetProps> = ({
+  visible,
+  leadId,
+  callLogId,
+  durationSeconds,
+  measuredOutcome = null,
+  currentStatus,
+  onClose,
+  onSaved,
+}) => {
+  const [outcome, setOutcome] = useState<CallData['outcome'] | null>(null);
+  const [duration, setDuration] = useState('');
+  const [note, setNote] = useState('');
+  const { stages } = usePipeline();
+  const [status, setStatus] = useState(currentStatus);
+  const [statusReason, setStatusReason] = useState<string | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+  const [followUpDays, setFollowUpDays] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canSkip = !callLogId;
+
+  useEffect(() => {
+    // Reset the form for every call
+    if (visible) {
+      setOutcome(measuredOutcome);
+      setDuration(String(durationSeconds));
+      setNote('');
+      setStatus(currentStatus);
+      setStatusReason(null);
+      setStatusNote('');
+      setFollowUpDays(null);
+    }
+  }, [visible, durationSeconds, measuredOutcome, currentStatus]);
+
+  const handleSave = async () => {
+    if (!outcome) {
+      Alert.alert('Error', 'Please select the call outcome');
+      return;
+    }
+
+    const needsReason = requiresStatusReason(currentStatus, status);
+    if (needsReason && !statusReason) {
+      Alert.alert('Error', 'Please choose a reason for the status change');
+      return;
+    }
+
+    const parsedDuration = parseInt(duration, 10);
+    const callData: CallData = {
+      outcome,
+      // Duration only makes sense for calls that connected
+      duration_seconds: outcome === 'connected' && !isNaN(parsedDuration) ? parsedDuration : 0,
+    };
+
+    try {
+      setIsSaving(true);
+
+      if (callLogId) {
+        await LeadService.updateCall(leadId, callLogId, callData);
+      } else {
+        await LeadService.logCall(leadId, callData);
+      }
+
+      if (note.trim()) {
+        await LeadService.addNote(leadId, note.trim());
+      }
+
+      if (status !== currentStatus) {
+        await LeadService.updateLead(leadId, {
+          status,
+          status_reason: needsReason ? statusReason! : undefined,
+          status_note: needsReason ? statusNote.trim() || undefined : undefined,
+        });
+      }
+
+      if (followUpDays !== null) {
+        await FollowUpService.createFollowUp(leadId, {
+          scheduled_at: followUpDateFor(followUpDays).toISOString(),
+          description: note.trim() || undefined,
+        });
+      }
+
+      onSaved(callData);
+    } catch (error) {
+      console.error('[CallDispositionSheet] Failed to save disposition:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', `Failed to save call details: ${errorMessage}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={() => {
+        // Back only closes the sheet when there is no pending call log to record
+        if (canSkip) {
+          onClose();
+        }
+      }}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>How did the call go?</Text>
+            {measuredOutcome ? (
+              <Text style={styles.measuredText}>Outcome and duration taken from your call log</Text>
+            ) : null}
+
+            <Text style={styles.label}>Outcome</Text>
+            <View style={styles.chipRow}>
+              {OUTCOME_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    outcome === option.value && {
+                      backgroundColor: option.color,
+                      borderColor: option.color,
+                    },
+                  ]}
+                  onPress={() => setOutcome(option.value)}
+                >
+                  <Text style={[styles.chipText, outcome === option.value && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {outcome === 'connected' && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Duration (seconds)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={duration}
+                  onChangeText={setDuration}
+                  keyboardType="number-pad"
+                  placeholder="0"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+            )}
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Quick Note (Optional)</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={note}
+                onChangeText={setNote}
+                placeholder="What was discussed?"
+                placeholderTextColor="#9ca3af"
+                multiline
+                numberOfLines={3}
+              />
+            </View>
+
+            <Text style={styles.label}>Status</Text>
+            <View style={styles.chipRow}>
+              {stages.map(stage => (
+                <TouchableOpacity
+                  key={stage.key}
+                  style={[
+                    styles.chip,
+                    status === stage.key && styles.chipSelected,
+                    !canTransition(currentStatus, stage.key) && styles.chipDisabled,
+                  ]}
+                  onPress={() => setStatus(stage.key)}
+                  disabled={!canTransition(currentStatus, stage.key)}
+                >
+                  <Text style={[styles.chipText, status === stage.key && styles.chipTextSelected]}>
+                    {stage.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {requiresStatusReason(currentStatus, status) && (
+              <StatusReasonFields
+                reason={statusReason}
+                note={statusNote}
+                onReasonChange={setStatusReason}
+                onNoteChange={setStatusNote}
+              />
+            )}
+
+            <Text style={styles.label}>Next Follow-up (Optional)</Text>
+            <View style={styles.chipRow}>
+              {FOLLOW_UP_PRESETS.map(preset => (
+                <TouchableOpacity
+                  key={preset.days}
+                  style={[styles.chip, followUpDays === preset.days && styles.chipSelected]}
+                  onPress={() =>
+                    setFollowUpDays(followUpDays === preset.days ? null : preset.days)
+                  }
+                >
+                  <Text
+                    style={[styles.chipText, followUpDays === preset.days && styles.chipTextSelected]}
+                  >
+                    {preset.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.buttons}>
+              {canSkip && (
+                <TouchableOpacity style={styles.skipButton} onPress={onClose} disabled={isSaving}>
+                  <Text style={styles.skipButtonText}>Skip</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 20,
+  },
+  measuredText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  chipSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: '#111827',
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  skipButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  skipButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default CallDispositionSheet;
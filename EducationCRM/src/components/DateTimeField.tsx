@@ -0,0 +1,155 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import DateTimePickerService from '../services/DateTimePickerService';
+import { FOLLOW_UP_PRESETS, followUpDateFor } from '../utils/followUpPresets';
+import {
+  formatBusinessTime,
+  formatDate,
+  formatTime,
+  isDeviceInBusinessTimezone,
+  startOfDay,
+  validateFutureDateTime,
+} from '../utils/dateTime';
+
+interface DateTimeFieldProps {
+  value: Date | null;
+  onChange: (date: Date) => void;
+  showValidation?: boolean;
+}
+
+/**
+ * DateTimeField - Picks a future date and time for scheduling
+ * Opens the native pickers and offers quick presets; past times are flagged
+ */
+const DateTimeField: React.FC<DateTimeFieldProps> = ({ value, onChange, showValidation = false }) => {
+  const pickersAvailable = DateTimePickerService.isAvailable();
+  const error = showValidation ? validateFutureDateTime(value) : null;
+
+  const handlePickDate = async () => {
+    const initial = value || followUpDateFor(1);
+    const picked = await DateTimePickerService.pickDate(initial, startOfDay(new Date()));
+    if (picked) {
+      onChange(picked);
+    }
+  };
+
+  const handlePickTime = async () => {
+    const initial = value || followUpDateFor(1);
+    const picked = await DateTimePickerService.pickTime(initial);
+    if (picked) {
+      onChange(picked);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.presetRow}>
+        {FOLLOW_UP_PRESETS.map(preset => (
+          <TouchableOpacity
+            key={preset.days}
+            style={styles.preset}
+            onPress={() => onChange(followUpDateFor(preset.days))}
+          >
+            <Text style={styles.presetText}>{preset.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {pickersAvailable && (
+        <View style={styles.pickerRow}>
+          <TouchableOpacity style={[styles.pickerButton, styles.dateButton]} onPress={handlePickDate}>
+            <Text style={styles.pickerLabel}>Date</Text>
+            <Text style={[styles.pickerValue, !value && styles.placeholder]}>
+              {value ? formatDate(value) : 'Select date'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.pickerButton} onPress={handlePickTime}>
+            <Text style={styles.pickerLabel}>Time</Text>
+            <Text style={[styles.pickerValue, !value && styles.placeholder]}>
+              {value ? formatTime(value) : 'Select time'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {!pickersAvailable && value && (
+        <Text style={styles.summary}>
+          {formatDate(value)} at {formatTime(value)}
+        </Text>
+      )}
+
+      {value && !isDeviceInBusinessTimezone(value) && (
+        <Text style={styles.hint}>That is {formatBusinessTime(value)}</Text>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  preset: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  presetText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  pickerButton: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+  },
+  dateButton: {
+    flex: 1.4,
+  },
+  pickerLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
+  pickerValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  placeholder: {
+    color: '#9ca3af',
+    fontWeight: '400',
+  },
+  summary: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+});
+
+export default DateTimeField;
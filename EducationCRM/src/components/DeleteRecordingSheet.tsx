@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { RecordingDeletionReason } from '../services/LeadService';
+
+const REASONS: { key: RecordingDeletionReason; label: string }[] = [
+  { key: 'student_request', label: 'Student data request' },
+  { key: 'wrong_lead', label: 'Wrong lead' },
+  { key: 'test_call', label: 'Test call' },
+  { key: 'other', label: 'Other' },
+];
+
+// Matches the server's limit on reason notes
+const MAX_NOTE_LENGTH = 1000;
+
+interface DeleteRecordingSheetProps {
+  visible: boolean;
+  isDeleting: boolean;
+  onCancel: () => void;
+  onConfirm: (reason: RecordingDeletionReason, note: string) => void;
+}
+
+/**
+ * DeleteRecordingSheet - Asks why a recording is being deleted before deleting it
+ * The reason is kept in the server's audit trail; "Other" needs a note
+ */
+const DeleteRecordingSheet: React.FC<DeleteRecordingSheetProps> = ({
+  visible,
+  isDeleting,
+  onCancel,
+  onConfirm,
+}) => {
+  const [reason, setReason] = useState<RecordingDeletionReason | null>(null);
+  const [note, setNote] = useState('');
+
+  // Start from a blank form each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setNote('');
+    }
+  }, [visible]);
+
+  const canDelete = reason !== null && (reason !== 'other' || note.trim() !== '') && !isDeleting;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onCancel}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <Text style={styles.title}>Delete Recording</Text>
+          <Text style={styles.subtitle}>
+            The recording is removed for good, including from reviews and verification. Your
+            name and the reason are kept for audit.
+          </Text>
+
+          <Text style={styles.label}>Reason</Text>
+          <View style={styles.chipRow}>
+            {REASONS.map(option => (
+              <TouchableOpacity
+                key={option.key}
+                style={[styles.chip, reason === option.key && styles.chipSelected]}
+                onPress={() => setReason(option.key)}
+              >
+                <Text style={[styles.chipText, reason === option.key && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={note}
+            onChangeText={setNote}
+            placeholder={reason === 'other' ? 'Why is it being deleted?' : 'Add details (optional)'}
+            placeholderTextColor="#9ca3af"
+            maxLength={MAX_NOTE_LENGTH}
+            multiline
+          />
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={isDeleting}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.deleteButton, !canDelete && styles.deleteButtonDisabled]}
+              onPress={() => reason && onConfirm(reason, note.trim())}
+              disabled={!canDelete}
+            >
+              {isDeleting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.deleteButtonText}>Delete</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 4,
+    fontFamily: 'System',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6b7280',
+    lineHeight: 18,
+    marginBottom: 16,
+    fontFamily: 'System',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    fontFamily: 'System',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  chipSelected: {
+    backgroundColor: '#ef4444',
+    borderColor: '#ef4444',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#374151',
+    fontFamily: 'System',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    minHeight: 60,
+    fontSize: 15,
+    color: '#111827',
+    textAlignVertical: 'top',
+    fontFamily: 'System',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#f3f4f6',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+    fontFamily: 'System',
+  },
+  deleteButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#ef4444',
+  },
+  deleteButtonDisabled: {
+    opacity: 0.5,
+  },
+  deleteButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+    fontFamily: 'System',
+  },
+});
+
+export default DeleteRecordingSheet;
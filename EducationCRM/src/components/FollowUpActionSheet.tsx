@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import FollowUpService, { FollowUp } from '../services/FollowUpService';
+import { FOLLOW_UP_PRESETS, followUpDateFor } from '../utils/followUpPresets';
+
+export type FollowUpAction = 'reschedule' | 'complete_next' | 'cancel';
+
+interface FollowUpActionSheetProps {
+  visible: boolean;
+  followUp: FollowUp | null;
+  action: FollowUpAction;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const CANCEL_REASONS = [
+  'Not interested anymore',
+  'Enrolled elsewhere',
+  'Wrong number',
+  'Booked by mistake',
+];
+
+const TITLES: Record<FollowUpAction, string> = {
+  reschedule: 'Reschedule Follow-up',
+  complete_next: 'Complete & Schedule Next',
+  cancel: 'Cancel Follow-up',
+};
+
+/**
+ * FollowUpActionSheet - Reschedules, completes-and-rebooks or cancels a follow-up
+ */
+const FollowUpActionSheet: React.FC<FollowUpActionSheetProps> = ({
+  visible,
+  followUp,
+  action,
+  onClose,
+  onSaved,
+}) => {
+  const [days, setDays] = useState<number | null>(null);
+  const [description, setDescription] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    // Reset the form each time the sheet opens
+    if (visible) {
+      setDays(null);
+      setDescription(action === 'reschedule' ? followUp?.description || '' : '');
+      setReason('');
+    }
+  }, [visible, action, followUp]);
+
+  const handleSave = async () => {
+    if (!followUp) {
+      return;
+    }
+
+    if (action === 'cancel' && !reason.trim()) {
+      Alert.alert('Error', 'Please give a reason for cancelling');
+      return;
+    }
+
+    if (action !== 'cancel' && days === null) {
+      Alert.alert('Error', 'Please pick when to follow up');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      if (action === 'cancel') {
+        await FollowUpService.cancelFollowUp(followUp.lead_id, followUp.id, reason.trim());
+      } else {
+        const scheduledAt = followUpDateFor(days!).toISOString();
+
+        if (action === 'reschedule') {
+          await FollowUpService.updateFollowUp(followUp.lead_id, followUp.id, {
+            scheduled_at: scheduledAt,
+            description: description.trim() || undefined,
+          });
+        } else {
+          await FollowUpService.completeAndScheduleNext(followUp.lead_id, followUp.id, {
+            scheduled_at: scheduledAt,
+            description: description.trim() || undefined,
+          });
+        }
+      }
+
+      onSaved();
+    } catch (error) {
+      console.error('[FollowUpActionSheet] Failed to save follow-up:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', `Failed to update follow-up: ${errorMessage}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>{TITLES[action]}</Text>
+            {followUp?.lead?.student_name || followUp?.lead_name ? (
+              <Text style={styles.subtitle}>
+                {followUp.lead?.student_name || followUp.lead_name}
+              </Text>
+            ) : null}
+
+            {action === 'cancel' ? (
+              <>
+                <Text style={styles.label}>Reason</Text>
+                <View style={styles.chipRow}>
+                  {CANCEL_REASONS.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.chip, reason === option && styles.chipSelected]}
+                      onPress={() => setReason(option)}
+                    >
+                      <Text style={[styles.chipText, reason === option && styles.chipTextSelected]}>
+                        {option}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  value={reason}
+                  onChangeText={setReason}
+                  placeholder="Or type a reason"
+                  placeholderTextColor="#9ca3af"
+                  multiline
+                  numberOfLines={3}
+                />
+              </>
+            ) : (
+              <>
+                <Text style={styles.label}>
+                  {action === 'reschedule' ? 'Move to' : 'Next follow-up'}
+                </Text>
+                <View style={styles.chipRow}>
+                  {FOLLOW_UP_PRESETS.map(preset => (
+                    <TouchableOpacity
+                      key={preset.days}
+                      style={[styles.chip, days === preset.days && styles.chipSelected]}
+                      onPress={() => setDays(preset.days)}
+                    >
+                      <Text style={[styles.chipText, days === preset.days && styles.chipTextSelected]}>
+                        {preset.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.label}>Description (Optional)</Text>
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  value={description}
+                  onChangeText={setDescription}
+                  placeholder="What should the call cover?"
+                  placeholderTextColor="#9ca3af"
+                  multiline
+                  numberOfLines={3}
+                />
+              </>
+            )}
+
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.closeButton} onPress={onClose} disabled={isSaving}>
+                <Text style={styles.closeButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, action === 'cancel' && styles.destructiveButton]}
+                onPress={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>
+                    {action === 'cancel' ? 'Cancel Follow-up' : 'Save'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  chipSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: '#111827',
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  closeButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  destructiveButton: {
+    backgroundColor: '#ef4444',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default FollowUpActionSheet;
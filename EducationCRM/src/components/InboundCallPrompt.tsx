@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import CallRecordingEventService, { InboundCall } from '../services/CallRecordingEventService';
+
+interface InboundCallPromptProps {
+  onOpenLead: (leadId: string) => void;
+}
+
+/**
+ * InboundCallPrompt - Shown after a call from a number in the lead book
+ * Lets the telecaller jump to the caller's lead to add notes or a follow-up
+ */
+const InboundCallPrompt: React.FC<InboundCallPromptProps> = ({ onOpenLead }) => {
+  const [call, setCall] = useState<InboundCall | null>(null);
+
+  useEffect(() => CallRecordingEventService.addInboundCallListener(setCall), []);
+
+  if (!call) {
+    return null;
+  }
+
+  const handleOpen = () => {
+    setCall(null);
+    onOpenLead(call.leadId);
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.body} onPress={handleOpen}>
+        <Text style={styles.title}>📲 Call from {call.studentName}</Text>
+        <Text style={styles.action}>Open lead</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.closeButton} onPress={() => setCall(null)}>
+        <Text style={styles.closeText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 80,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1f2937',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingLeft: 16,
+    zIndex: 1000,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 6,
+  },
+  body: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#60a5fa',
+    marginTop: 2,
+  },
+  closeButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#9ca3af',
+  },
+});
+
+export default InboundCallPrompt;
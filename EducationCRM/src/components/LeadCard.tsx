@@ -1,15 +1,8 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { Lead } from '../services/LeadService';
-
-const STATUS_COLORS: Record<string, { bg: string; text: string }> = {
-  new: { bg: '#dbeafe', text: '#1e40af' },
-  contacted: { bg: '#fef3c7', text: '#92400e' },
-  interested: { bg: '#d1fae5', text: '#065f46' },
-  not_interested: { bg: '#fee2e2', text: '#991b1b' },
-  enrolled: { bg: '#dcfce7', text: '#166534' },
-  lost: { bg: '#f3f4f6', text: '#374151' },
-};
+import { usePipeline } from '../hooks/usePipeline';
+import { statusColors, statusLabel } from '../utils/leadStatus';
 
 interface LeadCardProps {
   lead: Lead;
@@ -18,7 +11,9 @@ interface LeadCardProps {
 }
 
 const LeadCard: React.FC<LeadCardProps> = ({ lead, onPress, hasPendingFollowup = false }) => {
-  const statusColor = STATUS_COLORS[lead.status] || STATUS_COLORS.new;
+  // Re-render badges when the branch pipeline is refreshed
+  usePipeline();
+  const statusColor = statusColors(lead.status);
 
   return (
     <TouchableOpacity
@@ -32,7 +27,7 @@ const LeadCard: React.FC<LeadCardProps> = ({ lead, onPress, hasPendingFollowup =
         <Text style={styles.leadName}>{lead.student_name}</Text>
         <View style={[styles.statusBadge, { backgroundColor: statusColor.bg }]}>
           <Text style={[styles.statusText, { color: statusColor.text }]}>
-            {lead.status.replace('_', ' ')}
+            {statusLabel(lead.status)}
           </Text>
         </View>
       </View>
@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { LeadDetail } from '../services/LeadService';
+import { formatRelative, formatTime } from '../utils/dateTime';
+import { statusLabel, statusReasonLabel } from '../utils/leadStatus';
+import {
+  TIMELINE_FILTERS,
+  TimelineEntry,
+  TimelineFilter,
+  buildTimeline,
+  filterTimeline,
+  groupTimelineByDay,
+} from '../utils/timeline';
+
+interface LeadTimelineProps {
+  lead: LeadDetail;
+  onPlayRecording: (recordingId: string) => void;
+  currentPlayingId?: string | null;
+  isPlaying?: boolean;
+}
+
+const DOT_COLORS: Record<TimelineEntry['kind'], string> = {
+  note: '#3b82f6',
+  call: '#10b981',
+  followup_created: '#8b5cf6',
+  followup_completed: '#10b981',
+  followup_cancelled: '#ef4444',
+  status_change: '#f59e0b',
+};
+
+const formatDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+/**
+ * LeadTimeline - Every interaction with a lead in one chronological list
+ * Notes, calls (with playable recordings), follow-ups and status changes are
+ * grouped by day and can be filtered by type
+ */
+const LeadTimeline: React.FC<LeadTimelineProps> = ({
+  lead,
+  onPlayRecording,
+  currentPlayingId,
+  isPlaying = false,
+}) => {
+  const [filter, setFilter] = useState<TimelineFilter>('all');
+
+  const entries = useMemo(() => buildTimeline(lead), [lead]);
+  const sections = useMemo(
+    () => groupTimelineByDay(filterTimeline(entries, filter)),
+    [entries, filter]
+  );
+
+  const renderBody = (entry: TimelineEntry) => {
+    switch (entry.kind) {
+      case 'note':
+        return (
+          <>
+            <Text style={styles.entryTitle}>📝 Note</Text>
+            <Text style={styles.entryText}>{entry.note.note}</Text>
+          </>
+        );
+
+      case 'call': {
+        const { call } = entry;
+        const isCurrent = currentPlayingId === call.id;
+        return (
+          <>
+            <Text style={styles.entryTitle}>
+              {call.direction === 'inbound' ? '📲 Incoming call' : '📞 Call'} ·{' '}
+              {call.outcome.replace('_', ' ')}
+            </Text>
+            {call.duration_seconds ? (
+              <Text style={styles.entryText}>Duration: {formatDuration(call.duration_seconds)}</Text>
+            ) : null}
+            {call.recording_path ? (
+              <TouchableOpacity
+                style={[styles.playButton, isCurrent && styles.playButtonActive]}
+                onPress={() => onPlayRecording(call.id)}
+              >
+                <Text style={[styles.playButtonText, isCurrent && styles.playButtonTextActive]}>
+                  {isCurrent && isPlaying ? '⏸ Pause recording' : '▶ Play recording'}
+                </Text>
+              </TouchableOpacity>
+            ) : null}
+          </>
+        );
+      }
+
+      case 'followup_created':
+        return (
+          <>
+            <Text style={styles.entryTitle}>📅 Follow-up booked</Text>
+            <Text style={styles.entryText}>Due {formatRelative(entry.followup.scheduled_at)}</Text>
+            {entry.followup.description ? (
+              <Text style={styles.entryText}>{entry.followup.description}</Text>
+            ) : null}
+          </>
+        );
+
+      case 'followup_completed':
+        return <Text style={styles.entryTitle}>✅ Follow-up completed</Text>;
+
+      case 'followup_cancelled':
+        return (
+          <>
+            <Text style={styles.entryTitle}>🚫 Follow-up cancelled</Text>
+            {entry.followup.cancel_reason ? (
+              <Text style={styles.entryText}>{entry.followup.cancel_reason}</Text>
+            ) : null}
+          </>
+        );
+
+      case 'status_change':
+        return (
+          <>
+            <Text style={styles.entryTitle}>
+              🔄 {entry.change.from_status ? `${statusLabel(entry.change.from_status)} → ` : ''}
+              {statusLabel(entry.change.to_status)}
+            </Text>
+            {entry.change.reason_code ? (
+              <Text style={styles.entryText}>
+                {statusReasonLabel(entry.change.reason_code)}
+                {entry.change.reason_note ? ` · ${entry.change.reason_note}` : ''}
+              </Text>
+            ) : null}
+          </>
+        );
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.filterRow}>
+        {TIMELINE_FILTERS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.filterChip, filter === option.value && styles.filterChipActive]}
+            onPress={() => setFilter(option.value)}
+          >
+            <Text style={[styles.filterText, filter === option.value && styles.filterTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {sections.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {filter === 'all' ? 'No interactions yet' : 'Nothing of this type yet'}
+        </Text>
+      ) : (
+        sections.map(section => (
+          <View key={section.title} style={styles.daySection}>
+            <Text style={styles.dayTitle}>{section.title}</Text>
+            {section.data.map(entry => (
+              <View key={entry.key} style={styles.entry}>
+                <View style={[styles.dot, { backgroundColor: DOT_COLORS[entry.kind] }]} />
+                <View style={styles.entryContent}>
+                  {renderBody(entry)}
+                  <Text style={styles.entryTime}>{formatTime(entry.at)}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#f3f4f6',
+  },
+  filterChipActive: {
+    backgroundColor: '#3b82f6',
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4b5563',
+  },
+  filterTextActive: {
+    color: '#ffffff',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  daySection: {
+    marginBottom: 8,
+  },
+  dayTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+    marginBottom: 12,
+  },
+  entry: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+    marginTop: 4,
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  entryText: {
+    fontSize: 14,
+    color: '#4b5563',
+    marginBottom: 2,
+  },
+  entryTime: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  playButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#10b981',
+    marginTop: 6,
+  },
+  playButtonActive: {
+    backgroundColor: '#10b981',
+  },
+  playButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  playButtonTextActive: {
+    color: '#ffffff',
+  },
+});
+
+export default LeadTimeline;
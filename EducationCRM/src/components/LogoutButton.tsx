@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Text, TouchableOpacity, ActivityIndicator, StyleSheet, Alert } from 'react-native';
+import AuthService, { UnsyncedChangesError } from '../services/AuthService';
+
+/**
+ * LogoutButton - Header button that logs the telecaller out
+ * Logout syncs pending changes first. Whatever can't be synced is only
+ * discarded once the telecaller agrees, as it is deleted from the phone.
+ */
+const LogoutButton: React.FC = () => {
+  const [isLoggingOut, setIsLoggingOut] = useState(false);
+
+  const logout = async (discardUnsynced: boolean) => {
+    try {
+      setIsLoggingOut(true);
+      await AuthService.logout(discardUnsynced);
+    } catch (error) {
+      setIsLoggingOut(false);
+      console.error('[LogoutButton] Logout refused:', error);
+      confirmDiscard(error);
+    }
+  };
+
+  const confirmDiscard = (error: unknown) => {
+    const message =
+      error instanceof UnsyncedChangesError
+        ? `${error.unsyncedCount} change(s) or recording(s) haven't reached the server. ` +
+          'Stay logged in and try again when you are online, or log out and delete them.'
+        : 'Unsynced changes could not be checked. Logging out will delete anything ' +
+          "that hasn't reached the server.";
+
+    Alert.alert('Unsynced Changes', message, [
+      { text: 'Stay Logged In', style: 'cancel' },
+      {
+        text: 'Log Out Anyway',
+        style: 'destructive',
+        onPress: () => logout(true),
+      },
+    ]);
+  };
+
+  const handlePress = () => {
+    Alert.alert('Log Out', 'Log out of this phone?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Log Out', onPress: () => logout(false) },
+    ]);
+  };
+
+  if (isLoggingOut) {
+    return <ActivityIndicator style={styles.button} size="small" color="#2563eb" />;
+  }
+
+  return (
+    <TouchableOpacity style={styles.button} onPress={handlePress}>
+      <Text style={styles.buttonText}>Log Out</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2563eb',
+    fontFamily: 'System',
+  },
+});
+
+export default LogoutButton;
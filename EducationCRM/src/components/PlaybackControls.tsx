@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { PLAYBACK_RATES, SKIP_SECONDS } from '../services/AudioPlayerService';
+
+interface PlaybackControlsProps {
+  playbackRate: number;
+  skipSilence: boolean;
+  onSkip: (seconds: number) => void;
+  onPlaybackRateChange: (rate: number) => void;
+  onSkipSilenceChange: (enabled: boolean) => void;
+}
+
+/**
+ * PlaybackControls - Skip back/forward, playback speed and skip-silence toggle
+ * Tapping the speed moves to the next rate and wraps around after the fastest
+ */
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  playbackRate,
+  skipSilence,
+  onSkip,
+  onPlaybackRateChange,
+  onSkipSilenceChange,
+}) => {
+  const nextRate = PLAYBACK_RATES.find(rate => rate > playbackRate) ?? PLAYBACK_RATES[0];
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.chip} onPress={() => onSkip(-SKIP_SECONDS)}>
+        <Text style={styles.chipText}>⏪ {SKIP_SECONDS}s</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.chip} onPress={() => onPlaybackRateChange(nextRate)}>
+        <Text style={styles.chipText}>{playbackRate}x</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.chip} onPress={() => onSkip(SKIP_SECONDS)}>
+        <Text style={styles.chipText}>{SKIP_SECONDS}s ⏩</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.chip, skipSilence && styles.chipActive]}
+        onPress={() => onSkipSilenceChange(!skipSilence)}
+      >
+        <Text style={[styles.chipText, skipSilence && styles.chipTextActive]}>
+          Skip silence
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 14,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#bae6fd',
+    backgroundColor: '#f0f9ff',
+  },
+  chipActive: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#0369a1',
+    fontFamily: 'System',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+});
+
+export default PlaybackControls;
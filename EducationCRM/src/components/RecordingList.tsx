@@ -7,6 +7,10 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { CallLog } from '../services/LeadService';
+import { formatRelative } from '../utils/dateTime';
+import { Waveform } from '../utils/waveform';
+import WaveformScrubber from './WaveformScrubber';
+import PlaybackControls from './PlaybackControls';
 
 interface RecordingListProps {
   callLogs: CallLog[];
@@ -17,6 +21,22 @@ interface RecordingListProps {
   uploadProgress?: number;
   isUploading?: boolean;
   playbackTime?: string;
+  /** Waveform of the recording that is loaded in the player */
+  waveform?: Waveform | null;
+  currentTime?: number;
+  duration?: number;
+  /** The loaded recording is still downloading, so it has no waveform yet */
+  isStreaming?: boolean;
+  onSeek?: (time: number) => void;
+  playbackRate?: number;
+  skipSilence?: boolean;
+  onSkip?: (seconds: number) => void;
+  onPlaybackRateChange?: (rate: number) => void;
+  onSkipSilenceChange?: (enabled: boolean) => void;
+  /** Play a recording from one of its bookmarks or review comments */
+  onTimestampPress?: (recordingId: string, offsetSeconds: number) => void;
+  /** Ask for a reason and delete a recording */
+  onDeleteRecording?: (recordingId: string) => void;
 }
 
 export default function RecordingList({
@@ -28,50 +48,26 @@ export default function RecordingList({
   uploadProgress = 0,
   isUploading = false,
   playbackTime,
+  waveform,
+  currentTime = 0,
+  duration = 0,
+  isStreaming = false,
+  onSeek,
+  playbackRate = 1,
+  skipSilence = false,
+  onSkip,
+  onPlaybackRateChange,
+  onSkipSilenceChange,
+  onTimestampPress,
+  onDeleteRecording,
 }: RecordingListProps) {
   // Filter call logs to only show those with recordings
   const recordingsWithPath = callLogs.filter(call => call.recording_path);
 
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-
-    if (diffDays === 0) {
-      return `Today at ${date.toLocaleTimeString('en-US', { 
-        hour: 'numeric', 
-        minute: '2-digit',
-        hour12: true 
-      })}`;
-    } else if (diffDays === 1) {
-      return `Yesterday at ${date.toLocaleTimeString('en-US', { 
-        hour: 'numeric', 
-        minute: '2-digit',
-        hour12: true 
-      })}`;
-    } else if (diffDays < 7) {
-      return date.toLocaleDateString('en-US', { 
-        weekday: 'short',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      });
-    } else {
-      return date.toLocaleDateString('en-US', { 
-        month: 'short',
-        day: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      });
-    }
-  };
-
   const formatDuration = (seconds?: number): string => {
     if (!seconds) return '0:00';
     const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const secs = Math.floor(seconds % 60);
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
@@ -156,7 +152,7 @@ export default function RecordingList({
               {/* Header Row */}
               <View style={styles.headerRow}>
                 <View style={styles.dateContainer}>
-                  <Text style={styles.dateText}>{formatDate(call.inserted_at)}</Text>
+                  <Text style={styles.dateText}>{formatRelative(call.inserted_at)}</Text>
                 </View>
                 <View 
                   style={[
@@ -173,8 +169,24 @@ export default function RecordingList({
                     {getOutcomeLabel(call.outcome)}
                   </Text>
                 </View>
+                {onDeleteRecording && (
+                  <TouchableOpacity
+                    style={styles.deleteButton}
+                    onPress={() => onDeleteRecording(call.id)}
+                    disabled={isLoadingCurrent}
+                  >
+                    <Text style={styles.deleteButtonText}>🗑️</Text>
+                  </TouchableOpacity>
+                )}
               </View>
 
+              {/* Server copy matched the checksum taken on the phone */}
+              {call.recording_verified_at && (
+                <View style={styles.verifiedBadge}>
+                  <Text style={styles.verifiedText}>✓ Verified recording</Text>
+                </View>
+              )}
+
               {/* Duration and Playback Info */}
               <View style={styles.infoRow}>
                 <View style={styles.durationContainer}>
@@ -189,6 +201,78 @@ export default function RecordingList({
                 )}
               </View>
 
+              {isCurrentRecording && waveform && onSeek && (
+                <WaveformScrubber
+                  waveform={waveform}
+                  currentTime={currentTime}
+                  duration={duration}
+                  onSeek={onSeek}
+                  bookmarks={call.bookmarks}
+                />
+              )}
+
+              {/* Moments marked during the call */}
+              {call.bookmarks && call.bookmarks.length > 0 && (
+                <View style={styles.bookmarkRow}>
+                  {call.bookmarks.map(bookmark => (
+                    <TouchableOpacity
+                      key={`${bookmark.offset_seconds}-${bookmark.label}`}
+                      style={styles.bookmarkChip}
+                      onPress={() => onTimestampPress?.(call.id, bookmark.offset_seconds)}
+                      disabled={!onTimestampPress}
+                    >
+                      <Text style={styles.bookmarkText}>
+                        🔖 {formatDuration(bookmark.offset_seconds)} {bookmark.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {/* Branch manager's review */}
+              {call.qa_reviewed_at && call.qa_score != null && (
+                <View style={styles.reviewBox}>
+                  <View style={styles.reviewHeader}>
+                    <Text style={styles.reviewTitle}>Manager review</Text>
+                    <Text style={styles.reviewScore}>{Math.round(call.qa_score)}%</Text>
+                  </View>
+                  <View style={styles.reviewScores}>
+                    {(call.qa_scores || []).map(score => (
+                      <Text key={score.criterion} style={styles.reviewScoreItem}>
+                        {score.label} {score.score}/{score.max_score}
+                      </Text>
+                    ))}
+                  </View>
+                  {(call.qa_comments || []).map((comment, commentIndex) => (
+                    <View key={`${comment.offset_seconds}-${commentIndex}`} style={styles.reviewComment}>
+                      <TouchableOpacity
+                        onPress={() => onTimestampPress?.(call.id, comment.offset_seconds)}
+                        disabled={!onTimestampPress}
+                      >
+                        <Text style={styles.reviewCommentTime}>
+                          {formatDuration(comment.offset_seconds)}
+                        </Text>
+                      </TouchableOpacity>
+                      <Text style={styles.reviewCommentBody}>{comment.body}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {isCurrentRecording && isStreaming && (
+                <Text style={styles.streamingText}>Streaming · waveform appears once downloaded</Text>
+              )}
+
+              {isCurrentRecording && onSkip && onPlaybackRateChange && onSkipSilenceChange && (
+                <PlaybackControls
+                  playbackRate={playbackRate}
+                  skipSilence={skipSilence}
+                  onSkip={onSkip}
+                  onPlaybackRateChange={onPlaybackRateChange}
+                  onSkipSilenceChange={onSkipSilenceChange}
+                />
+              )}
+
               {/* Play Button */}
               <TouchableOpacity
                 style={[
@@ -337,6 +421,30 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
     fontFamily: 'System',
   },
+  deleteButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+  },
+  verifiedBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+    backgroundColor: '#ecfdf5',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  verifiedText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#047857',
+    letterSpacing: 0.3,
+    fontFamily: 'System',
+  },
   infoRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -363,6 +471,88 @@ const styles = StyleSheet.create({
     color: '#0ea5e9',
     fontFamily: 'System',
   },
+  bookmarkRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 14,
+  },
+  bookmarkChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fcd34d',
+  },
+  bookmarkText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#b45309',
+    fontFamily: 'System',
+  },
+  reviewBox: {
+    borderRadius: 10,
+    backgroundColor: '#eef2ff',
+    padding: 12,
+    marginBottom: 14,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  reviewTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#3730a3',
+    fontFamily: 'System',
+  },
+  reviewScore: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#4338ca',
+    fontFamily: 'System',
+  },
+  reviewScores: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    columnGap: 12,
+    rowGap: 2,
+  },
+  reviewScoreItem: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#4b5563',
+    fontFamily: 'System',
+  },
+  reviewComment: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginTop: 8,
+  },
+  reviewCommentTime: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#0ea5e9',
+    fontFamily: 'System',
+  },
+  reviewCommentBody: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+    lineHeight: 18,
+    fontFamily: 'System',
+  },
+  streamingText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#6b7280',
+    marginBottom: 10,
+    fontFamily: 'System',
+  },
   playButton: {
     backgroundColor: '#0ea5e9',
     borderRadius: 10,
@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { LeadStatusChange } from '../services/LeadService';
+import { formatRelative, parseDateTime } from '../utils/dateTime';
+import { statusLabel, statusReasonLabel } from '../utils/leadStatus';
+
+interface StatusHistoryListProps {
+  changes: LeadStatusChange[];
+}
+
+/**
+ * StatusHistoryList - A lead's status changes, newest first, with their reasons
+ */
+const StatusHistoryList: React.FC<StatusHistoryListProps> = ({ changes }) => {
+  const sorted = [...changes].sort(
+    (a, b) =>
+      (parseDateTime(b.inserted_at)?.getTime() || 0) - (parseDateTime(a.inserted_at)?.getTime() || 0)
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Status History</Text>
+      {sorted.map(change => (
+        <View key={change.id} style={styles.row}>
+          <View style={styles.rowContent}>
+            <Text style={styles.transition}>
+              {change.from_status ? `${statusLabel(change.from_status)} → ` : ''}
+              {statusLabel(change.to_status)}
+            </Text>
+            {change.reason_code ? (
+              <Text style={styles.reason}>
+                {statusReasonLabel(change.reason_code)}
+                {change.reason_note ? ` · ${change.reason_note}` : ''}
+              </Text>
+            ) : null}
+          </View>
+          <Text style={styles.date}>{formatRelative(change.inserted_at)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+    paddingTop: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  rowContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  transition: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  reason: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  date: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+});
+
+export default StatusHistoryList;
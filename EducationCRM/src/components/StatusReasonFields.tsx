@@ -0,0 +1,99 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { usePipeline } from '../hooks/usePipeline';
+
+interface StatusReasonFieldsProps {
+  reason: string | null;
+  note: string;
+  onReasonChange: (reason: string) => void;
+  onNoteChange: (note: string) => void;
+}
+
+/**
+ * StatusReasonFields - Reason code and optional note for moving a lead to a
+ * stage that requires one (e.g. not interested or lost)
+ */
+const StatusReasonFields: React.FC<StatusReasonFieldsProps> = ({
+  reason,
+  note,
+  onReasonChange,
+  onNoteChange,
+}) => {
+  const { reasons } = usePipeline();
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Reason</Text>
+      <View style={styles.chipRow}>
+        {reasons.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.chip, reason === option.key && styles.chipSelected]}
+            onPress={() => onReasonChange(option.key)}
+          >
+            <Text style={[styles.chipText, reason === option.key && styles.chipTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TextInput
+        style={styles.input}
+        value={note}
+        onChangeText={onNoteChange}
+        placeholder="Add details (optional)"
+        placeholderTextColor="#9ca3af"
+        maxLength={500}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  chipSelected: {
+    backgroundColor: '#ef4444',
+    borderColor: '#ef4444',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: '#111827',
+  },
+});
+
+export default StatusReasonFields;
@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Animated,
+  PanResponder,
+} from 'react-native';
+
+export interface SwipeAction {
+  label: string;
+  color: string;
+  onPress: () => void;
+}
+
+interface SwipeableRowProps {
+  actions: SwipeAction[];
+  children: React.ReactNode;
+}
+
+const ACTION_WIDTH = 84;
+
+/**
+ * SwipeableRow - Row that reveals action buttons when swiped left
+ * Swiping past half the action width snaps the row open; tapping an action closes it
+ */
+const SwipeableRow: React.FC<SwipeableRowProps> = ({ actions, children }) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const isOpen = useRef(false);
+  const openOffset = -ACTION_WIDTH * actions.length;
+
+  const snapTo = (toValue: number) => {
+    isOpen.current = toValue !== 0;
+    Animated.spring(translateX, {
+      toValue,
+      useNativeDriver: true,
+      bounciness: 0,
+    }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only claim clearly horizontal gestures so the list can still scroll
+      onMoveShouldSetPanResponder: (_event, gesture) =>
+        Math.abs(gesture.dx) > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_event, gesture) => {
+        const start = isOpen.current ? openOffset : 0;
+        const next = Math.min(0, Math.max(openOffset, start + gesture.dx));
+        translateX.setValue(next);
+      },
+      onPanResponderRelease: (_event, gesture) => {
+        const start = isOpen.current ? openOffset : 0;
+        const position = start + gesture.dx;
+        snapTo(position < openOffset / 2 ? openOffset : 0);
+      },
+      onPanResponderTerminate: () => {
+        snapTo(isOpen.current ? openOffset : 0);
+      },
+    })
+  ).current;
+
+  const handleActionPress = (action: SwipeAction) => {
+    snapTo(0);
+    action.onPress();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.actions}>
+        {actions.map(action => (
+          <TouchableOpacity
+            key={action.label}
+            style={[styles.action, { backgroundColor: action.color }]}
+            onPress={() => handleActionPress(action)}
+          >
+            <Text style={styles.actionText}>{action.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Animated.View
+        style={{ transform: [{ translateX }] }}
+        {...panResponder.panHandlers}
+      >
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  actions: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  action: {
+    width: ACTION_WIDTH,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+});
+
+export default SwipeableRow;
@@ -0,0 +1,199 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, PanResponder } from 'react-native';
+import { silentRegionAt, Waveform } from '../utils/waveform';
+import { CallBookmark } from '../services/LeadService';
+
+interface WaveformScrubberProps {
+  waveform: Waveform;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  /** Marked moments, drawn as ticks on the track */
+  bookmarks?: CallBookmark[];
+}
+
+// Keep quiet bars visible
+const MIN_BAR_HEIGHT = 6; // %
+
+const formatTime = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * WaveformScrubber - Waveform of the playing recording with tap and drag to seek
+ * Silent stretches are shaded, and a skip button appears while playing through one
+ * Bookmarks show as ticks above the bars
+ */
+const WaveformScrubber: React.FC<WaveformScrubberProps> = ({
+  waveform,
+  currentTime,
+  duration,
+  onSeek,
+  bookmarks = [],
+}) => {
+  const [width, setWidth] = useState(0);
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  const grantX = useRef(0);
+
+  // The pan responder is created once, so it reads the latest props from here
+  const latest = useRef({ width, duration, onSeek });
+  latest.current = { width, duration, onSeek };
+
+  const timeAt = (x: number): number => {
+    const { width: trackWidth, duration: total } = latest.current;
+    return trackWidth > 0 ? Math.max(0, Math.min(1, x / trackWidth)) * total : 0;
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Don't let the screen's ScrollView take over a horizontal drag
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        grantX.current = event.nativeEvent.locationX;
+        setDragTime(timeAt(grantX.current));
+      },
+      onPanResponderMove: (_event, gesture) => {
+        setDragTime(timeAt(grantX.current + gesture.dx));
+      },
+      onPanResponderRelease: (_event, gesture) => {
+        latest.current.onSeek(timeAt(grantX.current + gesture.dx));
+        setDragTime(null);
+      },
+      onPanResponderTerminate: () => setDragTime(null),
+    }),
+  ).current;
+
+  const total = duration || waveform.duration;
+  const position = dragTime ?? currentTime;
+  const progress = total > 0 ? position / total : 0;
+  const silence = dragTime === null ? silentRegionAt(waveform.silentRegions, currentTime) : null;
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.track}
+        onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+        {...panResponder.panHandlers}
+      >
+        {total > 0 &&
+          waveform.silentRegions.map(region => (
+            <View
+              key={region.start}
+              style={[
+                styles.silentRegion,
+                {
+                  left: `${(region.start / total) * 100}%`,
+                  width: `${((region.end - region.start) / total) * 100}%`,
+                },
+              ]}
+            />
+          ))}
+
+        {waveform.peaks.map((peak, index) => (
+          <View
+            key={index}
+            style={[
+              styles.bar,
+              { height: `${Math.max(MIN_BAR_HEIGHT, peak * 100)}%` },
+              index / waveform.peaks.length < progress && styles.barPlayed,
+            ]}
+          />
+        ))}
+
+        {total > 0 &&
+          bookmarks.map(bookmark => (
+            <View
+              key={`${bookmark.offset_seconds}-${bookmark.label}`}
+              style={[
+                styles.bookmark,
+                { left: `${Math.min(1, bookmark.offset_seconds / total) * 100}%` },
+              ]}
+            />
+          ))}
+
+        <View style={[styles.playhead, { left: `${Math.min(1, progress) * 100}%` }]} />
+      </View>
+
+      <View style={styles.footer}>
+        <Text style={styles.time}>{formatTime(position)}</Text>
+        {silence && (
+          <TouchableOpacity onPress={() => onSeek(silence.end)}>
+            <Text style={styles.skipText}>⏭ Skip silence</Text>
+          </TouchableOpacity>
+        )}
+        <Text style={styles.time}>{formatTime(total)}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 14,
+  },
+  track: {
+    height: 48,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  silentRegion: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 4,
+    pointerEvents: 'none',
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 1,
+    borderRadius: 1,
+    backgroundColor: '#cbd5e1',
+    pointerEvents: 'none',
+  },
+  barPlayed: {
+    backgroundColor: '#0ea5e9',
+  },
+  playhead: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    marginLeft: -1,
+    backgroundColor: '#0369a1',
+    pointerEvents: 'none',
+  },
+  bookmark: {
+    position: 'absolute',
+    top: 0,
+    height: 10,
+    width: 3,
+    marginLeft: -1.5,
+    borderRadius: 1.5,
+    backgroundColor: '#f59e0b',
+    pointerEvents: 'none',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  time: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#6b7280',
+    fontFamily: 'System',
+  },
+  skipText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#0ea5e9',
+    fontFamily: 'System',
+  },
+});
+
+export default WaveformScrubber;
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import CallRecordingManager from '../managers/CallRecordingManager';
+import { CallRecordingSnapshot } from '../managers/CallRecordingStateMachine';
+
+/**
+ * Custom hook to follow the call placed from the app and its recording
+ * Re-renders on every state change (dialing, recording, uploading, ...)
+ * @returns Current state and call details
+ */
+export function useCallRecordingState(): CallRecordingSnapshot {
+  const [snapshot, setSnapshot] = useState<CallRecordingSnapshot>(
+    CallRecordingManager.getSnapshot(),
+  );
+
+  useEffect(() => {
+    // Pick up a change that happened between the first render and subscribing
+    setSnapshot(CallRecordingManager.getSnapshot());
+    return CallRecordingManager.subscribe(setSnapshot);
+  }, []);
+
+  return snapshot;
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import PipelineService, { Pipeline } from '../services/PipelineService';
+
+/**
+ * Custom hook to read the lead status pipeline
+ * Re-renders when a fresh pipeline is loaded from the server
+ * @returns Current pipeline
+ */
+export function usePipeline(): Pipeline {
+  const [pipeline, setPipeline] = useState<Pipeline>(PipelineService.getPipeline());
+
+  useEffect(() => {
+    // Pick up a load that finished between the first render and subscribing
+    setPipeline(PipelineService.getPipeline());
+    return PipelineService.subscribe(setPipeline);
+  }, []);
+
+  return pipeline;
+}
@@ -1,12 +1,39 @@
-import { Alert, AppState, AppStateStatus, DeviceEventEmitter, Platform } from 'react-native';
+import {
+  AppState,
+  AppStateStatus,
+  DeviceEventEmitter,
+  EmitterSubscription,
+  NativeEventSubscription,
+  Platform,
+} from 'react-native';
 import CallHelper from '../utils/CallHelper';
 import RecordingService, { RecordingMetadata } from '../services/RecordingService';
 import PermissionService from '../services/PermissionService';
-import LeadService from '../services/LeadService';
+import LeadService, { CallData } from '../services/LeadService';
 import RecordingUploadService from '../services/RecordingUploadService';
 import ErrorMessageService from '../services/ErrorMessageService';
 import AccessibilityService from '../services/AccessibilityService';
 import CallRecordingEventService from '../services/CallRecordingEventService';
+import DeviceCallLogService from '../services/DeviceCallLogService';
+import OrphanRecordingService from '../services/OrphanRecordingService';
+import {
+  CallRecordingEvent,
+  CallRecordingSnapshot,
+  CallRecordingState,
+  CallRecordingStateMachine,
+  isActive,
+} from './CallRecordingStateMachine';
+
+/**
+ * Details of a call the user just returned from, used for the disposition sheet
+ */
+export interface CallEndedEvent {
+  leadId: string;
+  callLogId: string | null;
+  durationSeconds: number;
+  /** Outcome read from the phone's call log, null when it couldn't be read */
+  outcome: CallData['outcome'] | null;
+}
 
 /**
  * CallRecordingManager - Coordinates call initiation and recording
@@ -15,28 +42,27 @@ import CallRecordingEventService from '../services/CallRecordingEventService';
  * Recording Modes:
  * 1. Accessibility Service Mode (preferred): Auto-records all calls when enabled
  * 2. Manual Mode: App-controlled recording with app state detection
+ *
+ * Each step is an event on CallRecordingStateMachine; events that don't fit the
+ * current state (a second recorder, a stop that already happened) are ignored.
  */
 class CallRecordingManager {
-  private appStateSubscription: any = null;
-  private currentLeadId: string | null = null;
-  private currentCallLogId: string | null = null;
-  private recordingMetadata: RecordingMetadata | null = null;
-  private uploadInProgress: boolean = false;
-  private uploadStatus: 'idle' | 'uploading' | 'success' | 'failed' = 'idle';
-  private uploadProgress: number = 0;
-  private callInitiatedTime: number = 0;
-  private appWentToBackground: boolean = false;
+  private machine: CallRecordingStateMachine = new CallRecordingStateMachine();
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private recorderSubscriptions: EmitterSubscription[] = [];
   private useAccessibilityService: boolean = false;
 
   constructor() {
-    // Initialize upload service
-    RecordingUploadService.initialize().catch(error => {
-      console.error('[CallRecordingManager] Failed to initialize upload service:', error);
-    });
-
     // Initialize call recording event service
     CallRecordingEventService.initialize();
 
+    // Recordings of a call placed from the app are uploaded here, not as orphans
+    this.machine.subscribe(({ state }) => {
+      CallRecordingEventService.claimOutboundRecordings(isActive(state));
+    });
+
+    this.listenForRecorderEvents();
+
     // Check if accessibility service is available
     this.checkAccessibilityServiceStatus();
   }
@@ -88,52 +114,42 @@ class CallRecordingManager {
         return;
       }
 
-      // Step 2: Store lead ID for later use
-      this.currentLeadId = leadId;
+      // Step 2: Give up on a previous call that never finished (e.g. no stop broadcast)
+      if (isActive(this.getState())) {
+        console.warn(`[CallRecordingManager] Previous call still ${this.getState()}, resetting`);
+        this.send({ type: 'RESET' });
+      }
 
       // Step 3: Log call attempt BEFORE initiating call
-      await this.logCallAttempt(leadId);
-
-      // Step 3.5: Set lead and call log in event service for accessibility recording
-      CallRecordingEventService.setCurrentLead(leadId);
-      if (this.currentCallLogId) {
-        CallRecordingEventService.setCurrentCallLog(this.currentCallLogId);
-      }
+      const callLogId = await this.logCallAttempt(leadId);
 
       // Step 4: Check if accessibility service is handling recording
       await this.checkAccessibilityServiceStatus();
 
-      // Step 5: Initiate the call
-      await CallHelper.initiateCall(phoneNumber);
-
-      // Step 6: Set up app state listener to detect when user returns
-      this.setupAppStateListener();
+      const recordInApp =
+        autoRecord && !this.useAccessibilityService && permissionsGranted.recording;
 
-      // Step 7: Handle recording based on mode
       if (this.useAccessibilityService) {
         // Accessibility service will auto-start recording when call connects
         console.log('[CallRecording] Accessibility service will handle recording automatically');
-        // Recording will be handled by CallRecordingAccessibilityService
-      } else if (autoRecord && permissionsGranted.recording) {
-        // Fallback: Manual recording mode
-        // Wait 3 seconds for call to connect before starting recording
+      } else if (recordInApp) {
+        // Fallback: recording starts once the dialer has taken over the screen
         console.log('[CallRecording] Using manual recording mode (accessibility service not enabled)');
-        setTimeout(async () => {
-          try {
-            await this.startRecording();
-            console.log('[CallRecording] Recording started after call connection delay');
-          } catch (error) {
-            console.error('[CallRecording] Failed to start delayed recording:', error);
-            // Don't show error to user as call is already in progress
-          }
-        }, 3000);
       } else if (autoRecord && !permissionsGranted.recording) {
         // Show notice about recording permission
         ErrorMessageService.showRecordingPermissionDenied();
       }
+
+      // Step 5: Listen for the dialer before opening it, so no app state change is missed
+      this.send({ type: 'DIAL', leadId, callLogId, phoneNumber, recordInApp, at: Date.now() });
+      this.setupAppStateListener();
+
+      // Step 6: Initiate the call
+      await CallHelper.initiateCall(phoneNumber);
     } catch (error) {
       // Clean up on error
-      await this.cleanup();
+      this.send({ type: 'FAIL', error: error instanceof Error ? error.message : 'Call failed' });
+      this.cleanup();
 
       ErrorMessageService.handleError(error, false, 'Unable to initiate call. Please try again.');
 
@@ -147,6 +163,12 @@ class CallRecordingManager {
    */
   async startRecording(): Promise<string> {
     try {
+      // One recorder per call; the accessibility service may already be recording it
+      const state = this.getState();
+      if (state === 'recording' || state === 'stopping') {
+        throw new Error('This call is already being recorded');
+      }
+
       // Check recording permission
       const hasPermission = await PermissionService.hasRecordingPermission();
 
@@ -160,6 +182,7 @@ class CallRecordingManager {
       // Start recording
       const filePath = await RecordingService.startRecording();
       console.log('Recording started:', filePath);
+      this.send({ type: 'RECORDING_STARTED', filePath });
 
       return filePath;
     } catch (error) {
@@ -178,20 +201,35 @@ class CallRecordingManager {
     onProgress?: (progress: number) => void,
   ): Promise<RecordingMetadata> {
     try {
+      this.send({ type: 'STOP' });
+
       // Stop recording
       const metadata = await RecordingService.stopRecording();
-      this.recordingMetadata = metadata;
 
       console.log('Recording stopped:', metadata);
 
-      // Upload if requested and we have a lead ID
-      if (uploadImmediately && this.currentLeadId) {
-        await this.uploadRecording(this.currentLeadId, metadata, onProgress);
+      if (!uploadImmediately) {
+        // Kept on the device; the call goes on without a recording
+        this.send({ type: 'RECORDING_CANCELLED' });
+        return metadata;
+      }
+
+      const accepted = this.send({
+        type: 'RECORDING_STOPPED',
+        filePath: metadata.filePath,
+        durationSeconds: Math.round(metadata.duration),
+        fileSize: metadata.fileSize,
+      });
+
+      // Upload if this recording belongs to the current call
+      if (accepted && this.getState() === 'uploading') {
+        await this.uploadRecording(onProgress);
       }
 
       return metadata;
     } catch (error) {
       console.error('Failed to stop recording:', error);
+      this.send({ type: 'FAIL', error: error instanceof Error ? error.message : 'Stop failed' });
       throw error;
     }
   }
@@ -202,13 +240,31 @@ class CallRecordingManager {
   async cancelRecording(): Promise<void> {
     try {
       await RecordingService.cancelRecording();
-      this.recordingMetadata = null;
+      this.send({ type: 'RECORDING_CANCELLED' });
       console.log('Recording cancelled');
     } catch (error) {
       console.error('Failed to cancel recording:', error);
     }
   }
 
+  /**
+   * Bookmark the current moment of the app's recording
+   * Bookmarks from the recording notification arrive as a broadcast instead
+   * @param label - What happened at this point of the call
+   * @returns True if the bookmark was added to the recording
+   */
+  addBookmark(label: string): boolean {
+    if (this.getSnapshot().context.recorder !== 'app') {
+      return false;
+    }
+
+    return this.send({
+      type: 'BOOKMARK',
+      label,
+      offsetSeconds: RecordingService.getCurrentDuration(),
+    });
+  }
+
   /**
    * Check if currently recording
    * @returns True if recording is in progress
@@ -226,40 +282,86 @@ class CallRecordingManager {
   }
 
   /**
-   * Upload a recording to the server using RecordingUploadService
-   * @param leadId - Lead ID
-   * @param metadata - Recording metadata
+   * Get the state of the current call and its recording
+   * @returns State and call details
+   */
+  getSnapshot(): CallRecordingSnapshot {
+    return this.machine.getSnapshot();
+  }
+
+  /**
+   * Get the state of the current call
+   * @returns Current state
+   */
+  getState(): CallRecordingState {
+    return this.machine.getSnapshot().state;
+  }
+
+  /**
+   * Subscribe to state changes of the current call
+   * @param listener - Callback receiving each new snapshot
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (snapshot: CallRecordingSnapshot) => void): () => void {
+    return this.machine.subscribe(listener);
+  }
+
+  /**
+   * Apply an event to the state machine
+   * @param event - Event from AppState, the recorder or the accessibility service
+   * @returns True if the event was accepted
+   */
+  private send(event: CallRecordingEvent): boolean {
+    const from = this.getState();
+    const accepted = this.machine.send(event);
+
+    if (accepted) {
+      console.log(`[CallRecordingManager] ${from} -> ${this.getState()} (${event.type})`);
+    } else {
+      console.log(`[CallRecordingManager] Ignored ${event.type} while ${from}`);
+    }
+
+    return accepted;
+  }
+
+  /**
+   * Upload the current call's recording using RecordingUploadService
+   * A recording without a call log is kept for the Unassigned Recordings screen
    * @param onProgress - Progress callback
    * @returns Promise that resolves when upload is complete
    */
-  private async uploadRecording(
-    leadId: string,
-    metadata: RecordingMetadata,
-    onProgress?: (progress: number) => void,
-  ): Promise<void> {
-    if (this.uploadInProgress) {
-      console.log('[CallRecordingManager] Upload already in progress');
+  private async uploadRecording(onProgress?: (progress: number) => void): Promise<void> {
+    const { leadId, callLogId, phoneNumber, placedAt, filePath, durationSeconds, fileSize, bookmarks } =
+      this.getSnapshot().context;
+
+    if (!filePath) {
+      this.send({ type: 'UPLOAD_FAILED', error: 'No recording file' });
       return;
     }
 
-    if (!this.currentCallLogId) {
+    if (!leadId || !callLogId) {
       console.error('[CallRecordingManager] No call log ID available for upload');
+      await OrphanRecordingService.add({
+        filePath,
+        phoneNumber,
+        direction: 'outbound',
+        startedAt: new Date(placedAt || Date.now()).toISOString(),
+        durationSeconds,
+        fileSize,
+      });
+      this.send({ type: 'UPLOAD_FAILED', error: 'No call log for the recording' });
       return;
     }
 
     try {
-      this.uploadInProgress = true;
-      this.uploadStatus = 'uploading';
-      this.uploadProgress = 0;
-
-      console.log('[CallRecordingManager] Uploading recording:', metadata.filePath);
+      console.log('[CallRecordingManager] Uploading recording:', filePath);
 
       const result = await RecordingUploadService.uploadRecording({
-        filePath: metadata.filePath,
+        filePath,
         leadId,
-        callLogId: this.currentCallLogId,
+        callLogId,
+        bookmarks,
         onProgress: (progress) => {
-          this.uploadProgress = progress;
           if (onProgress) {
             onProgress(progress);
           }
@@ -269,30 +371,36 @@ class CallRecordingManager {
 
       if (result.success) {
         console.log('[CallRecordingManager] Recording uploaded successfully');
-        this.uploadStatus = 'success';
-        this.uploadProgress = 100;
 
         // Clean up local file after successful upload
-        await RecordingService.deleteRecording(metadata.filePath);
+        await RecordingService.deleteRecording(filePath);
 
         // Invalidate cache so UI fetches fresh data
         LeadService.clearLeadCache(leadId);
 
+        this.send({ type: 'UPLOAD_SUCCEEDED' });
+
         // Notify listeners
         this.notifyListeners(true);
+      } else if (result.queued) {
+        // Not an error: the outbox keeps the file and uploads it later
+        console.log('[CallRecordingManager] Recording queued for upload:', result.error);
+        this.send({ type: 'UPLOAD_QUEUED', reason: result.error || 'Upload queued' });
+        ErrorMessageService.showUploadQueued();
       } else {
         throw new Error(result.error || 'Upload failed');
       }
     } catch (error) {
       console.error('[CallRecordingManager] Failed to upload recording:', error);
-      this.uploadStatus = 'failed';
+      this.send({
+        type: 'UPLOAD_FAILED',
+        error: error instanceof Error ? error.message : 'Upload failed',
+      });
 
       // Show error to user
       ErrorMessageService.showUploadFailed();
 
       throw error;
-    } finally {
-      this.uploadInProgress = false;
     }
   }
 
@@ -329,18 +437,36 @@ class CallRecordingManager {
     });
   }
 
+  private callEndedListeners: ((event: CallEndedEvent) => void)[] = [];
+
+  /**
+   * Add listener for when the user returns from a call
+   * @param callback - Function to call with the call log and measured duration
+   */
+  addCallEndedListener(callback: (event: CallEndedEvent) => void): void {
+    this.callEndedListeners.push(callback);
+  }
+
   /**
-   * Get current upload status
-   * @returns Upload status object
+   * Remove call ended listener
+   * @param callback - Function to remove
    */
-  getUploadStatus(): {
-    status: 'idle' | 'uploading' | 'success' | 'failed';
-    progress: number;
-  } {
-    return {
-      status: this.uploadStatus,
-      progress: this.uploadProgress,
-    };
+  removeCallEndedListener(callback: (event: CallEndedEvent) => void): void {
+    this.callEndedListeners = this.callEndedListeners.filter(l => l !== callback);
+  }
+
+  /**
+   * Notify listeners that a call has ended
+   * @param event - Call details
+   */
+  private notifyCallEnded(event: CallEndedEvent): void {
+    this.callEndedListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[CallRecordingManager] Error in call ended listener:', error);
+      }
+    });
   }
 
   /**
@@ -379,22 +505,79 @@ class CallRecordingManager {
   /**
    * Log call attempt to the server
    * @param leadId - Lead ID
+   * @returns Call log ID, or null if the call couldn't be logged
    */
-  private async logCallAttempt(leadId: string): Promise<void> {
+  private async logCallAttempt(leadId: string): Promise<string | null> {
     try {
+      // The disposition sheet records how the call went once it ends
       const callLog = await LeadService.logCall(leadId, {
-        outcome: 'connected', // Default to connected, can be updated later
+        outcome: 'pending',
         duration_seconds: 0,
       });
-      this.currentCallLogId = callLog.id;
-      
-      // Update event service with call log ID
-      CallRecordingEventService.setCurrentCallLog(callLog.id);
-      
+
       console.log('[CallRecordingManager] Call log created:', callLog.id);
+      return callLog.id;
     } catch (error) {
       console.error('Failed to log call attempt:', error);
       // Don't throw - this is not critical
+      return null;
+    }
+  }
+
+  /**
+   * Listen for the recorder and accessibility service broadcasts
+   */
+  private listenForRecorderEvents(): void {
+    if (Platform.OS !== 'android') {
+      return;
+    }
+
+    this.recorderSubscriptions = [
+      DeviceEventEmitter.addListener('com.educationcrm.CALL_RECORDING_STARTED', (event) => {
+        // Inbound calls are handled by CallRecordingEventService
+        if (event?.direction !== 'inbound' && event?.filePath) {
+          this.send({ type: 'CALL_RECORDING_STARTED', filePath: event.filePath });
+        }
+      }),
+      DeviceEventEmitter.addListener('com.educationcrm.CALL_RECORDING_ENDED', () => {
+        this.send({ type: 'CALL_RECORDING_ENDED' });
+      }),
+      DeviceEventEmitter.addListener('com.educationcrm.RECORDING_BOOKMARK', (event) => {
+        // Notification actions mark whichever recording the service is making
+        if (event?.label && event.filePath === this.getSnapshot().context.filePath) {
+          this.send({ type: 'BOOKMARK', label: event.label, offsetSeconds: event.offsetSeconds || 0 });
+        }
+      }),
+      DeviceEventEmitter.addListener(
+        'com.educationcrm.RECORDING_STOPPED',
+        this.handleRecorderStopped.bind(this),
+      ),
+    ];
+  }
+
+  /**
+   * Handle the recorder's stop broadcast for a recording made by the accessibility service
+   * The app's own recordings are reported by stopRecording() instead
+   * @param event - Broadcast with filePath, duration and fileSize
+   */
+  private async handleRecorderStopped(event: any): Promise<void> {
+    if (this.getSnapshot().context.recorder !== 'accessibility') {
+      return;
+    }
+
+    const accepted = this.send({
+      type: 'RECORDING_STOPPED',
+      filePath: event.filePath,
+      durationSeconds: Math.round(event.duration || 0),
+      fileSize: event.fileSize || 0,
+    });
+
+    if (accepted && this.getState() === 'uploading') {
+      try {
+        await this.uploadRecording();
+      } catch (error) {
+        console.error('[CallRecordingManager] Accessibility recording upload failed:', error);
+      }
     }
   }
 
@@ -403,15 +586,8 @@ class CallRecordingManager {
    */
   private setupAppStateListener(): void {
     // Remove existing listener if any
-    if (this.appStateSubscription) {
-      this.appStateSubscription.remove();
-    }
-
-    // Mark when call was initiated
-    this.callInitiatedTime = Date.now();
-    this.appWentToBackground = false;
+    this.cleanup();
 
-    // Add new listener
     this.appStateSubscription = AppState.addEventListener(
       'change',
       this.handleAppStateChange.bind(this),
@@ -419,78 +595,128 @@ class CallRecordingManager {
   }
 
   /**
-   * Handle app state changes (detect return from call)
+   * Handle app state changes (dialer opened, user returned from call)
    * @param nextAppState - Next app state
    */
   private async handleAppStateChange(nextAppState: AppStateStatus): Promise<void> {
-    const timeSinceCallInitiated = Date.now() - this.callInitiatedTime;
-
     console.log(`[CallRecording] App state changed to: ${nextAppState}`);
-    console.log(`[CallRecording] Time since call initiated: ${timeSinceCallInitiated}ms`);
-    console.log(`[CallRecording] App went to background: ${this.appWentToBackground}`);
-    console.log(`[CallRecording] Recording in progress: ${RecordingService.isCurrentlyRecording()}`);
 
-    // Track when app goes to background (dialer opens)
     if (nextAppState === 'background' || nextAppState === 'inactive') {
-      console.log('[CallRecording] App went to background/inactive - dialer opened');
-      this.appWentToBackground = true;
-      return;
-    }
+      const accepted = this.send({ type: 'APP_BACKGROUND', at: Date.now() });
 
-    // When app becomes active again (user returned from call)
-    if (nextAppState === 'active') {
-      console.log('[CallRecording] App became active - checking if call completed');
-
-      // Only stop recording if:
-      // 1. App actually went to background (dialer was opened)
-      // 2. At least 3 seconds have passed (to avoid stopping immediately)
-      // 3. Recording is still in progress
-      if (this.appWentToBackground &&
-        timeSinceCallInitiated > 3000 &&
-        RecordingService.isCurrentlyRecording()) {
-        console.log('[CallRecording] Stopping recording - call appears to be complete');
+      // In manual mode the app records once the dialer has the screen
+      const { state, context } = this.getSnapshot();
+      if (accepted && state === 'in_call' && context.recordInApp) {
         try {
-          await this.stopRecording(true);
+          await this.startRecording();
         } catch (error) {
-          console.error('[CallRecording] Failed to stop recording on app resume:', error);
+          console.error('[CallRecording] Failed to start recording:', error);
+          // Don't show error to user as call is already in progress
         }
-      } else {
-        console.log('[CallRecording] Not stopping recording:');
-        console.log(`  - Went to background: ${this.appWentToBackground}`);
-        console.log(`  - Time passed: ${timeSinceCallInitiated}ms (need >3000ms)`);
-        console.log(`  - Recording active: ${RecordingService.isCurrentlyRecording()}`);
       }
+      return;
+    }
+
+    // Ignored unless the dialer was opened and this is the first return from it
+    if (nextAppState === 'active' && this.send({ type: 'APP_ACTIVE', at: Date.now() })) {
+      await this.handleReturnFromCall();
+    }
+  }
+
+  /**
+   * Stop the app's recording, measure the call and ask the user for its outcome
+   */
+  private async handleReturnFromCall(): Promise<void> {
+    this.cleanup();
+
+    const { state, context } = this.getSnapshot();
+    const { leadId, callLogId, phoneNumber, placedAt, recorder } = context;
+
+    // Time spent in the dialer, replaced by the recording length when we have one
+    let durationSeconds = Math.round(
+      ((context.returnedAt || 0) - (context.backgroundAt || 0)) / 1000,
+    );
+
+    // The accessibility service stops its own recording when the call ends
+    if (state === 'stopping' && recorder === 'app') {
+      console.log('[CallRecording] Stopping recording - call appears to be complete');
+      try {
+        const metadata = await this.stopRecording(true);
+        durationSeconds = Math.round(metadata.duration);
+      } catch (error) {
+        console.error('[CallRecording] Failed to stop recording on app resume:', error);
+      }
+    }
+
+    if (!leadId) {
+      return;
+    }
+
+    // The phone's call log knows whether the call was answered and for how long
+    let outcome: CallData['outcome'] | null = null;
+    const measured = phoneNumber
+      ? await this.measureCall(leadId, callLogId, phoneNumber, placedAt || 0)
+      : null;
+    if (measured) {
+      outcome = measured.outcome;
+      durationSeconds = measured.duration_seconds || 0;
+    }
+
+    // Ask the user for the real outcome of the call
+    this.notifyCallEnded({ leadId, callLogId, durationSeconds, outcome });
+  }
+
+  /**
+   * Read a call's real outcome and duration from the device call log and save
+   * them on its call log
+   * @param leadId - Lead ID
+   * @param callLogId - Call log created when the call was placed
+   * @param phoneNumber - Number that was dialled
+   * @param since - When the call was placed (epoch ms)
+   * @returns Measured call data, or null if the call log couldn't be read
+   */
+  private async measureCall(
+    leadId: string,
+    callLogId: string | null,
+    phoneNumber: string,
+    since: number,
+  ): Promise<CallData | null> {
+    const entry = await DeviceCallLogService.findCall(phoneNumber, since);
+    if (!entry) {
+      return null;
+    }
 
-      // Clean up
-      await this.cleanup();
+    const callData = DeviceCallLogService.toCallData(entry);
+
+    if (callLogId) {
+      try {
+        await LeadService.updateCall(leadId, callLogId, callData);
+        console.log('[CallRecordingManager] Call log updated from device call log:', callData);
+      } catch (error) {
+        console.error('[CallRecordingManager] Failed to save measured call:', error);
+      }
     }
+
+    return callData;
   }
 
   /**
-   * Clean up resources
+   * Stop listening for app state changes
    */
-  private async cleanup(): Promise<void> {
-    // Remove app state listener
+  private cleanup(): void {
     if (this.appStateSubscription) {
       this.appStateSubscription.remove();
       this.appStateSubscription = null;
     }
-
-    // Reset state
-    this.currentLeadId = null;
-    this.currentCallLogId = null;
-    this.recordingMetadata = null;
-    this.callInitiatedTime = 0;
-    this.appWentToBackground = false;
-    this.uploadStatus = 'idle';
-    this.uploadProgress = 0;
   }
 
   /**
    * Cleanup on app shutdown
    */
   destroy(): void {
-    RecordingUploadService.cleanup();
+    this.cleanup();
+    this.recorderSubscriptions.forEach(subscription => subscription.remove());
+    this.recorderSubscriptions = [];
     CallRecordingEventService.cleanup();
   }
 
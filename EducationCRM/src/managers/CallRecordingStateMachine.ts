@@ -0,0 +1,314 @@
+/**
+ * CallRecordingStateMachine - The states an outgoing call goes through, from
+ * dialling to its recording being uploaded
+ *
+ * Kept free of React Native imports: CallRecordingManager turns AppState changes,
+ * recorder broadcasts and accessibility service events into the typed events below,
+ * and only the transitions listed in TRANSITIONS are accepted. Anything else (a
+ * second "recording started", a return to the app before the dialer opened, a late
+ * broadcast for a recording that was already handled) is ignored.
+ */
+
+import type { CallBookmark } from '../services/LeadService';
+
+export type CallRecordingState =
+  | 'idle'
+  | 'dialing'
+  | 'in_call'
+  | 'recording'
+  | 'stopping'
+  | 'uploading'
+  /** The upload failed for now and was left to the sync outbox to retry */
+  | 'upload_pending'
+  | 'done'
+  | 'failed';
+
+export type CallRecordingEvent =
+  /** A call was placed from the app */
+  | {
+      type: 'DIAL';
+      leadId: string;
+      callLogId: string | null;
+      phoneNumber: string;
+      /** Whether the app starts recording itself once the dialer is open */
+      recordInApp: boolean;
+      at: number;
+    }
+  /** AppState: the dialer took over the screen */
+  | { type: 'APP_BACKGROUND'; at: number }
+  /** AppState: the user came back to the app */
+  | { type: 'APP_ACTIVE'; at: number }
+  /** Accessibility service: the call connected and it started recording */
+  | { type: 'CALL_RECORDING_STARTED'; filePath: string }
+  /** Accessibility service: the call ended */
+  | { type: 'CALL_RECORDING_ENDED' }
+  /** The app's own recorder started */
+  | { type: 'RECORDING_STARTED'; filePath: string }
+  /** A moment in the call was marked, at offsetSeconds into the recording */
+  | { type: 'BOOKMARK'; label: string; offsetSeconds: number }
+  /** The recording was thrown away, the call goes on */
+  | { type: 'RECORDING_CANCELLED' }
+  /** Stopping the recording was requested */
+  | { type: 'STOP' }
+  /** Recorder broadcast: the file is complete */
+  | { type: 'RECORDING_STOPPED'; filePath: string; durationSeconds: number; fileSize: number }
+  | { type: 'UPLOAD_SUCCEEDED' }
+  /** The recording was queued for upload instead */
+  | { type: 'UPLOAD_QUEUED'; reason: string }
+  | { type: 'UPLOAD_FAILED'; error: string }
+  | { type: 'FAIL'; error: string }
+  | { type: 'RESET' };
+
+export type CallRecordingEventType = CallRecordingEvent['type'];
+
+export interface CallRecordingContext {
+  leadId: string | null;
+  callLogId: string | null;
+  phoneNumber: string | null;
+  recordInApp: boolean;
+  /** Who is recording the call */
+  recorder: 'app' | 'accessibility' | null;
+  /** Epoch milliseconds */
+  placedAt: number | null;
+  backgroundAt: number | null;
+  returnedAt: number | null;
+  filePath: string | null;
+  durationSeconds: number;
+  fileSize: number;
+  /** Marked moments of the current recording, in offset order */
+  bookmarks: CallBookmark[];
+  error: string | null;
+}
+
+export interface CallRecordingSnapshot {
+  state: CallRecordingState;
+  context: CallRecordingContext;
+}
+
+type EventOf<T extends CallRecordingEventType> = Extract<CallRecordingEvent, { type: T }>;
+
+/** Target state, or a guard that returns it (null rejects the event) */
+type Target<E extends CallRecordingEvent> =
+  | CallRecordingState
+  | ((snapshot: CallRecordingSnapshot, event: E) => CallRecordingState | null);
+
+type StateTransitions = { [T in CallRecordingEventType]?: Target<EventOf<T>> };
+
+const EMPTY_CONTEXT: CallRecordingContext = {
+  leadId: null,
+  callLogId: null,
+  phoneNumber: null,
+  recordInApp: false,
+  recorder: null,
+  placedAt: null,
+  backgroundAt: null,
+  returnedAt: null,
+  filePath: null,
+  durationSeconds: 0,
+  fileSize: 0,
+  bookmarks: [],
+  error: null,
+};
+
+export const INITIAL_SNAPSHOT: CallRecordingSnapshot = { state: 'idle', context: EMPTY_CONTEXT };
+
+// Coming back to the app ends the call only once, and only after the dialer was opened
+const returned =
+  (target: CallRecordingState | null) =>
+  (snapshot: CallRecordingSnapshot): CallRecordingState | null =>
+    snapshot.context.backgroundAt !== null && snapshot.context.returnedAt === null
+      ? target || snapshot.state
+      : null;
+
+// The accessibility service can report the call before AppState reports the dialer
+const firstBackground = (snapshot: CallRecordingSnapshot): CallRecordingState | null =>
+  snapshot.context.backgroundAt === null ? snapshot.state : null;
+
+const recordingStopped = (
+  snapshot: CallRecordingSnapshot,
+  event: EventOf<'RECORDING_STOPPED'>,
+): CallRecordingState | null => {
+  if (snapshot.context.filePath && snapshot.context.filePath !== event.filePath) {
+    return null;
+  }
+  return event.fileSize > 0 ? 'uploading' : 'failed';
+};
+
+export const TRANSITIONS: Record<CallRecordingState, StateTransitions> = {
+  idle: {
+    DIAL: 'dialing',
+  },
+  dialing: {
+    APP_BACKGROUND: 'in_call',
+    CALL_RECORDING_STARTED: 'recording',
+    RECORDING_STARTED: 'recording',
+    FAIL: 'failed',
+  },
+  in_call: {
+    CALL_RECORDING_STARTED: 'recording',
+    RECORDING_STARTED: 'recording',
+    APP_ACTIVE: returned('done'),
+    FAIL: 'failed',
+  },
+  recording: {
+    APP_BACKGROUND: firstBackground,
+    APP_ACTIVE: returned('stopping'),
+    CALL_RECORDING_ENDED: 'stopping',
+    STOP: 'stopping',
+    BOOKMARK: 'recording',
+    RECORDING_STOPPED: recordingStopped,
+    RECORDING_CANCELLED: 'in_call',
+    FAIL: 'failed',
+  },
+  stopping: {
+    APP_ACTIVE: returned(null),
+    RECORDING_STOPPED: recordingStopped,
+    RECORDING_CANCELLED: 'in_call',
+    FAIL: 'failed',
+  },
+  uploading: {
+    APP_ACTIVE: returned(null),
+    UPLOAD_SUCCEEDED: 'done',
+    UPLOAD_QUEUED: 'upload_pending',
+    UPLOAD_FAILED: 'failed',
+  },
+  upload_pending: {
+    DIAL: 'dialing',
+    APP_ACTIVE: returned(null),
+  },
+  done: {
+    DIAL: 'dialing',
+    APP_ACTIVE: returned(null),
+  },
+  failed: {
+    DIAL: 'dialing',
+    APP_ACTIVE: returned(null),
+  },
+};
+
+/**
+ * Apply the context changes an accepted event carries
+ */
+const updateContext = (
+  context: CallRecordingContext,
+  event: CallRecordingEvent,
+): CallRecordingContext => {
+  switch (event.type) {
+    case 'DIAL':
+      return {
+        ...EMPTY_CONTEXT,
+        leadId: event.leadId,
+        callLogId: event.callLogId,
+        phoneNumber: event.phoneNumber,
+        recordInApp: event.recordInApp,
+        placedAt: event.at,
+      };
+    case 'APP_BACKGROUND':
+      return { ...context, backgroundAt: event.at };
+    case 'APP_ACTIVE':
+      return { ...context, returnedAt: event.at };
+    case 'CALL_RECORDING_STARTED':
+      return { ...context, filePath: event.filePath, recorder: 'accessibility' };
+    case 'RECORDING_STARTED':
+      return { ...context, filePath: event.filePath, recorder: 'app' };
+    case 'BOOKMARK':
+      return {
+        ...context,
+        bookmarks: [
+          ...context.bookmarks,
+          { offset_seconds: Math.max(0, event.offsetSeconds), label: event.label },
+        ].sort((a, b) => a.offset_seconds - b.offset_seconds),
+      };
+    case 'RECORDING_CANCELLED':
+      return { ...context, filePath: null, recorder: null, bookmarks: [] };
+    case 'RECORDING_STOPPED':
+      return {
+        ...context,
+        filePath: event.filePath,
+        durationSeconds: event.durationSeconds,
+        fileSize: event.fileSize,
+        error: event.fileSize > 0 ? null : 'Recording is empty',
+      };
+    case 'UPLOAD_QUEUED':
+      return { ...context, error: event.reason };
+    case 'UPLOAD_FAILED':
+    case 'FAIL':
+      return { ...context, error: event.error };
+    default:
+      return context;
+  }
+};
+
+/**
+ * Work out the snapshot an event leads to
+ * @param snapshot - Current snapshot
+ * @param event - Event to apply
+ * @returns Next snapshot, or null if the event isn't allowed in the current state
+ */
+export function transition(
+  snapshot: CallRecordingSnapshot,
+  event: CallRecordingEvent,
+): CallRecordingSnapshot | null {
+  if (event.type === 'RESET') {
+    return INITIAL_SNAPSHOT;
+  }
+
+  const target = TRANSITIONS[snapshot.state][event.type] as Target<typeof event> | undefined;
+  const nextState = typeof target === 'function' ? target(snapshot, event) : target;
+  if (!nextState) {
+    return null;
+  }
+
+  return { state: nextState, context: updateContext(snapshot.context, event) };
+}
+
+/**
+ * Whether a call flow is still running (a new call would cut it short)
+ * @param state - Current state
+ */
+export function isActive(state: CallRecordingState): boolean {
+  return !['idle', 'upload_pending', 'done', 'failed'].includes(state);
+}
+
+/**
+ * Holds the current snapshot and notifies subscribers when it changes
+ */
+export class CallRecordingStateMachine {
+  private snapshot: CallRecordingSnapshot = INITIAL_SNAPSHOT;
+  private listeners: Array<(snapshot: CallRecordingSnapshot) => void> = [];
+
+  /**
+   * Get the current state and context
+   */
+  getSnapshot(): CallRecordingSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Apply an event
+   * @param event - Event to apply
+   * @returns True if the event was accepted, false if it was ignored
+   */
+  send(event: CallRecordingEvent): boolean {
+    const next = transition(this.snapshot, event);
+    if (!next) {
+      return false;
+    }
+
+    this.snapshot = next;
+    this.listeners.forEach(listener => listener(this.snapshot));
+    return true;
+  }
+
+  /**
+   * Subscribe to snapshot changes
+   * @param listener - Callback receiving each new snapshot
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (snapshot: CallRecordingSnapshot) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+}
@@ -1,11 +1,16 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ActivityIndicator, View, StyleSheet, AppState } from 'react-native';
 import { authEvents } from '../utils/authEvents';
 import { TOKEN_KEY } from '../services/ApiService';
+import FollowUpService from '../services/FollowUpService';
+import FollowUpReminderService from '../services/FollowUpReminderService';
+import AuthService from '../services/AuthService';
+import InboundCallPrompt from '../components/InboundCallPrompt';
+import LogoutButton from '../components/LogoutButton';
 
 // Placeholder screens - will be implemented in later tasks
 import LoginScreen from '../screens/LoginScreen';
@@ -13,10 +18,17 @@ import LeadListScreen from '../screens/LeadListScreen';
 import LeadDetailScreen from '../screens/LeadDetailScreen';
 import FollowUpListScreen from '../screens/FollowUpListScreen';
 import StatsScreen from '../screens/StatsScreen';
+import CallingSessionScreen from '../screens/CallingSessionScreen';
+import FollowUpAgendaScreen from '../screens/FollowUpAgendaScreen';
+import OrphanRecordingsScreen from '../screens/OrphanRecordingsScreen';
+import RecordingDiagnosticsScreen from '../screens/RecordingDiagnosticsScreen';
+import ReviewQueueScreen from '../screens/ReviewQueueScreen';
+import CallReviewScreen from '../screens/CallReviewScreen';
 
 const AuthStack = createNativeStackNavigator();
 const MainStack = createNativeStackNavigator();
 const Tab = createBottomTabNavigator();
+const navigationRef = createNavigationContainerRef();
 
 function AuthNavigator() {
   return (
@@ -30,11 +42,20 @@ function AuthNavigator() {
   );
 }
 
+const renderLogoutButton = () => <LogoutButton />;
+
 function TabNavigator() {
+  const [role, setRole] = useState<string | null>(null);
+
+  useEffect(() => {
+    AuthService.getUserProfile().then(profile => setRole(profile?.role ?? null));
+  }, []);
+
   return (
     <Tab.Navigator
       screenOptions={{
         headerShown: true,
+        headerRight: renderLogoutButton,
         tabBarActiveTintColor: '#2563eb',
         tabBarInactiveTintColor: '#6b7280',
         tabBarStyle: {
@@ -74,6 +95,17 @@ function TabNavigator() {
           tabBarLabel: 'Stats',
         }}
       />
+      {/* Branch managers review their telecallers' recorded calls, admins any branch's */}
+      {(role === 'manager' || role === 'admin') && (
+        <Tab.Screen
+          name="Reviews"
+          component={ReviewQueueScreen}
+          options={{
+            title: 'Call Reviews',
+            tabBarLabel: 'Reviews',
+          }}
+        />
+      )}
     </Tab.Navigator>
   );
 }
@@ -91,6 +123,31 @@ function MainNavigator() {
         component={LeadDetailScreen}
         options={{ title: 'Lead Details' }}
       />
+      <MainStack.Screen
+        name="CallingSession"
+        component={CallingSessionScreen}
+        options={{ title: 'Calling Session' }}
+      />
+      <MainStack.Screen
+        name="FollowUpAgenda"
+        component={FollowUpAgendaScreen}
+        options={{ title: 'Agenda' }}
+      />
+      <MainStack.Screen
+        name="OrphanRecordings"
+        component={OrphanRecordingsScreen}
+        options={{ title: 'Unassigned Recordings' }}
+      />
+      <MainStack.Screen
+        name="RecordingDiagnostics"
+        component={RecordingDiagnosticsScreen}
+        options={{ title: 'Recording Check' }}
+      />
+      <MainStack.Screen
+        name="CallReview"
+        component={CallReviewScreen}
+        options={{ title: 'Review Call' }}
+      />
     </MainStack.Navigator>
   );
 }
@@ -98,6 +155,26 @@ function MainNavigator() {
 export default function AppNavigator() {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Lead opened from a reminder before navigation was ready
+  const pendingLeadIdRef = useRef<string | null>(null);
+
+  const openLead = useCallback((leadId: string) => {
+    if (!navigationRef.isReady()) {
+      pendingLeadIdRef.current = leadId;
+      return;
+    }
+
+    // @ts-ignore - Navigation types will be properly typed later
+    navigationRef.navigate('LeadDetail', { leadId });
+  }, []);
+
+  const handleNavigationReady = useCallback(() => {
+    const leadId = pendingLeadIdRef.current;
+    if (leadId && isAuthenticated) {
+      pendingLeadIdRef.current = null;
+      openLead(leadId);
+    }
+  }, [isAuthenticated, openLead]);
 
   const checkAuthStatus = useCallback(async () => {
     try {
@@ -136,6 +213,24 @@ export default function AppNavigator() {
     };
   }, [checkAuthStatus]);
 
+  // Follow-up reminders: open the lead when a reminder is tapped
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    FollowUpReminderService.getInitialLeadId().then(leadId => {
+      if (leadId) {
+        openLead(leadId);
+      }
+    });
+
+    // Schedule reminders even if the Follow-ups tab is never opened
+    FollowUpService.syncReminders();
+
+    return FollowUpReminderService.addReminderOpenedListener(openLead);
+  }, [isAuthenticated, openLead]);
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -145,8 +240,9 @@ export default function AppNavigator() {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef} onReady={handleNavigationReady}>
       {isAuthenticated ? <MainNavigator /> : <AuthNavigator />}
+      {isAuthenticated && <InboundCallPrompt onOpenLead={openLead} />}
     </NavigationContainer>
   );
 }
@@ -0,0 +1,480 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import ReviewService, { QaCriterion, ReviewableCall } from '../services/ReviewService';
+import AudioPlayerService, { PlaybackState } from '../services/AudioPlayerService';
+import { QaComment } from '../services/LeadService';
+import WaveformScrubber from '../components/WaveformScrubber';
+import PlaybackControls from '../components/PlaybackControls';
+import { formatRelative } from '../utils/dateTime';
+
+// Matches the server's limit on comment length
+const MAX_COMMENT_LENGTH = 1000;
+
+const formatOffset = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+/**
+ * CallReviewScreen - A branch manager scores a recorded call
+ * Every rubric criterion is scored from 0 to its maximum, and comments are
+ * pinned to the playback position they were written at
+ */
+export default function CallReviewScreen() {
+  const route = useRoute();
+  const navigation = useNavigation();
+  const { call } = route.params as { call: ReviewableCall };
+
+  const [rubric, setRubric] = useState<QaCriterion[]>([]);
+  const [scores, setScores] = useState<Record<string, number>>(() =>
+    Object.fromEntries(call.qa_scores.map(score => [score.criterion, score.score]))
+  );
+  const [comments, setComments] = useState<QaComment[]>(call.qa_comments);
+  const [draftComment, setDraftComment] = useState('');
+  const [playbackState, setPlaybackState] = useState<PlaybackState | null>(null);
+  const [isLoadingRubric, setIsLoadingRubric] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasLoadedRecording, setHasLoadedRecording] = useState(false);
+
+  useEffect(() => {
+    ReviewService.getRubric(call.branch_id)
+      .then(setRubric)
+      .catch(error => {
+        console.error('[CallReviewScreen] Failed to load rubric:', error);
+        Alert.alert('Error', 'Failed to load the review rubric');
+      })
+      .finally(() => setIsLoadingRubric(false));
+  }, [call.branch_id]);
+
+  useEffect(() => {
+    const unsubscribe = AudioPlayerService.subscribe(setPlaybackState);
+    return () => {
+      unsubscribe();
+      AudioPlayerService.cleanup();
+    };
+  }, []);
+
+  const handlePlayPause = async () => {
+    try {
+      if (!hasLoadedRecording) {
+        // Streams until the full recording has been cached, like lead recordings
+        await AudioPlayerService.load(ReviewService.getRecordingUrl(call.id), {
+          leadId: call.lead_id,
+          recordingId: call.id,
+        });
+        setHasLoadedRecording(true);
+        await AudioPlayerService.play();
+      } else if (playbackState?.isPlaying) {
+        await AudioPlayerService.pause();
+      } else {
+        await AudioPlayerService.play();
+      }
+    } catch (error) {
+      console.error('[CallReviewScreen] Failed to play recording:', error);
+    }
+  };
+
+  const handleTimestampPress = async (offsetSeconds: number) => {
+    try {
+      if (!hasLoadedRecording) {
+        await handlePlayPause();
+      }
+      await AudioPlayerService.seek(offsetSeconds);
+    } catch (error) {
+      console.error('[CallReviewScreen] Failed to seek recording:', error);
+    }
+  };
+
+  const handleAddComment = () => {
+    const body = draftComment.trim();
+    if (!body) {
+      return;
+    }
+
+    const comment = { offset_seconds: Math.floor(playbackState?.currentTime ?? 0), body };
+    setComments(current =>
+      [...current, comment].sort((a, b) => a.offset_seconds - b.offset_seconds)
+    );
+    setDraftComment('');
+  };
+
+  const handleRemoveComment = (index: number) => {
+    setComments(current => current.filter((_, i) => i !== index));
+  };
+
+  const isComplete = rubric.length > 0 && rubric.every(criterion => criterion.key in scores);
+
+  const handleSave = async () => {
+    if (!isComplete) {
+      Alert.alert('Incomplete Review', 'Score every criterion before saving.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const reviewed = await ReviewService.submitReview(
+        call.id,
+        rubric.map(criterion => ({ criterion: criterion.key, score: scores[criterion.key] })),
+        comments
+      );
+      Alert.alert('Review Saved', `Quality score: ${reviewed.qa_score}%`, [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error: any) {
+      console.error('[CallReviewScreen] Failed to save review:', error);
+      const message = error.response?.data?.error?.message || 'Failed to save review';
+      Alert.alert('Error', message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isPlaying = playbackState?.isPlaying ?? false;
+  const isLoadingAudio = playbackState?.isLoading ?? false;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Call */}
+      <View style={styles.card}>
+        <Text style={styles.studentName}>{call.student_name}</Text>
+        <Text style={styles.meta}>
+          {call.telecaller_name || 'Unknown telecaller'} · {formatRelative(call.inserted_at)} ·{' '}
+          {formatOffset(call.duration_seconds ?? 0)}
+        </Text>
+
+        {hasLoadedRecording && playbackState?.waveform && (
+          <WaveformScrubber
+            waveform={playbackState.waveform}
+            currentTime={playbackState.currentTime}
+            duration={playbackState.duration}
+            onSeek={time => AudioPlayerService.seek(time)}
+            bookmarks={call.bookmarks}
+          />
+        )}
+
+        {hasLoadedRecording && playbackState && !playbackState.isLoading && (
+          <PlaybackControls
+            playbackRate={playbackState.playbackRate}
+            skipSilence={playbackState.skipSilence}
+            onSkip={seconds => AudioPlayerService.skip(seconds)}
+            onPlaybackRateChange={rate => AudioPlayerService.setPlaybackRate(rate)}
+            onSkipSilenceChange={enabled => AudioPlayerService.setSkipSilence(enabled)}
+          />
+        )}
+
+        <TouchableOpacity
+          style={[styles.playButton, isPlaying && styles.playButtonActive]}
+          onPress={handlePlayPause}
+          disabled={isLoadingAudio}
+        >
+          {isLoadingAudio ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.playButtonText}>
+              {isPlaying ? '⏸ Pause' : '▶ Play Recording'}
+              {hasLoadedRecording && playbackState
+                ? `  ${formatOffset(playbackState.currentTime)}`
+                : ''}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        {call.bookmarks.length > 0 && (
+          <View style={styles.chipRow}>
+            {call.bookmarks.map(bookmark => (
+              <TouchableOpacity
+                key={`${bookmark.offset_seconds}-${bookmark.label}`}
+                style={styles.bookmarkChip}
+                onPress={() => handleTimestampPress(bookmark.offset_seconds)}
+              >
+                <Text style={styles.bookmarkText}>
+                  🔖 {formatOffset(bookmark.offset_seconds)} {bookmark.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+
+      {/* Rubric */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Scores</Text>
+        {isLoadingRubric ? (
+          <ActivityIndicator size="small" color="#3b82f6" />
+        ) : (
+          rubric.map(criterion => (
+            <View key={criterion.key} style={styles.criterion}>
+              <Text style={styles.criterionLabel}>
+                {criterion.label}
+                <Text style={styles.criterionMax}> / {criterion.max_score}</Text>
+              </Text>
+              <View style={styles.chipRow}>
+                {Array.from({ length: criterion.max_score + 1 }, (_, score) => (
+                  <TouchableOpacity
+                    key={score}
+                    style={[
+                      styles.scoreChip,
+                      scores[criterion.key] === score && styles.scoreChipActive,
+                    ]}
+                    onPress={() => setScores(current => ({ ...current, [criterion.key]: score }))}
+                  >
+                    <Text
+                      style={[
+                        styles.scoreChipText,
+                        scores[criterion.key] === score && styles.scoreChipTextActive,
+                      ]}
+                    >
+                      {score}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+
+      {/* Coaching comments */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Coaching Comments</Text>
+        {comments.length === 0 && (
+          <Text style={styles.emptyText}>Pause where something stood out and add a comment</Text>
+        )}
+        {comments.map((comment, index) => (
+          <View key={`${comment.offset_seconds}-${index}`} style={styles.comment}>
+            <TouchableOpacity onPress={() => handleTimestampPress(comment.offset_seconds)}>
+              <Text style={styles.commentTime}>{formatOffset(comment.offset_seconds)}</Text>
+            </TouchableOpacity>
+            <Text style={styles.commentBody}>{comment.body}</Text>
+            <TouchableOpacity onPress={() => handleRemoveComment(index)}>
+              <Text style={styles.removeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <TextInput
+          style={styles.input}
+          placeholder={`Comment at ${formatOffset(playbackState?.currentTime ?? 0)}`}
+          placeholderTextColor="#9ca3af"
+          value={draftComment}
+          onChangeText={setDraftComment}
+          maxLength={MAX_COMMENT_LENGTH}
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !draftComment.trim() && styles.buttonDisabled]}
+          onPress={handleAddComment}
+          disabled={!draftComment.trim()}
+        >
+          <Text style={styles.addButtonText}>Add Comment</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveButton, (!isComplete || isSaving) && styles.buttonDisabled]}
+        onPress={handleSave}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.saveButtonText}>
+            {call.qa_reviewed_at ? 'Update Review' : 'Save Review'}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  studentName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    fontFamily: 'System',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+    marginBottom: 12,
+    fontFamily: 'System',
+  },
+  playButton: {
+    backgroundColor: '#0ea5e9',
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  playButtonActive: {
+    backgroundColor: '#f59e0b',
+  },
+  playButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+    fontFamily: 'System',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  bookmarkChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fcd34d',
+  },
+  bookmarkText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#b45309',
+    fontFamily: 'System',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+    fontFamily: 'System',
+  },
+  criterion: {
+    marginBottom: 14,
+  },
+  criterionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+    fontFamily: 'System',
+  },
+  criterionMax: {
+    fontWeight: '400',
+    color: '#9ca3af',
+  },
+  scoreChip: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+  },
+  scoreChipActive: {
+    borderColor: '#4338ca',
+    backgroundColor: '#4338ca',
+  },
+  scoreChipText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+    fontFamily: 'System',
+  },
+  scoreChipTextActive: {
+    color: '#ffffff',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#9ca3af',
+    fontStyle: 'italic',
+    marginBottom: 8,
+    fontFamily: 'System',
+  },
+  comment: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  commentTime: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#0ea5e9',
+    fontFamily: 'System',
+  },
+  commentBody: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+    fontFamily: 'System',
+  },
+  removeText: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginTop: 12,
+    minHeight: 60,
+    fontSize: 15,
+    color: '#111827',
+    textAlignVertical: 'top',
+    fontFamily: 'System',
+  },
+  addButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#eff6ff',
+    marginTop: 8,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1d4ed8',
+    fontFamily: 'System',
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#4338ca',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+    fontFamily: 'System',
+  },
+});
@@ -0,0 +1,470 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import LeadService, { CallData, LeadFilters } from '../services/LeadService';
+import FollowUpService from '../services/FollowUpService';
+import CallRecordingManager, { CallEndedEvent } from '../managers/CallRecordingManager';
+import CallDispositionSheet from '../components/CallDispositionSheet';
+import { statusLabel } from '../utils/leadStatus';
+
+// Seconds to wait before dialing the next lead
+const AUTO_ADVANCE_DELAY = 5;
+
+interface SessionLead {
+  id: string;
+  student_name: string;
+  phone_number: string;
+  status: string;
+  followUpId?: string;
+}
+
+interface SessionSummary {
+  callsMade: number;
+  connected: number;
+  talkTimeSeconds: number;
+  skipped: number;
+}
+
+type SessionPhase = 'loading' | 'ready' | 'calling' | 'countdown' | 'paused' | 'finished';
+
+export default function CallingSessionScreen() {
+  const route = useRoute();
+  const navigation = useNavigation();
+  // @ts-ignore
+  const { source, filters }: { source: 'leads' | 'followups'; filters?: LeadFilters } = route.params;
+
+  const [queue, setQueue] = useState<SessionLead[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [phase, setPhase] = useState<SessionPhase>('loading');
+  const [countdown, setCountdown] = useState(AUTO_ADVANCE_DELAY);
+  const [endedCall, setEndedCall] = useState<CallEndedEvent | null>(null);
+  const [summary, setSummary] = useState<SessionSummary>({
+    callsMade: 0,
+    connected: 0,
+    talkTimeSeconds: 0,
+    skipped: 0,
+  });
+
+  const pageRef = useRef(1);
+  const totalPagesRef = useRef(1);
+  const currentLead = queue[currentIndex];
+
+  /**
+   * Fetch the next page of leads when the session nears the end of what's loaded
+   */
+  const loadMoreIfNeeded = async (nextIndex: number) => {
+    if (source !== 'leads' || nextIndex < queue.length - 1) {
+      return;
+    }
+    if (pageRef.current >= totalPagesRef.current) {
+      return;
+    }
+
+    try {
+      const response = await LeadService.fetchLeads(filters || {}, pageRef.current + 1);
+      pageRef.current = response.page;
+      totalPagesRef.current = response.total_pages;
+      setQueue(prev => [...prev, ...response.data]);
+    } catch (error) {
+      console.error('[CallingSession] Failed to load more leads:', error);
+    }
+  };
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      try {
+        if (source === 'followups') {
+          const grouped = await FollowUpService.getGroupedFollowUps();
+          const leads: SessionLead[] = [];
+          grouped.overdue.forEach(followUp => {
+            // One call per lead even if it has several overdue follow-ups
+            if (followUp.lead && !leads.some(l => l.id === followUp.lead_id)) {
+              leads.push({
+                id: followUp.lead_id,
+                student_name: followUp.lead.student_name,
+                phone_number: followUp.lead.phone_number,
+                status: followUp.lead.status,
+                followUpId: followUp.id,
+              });
+            }
+          });
+          setQueue(leads);
+        } else {
+          const response = await LeadService.fetchLeads(filters || {}, 1);
+          pageRef.current = response.page;
+          totalPagesRef.current = response.total_pages;
+          setQueue(response.data);
+        }
+        setPhase('ready');
+      } catch (error) {
+        console.error('[CallingSession] Failed to load session leads:', error);
+        Alert.alert('Error', 'Failed to load leads for the calling session');
+        navigation.goBack();
+      }
+    };
+
+    loadQueue();
+  }, [source, filters, navigation]);
+
+  useEffect(() => {
+    const handleCallEnded = (event: CallEndedEvent) => {
+      if (currentLead && event.leadId === currentLead.id) {
+        setEndedCall(event);
+      }
+    };
+
+    CallRecordingManager.addCallEndedListener(handleCallEnded);
+
+    return () => {
+      CallRecordingManager.removeCallEndedListener(handleCallEnded);
+    };
+  }, [currentLead]);
+
+  const dialCurrent = useCallback(async () => {
+    if (!currentLead) {
+      return;
+    }
+
+    try {
+      setPhase('calling');
+      await CallRecordingManager.handleCallWithRecording(currentLead.id, currentLead.phone_number, true);
+      setSummary(prev => ({ ...prev, callsMade: prev.callsMade + 1 }));
+    } catch (error) {
+      console.error('[CallingSession] Failed to dial lead:', error);
+      setPhase('paused');
+    }
+  }, [currentLead]);
+
+  const advance = async () => {
+    const nextIndex = currentIndex + 1;
+    await loadMoreIfNeeded(nextIndex);
+    setCurrentIndex(nextIndex);
+  };
+
+  // Finish once we run past the end of the queue
+  useEffect(() => {
+    if (phase !== 'loading' && currentIndex >= queue.length) {
+      setPhase('finished');
+    }
+  }, [currentIndex, queue.length, phase]);
+
+  // Auto-advance countdown between calls
+  useEffect(() => {
+    if (phase !== 'countdown') {
+      return;
+    }
+
+    if (countdown <= 0) {
+      dialCurrent();
+      return;
+    }
+
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [phase, countdown, dialCurrent]);
+
+  const startCountdown = () => {
+    setCountdown(AUTO_ADVANCE_DELAY);
+    setPhase('countdown');
+  };
+
+  const moveToNextLead = async (paused: boolean) => {
+    await advance();
+    if (paused) {
+      setPhase('paused');
+    } else {
+      startCountdown();
+    }
+  };
+
+  const handleDispositionSaved = async (callData: CallData) => {
+    setEndedCall(null);
+    setSummary(prev => ({
+      ...prev,
+      connected: prev.connected + (callData.outcome === 'connected' ? 1 : 0),
+      talkTimeSeconds: prev.talkTimeSeconds + (callData.duration_seconds || 0),
+    }));
+
+    // A connected call takes care of the overdue follow-up
+    if (currentLead?.followUpId && callData.outcome === 'connected') {
+      try {
+        await FollowUpService.markComplete(currentLead.followUpId);
+      } catch (error) {
+        console.error('[CallingSession] Failed to complete follow-up:', error);
+      }
+    }
+
+    await moveToNextLead(false);
+  };
+
+  const handleDispositionSkipped = async () => {
+    setEndedCall(null);
+    await moveToNextLead(true);
+  };
+
+  const handleSkip = async () => {
+    setSummary(prev => ({ ...prev, skipped: prev.skipped + 1 }));
+    await moveToNextLead(phase === 'paused' || phase === 'ready');
+  };
+
+  const handlePauseResume = () => {
+    if (phase === 'countdown') {
+      setPhase('paused');
+    } else if (phase === 'paused') {
+      startCountdown();
+    }
+  };
+
+  const handleEndSession = () => {
+    setPhase('finished');
+  };
+
+  const formatTalkTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}m ${secs.toString().padStart(2, '0')}s`;
+  };
+
+  if (phase === 'loading') {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Preparing calling session...</Text>
+      </View>
+    );
+  }
+
+  if (phase === 'finished') {
+    return (
+      <View style={styles.container}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Session Summary</Text>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Calls made</Text>
+            <Text style={styles.summaryValue}>{summary.callsMade}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Connected</Text>
+            <Text style={styles.summaryValue}>{summary.connected}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Talk time</Text>
+            <Text style={styles.summaryValue}>{formatTalkTime(summary.talkTimeSeconds)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Skipped</Text>
+            <Text style={styles.summaryValue}>{summary.skipped}</Text>
+          </View>
+        </View>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.primaryButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.progressText}>
+        Lead {Math.min(currentIndex + 1, queue.length)} of {queue.length}
+        {source === 'leads' && pageRef.current < totalPagesRef.current ? '+' : ''}
+      </Text>
+
+      {currentLead && (
+        <View style={styles.card}>
+          <Text style={styles.leadName}>{currentLead.student_name}</Text>
+          <Text style={styles.leadPhone}>📞 {currentLead.phone_number}</Text>
+          <Text style={styles.leadStatus}>
+            {statusLabel(currentLead.status)}
+          </Text>
+
+          {phase === 'calling' && <Text style={styles.phaseText}>Call in progress...</Text>}
+          {phase === 'countdown' && (
+            <Text style={styles.phaseText}>Dialing in {countdown}s</Text>
+          )}
+          {phase === 'paused' && <Text style={styles.phaseText}>Session paused</Text>}
+        </View>
+      )}
+
+      <View style={styles.stats}>
+        <Text style={styles.statText}>Calls: {summary.callsMade}</Text>
+        <Text style={styles.statText}>Connected: {summary.connected}</Text>
+        <Text style={styles.statText}>Talk: {formatTalkTime(summary.talkTimeSeconds)}</Text>
+      </View>
+
+      {(phase === 'ready' || phase === 'paused') && (
+        <TouchableOpacity style={styles.primaryButton} onPress={dialCurrent}>
+          <Text style={styles.primaryButtonText}>
+            {phase === 'ready' ? 'Start Calling' : 'Call Now'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleSkip}>
+          <Text style={styles.secondaryButtonText}>Skip</Text>
+        </TouchableOpacity>
+        {(phase === 'countdown' || phase === 'paused') && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handlePauseResume}>
+            <Text style={styles.secondaryButtonText}>
+              {phase === 'countdown' ? 'Pause' : 'Resume'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.endButton} onPress={handleEndSession}>
+          <Text style={styles.endButtonText}>End Session</Text>
+        </TouchableOpacity>
+      </View>
+
+      {currentLead && (
+        <CallDispositionSheet
+          visible={endedCall !== null}
+          leadId={currentLead.id}
+          callLogId={endedCall?.callLogId ?? null}
+          durationSeconds={endedCall?.durationSeconds ?? 0}
+          measuredOutcome={endedCall?.outcome ?? null}
+          currentStatus={currentLead.status}
+          onClose={handleDispositionSkipped}
+          onSaved={handleDispositionSaved}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  leadName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  leadPhone: {
+    fontSize: 16,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  leadStatus: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  phaseText: {
+    marginTop: 16,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#f59e0b',
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  statText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  summaryLabel: {
+    fontSize: 16,
+    color: '#374151',
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  primaryButton: {
+    backgroundColor: '#10b981',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  endButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#fee2e2',
+    alignItems: 'center',
+  },
+  endButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+});
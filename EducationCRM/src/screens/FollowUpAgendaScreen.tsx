@@ -0,0 +1,525 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import FollowUpService, { FollowUp } from '../services/FollowUpService';
+import AgendaSlotPicker from '../components/AgendaSlotPicker';
+import {
+  AGENDA_HOURS,
+  SLOT_CAPACITY,
+  countLoad,
+  dayKey,
+  dayLoadColor,
+  startOfWeek,
+} from '../utils/agenda';
+import { addDays, formatTime, parseDateTime, startOfDay } from '../utils/dateTime';
+
+type AgendaMode = 'day' | 'week';
+
+interface HourGroup {
+  hour: number;
+  followUps: FollowUp[];
+}
+
+const formatHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour} ${suffix}`;
+};
+
+/**
+ * Group a day's follow-ups by hour
+ * Working hours are always listed in day view; other hours only when something is booked
+ */
+const groupByHour = (followUps: FollowUp[], includeEmpty: boolean): HourGroup[] => {
+  const byHour = new Map<number, FollowUp[]>();
+
+  if (includeEmpty) {
+    AGENDA_HOURS.forEach(hour => byHour.set(hour, []));
+  }
+
+  followUps.forEach(followUp => {
+    const hour = parseDateTime(followUp.scheduled_at)!.getHours();
+    byHour.set(hour, [...(byHour.get(hour) || []), followUp]);
+  });
+
+  return Array.from(byHour.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([hour, items]) => ({ hour, followUps: items }));
+};
+
+export default function FollowUpAgendaScreen() {
+  const navigation = useNavigation();
+  const [mode, setMode] = useState<AgendaMode>('day');
+  const [selectedDay, setSelectedDay] = useState<Date>(startOfDay(new Date()));
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState('');
+  const [movingFollowUp, setMovingFollowUp] = useState<FollowUp | null>(null);
+
+  const weekStart = useMemo(() => startOfWeek(selectedDay), [selectedDay]);
+  const weekDays = useMemo(
+    () => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)),
+    [weekStart]
+  );
+  const load = useMemo(() => countLoad(followUps), [followUps]);
+
+  const fetchAgenda = useCallback(
+    async (refresh: boolean = false) => {
+      try {
+        if (refresh) {
+          setIsRefreshing(true);
+        } else {
+          setIsLoading(true);
+        }
+
+        setError('');
+
+        // Always load the whole week so the strip can show each day's load
+        const agenda = await FollowUpService.getAgenda(weekStart, 7);
+        setFollowUps(agenda);
+      } catch (err: any) {
+        console.error('Error fetching agenda:', err);
+        setError('Failed to load agenda. Please try again.');
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [weekStart]
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchAgenda();
+    }, [fetchAgenda])
+  );
+
+  const followUpsForDay = (day: Date): FollowUp[] =>
+    followUps.filter(followUp => dayKey(parseDateTime(followUp.scheduled_at)!) === dayKey(day));
+
+  const handleShift = (direction: number) => {
+    setSelectedDay(addDays(selectedDay, direction * (mode === 'day' ? 1 : 7)));
+  };
+
+  const handleDayPress = (day: Date) => {
+    setSelectedDay(day);
+    setMode('day');
+  };
+
+  const handleOpenLead = (followUp: FollowUp) => {
+    // @ts-ignore
+    navigation.navigate('LeadDetail', { leadId: followUp.lead_id });
+  };
+
+  const handleMoved = () => {
+    setMovingFollowUp(null);
+    fetchAgenda(true);
+  };
+
+  const renderFollowUp = (followUp: FollowUp) => {
+    const time = formatTime(parseDateTime(followUp.scheduled_at)!);
+
+    return (
+      <TouchableOpacity
+        key={followUp.id}
+        style={styles.followUpItem}
+        onPress={() => setMovingFollowUp(followUp)}
+        onLongPress={() => handleOpenLead(followUp)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.followUpTime}>{time}</Text>
+        <View style={styles.followUpInfo}>
+          <Text style={styles.followUpName} numberOfLines={1}>
+            {followUp.lead?.student_name || followUp.lead_name || 'Unknown Lead'}
+          </Text>
+          {followUp.description ? (
+            <Text style={styles.followUpDescription} numberOfLines={1}>
+              {followUp.description}
+            </Text>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHourGroup = (day: Date, group: HourGroup) => {
+    const isOverbooked = group.followUps.length > SLOT_CAPACITY;
+
+    return (
+      <View key={`${dayKey(day)}-${group.hour}`} style={styles.hourRow}>
+        <View style={styles.hourLabelColumn}>
+          <Text style={styles.hourLabel}>{formatHour(group.hour)}</Text>
+          {isOverbooked && (
+            <Text style={styles.overbookedBadge}>⚠️ {group.followUps.length}</Text>
+          )}
+        </View>
+        <View style={[styles.hourSlot, isOverbooked && styles.hourSlotOverbooked]}>
+          {group.followUps.length === 0 ? (
+            <Text style={styles.emptySlotText}>Free</Text>
+          ) : (
+            group.followUps.map(renderFollowUp)
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderWeekStrip = () => (
+    <View style={styles.weekStrip}>
+      {weekDays.map(day => {
+        const count = load.byDay.get(dayKey(day)) || 0;
+        const isSelected = mode === 'day' && dayKey(day) === dayKey(selectedDay);
+        const isToday = dayKey(day) === dayKey(new Date());
+
+        return (
+          <TouchableOpacity
+            key={dayKey(day)}
+            style={[styles.dayCell, isSelected && styles.dayCellSelected]}
+            onPress={() => handleDayPress(day)}
+          >
+            <Text style={[styles.dayName, isSelected && styles.dayTextSelected]}>
+              {day.toLocaleDateString('en-US', { weekday: 'short' })}
+            </Text>
+            <Text
+              style={[styles.dayNumber, isToday && styles.dayNumberToday, isSelected && styles.dayTextSelected]}
+            >
+              {day.getDate()}
+            </Text>
+            <View style={[styles.loadBadge, count > 0 && { backgroundColor: dayLoadColor(count) }]}>
+              <Text style={styles.loadBadgeText}>{count}</Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderDayView = () => groupByHour(followUpsForDay(selectedDay), true)
+    .map(group => renderHourGroup(selectedDay, group));
+
+  const renderWeekView = () => weekDays.map(day => {
+    const dayFollowUps = followUpsForDay(day);
+
+    return (
+      <View key={dayKey(day)} style={styles.weekDaySection}>
+        <TouchableOpacity style={styles.weekDayHeader} onPress={() => handleDayPress(day)}>
+          <Text style={styles.weekDayTitle}>
+            {day.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+          </Text>
+          <Text style={[styles.weekDayCount, { color: dayLoadColor(dayFollowUps.length) }]}>
+            {dayFollowUps.length} {dayFollowUps.length === 1 ? 'call' : 'calls'}
+          </Text>
+        </TouchableOpacity>
+        {dayFollowUps.length === 0 ? (
+          <Text style={styles.emptyDayText}>Nothing booked</Text>
+        ) : (
+          groupByHour(dayFollowUps, false).map(group => renderHourGroup(day, group))
+        )}
+      </View>
+    );
+  });
+
+  const title = mode === 'day'
+    ? selectedDay.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })
+    : `${weekDays[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${weekDays[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <View style={styles.modeToggle}>
+          {(['day', 'week'] as AgendaMode[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+              onPress={() => setMode(option)}
+            >
+              <Text style={[styles.modeButtonText, mode === option && styles.modeButtonTextActive]}>
+                {option === 'day' ? 'Day' : 'Week'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.navigator}>
+          <TouchableOpacity style={styles.navButton} onPress={() => handleShift(-1)}>
+            <Text style={styles.navButtonText}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.rangeTitle} numberOfLines={1}>{title}</Text>
+          <TouchableOpacity style={styles.navButton} onPress={() => handleShift(1)}>
+            <Text style={styles.navButtonText}>›</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {renderWeekStrip()}
+
+      {error ? (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3b82f6" />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={() => fetchAgenda(true)}
+              colors={['#3b82f6']}
+              tintColor="#3b82f6"
+            />
+          }
+        >
+          <Text style={styles.hint}>Tap a follow-up to move it, long-press to open the lead</Text>
+          {mode === 'day' ? renderDayView() : renderWeekView()}
+        </ScrollView>
+      )}
+
+      <AgendaSlotPicker
+        visible={movingFollowUp !== null}
+        followUp={movingFollowUp}
+        days={weekDays}
+        slotLoad={load.bySlot}
+        onClose={() => setMovingFollowUp(null)}
+        onSaved={handleMoved}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  toolbar: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+    padding: 2,
+    marginBottom: 8,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#ffffff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  modeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  modeButtonTextActive: {
+    color: '#111827',
+  },
+  navigator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  navButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  navButtonText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  rangeTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  weekStrip: {
+    flexDirection: 'row',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  dayCellSelected: {
+    backgroundColor: '#3b82f6',
+  },
+  dayName: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  dayNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+    marginVertical: 2,
+  },
+  dayNumberToday: {
+    color: '#3b82f6',
+  },
+  dayTextSelected: {
+    color: '#ffffff',
+  },
+  loadBadge: {
+    minWidth: 22,
+    backgroundColor: '#e5e7eb',
+    paddingHorizontal: 4,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  loadBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  errorBanner: {
+    backgroundColor: '#fee2e2',
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ef4444',
+  },
+  errorText: {
+    color: '#991b1b',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginBottom: 12,
+  },
+  hourRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  hourLabelColumn: {
+    width: 56,
+    paddingTop: 10,
+  },
+  hourLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  overbookedBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#b45309',
+    marginTop: 2,
+  },
+  hourSlot: {
+    flex: 1,
+    minHeight: 40,
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    padding: 4,
+  },
+  hourSlotOverbooked: {
+    borderColor: '#f59e0b',
+    backgroundColor: '#fffbeb',
+  },
+  emptySlotText: {
+    fontSize: 13,
+    color: '#d1d5db',
+    padding: 6,
+  },
+  followUpItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#eff6ff',
+    marginBottom: 4,
+  },
+  followUpTime: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3b82f6',
+    width: 72,
+  },
+  followUpInfo: {
+    flex: 1,
+  },
+  followUpName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  followUpDescription: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  weekDaySection: {
+    marginBottom: 16,
+  },
+  weekDayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  weekDayTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  weekDayCount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyDayText: {
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+});
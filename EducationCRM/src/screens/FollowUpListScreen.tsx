@@ -10,6 +10,8 @@ import {
 } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import FollowUpService, { FollowUp } from '../services/FollowUpService';
+import SwipeableRow from '../components/SwipeableRow';
+import FollowUpActionSheet, { FollowUpAction } from '../components/FollowUpActionSheet';
 
 interface FollowUpSection {
   title: string;
@@ -23,6 +25,8 @@ export default function FollowUpListScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState('');
+  const [selectedFollowUp, setSelectedFollowUp] = useState<FollowUp | null>(null);
+  const [selectedAction, setSelectedAction] = useState<FollowUpAction>('reschedule');
 
   const fetchFollowUps = async (refresh: boolean = false) => {
     try {
@@ -87,6 +91,26 @@ export default function FollowUpListScreen() {
     }
   };
 
+  const openActionSheet = (followUp: FollowUp, action: FollowUpAction) => {
+    setSelectedAction(action);
+    setSelectedFollowUp(followUp);
+  };
+
+  const handleActionSaved = () => {
+    setSelectedFollowUp(null);
+    fetchFollowUps(true);
+  };
+
+  const handleCallOverdue = () => {
+    // @ts-ignore
+    navigation.navigate('CallingSession', { source: 'followups' });
+  };
+
+  const handleOpenAgenda = () => {
+    // @ts-ignore
+    navigation.navigate('FollowUpAgenda');
+  };
+
   const handleFollowUpPress = (followUp: FollowUp) => {
     if (followUp.lead) {
       // @ts-ignore
@@ -102,41 +126,49 @@ export default function FollowUpListScreen() {
     });
 
     return (
-      <TouchableOpacity
-        style={styles.followUpCard}
-        onPress={() => handleFollowUpPress(item)}
-        activeOpacity={0.7}
+      <SwipeableRow
+        actions={[
+          { label: 'Reschedule', color: '#3b82f6', onPress: () => openActionSheet(item, 'reschedule') },
+          { label: 'Done + Next', color: '#10b981', onPress: () => openActionSheet(item, 'complete_next') },
+          { label: 'Cancel', color: '#ef4444', onPress: () => openActionSheet(item, 'cancel') },
+        ]}
       >
-        <View style={styles.cardContent}>
-          <View style={styles.cardHeader}>
-            <View style={styles.leadInfo}>
-              <Text style={styles.leadName}>
-                {item.lead?.student_name || 'Unknown Lead'}
-              </Text>
-              {item.lead?.phone_number && (
-                <Text style={styles.phoneNumber}>📞 {item.lead.phone_number}</Text>
-              )}
+        <TouchableOpacity
+          style={styles.followUpCard}
+          onPress={() => handleFollowUpPress(item)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.cardContent}>
+            <View style={styles.cardHeader}>
+              <View style={styles.leadInfo}>
+                <Text style={styles.leadName}>
+                  {item.lead?.student_name || 'Unknown Lead'}
+                </Text>
+                {item.lead?.phone_number && (
+                  <Text style={styles.phoneNumber}>📞 {item.lead.phone_number}</Text>
+                )}
+              </View>
+              <TouchableOpacity
+                style={styles.checkbox}
+                onPress={() => handleMarkComplete(item.id)}
+              >
+                <Text style={styles.checkboxIcon}>✓</Text>
+              </TouchableOpacity>
             </View>
-            <TouchableOpacity
-              style={styles.checkbox}
-              onPress={() => handleMarkComplete(item.id)}
-            >
-              <Text style={styles.checkboxIcon}>✓</Text>
-            </TouchableOpacity>
-          </View>
 
-          <View style={styles.timeContainer}>
-            <Text style={styles.timeIcon}>🕐</Text>
-            <Text style={styles.timeText}>{timeString}</Text>
-          </View>
+            <View style={styles.timeContainer}>
+              <Text style={styles.timeIcon}>🕐</Text>
+              <Text style={styles.timeText}>{timeString}</Text>
+            </View>
 
-          {item.description && (
-            <Text style={styles.description} numberOfLines={2}>
-              {item.description}
-            </Text>
-          )}
-        </View>
-      </TouchableOpacity>
+            {item.description && (
+              <Text style={styles.description} numberOfLines={2}>
+                {item.description}
+              </Text>
+            )}
+          </View>
+        </TouchableOpacity>
+      </SwipeableRow>
     );
   };
 
@@ -180,6 +212,8 @@ export default function FollowUpListScreen() {
     );
   };
 
+  const overdueCount = sections.find(section => section.title === 'Overdue')?.data.length || 0;
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -197,6 +231,17 @@ export default function FollowUpListScreen() {
         </View>
       ) : null}
 
+      <View style={styles.actionRow}>
+        {overdueCount > 0 && (
+          <TouchableOpacity style={styles.sessionButton} onPress={handleCallOverdue}>
+            <Text style={styles.sessionButtonText}>📞 Call {overdueCount} Overdue</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.agendaButton} onPress={handleOpenAgenda}>
+          <Text style={styles.agendaButtonText}>🗓 Agenda</Text>
+        </TouchableOpacity>
+      </View>
+
       <SectionList
         sections={sections}
         renderItem={renderFollowUpCard}
@@ -214,6 +259,14 @@ export default function FollowUpListScreen() {
         ListEmptyComponent={renderEmptyState}
         stickySectionHeadersEnabled={false}
       />
+
+      <FollowUpActionSheet
+        visible={selectedFollowUp !== null}
+        followUp={selectedFollowUp}
+        action={selectedAction}
+        onClose={() => setSelectedFollowUp(null)}
+        onSaved={handleActionSaved}
+      />
     </View>
   );
 }
@@ -248,6 +301,38 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  sessionButton: {
+    flex: 1,
+    backgroundColor: '#ef4444',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  sessionButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  agendaButton: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  agendaButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#3b82f6',
+  },
   listContent: {
     padding: 16,
   },
@@ -283,7 +368,6 @@ const styles = StyleSheet.create({
   followUpCard: {
     backgroundColor: '#ffffff',
     borderRadius: 12,
-    marginBottom: 12,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.06,
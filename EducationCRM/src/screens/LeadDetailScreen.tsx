@@ -13,21 +13,27 @@ import {
   Platform,
 } from 'react-native';
 import { useRoute, useNavigation } from '@react-navigation/native';
-import LeadService, { LeadDetail, UpdateLeadData } from '../services/LeadService';
+import LeadService, {
+  LeadDetail,
+  RecordingDeletionReason,
+  UpdateLeadData,
+} from '../services/LeadService';
 import FollowUpService from '../services/FollowUpService';
-import CallRecordingManager from '../managers/CallRecordingManager';
+import CallRecordingManager, { CallEndedEvent } from '../managers/CallRecordingManager';
 import AudioPlayerService, { PlaybackState } from '../services/AudioPlayerService';
-import UploadQueueService from '../services/UploadQueueService';
+import AuthService from '../services/AuthService';
 import RecordingList from '../components/RecordingList';
-
-const STATUS_OPTIONS = [
-  { label: 'New', value: 'new' },
-  { label: 'Contacted', value: 'contacted' },
-  { label: 'Interested', value: 'interested' },
-  { label: 'Not Interested', value: 'not_interested' },
-  { label: 'Enrolled', value: 'enrolled' },
-  { label: 'Lost', value: 'lost' },
-];
+import BookmarkButton from '../components/BookmarkButton';
+import LeadTimeline from '../components/LeadTimeline';
+import CallDispositionSheet from '../components/CallDispositionSheet';
+import DeleteRecordingSheet from '../components/DeleteRecordingSheet';
+import DateTimeField from '../components/DateTimeField';
+import StatusReasonFields from '../components/StatusReasonFields';
+import StatusHistoryList from '../components/StatusHistoryList';
+import { canTransition, requiresStatusReason, statusLabel } from '../utils/leadStatus';
+import { usePipeline } from '../hooks/usePipeline';
+import { useCallRecordingState } from '../hooks/useCallRecordingState';
+import { toApiDateTime, validateFutureDateTime } from '../utils/dateTime';
 
 export default function LeadDetailScreen() {
   const route = useRoute();
@@ -35,6 +41,7 @@ export default function LeadDetailScreen() {
   // @ts-ignore
   const { leadId } = route.params;
 
+  const { stages } = usePipeline();
   const [lead, setLead] = useState<LeadDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -48,6 +55,11 @@ export default function LeadDetailScreen() {
   const [isUploading, setIsUploading] = useState(false);
   const [playbackState, setPlaybackState] = useState<PlaybackState | null>(null);
   const [currentPlayingId, setCurrentPlayingId] = useState<string | null>(null);
+  const [endedCall, setEndedCall] = useState<CallEndedEvent | null>(null);
+  const [deletingRecordingId, setDeletingRecordingId] = useState<string | null>(null);
+  const [isDeletingRecording, setIsDeletingRecording] = useState(false);
+  const [canDeleteRecordings, setCanDeleteRecordings] = useState(false);
+  const callRecording = useCallRecordingState();
 
   // Form fields
   const [email, setEmail] = useState('');
@@ -56,21 +68,38 @@ export default function LeadDetailScreen() {
   const [preferredCourse, setPreferredCourse] = useState('');
   const [preferredUniversity, setPreferredUniversity] = useState('');
   const [status, setStatus] = useState('new');
+  const [statusReason, setStatusReason] = useState<string | null>(null);
+  const [statusNote, setStatusNote] = useState('');
   const [newNote, setNewNote] = useState('');
 
   // Follow-up fields
-  const [followUpDate, setFollowUpDate] = useState('');
-  const [followUpTime, setFollowUpTime] = useState('');
+  const [followUpAt, setFollowUpAt] = useState<Date | null>(null);
+  const [showFollowUpErrors, setShowFollowUpErrors] = useState(false);
   const [followUpDescription, setFollowUpDescription] = useState('');
 
   useEffect(() => {
     fetchLeadDetails();
+  }, [leadId]);
+
+  useEffect(() => {
+    // Only managers may delete recordings
+    AuthService.getUserProfile().then(profile =>
+      setCanDeleteRecordings(profile?.role === 'manager' || profile?.role === 'admin'),
+    );
+  }, []);
+
+  useEffect(() => {
+    // Ask for the call outcome when the user returns from the dialer
+    const handleCallEnded = (event: CallEndedEvent) => {
+      if (event.leadId === leadId) {
+        setEndedCall(event);
+      }
+    };
 
-    // Initialize upload queue service
-    UploadQueueService.initialize();
+    CallRecordingManager.addCallEndedListener(handleCallEnded);
 
     return () => {
-      UploadQueueService.cleanup();
+      CallRecordingManager.removeCallEndedListener(handleCallEnded);
     };
   }, [leadId]);
 
@@ -96,27 +125,18 @@ export default function LeadDetailScreen() {
   }, []);
 
   useEffect(() => {
-    // Sync recording state with CallRecordingManager
-    // Check every second if recording is still active
-    const interval = setInterval(() => {
-      const isActuallyRecording = CallRecordingManager.isRecording();
-      if (isRecording !== isActuallyRecording) {
-        setIsRecording(isActuallyRecording);
-        if (!isActuallyRecording) {
-          // Recording was stopped externally, clean up timer
-          if (recordingTimer) {
-            clearInterval(recordingTimer);
-            setRecordingTimer(null);
-          }
-          setRecordingDuration(0);
-        }
+    // Follow recordings started or stopped by CallRecordingManager during the call
+    const isActuallyRecording = CallRecordingManager.isRecording();
+    setIsRecording(isActuallyRecording);
+    if (!isActuallyRecording) {
+      // Recording was stopped externally, clean up timer
+      if (recordingTimer) {
+        clearInterval(recordingTimer);
+        setRecordingTimer(null);
       }
-    }, 1000);
-
-    return () => {
-      clearInterval(interval);
-    };
-  }, [isRecording, recordingTimer]);
+      setRecordingDuration(0);
+    }
+  }, [callRecording.state, recordingTimer]);
 
   useEffect(() => {
     // Listen for recording completion to refresh the list
@@ -149,6 +169,8 @@ export default function LeadDetailScreen() {
       setPreferredCourse(data.preferred_course || '');
       setPreferredUniversity(data.preferred_university || '');
       setStatus(data.status);
+      setStatusReason(null);
+      setStatusNote('');
     } catch (error) {
       console.error('Error fetching lead details:', error);
       Alert.alert('Error', 'Failed to load lead details');
@@ -161,6 +183,12 @@ export default function LeadDetailScreen() {
   const handleSaveChanges = async () => {
     if (!lead) return;
 
+    const needsReason = requiresStatusReason(lead.status, status);
+    if (needsReason && !statusReason) {
+      Alert.alert('Reason Required', `Please choose why this lead is ${statusLabel(status)}`);
+      return;
+    }
+
     try {
       setIsSaving(true);
 
@@ -171,6 +199,8 @@ export default function LeadDetailScreen() {
         preferred_course: preferredCourse.trim() || undefined,
         preferred_university: preferredUniversity.trim() || undefined,
         status,
+        status_reason: needsReason ? statusReason! : undefined,
+        status_note: needsReason ? statusNote.trim() || undefined : undefined,
       };
 
       // Optimistically update the UI
@@ -182,6 +212,10 @@ export default function LeadDetailScreen() {
       try {
         await LeadService.updateLead(leadId, updateData, true);
         showToast('Lead updated successfully');
+        if (status !== lead.status) {
+          // Reload so the status history includes this change
+          fetchLeadDetails();
+        }
       } catch (error) {
         // Revert changes on error
         console.error('Error updating lead:', error);
@@ -203,9 +237,8 @@ export default function LeadDetailScreen() {
     }
 
     try {
-      // Note: This would need a separate endpoint or be part of update
-      // For now, we'll show a success message
-      Alert.alert('Success', 'Note added successfully');
+      await LeadService.addNote(leadId, newNote.trim());
+      showToast('Note added successfully');
       setNewNote('');
       fetchLeadDetails();
     } catch (error) {
@@ -226,9 +259,7 @@ export default function LeadDetailScreen() {
       // Use CallRecordingManager to handle call with recording
       await CallRecordingManager.handleCallWithRecording(leadId, lead.phone_number, true);
 
-      // We don't check for isRecording immediately here because the service might take a moment to start
-      // and the CallRecordingManager has a delay logic.
-      // The UI will update automatically via the useEffect interval when recording starts.
+      // Recording starts once the dialer is open; the UI follows the manager's state
 
       showToast('Calling...');
 
@@ -355,7 +386,7 @@ export default function LeadDetailScreen() {
       // Load and play the recording
       setCurrentPlayingId(recordingId);
       const url = LeadService.getRecordingUrl(leadId, recordingId);
-      await AudioPlayerService.load(url);
+      await AudioPlayerService.load(url, { leadId, recordingId });
       await AudioPlayerService.play();
     } catch (error) {
       console.error('Error playing recording:', error);
@@ -372,53 +403,79 @@ export default function LeadDetailScreen() {
     }
   };
 
-  const handleDeleteRecording = (recordingId: string) => {
-    Alert.alert(
-      'Delete Recording',
-      'Are you sure you want to delete this recording? This action cannot be undone.',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              // TODO: Implement delete recording API endpoint
-              // await LeadService.deleteRecording(leadId, recordingId);
-
-              showToast('Recording deleted successfully');
-              fetchLeadDetails();
-            } catch (error) {
-              console.error('Error deleting recording:', error);
-              const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-              Alert.alert('Error', `Failed to delete recording: ${errorMessage}`);
-            }
-          },
-        },
-      ]
-    );
+  const handleTimestampPress = async (recordingId: string, offsetSeconds: number) => {
+    try {
+      // Load the recording first unless it is the one in the player
+      if (currentPlayingId !== recordingId) {
+        await handlePlayRecording(recordingId);
+        await AudioPlayerService.seek(offsetSeconds);
+        return;
+      }
+
+      await AudioPlayerService.seek(offsetSeconds);
+      if (!playbackState?.isPlaying) {
+        await AudioPlayerService.play();
+      }
+    } catch (error) {
+      console.error('Error jumping to bookmark:', error);
+    }
+  };
+
+  const handleSkipRecording = async (seconds: number) => {
+    try {
+      await AudioPlayerService.skip(seconds);
+    } catch (error) {
+      console.error('Error skipping recording:', error);
+    }
+  };
+
+  const handleDeleteRecording = async (reason: RecordingDeletionReason, note: string) => {
+    if (!deletingRecordingId) {
+      return;
+    }
+
+    try {
+      setIsDeletingRecording(true);
+
+      // Don't leave the deleted recording loaded in the player
+      if (currentPlayingId === deletingRecordingId) {
+        await AudioPlayerService.stop();
+        setCurrentPlayingId(null);
+      }
+
+      await LeadService.deleteRecording(leadId, deletingRecordingId, reason, note);
+      setDeletingRecordingId(null);
+      showToast('Recording deleted successfully');
+      fetchLeadDetails();
+    } catch (error: any) {
+      console.error('Error deleting recording:', error);
+      const errorMessage =
+        error.response?.data?.error?.message ||
+        (error instanceof Error ? error.message : 'Unknown error');
+      Alert.alert('Error', `Failed to delete recording: ${errorMessage}`);
+    } finally {
+      setIsDeletingRecording(false);
+    }
   };
 
   const handleScheduleFollowUp = async () => {
-    if (!followUpDate || !followUpTime) {
-      Alert.alert('Error', 'Please select date and time');
+    const validationError = validateFutureDateTime(followUpAt);
+    if (validationError) {
+      setShowFollowUpErrors(true);
+      Alert.alert('Error', validationError);
       return;
     }
 
     try {
-      const scheduledAt = `${followUpDate}T${followUpTime}:00`;
       await FollowUpService.createFollowUp(leadId, {
-        scheduled_at: scheduledAt,
+        scheduled_at: toApiDateTime(followUpAt!),
         description: followUpDescription.trim() || undefined,
       });
 
       Alert.alert('Success', 'Follow-up scheduled successfully');
       setShowFollowUpModal(false);
-      setFollowUpDate('');
-      setFollowUpTime('');
+      setFollowUpAt(null);
+      setShowFollowUpErrors(false);
       setFollowUpDescription('');
       fetchLeadDetails();
     } catch (error) {
@@ -474,6 +531,11 @@ export default function LeadDetailScreen() {
             <Text style={styles.stopRecordingText}>Stop Recording</Text>
           </TouchableOpacity>
         )}
+
+        {/* Bookmarks are kept with the call and uploaded with its recording */}
+        {isRecording && callRecording.state === 'recording' && (
+          <BookmarkButton onBookmark={label => CallRecordingManager.addBookmark(label)} />
+        )}
       </View>
 
       {/* Editable Fields Section */}
@@ -552,10 +614,21 @@ export default function LeadDetailScreen() {
           onPress={() => setShowStatusPicker(true)}
         >
           <Text style={styles.statusButtonText}>
-            {STATUS_OPTIONS.find(s => s.value === status)?.label || status}
+            {statusLabel(status)}
           </Text>
           <Text style={styles.dropdownIcon}>▼</Text>
         </TouchableOpacity>
+        {requiresStatusReason(lead.status, status) && (
+          <StatusReasonFields
+            reason={statusReason}
+            note={statusNote}
+            onReasonChange={setStatusReason}
+            onNoteChange={setStatusNote}
+          />
+        )}
+        {lead.status_changes && lead.status_changes.length > 0 && (
+          <StatusHistoryList changes={lead.status_changes} />
+        )}
       </View>
 
       {/* Save Button */}
@@ -588,75 +661,15 @@ export default function LeadDetailScreen() {
         </TouchableOpacity>
       </View>
 
-      {/* Interaction History */}
+      {/* Activity Timeline */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Interaction History</Text>
-        {lead.notes.length === 0 &&
-          lead.call_logs.length === 0 &&
-          lead.followups.length === 0 ? (
-          <Text style={styles.emptyText}>No interactions yet</Text>
-        ) : (
-          <View style={styles.timeline}>
-            {/* Notes */}
-            {lead.notes.map(note => (
-              <View key={note.id} style={styles.timelineItem}>
-                <View style={styles.timelineDot} />
-                <View style={styles.timelineContent}>
-                  <Text style={styles.timelineType}>📝 Note</Text>
-                  <Text style={styles.timelineText}>{note.note}</Text>
-                  <Text style={styles.timelineDate}>
-                    {new Date(note.inserted_at).toLocaleString()}
-                  </Text>
-                </View>
-              </View>
-            ))}
-
-            {/* Call Logs */}
-            {lead.call_logs.map(call => (
-              <View key={call.id} style={styles.timelineItem}>
-                <View style={styles.timelineDot} />
-                <View style={styles.timelineContent}>
-                  <Text style={styles.timelineType}>📞 Call</Text>
-                  <Text style={styles.timelineText}>
-                    Outcome: {call.outcome.replace('_', ' ')}
-                  </Text>
-                  {call.duration_seconds && (
-                    <Text style={styles.timelineText}>
-                      Duration: {Math.floor(call.duration_seconds / 60)}m{' '}
-                      {call.duration_seconds % 60}s
-                    </Text>
-                  )}
-                  <Text style={styles.timelineDate}>
-                    {new Date(call.inserted_at).toLocaleString()}
-                  </Text>
-                </View>
-              </View>
-            ))}
-
-            {/* Follow-ups */}
-            {lead.followups.map(followup => (
-              <View key={followup.id} style={styles.timelineItem}>
-                <View style={styles.timelineDot} />
-                <View style={styles.timelineContent}>
-                  <Text style={styles.timelineType}>
-                    {followup.completed ? '✅' : '📅'} Follow-up
-                  </Text>
-                  {followup.description && (
-                    <Text style={styles.timelineText}>{followup.description}</Text>
-                  )}
-                  <Text style={styles.timelineDate}>
-                    Scheduled: {new Date(followup.scheduled_at).toLocaleString()}
-                  </Text>
-                  {followup.completed && followup.completed_at && (
-                    <Text style={styles.timelineDate}>
-                      Completed: {new Date(followup.completed_at).toLocaleString()}
-                    </Text>
-                  )}
-                </View>
-              </View>
-            ))}
-          </View>
-        )}
+        <Text style={styles.sectionTitle}>Activity</Text>
+        <LeadTimeline
+          lead={lead}
+          onPlayRecording={handlePlayRecording}
+          currentPlayingId={currentPlayingId}
+          isPlaying={playbackState?.isPlaying || false}
+        />
       </View>
 
       {/* Schedule Follow-up Button */}
@@ -683,34 +696,19 @@ export default function LeadDetailScreen() {
               ? `${formatRecordingTime(Math.floor(playbackState.currentTime))} / ${formatRecordingTime(Math.floor(playbackState.duration))}`
               : undefined
           }
+          waveform={playbackState?.waveform}
+          currentTime={playbackState?.currentTime}
+          duration={playbackState?.duration}
+          isStreaming={playbackState?.isStreaming}
+          onSeek={handleSeekRecording}
+          playbackRate={playbackState?.playbackRate}
+          skipSilence={playbackState?.skipSilence}
+          onSkip={handleSkipRecording}
+          onPlaybackRateChange={rate => AudioPlayerService.setPlaybackRate(rate)}
+          onSkipSilenceChange={enabled => AudioPlayerService.setSkipSilence(enabled)}
+          onTimestampPress={handleTimestampPress}
+          onDeleteRecording={canDeleteRecordings ? setDeletingRecordingId : undefined}
         />
-
-        {/* Playback Controls */}
-        {currentPlayingId && playbackState && !playbackState.isLoading && (
-          <View style={styles.playbackControls}>
-            <TouchableOpacity
-              style={styles.seekBar}
-              onPress={(e) => {
-                const { locationX } = e.nativeEvent;
-                const width = 300; // Approximate width, should be measured
-                const percentage = locationX / width;
-                const newTime = percentage * playbackState.duration;
-                handleSeekRecording(newTime);
-              }}
-            >
-              <View style={styles.seekBarTrack}>
-                <View
-                  style={[
-                    styles.seekBarProgress,
-                    {
-                      width: `${(playbackState.currentTime / playbackState.duration) * 100}%`,
-                    },
-                  ]}
-                />
-              </View>
-            </TouchableOpacity>
-          </View>
-        )}
       </View>
 
       {/* Status Picker Modal */}
@@ -727,28 +725,36 @@ export default function LeadDetailScreen() {
         >
           <View style={styles.modalContent}>
             <Text style={styles.modalTitle}>Select Status</Text>
-            {STATUS_OPTIONS.map(option => (
-              <TouchableOpacity
-                key={option.value}
-                style={[
-                  styles.modalOption,
-                  status === option.value && styles.modalOptionSelected,
-                ]}
-                onPress={() => {
-                  setStatus(option.value);
-                  setShowStatusPicker(false);
-                }}
-              >
-                <Text
+            {stages.map(stage => {
+              // Moves are checked against the saved status, not the unsaved pick
+              const isAllowed = canTransition(lead.status, stage.key);
+
+              return (
+                <TouchableOpacity
+                  key={stage.key}
                   style={[
-                    styles.modalOptionText,
-                    status === option.value && styles.modalOptionTextSelected,
+                    styles.modalOption,
+                    status === stage.key && styles.modalOptionSelected,
+                    !isAllowed && styles.modalOptionDisabled,
                   ]}
+                  onPress={() => {
+                    setStatus(stage.key);
+                    setShowStatusPicker(false);
+                  }}
+                  disabled={!isAllowed}
                 >
-                  {option.label}
-                </Text>
-              </TouchableOpacity>
-            ))}
+                  <Text
+                    style={[
+                      styles.modalOptionText,
+                      status === stage.key && styles.modalOptionTextSelected,
+                      !isAllowed && styles.modalOptionTextDisabled,
+                    ]}
+                  >
+                    {stage.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
         </TouchableOpacity>
       </Modal>
@@ -769,24 +775,11 @@ export default function LeadDetailScreen() {
             <Text style={styles.modalTitle}>Schedule Follow-up</Text>
 
             <View style={styles.inputGroup}>
-              <Text style={styles.label}>Date (YYYY-MM-DD)</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="2024-01-15"
-                placeholderTextColor="#9ca3af"
-                value={followUpDate}
-                onChangeText={setFollowUpDate}
-              />
-            </View>
-
-            <View style={styles.inputGroup}>
-              <Text style={styles.label}>Time (HH:MM)</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="14:30"
-                placeholderTextColor="#9ca3af"
-                value={followUpTime}
-                onChangeText={setFollowUpTime}
+              <Text style={styles.label}>When</Text>
+              <DateTimeField
+                value={followUpAt}
+                onChange={setFollowUpAt}
+                showValidation={showFollowUpErrors}
               />
             </View>
 
@@ -858,6 +851,28 @@ export default function LeadDetailScreen() {
           </View>
         </View>
       </Modal>
+      {/* Post-call Disposition Sheet */}
+      <DeleteRecordingSheet
+        visible={deletingRecordingId !== null}
+        isDeleting={isDeletingRecording}
+        onCancel={() => setDeletingRecordingId(null)}
+        onConfirm={handleDeleteRecording}
+      />
+
+      <CallDispositionSheet
+        visible={endedCall !== null}
+        leadId={leadId}
+        callLogId={endedCall?.callLogId ?? null}
+        durationSeconds={endedCall?.durationSeconds ?? 0}
+        measuredOutcome={endedCall?.outcome ?? null}
+        currentStatus={lead.status}
+        onClose={() => setEndedCall(null)}
+        onSaved={() => {
+          setEndedCall(null);
+          showToast('Call details saved');
+          fetchLeadDetails();
+        }}
+      />
     </ScrollView>
   );
 }
@@ -1016,47 +1031,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
-  timeline: {
-    marginTop: 8,
-  },
-  timelineItem: {
-    flexDirection: 'row',
-    marginBottom: 20,
-  },
-  timelineDot: {
-    width: 12,
-    height: 12,
-    borderRadius: 6,
-    backgroundColor: '#3b82f6',
-    marginRight: 12,
-    marginTop: 4,
-  },
-  timelineContent: {
-    flex: 1,
-  },
-  timelineType: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#111827',
-    marginBottom: 4,
-  },
-  timelineText: {
-    fontSize: 14,
-    color: '#4b5563',
-    marginBottom: 2,
-  },
-  timelineDate: {
-    fontSize: 12,
-    color: '#9ca3af',
-    marginTop: 4,
-  },
-  emptyText: {
-    fontSize: 14,
-    color: '#9ca3af',
-    fontStyle: 'italic',
-    textAlign: 'center',
-    paddingVertical: 20,
-  },
   followUpButton: {
     backgroundColor: '#8b5cf6',
     borderRadius: 10,
@@ -1104,6 +1078,12 @@ const styles = StyleSheet.create({
     color: '#1e40af',
     fontWeight: '600',
   },
+  modalOptionDisabled: {
+    opacity: 0.5,
+  },
+  modalOptionTextDisabled: {
+    color: '#9ca3af',
+  },
   modalButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -1199,24 +1179,4 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     fontStyle: 'italic',
   },
-  playbackControls: {
-    marginTop: 12,
-    paddingTop: 12,
-    borderTopWidth: 1,
-    borderTopColor: '#e5e7eb',
-  },
-  seekBar: {
-    paddingVertical: 8,
-  },
-  seekBarTrack: {
-    height: 4,
-    backgroundColor: '#e5e7eb',
-    borderRadius: 2,
-    overflow: 'hidden',
-  },
-  seekBarProgress: {
-    height: '100%',
-    backgroundColor: '#3b82f6',
-    borderRadius: 2,
-  },
 });
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -12,27 +12,22 @@ import {
 } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import LeadService, { Lead } from '../services/LeadService';
+import LocalLeadStore from '../services/LocalLeadStore';
+import PipelineService from '../services/PipelineService';
+import OrphanRecordingService from '../services/OrphanRecordingService';
 import { useDebounce } from '../hooks/useDebounce';
+import { usePipeline } from '../hooks/usePipeline';
 import LeadCard from '../components/LeadCard';
 import OfflineIndicator from '../components/OfflineIndicator';
 import { cancelAllRequests } from '../services/ApiService';
 
-const STATUS_FILTERS = [
-  { label: 'All', value: '' },
-  { label: 'New', value: 'new' },
-  { label: 'Contacted', value: 'contacted' },
-  { label: 'Interested', value: 'interested' },
-  { label: 'Not Interested', value: 'not_interested' },
-  { label: 'Enrolled', value: 'enrolled' },
-  { label: 'Lost', value: 'lost' },
-];
-
 // Fixed height for lead cards (approximate)
 const LEAD_CARD_HEIGHT = 180;
 const LEAD_CARD_MARGIN = 12;
 
 export default function LeadListScreen() {
   const navigation = useNavigation();
+  const { stages } = usePipeline();
   const [leads, setLeads] = useState<Lead[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -42,8 +37,15 @@ export default function LeadListScreen() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [error, setError] = useState('');
+  const [orphanCount, setOrphanCount] = useState(0);
+  const [storeError, setStoreError] = useState(LocalLeadStore.getPersistError());
 
   const debouncedSearch = useDebounce(searchQuery, 300);
+
+  const statusFilters = useMemo(
+    () => [{ label: 'All', value: '' }, ...stages.map(stage => ({ label: stage.label, value: stage.key }))],
+    [stages]
+  );
   const previousSearchRef = useRef(searchQuery);
 
   // Fetch leads
@@ -102,8 +104,23 @@ export default function LeadListScreen() {
     }, [])
   );
 
+  // Recordings that couldn't be linked to a lead are flagged above the list
+  useEffect(() => {
+    OrphanRecordingService.list().then(recordings => setOrphanCount(recordings.length));
+    return OrphanRecordingService.subscribe(recordings => setOrphanCount(recordings.length));
+  }, []);
+
+  // Leads that couldn't be saved on the phone won't be there offline
+  useEffect(() => LocalLeadStore.subscribePersistError(setStoreError), []);
+
   const handleRefresh = () => {
     fetchLeads(1, true);
+
+    // Keep the offline copy current without holding up the list
+    LocalLeadStore.sync().catch(err => {
+      console.warn('Lead sync failed:', err);
+    });
+    PipelineService.refresh();
   };
 
   const handleLoadMore = () => {
@@ -112,6 +129,19 @@ export default function LeadListScreen() {
     }
   };
 
+  const handleStartSession = () => {
+    // @ts-ignore
+    navigation.navigate('CallingSession', {
+      source: 'leads',
+      filters: { status: selectedStatus, search: debouncedSearch },
+    });
+  };
+
+  const handleOpenOrphanRecordings = () => {
+    // @ts-ignore
+    navigation.navigate('OrphanRecordings');
+  };
+
   const handleLeadPress = useCallback((lead: Lead) => {
     // @ts-ignore - Navigation types will be properly typed later
     navigation.navigate('LeadDetail', { leadId: lead.id });
@@ -190,7 +220,7 @@ export default function LeadListScreen() {
         style={styles.filtersContainer}
         contentContainerStyle={styles.filtersContent}
       >
-        {STATUS_FILTERS.map(filter => (
+        {statusFilters.map(filter => (
           <TouchableOpacity
             key={filter.value}
             style={[
@@ -211,6 +241,31 @@ export default function LeadListScreen() {
         ))}
       </ScrollView>
 
+      {/* Calling Session */}
+      {leads.length > 0 && (
+        <TouchableOpacity style={styles.sessionButton} onPress={handleStartSession}>
+          <Text style={styles.sessionButtonText}>📞 Start Calling Session</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Unassigned Recordings */}
+      {orphanCount > 0 && (
+        <TouchableOpacity style={styles.orphanBanner} onPress={handleOpenOrphanRecordings}>
+          <Text style={styles.orphanText}>
+            🎙 {orphanCount} recording{orphanCount === 1 ? '' : 's'} not linked to a lead · Assign
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Offline Copy Not Saved */}
+      {storeError ? (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>
+            {storeError}. Free up storage, then pull down to refresh.
+          </Text>
+        </View>
+      ) : null}
+
       {/* Error Message */}
       {error ? (
         <View style={styles.errorBanner}>
@@ -318,6 +373,33 @@ const styles = StyleSheet.create({
   filterChipTextActive: {
     color: '#ffffff',
   },
+  sessionButton: {
+    backgroundColor: '#10b981',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  sessionButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  orphanBanner: {
+    backgroundColor: '#fef3c7',
+    padding: 12,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f59e0b',
+  },
+  orphanText: {
+    color: '#92400e',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   errorBanner: {
     backgroundColor: '#fee2e2',
     padding: 12,
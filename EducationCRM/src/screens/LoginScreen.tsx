@@ -13,6 +13,7 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import AuthService from '../services/AuthService';
+import { OutboxOwnedByOtherUserError } from '../services/SyncOutboxService';
 
 export default function LoginScreen() {
   const navigation = useNavigation();
@@ -47,7 +48,12 @@ export default function LoginScreen() {
       console.error('Login error:', err);
       
       // Handle different error types
-      if (err.response?.status === 401) {
+      if (err instanceof OutboxOwnedByOtherUserError) {
+        setError(
+          `${err.unsyncedCount} change(s) by the last user haven't synced yet. ` +
+            'Ask them to log in and sync before you log in on this phone.',
+        );
+      } else if (err.response?.status === 401) {
         setError('Invalid username or password');
       } else if (err.response?.status === 500) {
         setError('Server error. Please try again later');
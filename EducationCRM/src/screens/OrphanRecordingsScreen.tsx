@@ -0,0 +1,268 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import OrphanRecordingService, {
+  OrphanMatch,
+  OrphanRecording,
+} from '../services/OrphanRecordingService';
+import { formatDateTime, formatTime } from '../utils/dateTime';
+
+const MATCH_LABELS: Record<OrphanMatch['reason'], string> = {
+  phone_and_time: 'Same number & time',
+  phone: 'Same number',
+  time: 'Called around then',
+};
+
+const formatDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * OrphanRecordingsScreen - Recordings that couldn't be linked to a lead
+ * Suggests leads by the captured phone number and by calls logged around the
+ * same time; picking one attaches (or logs) the call and uploads the recording
+ */
+export default function OrphanRecordingsScreen() {
+  const [recordings, setRecordings] = useState<OrphanRecording[]>([]);
+  const [matches, setMatches] = useState<Record<string, OrphanMatch[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadRecordings = useCallback(async (refresh: boolean = false) => {
+    try {
+      if (refresh) {
+        setIsRefreshing(true);
+      }
+
+      const list = await OrphanRecordingService.list();
+      const entries = await Promise.all(
+        list.map(async recording => [
+          recording.id,
+          await OrphanRecordingService.findMatches(recording),
+        ] as const)
+      );
+
+      setRecordings(list);
+      setMatches(Object.fromEntries(entries));
+    } catch (error) {
+      console.error('[OrphanRecordingsScreen] Failed to load recordings:', error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRecordings();
+    // Re-match when a recording is added or assigned while the screen is open
+    return OrphanRecordingService.subscribe(() => loadRecordings());
+  }, [loadRecordings]);
+
+  const handleAssign = (recording: OrphanRecording, match: OrphanMatch) => {
+    const target = match.callLog
+      ? `the call at ${formatTime(match.callLog.inserted_at)}`
+      : 'a new call log';
+
+    Alert.alert(
+      'Assign Recording',
+      `Attach this recording to ${match.lead.student_name} (${target})?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Assign',
+          onPress: async () => {
+            try {
+              setBusyId(recording.id);
+              await OrphanRecordingService.assign(recording, match.lead.id, match.callLog?.id);
+            } catch (error) {
+              console.error('[OrphanRecordingsScreen] Failed to assign recording:', error);
+              const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+              Alert.alert('Error', `Failed to assign recording: ${errorMessage}`);
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDiscard = (recording: OrphanRecording) => {
+    Alert.alert('Delete Recording', 'This recording will be deleted from the phone.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await OrphanRecordingService.discard(recording);
+          } catch (error) {
+            console.error('[OrphanRecordingsScreen] Failed to delete recording:', error);
+            Alert.alert('Error', 'Failed to delete recording');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderRecording = ({ item }: { item: OrphanRecording }) => {
+    const suggestions = matches[item.id] || [];
+    const isBusy = busyId === item.id;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardInfo}>
+            <Text style={styles.phoneNumber}>{item.phoneNumber || 'Unknown number'}</Text>
+            <Text style={styles.meta}>
+              {formatDateTime(item.startedAt)} · {formatDuration(item.durationSeconds)}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => handleDiscard(item)} disabled={isBusy}>
+            <Text style={styles.discardText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isBusy ? (
+          <ActivityIndicator size="small" color="#3b82f6" style={styles.busy} />
+        ) : suggestions.length === 0 ? (
+          <Text style={styles.noMatches}>No matching leads found on this phone</Text>
+        ) : (
+          suggestions.map(match => (
+            <TouchableOpacity
+              key={`${match.lead.id}-${match.callLog?.id || 'new'}`}
+              style={styles.match}
+              onPress={() => handleAssign(item, match)}
+            >
+              <View style={styles.cardInfo}>
+                <Text style={styles.matchName}>{match.lead.student_name}</Text>
+                <Text style={styles.matchDetail}>
+                  {match.lead.phone_number}
+                  {match.callLog ? ` · call at ${formatTime(match.callLog.inserted_at)}` : ''}
+                </Text>
+              </View>
+              <Text style={styles.matchReason}>{MATCH_LABELS[match.reason]}</Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.listContent}
+      data={recordings}
+      keyExtractor={item => item.id}
+      renderItem={renderRecording}
+      refreshControl={
+        <RefreshControl refreshing={isRefreshing} onRefresh={() => loadRecordings(true)} />
+      }
+      ListEmptyComponent={
+        <View style={styles.centerContainer}>
+          <Text style={styles.emptyText}>All recordings are assigned to leads</Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  listContent: {
+    padding: 16,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#9ca3af',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  phoneNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  discardText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  busy: {
+    paddingVertical: 12,
+  },
+  noMatches: {
+    fontSize: 13,
+    color: '#9ca3af',
+    fontStyle: 'italic',
+  },
+  match: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    marginTop: 8,
+  },
+  matchName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  matchDetail: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  matchReason: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3b82f6',
+    marginLeft: 8,
+  },
+});
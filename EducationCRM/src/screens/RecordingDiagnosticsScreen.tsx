@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  AppState,
+  Share,
+} from 'react-native';
+import RecordingDiagnosticsService, {
+  DiagnosticsEnvironment,
+  TestCallResult,
+  TestCallStep,
+} from '../services/RecordingDiagnosticsService';
+import AccessibilityService from '../services/AccessibilityService';
+import { RecordingVerdict, VERDICT_MESSAGES } from '../utils/recordingHealth';
+
+const STEP_LABELS: Record<TestCallStep, string> = {
+  calling: 'Test call in progress…',
+  waiting_for_recording: 'Waiting for the recording…',
+  analyzing: 'Analyzing the recording…',
+};
+
+const VERDICT_TITLES: Record<RecordingVerdict, string> = {
+  ok: '✅ Recording works',
+  silent: '🔇 Silent recording',
+  one_sided: '⚠️ Only one side recorded',
+  too_short: '⏱️ Test call too short',
+};
+
+const TEST_STEPS = [
+  'Call a colleague, or your voicemail, that will talk for about 10 seconds.',
+  'Stay silent while they talk.',
+  'Then count slowly from one to ten out loud.',
+  'Hang up and come back to this screen.',
+];
+
+/**
+ * RecordingDiagnosticsScreen - Checks whether this phone records both sides of a call
+ * Shows the recording setup, runs a guided test call and shares a report with support
+ */
+export default function RecordingDiagnosticsScreen() {
+  const [environment, setEnvironment] = useState<DiagnosticsEnvironment | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [step, setStep] = useState<TestCallStep | null>(null);
+  const [result, setResult] = useState<TestCallResult | null>(null);
+
+  const loadEnvironment = useCallback(async () => {
+    try {
+      setEnvironment(await RecordingDiagnosticsService.getEnvironment());
+    } catch (error) {
+      console.error('[RecordingDiagnosticsScreen] Failed to load setup:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEnvironment();
+    RecordingDiagnosticsService.getLastTestNumber().then(setPhoneNumber);
+
+    // Settings may have changed while the user was away
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        loadEnvironment();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [loadEnvironment]);
+
+  const handleRunTest = async () => {
+    if (!environment) return;
+
+    if (phoneNumber.replace(/\D/g, '').length < 3) {
+      Alert.alert('Test Call', 'Enter the number to call for the test');
+      return;
+    }
+
+    try {
+      setResult(null);
+      setResult(
+        await RecordingDiagnosticsService.runTestCall(
+          phoneNumber,
+          environment.recordingMode,
+          setStep,
+        ),
+      );
+    } catch (error) {
+      console.error('[RecordingDiagnosticsScreen] Test call failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Test Call Failed', errorMessage);
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!environment) return;
+
+    try {
+      await Share.share({
+        title: 'Recording check',
+        message: RecordingDiagnosticsService.buildReport(environment, result),
+      });
+    } catch (error) {
+      console.error('[RecordingDiagnosticsScreen] Failed to share report:', error);
+    }
+  };
+
+  if (!environment) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+      </View>
+    );
+  }
+
+  const { accessibility, permissions } = environment;
+  const setupRows: Array<[string, boolean]> = [
+    ['Phone permission', permissions.call],
+    ['Microphone permission', permissions.recording],
+    ['Phone state permission', permissions.phoneState],
+    ['Call log permission', permissions.callLog],
+    ['Accessibility service enabled', accessibility.isEnabled],
+    ['Accessibility service running', accessibility.isRunning],
+    ['Auto-record', accessibility.autoRecordEnabled],
+  ];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Setup</Text>
+        <Text style={styles.meta}>
+          {environment.device} · {environment.osVersion}
+        </Text>
+        <Text style={styles.meta}>
+          Recorded by{' '}
+          {environment.recordingMode === 'accessibility' ? 'the accessibility service' : 'the app'}
+          {' · '}last audio source {accessibility.audioSource}
+        </Text>
+
+        {setupRows.map(([label, ok]) => (
+          <View key={label} style={styles.row}>
+            <Text style={styles.rowLabel}>{label}</Text>
+            <Text style={ok ? styles.ok : styles.notOk}>{ok ? '✓' : '✗'}</Text>
+          </View>
+        ))}
+
+        {!accessibility.isEnabled && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => AccessibilityService.openAccessibilitySettings()}
+          >
+            <Text style={styles.secondaryButtonText}>Open Accessibility Settings</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Test Call</Text>
+        {TEST_STEPS.map((text, index) => (
+          <Text key={text} style={styles.instruction}>
+            {index + 1}. {text}
+          </Text>
+        ))}
+
+        <TextInput
+          style={styles.input}
+          value={phoneNumber}
+          onChangeText={setPhoneNumber}
+          placeholder="Number to call"
+          keyboardType="phone-pad"
+          editable={!step}
+        />
+
+        {step ? (
+          <View style={styles.progress}>
+            <ActivityIndicator size="small" color="#3b82f6" />
+            <Text style={styles.progressText}>{STEP_LABELS[step]}</Text>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.primaryButton} onPress={handleRunTest}>
+            <Text style={styles.primaryButtonText}>Start Test Call</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {result && (
+        <View
+          style={[styles.card, result.health.verdict === 'ok' ? styles.resultOk : styles.resultBad]}
+        >
+          <Text style={styles.sectionTitle}>{VERDICT_TITLES[result.health.verdict]}</Text>
+          <Text style={styles.resultMessage}>{VERDICT_MESSAGES[result.health.verdict]}</Text>
+          <Text style={styles.meta}>Audio source: {result.audioSource}</Text>
+          <Text style={styles.meta}>
+            Length {result.health.durationSeconds} s · peak {result.health.peakDb} dBFS · sound in{' '}
+            {Math.round(result.health.activeRatio * 100)}% · longest silence{' '}
+            {result.health.longestSilenceSeconds} s
+          </Text>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={handleShare}>
+        <Text style={styles.secondaryButtonText}>Share Report with Support</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  ok: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#10b981',
+  },
+  notOk: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ef4444',
+  },
+  instruction: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+    marginVertical: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  progress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#374151',
+    marginLeft: 8,
+  },
+  resultOk: {
+    borderColor: '#10b981',
+    backgroundColor: '#ecfdf5',
+  },
+  resultBad: {
+    borderColor: '#f59e0b',
+    backgroundColor: '#fffbeb',
+  },
+  resultMessage: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+});
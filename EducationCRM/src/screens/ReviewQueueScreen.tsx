@@ -0,0 +1,228 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import ReviewService, { ReviewableCall } from '../services/ReviewService';
+import { formatRelative } from '../utils/dateTime';
+
+const formatDuration = (seconds?: number): string => {
+  if (!seconds) return '0:00';
+  return `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+};
+
+/**
+ * ReviewQueueScreen - Recorded calls of the manager's branch
+ * Calls awaiting review come first; reviewed calls can be opened to change the review
+ */
+export default function ReviewQueueScreen() {
+  const navigation = useNavigation();
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [calls, setCalls] = useState<ReviewableCall[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadCalls = useCallback(async (refresh: boolean = false) => {
+    try {
+      if (refresh) {
+        setIsRefreshing(true);
+      }
+      setError('');
+
+      setCalls(await ReviewService.getCalls({ reviewed: showReviewed }));
+    } catch (err) {
+      console.error('[ReviewQueueScreen] Failed to load calls:', err);
+      setError('Failed to load calls. Pull down to try again.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [showReviewed]);
+
+  // Reload when coming back from a review
+  useFocusEffect(
+    useCallback(() => {
+      loadCalls();
+    }, [loadCalls])
+  );
+
+  const handleFilterChange = (reviewed: boolean) => {
+    if (reviewed !== showReviewed) {
+      setIsLoading(true);
+      setShowReviewed(reviewed);
+    }
+  };
+
+  const renderCall = ({ item }: { item: ReviewableCall }) => (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => {
+        // @ts-ignore
+        navigation.navigate('CallReview', { call: item });
+      }}
+    >
+      <View style={styles.cardInfo}>
+        <Text style={styles.studentName}>{item.student_name}</Text>
+        <Text style={styles.meta}>
+          {item.telecaller_name || 'Unknown telecaller'} · {formatRelative(item.inserted_at)}
+        </Text>
+        <Text style={styles.meta}>
+          ⏱️ {formatDuration(item.duration_seconds)}
+          {item.bookmarks.length > 0 ? ` · 🔖 ${item.bookmarks.length}` : ''}
+        </Text>
+      </View>
+
+      {item.qa_score !== null ? (
+        <View style={styles.scoreBadge}>
+          <Text style={styles.scoreText}>{Math.round(item.qa_score)}%</Text>
+        </View>
+      ) : (
+        <Text style={styles.reviewText}>Review ›</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filterRow}>
+        <TouchableOpacity
+          style={[styles.filterChip, !showReviewed && styles.filterChipActive]}
+          onPress={() => handleFilterChange(false)}
+        >
+          <Text style={[styles.filterText, !showReviewed && styles.filterTextActive]}>
+            To review
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.filterChip, showReviewed && styles.filterChipActive]}
+          onPress={() => handleFilterChange(true)}
+        >
+          <Text style={[styles.filterText, showReviewed && styles.filterTextActive]}>
+            Reviewed
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#3b82f6" />
+        </View>
+      ) : (
+        <FlatList
+          contentContainerStyle={styles.listContent}
+          data={calls}
+          keyExtractor={item => item.id}
+          renderItem={renderCall}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={() => loadCalls(true)} />
+          }
+          ListEmptyComponent={
+            <View style={styles.centerContainer}>
+              <Text style={styles.emptyText}>
+                {error || (showReviewed ? 'No reviewed calls yet' : 'No recorded calls to review')}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#ffffff',
+  },
+  filterChipActive: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    fontFamily: 'System',
+  },
+  filterTextActive: {
+    color: '#1d4ed8',
+  },
+  listContent: {
+    padding: 16,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#9ca3af',
+    fontFamily: 'System',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    fontFamily: 'System',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+    fontFamily: 'System',
+  },
+  scoreBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#eef2ff',
+  },
+  scoreText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#4338ca',
+    fontFamily: 'System',
+  },
+  reviewText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3b82f6',
+    fontFamily: 'System',
+  },
+});
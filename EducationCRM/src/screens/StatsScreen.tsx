@@ -6,8 +6,9 @@ import {
   StyleSheet,
   RefreshControl,
   ActivityIndicator,
+  TouchableOpacity,
 } from 'react-native';
-import { useFocusEffect } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import apiClient from '../services/ApiService';
 
 interface UserStats {
@@ -18,9 +19,14 @@ interface UserStats {
   interested_leads: number;
   enrolled_leads: number;
   conversion_rate: number;
+  /** Calls a branch manager has reviewed */
+  reviewed_calls: number;
+  /** Mean QA score of the reviewed calls, null until one is reviewed */
+  average_qa_score: number | null;
 }
 
 export default function StatsScreen() {
+  const navigation = useNavigation();
   const [stats, setStats] = useState<UserStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -187,6 +193,39 @@ export default function StatsScreen() {
         </View>
       </View>
 
+      {/* Call Quality Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🎧 Call Quality</Text>
+        <View style={styles.conversionCard}>
+          {stats.average_qa_score === null ? (
+            <Text style={styles.insightText}>
+              No reviewed calls yet. Your manager's scores and coaching comments will show on
+              each lead's recordings.
+            </Text>
+          ) : (
+            <View style={styles.conversionContent}>
+              <Text style={styles.conversionValue}>
+                {stats.average_qa_score.toFixed(1)}%
+              </Text>
+              <Text style={styles.conversionLabel}>
+                Average Review Score
+              </Text>
+              <View style={styles.conversionBar}>
+                <View
+                  style={[
+                    styles.conversionBarFill,
+                    { width: `${Math.min(stats.average_qa_score, 100)}%` },
+                  ]}
+                />
+              </View>
+              <Text style={styles.conversionDetails}>
+                From {stats.reviewed_calls} reviewed {stats.reviewed_calls === 1 ? 'call' : 'calls'}
+              </Text>
+            </View>
+          )}
+        </View>
+      </View>
+
       {/* Performance Insights */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>💡 Insights</Text>
@@ -219,6 +258,20 @@ export default function StatsScreen() {
         )}
       </View>
 
+      {/* Recording Check */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🎙️ Call Recording</Text>
+        <TouchableOpacity
+          style={styles.insightCard}
+          // @ts-ignore - Navigation types will be properly typed later
+          onPress={() => navigation.navigate('RecordingDiagnostics')}
+        >
+          <Text style={styles.insightText}>
+            Recordings missing the other side? Run a test call and share a report with support ›
+          </Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Footer Spacing */}
       <View style={styles.footer} />
     </ScrollView>
@@ -193,8 +193,10 @@ apiClient.interceptors.response.use(
       originalRequest._retry = true;
       isRefreshing = true;
 
+      let refreshToken: string | null = null;
+
       try {
-        const refreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+        refreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
 
         if (!refreshToken) {
           throw new Error('No refresh token available');
@@ -222,8 +224,16 @@ apiClient.interceptors.response.use(
       } catch (refreshError) {
         processQueue(refreshError as AxiosError, null);
 
-        // Clear tokens and force logout
-        await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]);
+        // Force logout once the server has rejected the session, not when the
+        // refresh just couldn't reach it
+        const refreshStatus = (refreshError as AxiosError).response?.status;
+        if (!refreshToken || (refreshStatus && refreshStatus < 500)) {
+          // Imported dynamically to avoid a circular dependency
+          const AuthService = (await import('./AuthService')).default;
+          await AuthService.endSession().catch(teardownError => {
+            console.error('[ApiService] Failed to end session:', teardownError);
+          });
+        }
 
         return Promise.reject(refreshError);
       } finally {
@@ -3,9 +3,46 @@
  * Uses react-native-audio-api for playback with Web Audio API compatibility
  */
 
-import { AudioContext, AudioBufferSourceNode } from 'react-native-audio-api';
+import { NativeModules } from 'react-native';
+import {
+  AudioContext,
+  AudioBuffer,
+  AudioBufferSourceNode,
+  AudioBufferQueueSourceNode,
+} from 'react-native-audio-api';
 import ReactNativeBlobUtil from 'react-native-blob-util';
 import ErrorMessageService from './ErrorMessageService';
+import RecordingCacheService from './RecordingCacheService';
+import SecureStorageService from './SecureStorageService';
+import { buildWaveform, silentRegionAt, Waveform } from '../utils/waveform';
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+const MIN_PLAYBACK_RATE = 0.75;
+const MAX_PLAYBACK_RATE = 2;
+export const SKIP_SECONDS = 10;
+
+const { RecordingStreamModule } = NativeModules;
+
+// Streamed recordings are decoded a few seconds at a time, kept a little ahead of the playhead
+const STREAM_SEGMENT_MS = 4000;
+const STREAM_AHEAD_SECONDS = 12;
+const STREAM_POLL_INTERVAL = 250; // ms
+
+/**
+ * A lead's recording, so it can be streamed and kept in the recording cache
+ */
+export interface RecordingSource {
+  leadId: string;
+  recordingId: string;
+}
+
+interface StreamSegment {
+  buffer: AudioBuffer | null;
+  duration: number;
+  ended: boolean;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
 
 export interface PlaybackState {
   isPlaying: boolean;
@@ -13,12 +50,21 @@ export interface PlaybackState {
   duration: number;
   isLoading: boolean;
   error: string | null;
+  /** Waveform of the loaded recording */
+  waveform: Waveform | null;
+  /** Speed multiplier, kept across recordings */
+  playbackRate: number;
+  /** Jump over silent stretches of the waveform while playing */
+  skipSilence: boolean;
+  /** Playing from the network while the full file downloads; no waveform until it has */
+  isStreaming: boolean;
 }
 
 class AudioPlayerService {
   private audioContext: AudioContext | null = null;
-  private audioBufferSource: AudioBufferSourceNode | null = null;
+  private audioBufferSource: AudioBufferSourceNode | AudioBufferQueueSourceNode | null = null;
   private audioBuffer: any = null; // AudioBuffer type
+  private streamId: number | null = null; // native stream while the recording is streamed
   private currentUrl: string | null = null;
   private playbackState: PlaybackState = {
     isPlaying: false,
@@ -26,12 +72,18 @@ class AudioPlayerService {
     duration: 0,
     isLoading: false,
     error: null,
+    waveform: null,
+    playbackRate: 1,
+    skipSilence: false,
+    isStreaming: false,
   };
   private stateListeners: Array<(state: PlaybackState) => void> = [];
   private updateInterval: ReturnType<typeof setInterval> | null = null;
-  private startTime: number = 0;
+  private startTime: number = 0; // context time the source started at
+  private startOffset: number = 0; // position the source started from
   private pausedAt: number = 0;
   private cachedFiles: Map<string, string> = new Map(); // URL -> local file path
+  private waveforms: Map<string, Waveform> = new Map(); // URL -> waveform
 
   /**
    * Initialize audio context
@@ -45,15 +97,20 @@ class AudioPlayerService {
 
   /**
    * Load an audio file for playback
+   * Lead recordings that aren't cached yet are streamed, and replaced by the
+   * full file once RecordingCacheService has downloaded it in the background
    * @param url - URL or local path to audio file
-   * @returns Promise that resolves when audio is loaded
+   * @param recording - Lead and recording the URL belongs to
+   * @returns Promise that resolves when audio is ready to play
    */
-  async load(url: string): Promise<void> {
+  async load(url: string, recording?: RecordingSource): Promise<void> {
     try {
       // Stop current playback if any
       await this.stop();
+      this.closeStream();
+      this.audioBuffer = null;
 
-      this.updateState({ isLoading: true, error: null });
+      this.updateState({ isLoading: true, error: null, waveform: null, isStreaming: false });
       this.currentUrl = url;
 
       // Initialize audio context
@@ -61,6 +118,17 @@ class AudioPlayerService {
 
       console.log('[AudioPlayer] Loading audio from:', url);
 
+      if (recording && RecordingStreamModule) {
+        const cached = await RecordingCacheService.getCachedRecording(recording.recordingId);
+        if (!cached) {
+          await this.openStream(url, recording);
+          return;
+        }
+
+        await this.loadFile(url, cached.localPath);
+        return;
+      }
+
       // Check if file is already cached
       let filePath = this.cachedFiles.get(url);
 
@@ -69,23 +137,7 @@ class AudioPlayerService {
         filePath = await this.downloadAndCacheFile(url);
       }
 
-      // Read file as array buffer
-      const base64Data = await ReactNativeBlobUtil.fs.readFile(filePath, 'base64');
-      const arrayBuffer = this.base64ToArrayBuffer(base64Data);
-
-      // Decode audio data
-      console.log('[AudioPlayer] Decoding audio data...');
-      this.audioBuffer = await this.audioContext!.decodeAudioData(arrayBuffer);
-
-      const duration = this.audioBuffer.duration;
-
-      this.updateState({
-        isLoading: false,
-        duration,
-        currentTime: 0,
-      });
-
-      console.log('[AudioPlayer] Audio loaded successfully, duration:', duration);
+      await this.loadFile(url, filePath);
     } catch (error) {
       console.error('[AudioPlayer] Failed to load audio:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to load audio';
@@ -101,6 +153,131 @@ class AudioPlayerService {
     }
   }
 
+  /**
+   * Decode a downloaded file and make it the loaded audio
+   * @param url - URL the file was downloaded from
+   * @param filePath - Local file path
+   */
+  private async loadFile(url: string, filePath: string): Promise<void> {
+    const { buffer, waveform } = await this.decodeFile(url, filePath);
+    this.audioBuffer = buffer;
+
+    const duration = buffer.duration;
+    this.updateState({
+      isLoading: false,
+      duration,
+      currentTime: 0,
+      waveform,
+    });
+
+    console.log('[AudioPlayer] Audio loaded successfully, duration:', duration);
+  }
+
+  /**
+   * Decode a local audio file and work out its waveform
+   * Downloaded files are stored encrypted and only decrypted into memory
+   * @param url - URL the file was downloaded from, used to cache the waveform
+   * @param filePath - Local file path
+   */
+  private async decodeFile(
+    url: string,
+    filePath: string,
+  ): Promise<{ buffer: AudioBuffer; waveform: Waveform }> {
+    // Read file as array buffer
+    const base64Data = SecureStorageService.isAvailable()
+      ? await SecureStorageService.readFile(filePath)
+      : await ReactNativeBlobUtil.fs.readFile(filePath, 'base64');
+    const arrayBuffer = this.base64ToArrayBuffer(base64Data);
+
+    // Decode audio data
+    console.log('[AudioPlayer] Decoding audio data...');
+    const buffer = await this.audioContext!.decodeAudioData(arrayBuffer);
+
+    // Peaks are worked out once per recording
+    let waveform = this.waveforms.get(url);
+    if (!waveform) {
+      waveform = buildWaveform(buffer.getChannelData(0), buffer.sampleRate);
+      this.waveforms.set(url, waveform);
+    }
+
+    return { buffer, waveform };
+  }
+
+  /**
+   * Open a recording for streaming and start caching the full file
+   * @param url - Recording URL, which must support Range requests
+   * @param recording - Lead and recording the URL belongs to
+   */
+  private async openStream(url: string, recording: RecordingSource): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const stream = await RecordingStreamModule.open(url, headers);
+    this.streamId = stream.streamId;
+
+    this.updateState({
+      isLoading: false,
+      isStreaming: true,
+      duration: stream.durationMs / 1000,
+      currentTime: 0,
+    });
+    console.log('[AudioPlayer] Streaming audio, duration:', stream.durationMs / 1000);
+
+    RecordingCacheService.cacheRecording(recording.recordingId, recording.leadId, url, headers)
+      .then(filePath => this.switchToFile(url, stream.streamId, filePath))
+      .catch(error => console.error('[AudioPlayer] Failed to cache streamed recording:', error));
+  }
+
+  /**
+   * Replace a stream with its downloaded file, keeping the position and play state
+   * @param url - Recording URL
+   * @param streamId - Stream the download was started for
+   * @param filePath - Downloaded file
+   */
+  private async switchToFile(url: string, streamId: number, filePath: string): Promise<void> {
+    if (this.streamId !== streamId) {
+      return;
+    }
+
+    const { buffer, waveform } = await this.decodeFile(url, filePath);
+
+    // Another recording may have been loaded while decoding
+    if (this.streamId !== streamId) {
+      return;
+    }
+
+    const wasPlaying = this.playbackState.isPlaying;
+    const position = wasPlaying ? this.getPosition() : this.pausedAt;
+
+    this.stopSource();
+    this.stopUpdateInterval();
+    this.closeStream();
+    this.audioBuffer = buffer;
+    this.pausedAt = Math.min(position, buffer.duration);
+
+    this.updateState({
+      isPlaying: false,
+      isStreaming: false,
+      duration: buffer.duration,
+      currentTime: this.pausedAt,
+      waveform,
+    });
+    console.log('[AudioPlayer] Switched from stream to downloaded file at:', this.pausedAt);
+
+    if (wasPlaying) {
+      await this.play();
+    }
+  }
+
+  /**
+   * Get the auth header for recording requests
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    // Get auth token from AsyncStorage
+    const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
+    const token = await AsyncStorage.getItem('@education_crm_token');
+
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
   /**
    * Download and cache audio file
    * @param url - URL to download from
@@ -110,10 +287,6 @@ class AudioPlayerService {
     try {
       console.log('[AudioPlayer] Downloading file from:', url);
 
-      // Get auth token from AsyncStorage
-      const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
-      const token = await AsyncStorage.getItem('@education_crm_token');
-
       const fileName = `recording_${Date.now()}.aac`;
       const filePath = `${ReactNativeBlobUtil.fs.dirs.CacheDir}/${fileName}`;
 
@@ -121,9 +294,10 @@ class AudioPlayerService {
       await ReactNativeBlobUtil.config({
         path: filePath,
         fileCache: true,
-      }).fetch('GET', url, {
-        Authorization: token ? `Bearer ${token}` : '',
-      });
+      }).fetch('GET', url, await this.getAuthHeaders());
+
+      // Recordings are student PII; don't leave them readable on disk
+      await SecureStorageService.encryptFile(filePath);
 
       // Cache the file path
       this.cachedFiles.set(url, filePath);
@@ -161,7 +335,7 @@ class AudioPlayerService {
    */
   async play(): Promise<void> {
     try {
-      if (!this.audioBuffer) {
+      if (!this.audioBuffer && this.streamId === null) {
         throw new Error('No audio loaded');
       }
 
@@ -170,9 +344,15 @@ class AudioPlayerService {
         return;
       }
 
-      // Create new buffer source
-      this.audioBufferSource = this.audioContext!.createBufferSource();
+      if (!this.audioBuffer) {
+        await this.playStream(this.pausedAt || 0);
+        return;
+      }
+
+      // Create new buffer source, keeping voices at their pitch when sped up
+      this.audioBufferSource = this.audioContext!.createBufferSource({ pitchCorrection: true });
       this.audioBufferSource.buffer = this.audioBuffer;
+      this.audioBufferSource.playbackRate.value = this.playbackState.playbackRate;
       this.audioBufferSource.connect(this.audioContext!.destination);
 
       // Set up ended event (using onEnded for react-native-audio-api)
@@ -184,7 +364,8 @@ class AudioPlayerService {
       // Start playback from current position
       const offset = this.pausedAt || 0;
       this.audioBufferSource.start(this.audioContext!.currentTime, offset);
-      this.startTime = this.audioContext!.currentTime - offset;
+      this.startTime = this.audioContext!.currentTime;
+      this.startOffset = offset;
 
       this.updateState({ isPlaying: true });
 
@@ -204,6 +385,128 @@ class AudioPlayerService {
     }
   }
 
+  /**
+   * Start playing the stream from a position
+   * The first segment is decoded before playback starts; the rest are
+   * decoded while it plays
+   * @param offset - Position in seconds
+   */
+  private async playStream(offset: number): Promise<void> {
+    const streamId = this.streamId!;
+    const source = this.audioContext!.createBufferQueueSource({ pitchCorrection: true });
+    source.playbackRate.value = this.playbackState.playbackRate;
+    source.connect(this.audioContext!.destination);
+    this.audioBufferSource = source;
+
+    this.updateState({ isLoading: true });
+    try {
+      const positionMs: number = await RecordingStreamModule.seek(streamId, offset * 1000);
+      const segment = await this.readSegment(streamId);
+
+      // Stopped, or switched to the downloaded file, while buffering
+      if (this.audioBufferSource !== source) {
+        return;
+      }
+
+      if (segment.buffer) {
+        source.enqueueBuffer(segment.buffer);
+      }
+      source.start(this.audioContext!.currentTime);
+      this.startTime = this.audioContext!.currentTime;
+      this.startOffset = positionMs / 1000;
+
+      this.updateState({ isPlaying: true });
+      this.startUpdateInterval();
+      console.log('[AudioPlayer] Streaming playback started from:', this.startOffset);
+
+      this.fillStream(source, streamId, this.startOffset + segment.duration, segment.ended);
+    } finally {
+      this.updateState({ isLoading: false });
+    }
+  }
+
+  /**
+   * Keep decoding segments ahead of the playhead until the stream ends or
+   * the source is replaced
+   */
+  private async fillStream(
+    source: AudioBufferQueueSourceNode,
+    streamId: number,
+    bufferedUntil: number,
+    ended: boolean,
+  ): Promise<void> {
+    try {
+      while (!ended && this.audioBufferSource === source) {
+        if (bufferedUntil - this.getPosition() > STREAM_AHEAD_SECONDS) {
+          await wait(STREAM_POLL_INTERVAL);
+          continue;
+        }
+
+        const segment = await this.readSegment(streamId);
+        if (this.audioBufferSource !== source) {
+          return;
+        }
+
+        if (segment.buffer) {
+          source.enqueueBuffer(segment.buffer);
+        }
+        bufferedUntil += segment.duration;
+        ended = segment.ended;
+      }
+
+      // Some files don't carry their duration; the end of the stream gives it
+      if (ended && !this.playbackState.duration) {
+        this.updateState({ duration: bufferedUntil });
+      }
+    } catch (error) {
+      console.error('[AudioPlayer] Failed to stream audio:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to stream audio';
+      this.updateState({ error: errorMessage });
+    }
+  }
+
+  /**
+   * Decode the next segment of the stream
+   */
+  private async readSegment(streamId: number): Promise<StreamSegment> {
+    const segment = await RecordingStreamModule.read(streamId, STREAM_SEGMENT_MS);
+    const buffer = segment.pcm
+      ? await this.audioContext!.decodePCMInBase64(
+          segment.pcm,
+          segment.sampleRate,
+          segment.channelCount,
+          true,
+        )
+      : null;
+
+    return { buffer, duration: segment.durationMs / 1000, ended: segment.ended };
+  }
+
+  /**
+   * Stop and drop the current source without touching the position
+   */
+  private stopSource(): void {
+    if (this.audioBufferSource) {
+      try {
+        this.audioBufferSource.stop();
+        this.audioBufferSource.disconnect();
+      } catch {
+        // Ignore errors if already stopped
+      }
+      this.audioBufferSource = null;
+    }
+  }
+
+  /**
+   * Close the native stream, if any
+   */
+  private closeStream(): void {
+    if (this.streamId !== null) {
+      RecordingStreamModule.close(this.streamId);
+      this.streamId = null;
+    }
+  }
+
   /**
    * Pause playback
    */
@@ -221,7 +524,7 @@ class AudioPlayerService {
       }
 
       // Save current position
-      this.pausedAt = this.audioContext!.currentTime - this.startTime;
+      this.pausedAt = this.getPosition();
 
       this.updateState({ 
         isPlaying: false,
@@ -253,6 +556,7 @@ class AudioPlayerService {
       this.stopUpdateInterval();
       this.pausedAt = 0;
       this.startTime = 0;
+      this.startOffset = 0;
 
       this.updateState({
         isPlaying: false,
@@ -295,6 +599,41 @@ class AudioPlayerService {
     }
   }
 
+  /**
+   * Skip forward or back from the current position
+   * @param seconds - Seconds to move, negative to go back (default: SKIP_SECONDS)
+   */
+  async skip(seconds: number = SKIP_SECONDS): Promise<void> {
+    const position = this.playbackState.isPlaying ? this.getPosition() : this.pausedAt;
+    await this.seek(position + seconds);
+  }
+
+  /**
+   * Change the playback speed, also while playing
+   * @param rate - Speed multiplier, clamped to 0.75x-2x
+   */
+  setPlaybackRate(rate: number): void {
+    const playbackRate = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+
+    if (this.playbackState.isPlaying && this.audioBufferSource && this.audioContext) {
+      // Restart position tracking so time played at the old rate is kept
+      this.startOffset = this.getPosition();
+      this.startTime = this.audioContext.currentTime;
+      this.audioBufferSource.playbackRate.value = playbackRate;
+    }
+
+    this.updateState({ playbackRate });
+    console.log('[AudioPlayer] Playback rate set to:', playbackRate);
+  }
+
+  /**
+   * Turn skipping over silent stretches on or off
+   * @param enabled - Whether silence is skipped
+   */
+  setSkipSilence(enabled: boolean): void {
+    this.updateState({ skipSilence: enabled });
+  }
+
   /**
    * Get current playback state
    * @returns Current playback state
@@ -344,11 +683,16 @@ class AudioPlayerService {
 
     this.updateInterval = setInterval(() => {
       if (this.playbackState.isPlaying && this.audioContext) {
-        const currentTime = this.audioContext.currentTime - this.startTime;
+        const currentTime = this.getPosition();
+        const { duration, skipSilence, waveform } = this.playbackState;
+        const silence =
+          skipSilence && waveform ? silentRegionAt(waveform.silentRegions, currentTime) : null;
 
         // Check if reached end
-        if (currentTime >= this.playbackState.duration) {
+        if (currentTime >= duration || (silence && silence.end >= duration)) {
           void this.stop();
+        } else if (silence) {
+          this.seek(silence.end);
         } else {
           this.updateState({ currentTime });
         }
@@ -356,6 +700,14 @@ class AudioPlayerService {
     }, 100) as ReturnType<typeof setInterval>; // Update every 100ms
   }
 
+  /**
+   * Position of the playing source in seconds
+   */
+  private getPosition(): number {
+    const elapsed = this.audioContext!.currentTime - this.startTime;
+    return this.startOffset + elapsed * this.playbackState.playbackRate;
+  }
+
   /**
    * Stop update interval
    */
@@ -377,6 +729,7 @@ class AudioPlayerService {
         });
       }
       this.cachedFiles.clear();
+      this.waveforms.clear();
       console.log('[AudioPlayer] Cache cleared');
     } catch (error) {
       console.error('[AudioPlayer] Failed to clear cache:', error);
@@ -388,6 +741,7 @@ class AudioPlayerService {
    */
   async cleanup(): Promise<void> {
     await this.stop();
+    this.closeStream();
     this.stateListeners = [];
     this.currentUrl = null;
     this.audioBuffer = null;
@@ -1,5 +1,15 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import apiClient, { TOKEN_KEY, REFRESH_TOKEN_KEY } from './ApiService';
+import LocalLeadStore from './LocalLeadStore';
+import PipelineService from './PipelineService';
+import FollowUpReminderService from './FollowUpReminderService';
+import OfflineStorageService, { UserProfile } from './OfflineStorageService';
+import RecordingCacheService from './RecordingCacheService';
+import AudioPlayerService from './AudioPlayerService';
+import SecureStorageService from './SecureStorageService';
+import SyncOutboxService from './SyncOutboxService';
+import OrphanRecordingService from './OrphanRecordingService';
+import RecordingUploadService from './RecordingUploadService';
 import { authEvents } from '../utils/authEvents';
 
 export interface LoginResponse {
@@ -16,6 +26,21 @@ export interface LoginCredentials {
   password: string;
 }
 
+/**
+ * Error thrown by logout while changes or recordings haven't reached the
+ * server. Logging out destroys the key they are encrypted with, so the caller
+ * should warn the user and only log out with `discardUnsynced` once they agree.
+ */
+export class UnsyncedChangesError extends Error {
+  readonly unsyncedCount: number;
+
+  constructor(unsyncedCount: number) {
+    super(`${unsyncedCount} change(s) have not been synced yet`);
+    this.name = 'UnsyncedChangesError';
+    this.unsyncedCount = unsyncedCount;
+  }
+}
+
 class AuthService {
   /**
    * Authenticate user with username and password
@@ -44,6 +69,15 @@ class AuthService {
 
       console.log('[AuthService] Login successful! Tokens stored.');
 
+      // The role decides which tabs are shown, so load it before navigating
+      const profile = await this.loadUserProfile();
+
+      // Leads and changes stored on the device must belong to this user
+      await this.claimLocalData(profile);
+
+      // Load this telecaller's branch pipeline in the background
+      PipelineService.refresh();
+
       // Emit auth event to trigger navigation update
       authEvents.emit();
       console.log('[AuthService] Auth event emitted');
@@ -60,10 +94,56 @@ class AuthService {
     }
   }
 
+  /**
+   * Make the lead store and outbox this user's before they are used
+   * If the user can't be identified, or another user's changes are still
+   * unsynced, the tokens just stored are removed and the login is refused.
+   * @param profile - Profile of the user logging in
+   * @throws OutboxOwnedByOtherUserError if another user's changes are unsynced
+   */
+  private async claimLocalData(profile: UserProfile | null): Promise<void> {
+    try {
+      if (!profile) {
+        throw new Error('Could not load the user profile');
+      }
+
+      await SyncOutboxService.claim(profile.id);
+      await LocalLeadStore.claim(profile.id);
+    } catch (error) {
+      console.error('[AuthService] Login refused, local data not claimed:', error);
+      await apiClient.post('/auth/logout').catch(() => {
+        // The tokens are removed locally either way
+      });
+      await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]);
+      throw error;
+    }
+  }
+
   /**
    * Logout user by revoking token and clearing local storage
+   * Unsynced changes are synced first; if some can't be, logout is refused
+   * unless they may be discarded, along with their recordings
+   * @param discardUnsynced - Log out even if changes would be lost
+   * @throws UnsyncedChangesError if changes are still unsynced
+   * @throws OutboxUnreadableError if the outbox can't be read to check
    */
-  async logout(): Promise<void> {
+  async logout(discardUnsynced: boolean = false): Promise<void> {
+    let unsyncedCount = 0;
+    try {
+      unsyncedCount = await this.getUnsyncedCount();
+    } catch (error) {
+      // e.g. an outbox that can't be read, which only discarding can clear
+      if (!discardUnsynced) {
+        throw error;
+      }
+      console.warn('[AuthService] Could not count unsynced changes, discarding them:', error);
+    }
+
+    if (unsyncedCount > 0 && !discardUnsynced) {
+      console.warn(`[AuthService] Logout blocked, ${unsyncedCount} unsynced item(s)`);
+      throw new UnsyncedChangesError(unsyncedCount);
+    }
+
     try {
       const token = await this.getToken();
 
@@ -75,15 +155,52 @@ class AuthService {
       console.error('[AuthService] Logout API call failed:', error);
       // Continue with local cleanup even if API call fails
     } finally {
-      // Clear all stored tokens
-      await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]);
-      
-      // Emit auth event to trigger navigation update
-      authEvents.emit();
-      console.log('[AuthService] Logout complete, auth event emitted');
+      await this.endSession();
     }
   }
 
+  /**
+   * Remove everything this session left on the device and return to login
+   * Shared by logout and by the API client when the session can't be
+   * refreshed. Unsynced changes and recordings are deleted too, so callers
+   * check for them first where the user can still be asked.
+   */
+  async endSession(): Promise<void> {
+    // Clear all stored tokens
+    await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]);
+
+    // Don't leave this telecaller's leads on the device for the next user
+    await LocalLeadStore.clear();
+    await PipelineService.clear();
+    await FollowUpReminderService.cancelAll();
+    await OfflineStorageService.clearAll();
+    await RecordingCacheService.clearCache();
+    await AudioPlayerService.clearCache();
+
+    // Unsynced changes and recordings; logout only gets here with some if discarding was agreed
+    await SyncOutboxService.clearAll();
+    await OrphanRecordingService.clear();
+    await RecordingUploadService.clearStagedUploads();
+
+    // Anything encrypted that is left on the device can't be read after this
+    await SecureStorageService.destroyKey();
+
+    // Emit auth event to trigger navigation update
+    authEvents.emit();
+    console.log('[AuthService] Session ended, auth event emitted');
+  }
+
+  /**
+   * Sync what can be synced now and count what is left
+   * Includes recordings still waiting to be assigned to a lead
+   * @returns Number of unsynced changes and recordings
+   */
+  async getUnsyncedCount(): Promise<number> {
+    const stats = await SyncOutboxService.flush();
+    const orphans = await OrphanRecordingService.list();
+    return stats.pending + stats.inProgress + stats.failed + orphans.length;
+  }
+
   /**
    * Get stored JWT access token
    * @returns Promise with token string or null if not found
@@ -160,6 +277,33 @@ class AuthService {
     }
   }
 
+  /**
+   * Get the signed-in user's profile, loading it from the server if it isn't stored yet
+   * @returns Promise with the profile or null if it couldn't be loaded
+   */
+  async getUserProfile(): Promise<UserProfile | null> {
+    const stored = await OfflineStorageService.getUserProfile();
+    return stored ?? this.loadUserProfile();
+  }
+
+  /**
+   * Load the signed-in user's profile from `/me` and store it
+   * @returns Promise with the profile or null if the request failed
+   */
+  private async loadUserProfile(): Promise<UserProfile | null> {
+    try {
+      const response = await apiClient.get<{ data: UserProfile }>('/me');
+      const { id, username, role, branch_id } = response.data.data;
+      const profile = { id, username, role, branch_id };
+
+      await OfflineStorageService.storeUserProfile(profile);
+      return profile;
+    } catch (error) {
+      console.error('[AuthService] Failed to load user profile:', error);
+      return null;
+    }
+  }
+
   /**
    * Check if user is authenticated by verifying token exists
    * @returns Promise with boolean indicating authentication status
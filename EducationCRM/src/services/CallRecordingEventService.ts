@@ -1,7 +1,31 @@
 import { NativeEventEmitter, NativeModules, DeviceEventEmitter, Platform } from 'react-native';
 import RecordingUploadService from './RecordingUploadService';
-import LeadService from './LeadService';
+import LeadService, { CallDirection } from './LeadService';
+import LocalLeadStore from './LocalLeadStore';
 import RecordingService from './RecordingService';
+import OrphanRecordingService from './OrphanRecordingService';
+import DeviceCallLogService from './DeviceCallLogService';
+
+// The phone logs an inbound call from when it started ringing, before recording begins
+const RING_LOOKBACK = 2 * 60 * 1000; // 2 minutes
+
+/**
+ * Inbound call from a number in the lead book
+ */
+export interface InboundCall {
+  leadId: string;
+  studentName: string;
+  phoneNumber: string;
+  callLogId: string;
+}
+
+interface RecordingStart {
+  phoneNumber: string | null;
+  startedAt: string;
+  direction: CallDirection;
+  // Resolves once the caller is matched to a lead and an inbound call log is created
+  inboundCall: Promise<InboundCall | null> | null;
+}
 
 /**
  * Service to handle call recording events from the accessibility service
@@ -9,8 +33,11 @@ import RecordingService from './RecordingService';
  */
 class CallRecordingEventService {
   private listeners: any[] = [];
-  private currentLeadId: string | null = null;
-  private currentCallLogId: string | null = null;
+  // While CallRecordingManager runs a call placed from the app, it uploads that call's recording
+  private outboundClaimed: boolean = false;
+  // Number and start time of recordings in progress, keyed by file path
+  private recordingStarts: Map<string, RecordingStart> = new Map();
+  private inboundCallListeners: Array<(call: InboundCall) => void> = [];
 
   /**
    * Initialize the service and start listening for recording events
@@ -44,19 +71,24 @@ class CallRecordingEventService {
   }
 
   /**
-   * Set the current lead ID for associating recordings
+   * Leave outbound recordings to CallRecordingManager while it runs a call
+   * Unclaimed outbound recordings are kept for the Unassigned Recordings screen
+   * @param claimed - Whether the manager is handling an outbound call
    */
-  setCurrentLead(leadId: string | null): void {
-    this.currentLeadId = leadId;
-    console.log('[CallRecordingEventService] Current lead set to:', leadId);
+  claimOutboundRecordings(claimed: boolean): void {
+    this.outboundClaimed = claimed;
   }
 
   /**
-   * Set the current call log ID for associating recordings
+   * Listen for inbound calls identified as a lead, delivered once the call has ended
+   * @param listener - Callback receiving the caller's lead
+   * @returns Unsubscribe function
    */
-  setCurrentCallLog(callLogId: string | null): void {
-    this.currentCallLogId = callLogId;
-    console.log('[CallRecordingEventService] Current call log set to:', callLogId);
+  addInboundCallListener(listener: (call: InboundCall) => void): () => void {
+    this.inboundCallListeners.push(listener);
+    return () => {
+      this.inboundCallListeners = this.inboundCallListeners.filter(l => l !== listener);
+    };
   }
 
   /**
@@ -65,10 +97,17 @@ class CallRecordingEventService {
   private handleRecordingStarted(event: any): void {
     console.log('[CallRecordingEventService] Recording started:', event);
     const { filePath, phoneNumber } = event;
+    const direction: CallDirection = event.direction === 'inbound' ? 'inbound' : 'outbound';
 
-    // Try to find the lead by phone number if we don't have a current lead
-    if (!this.currentLeadId && phoneNumber) {
-      this.findLeadByPhoneNumber(phoneNumber);
+    // Remembered so a recording that can't be linked to a call log can be matched by number later
+    if (filePath) {
+      this.recordingStarts.set(filePath, {
+        phoneNumber: phoneNumber || null,
+        startedAt: new Date().toISOString(),
+        direction,
+        inboundCall:
+          direction === 'inbound' && phoneNumber ? this.logInboundCall(phoneNumber) : null,
+      });
     }
   }
 
@@ -86,7 +125,14 @@ class CallRecordingEventService {
   private async handleRecordingStopped(event: any): Promise<void> {
     console.log('[CallRecordingEventService] Recording stopped with details:', event);
     
-    const { filePath, duration, fileSize, audioSource } = event;
+    const { filePath, duration, fileSize } = event;
+    const start = this.recordingStarts.get(filePath);
+    this.recordingStarts.delete(filePath);
+
+    const inboundCall = start?.inboundCall ? await start.inboundCall : null;
+    if (inboundCall && start) {
+      await this.finishInboundCall(inboundCall, duration, start.startedAt);
+    }
 
     // Check if we have a valid recording
     if (!filePath || fileSize === 0) {
@@ -94,19 +140,88 @@ class CallRecordingEventService {
       return;
     }
 
+    // An inbound call never belongs to the lead the app last dialled
+    const isInbound = start?.direction === 'inbound';
+    if (!isInbound && this.outboundClaimed) {
+      console.log('[CallRecordingEventService] Recording handled by CallRecordingManager');
+      return;
+    }
+
+    const leadId = inboundCall?.leadId;
+    const callLogId = inboundCall?.callLogId;
+
     // Check if we have lead and call log IDs
-    if (!this.currentLeadId || !this.currentCallLogId) {
+    if (!leadId || !callLogId) {
       console.warn('[CallRecordingEventService] Missing lead or call log ID, cannot upload recording');
-      console.warn('  Lead ID:', this.currentLeadId);
-      console.warn('  Call Log ID:', this.currentCallLogId);
+      console.warn('  Lead ID:', leadId);
+      console.warn('  Call Log ID:', callLogId);
       
       // Store for later upload
-      await this.storeForLaterUpload(filePath, duration, fileSize);
+      await this.storeForLaterUpload(filePath, duration, fileSize, start);
       return;
     }
 
     // Upload the recording
-    await this.uploadRecording(filePath, this.currentLeadId, this.currentCallLogId);
+    await this.uploadRecording(filePath, leadId, callLogId);
+  }
+
+  /**
+   * Match an inbound caller to a lead and log the call
+   * Only an unambiguous match is linked; otherwise the recording is assigned by hand later
+   */
+  private async logInboundCall(phoneNumber: string): Promise<InboundCall | null> {
+    try {
+      const leads = await LocalLeadStore.findByPhoneNumber(phoneNumber);
+      if (leads.length !== 1) {
+        console.log(`[CallRecordingEventService] Inbound call matched ${leads.length} leads`);
+        return null;
+      }
+
+      const lead = leads[0];
+      const callLog = await LeadService.logCall(lead.id, {
+        outcome: 'connected',
+        direction: 'inbound',
+      });
+      console.log('[CallRecordingEventService] Inbound call from lead:', lead.id);
+
+      return {
+        leadId: lead.id,
+        studentName: lead.student_name,
+        phoneNumber,
+        callLogId: callLog.id,
+      };
+    } catch (error) {
+      console.error('[CallRecordingEventService] Failed to log inbound call:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record how long an inbound call lasted and tell listeners it has ended
+   * The phone's call log is preferred over the recording length when it can be read
+   */
+  private async finishInboundCall(
+    call: InboundCall,
+    duration: number,
+    startedAt: string
+  ): Promise<void> {
+    try {
+      const entry = await DeviceCallLogService.findCall(
+        call.phoneNumber,
+        new Date(startedAt).getTime() - RING_LOOKBACK
+      );
+
+      await LeadService.updateCall(call.leadId, call.callLogId, {
+        ...(entry
+          ? DeviceCallLogService.toCallData(entry)
+          : { outcome: 'connected', duration_seconds: Math.round(duration || 0) }),
+        direction: 'inbound',
+      });
+    } catch (error) {
+      console.error('[CallRecordingEventService] Failed to update inbound call:', error);
+    }
+
+    this.inboundCallListeners.forEach(listener => listener(call));
   }
 
   /**
@@ -140,6 +255,8 @@ class CallRecordingEventService {
         
         // Clear lead cache to refresh UI
         LeadService.clearLeadCache(leadId);
+      } else if (result.queued) {
+        console.log('[CallRecordingEventService] Upload queued for retry:', result.error);
       } else {
         console.error('[CallRecordingEventService] Upload failed:', result.error);
       }
@@ -149,28 +266,29 @@ class CallRecordingEventService {
   }
 
   /**
-   * Store recording for later upload when we have the lead/call log IDs
+   * Keep a recording without a lead/call log so it can be assigned from the
+   * Unassigned Recordings screen
    */
   private async storeForLaterUpload(
     filePath: string,
     duration: number,
-    fileSize: number
+    fileSize: number,
+    start?: RecordingStart
   ): Promise<void> {
-    console.log('[CallRecordingEventService] Storing recording for later upload');
-    // TODO: Implement pending uploads storage
-    // For now, recordings without lead/call log will be lost
-  }
-
-  /**
-   * Try to find a lead by phone number
-   */
-  private async findLeadByPhoneNumber(phoneNumber: string): Promise<void> {
     try {
-      console.log('[CallRecordingEventService] Searching for lead with phone:', phoneNumber);
-      // TODO: Implement lead search by phone number
-      // This would require a new API endpoint or searching through cached leads
+      console.log('[CallRecordingEventService] Storing recording for later upload');
+      const durationSeconds = Math.round(duration || 0);
+
+      await OrphanRecordingService.add({
+        filePath,
+        phoneNumber: start?.phoneNumber || null,
+        direction: start?.direction || 'outbound',
+        startedAt: start?.startedAt || new Date(Date.now() - durationSeconds * 1000).toISOString(),
+        durationSeconds,
+        fileSize,
+      });
     } catch (error) {
-      console.error('[CallRecordingEventService] Error finding lead:', error);
+      console.error('[CallRecordingEventService] Failed to store recording:', error);
     }
   }
 
@@ -0,0 +1,61 @@
+import { NativeModules, Platform } from 'react-native';
+
+const { DateTimePickerModule } = NativeModules;
+
+/**
+ * DateTimePickerService - Shows the platform date and time pickers
+ * Backed by the native DateTimePickerModule on Android; elsewhere pickers are
+ * unavailable and callers fall back to quick-pick presets
+ */
+class DateTimePickerService {
+  /**
+   * Whether native pickers can be shown on this device
+   */
+  isAvailable(): boolean {
+    return Platform.OS === 'android' && !!DateTimePickerModule;
+  }
+
+  /**
+   * Let the user pick a calendar day, keeping the time of day of `initial`
+   * @param initial - Date selected when the picker opens
+   * @param minimum - Earliest selectable day (optional)
+   * @returns Picked date, or null if the picker was dismissed
+   */
+  async pickDate(initial: Date, minimum?: Date): Promise<Date | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    try {
+      const picked: number | null = await DateTimePickerModule.pickDate(
+        initial.getTime(),
+        minimum ? minimum.getTime() : -1
+      );
+      return picked === null ? null : new Date(picked);
+    } catch (error) {
+      console.error('[DateTimePickerService] Error picking date:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Let the user pick a time of day, keeping the calendar day of `initial`
+   * @param initial - Time selected when the picker opens
+   * @returns Picked date, or null if the picker was dismissed
+   */
+  async pickTime(initial: Date): Promise<Date | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    try {
+      const picked: number | null = await DateTimePickerModule.pickTime(initial.getTime());
+      return picked === null ? null : new Date(picked);
+    } catch (error) {
+      console.error('[DateTimePickerService] Error picking time:', error);
+      return null;
+    }
+  }
+}
+
+export default new DateTimePickerService();
@@ -0,0 +1,93 @@
+import { NativeModules, Platform } from 'react-native';
+import { CallData } from './LeadService';
+import PermissionService from './PermissionService';
+
+const { DeviceCallLogModule } = NativeModules;
+
+// Android writes the call log entry shortly after the call ends
+const LOOKUP_ATTEMPTS = 3;
+const LOOKUP_RETRY_DELAY = 1500; // ms
+
+export type DeviceCallType = 'outgoing' | 'incoming' | 'missed' | 'rejected' | 'blocked' | 'other';
+
+/**
+ * Entry from the phone's own call log
+ */
+export interface DeviceCallEntry {
+  phoneNumber: string;
+  type: DeviceCallType;
+  durationSeconds: number;
+  /** Epoch milliseconds */
+  startedAt: number;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * DeviceCallLogService - Reads the real duration and result of a call from the
+ * Android call log (needs READ_CALL_LOG), instead of guessing them from how long
+ * the app was in the background
+ */
+class DeviceCallLogService {
+  /**
+   * Find the call with a number made or received since a point in time
+   * @param phoneNumber - Number that was dialled or called in
+   * @param since - Epoch milliseconds, e.g. when the call was placed
+   * @returns Call log entry, or null if unavailable (no permission, not Android, not found)
+   */
+  async findCall(phoneNumber: string, since: number): Promise<DeviceCallEntry | null> {
+    if (Platform.OS !== 'android' || !DeviceCallLogModule) {
+      return null;
+    }
+
+    if (!(await PermissionService.hasCallLogPermission())) {
+      console.log('[DeviceCallLogService] Call log permission not granted');
+      return null;
+    }
+
+    try {
+      for (let attempt = 1; attempt <= LOOKUP_ATTEMPTS; attempt++) {
+        const entry: DeviceCallEntry | null = await DeviceCallLogModule.findCall(phoneNumber, since);
+        if (entry) {
+          console.log('[DeviceCallLogService] Found call log entry:', entry.type, entry.durationSeconds);
+          return entry;
+        }
+
+        if (attempt < LOOKUP_ATTEMPTS) {
+          await wait(LOOKUP_RETRY_DELAY);
+        }
+      }
+    } catch (error) {
+      console.error('[DeviceCallLogService] Failed to read call log:', error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Turn a call log entry into the outcome and duration of a CRM call log
+   * An unanswered outgoing call has no duration; a declined one is treated as busy
+   * @param entry - Call log entry
+   * @returns Call data for the CRM call log
+   */
+  toCallData(entry: DeviceCallEntry): CallData {
+    const durationSeconds = Math.round(entry.durationSeconds);
+
+    switch (entry.type) {
+      case 'outgoing':
+      case 'incoming':
+        return durationSeconds > 0
+          ? { outcome: 'connected', duration_seconds: durationSeconds }
+          : { outcome: 'no_answer', duration_seconds: 0 };
+
+      case 'rejected':
+      case 'blocked':
+        return { outcome: 'busy', duration_seconds: 0 };
+
+      default:
+        return { outcome: 'no_answer', duration_seconds: 0 };
+    }
+  }
+}
+
+export default new DeviceCallLogService();
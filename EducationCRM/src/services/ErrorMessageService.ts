@@ -4,6 +4,7 @@ export type ErrorType =
   | 'permission_denied'
   | 'storage_full'
   | 'upload_failed'
+  | 'upload_queued'
   | 'network_error'
   | 'recording_failed'
   | 'file_not_found'
@@ -35,6 +36,11 @@ class ErrorMessageService {
       message: 'Failed to upload the recording. The upload will be retried automatically when network is available.',
       actionable: false,
     },
+    upload_queued: {
+      title: 'Upload Pending',
+      message: 'The recording is saved on this phone and will be uploaded automatically once it can reach the server.',
+      actionable: false,
+    },
     network_error: {
       title: 'Network Error',
       message: 'Unable to connect to the server. Please check your internet connection and try again.',
@@ -261,6 +267,13 @@ class ErrorMessageService {
     }
   }
 
+  /**
+   * Show that a recording is waiting to be uploaded by the sync outbox
+   */
+  showUploadQueued(): void {
+    this.showToast('upload_queued');
+  }
+
   /**
    * Show network error
    */
@@ -0,0 +1,152 @@
+import { NativeModules, Platform, DeviceEventEmitter } from 'react-native';
+import { FollowUp } from './FollowUpService';
+
+const { FollowUpReminderModule } = NativeModules;
+
+const REMINDER_OPENED_EVENT = 'com.educationcrm.FOLLOW_UP_REMINDER_OPENED';
+
+interface ScheduledReminder {
+  followUpId: string;
+  leadId: string;
+  scheduledAt: string;
+  triggerAt: number;
+  fired: boolean;
+}
+
+/**
+ * FollowUpReminderService - Schedules on-device reminders for pending follow-ups
+ * Reminders are shown by the native FollowUpReminderModule, which offers snooze
+ * actions and reports taps so the app can open the lead
+ */
+class FollowUpReminderService {
+  /**
+   * Bring scheduled reminders in line with the follow-ups due in a range
+   * Schedules new and rescheduled pending follow-ups and cancels reminders for
+   * follow-ups known to be completed or cancelled. Reminders for follow-ups
+   * that weren't fetched, e.g. further ahead, and snoozed reminders are left alone.
+   * @param followUps - Every follow-up scheduled in the range, completed ones included
+   */
+  async syncReminders(followUps: FollowUp[]): Promise<void> {
+    if (Platform.OS !== 'android') {
+      return;
+    }
+
+    try {
+      const scheduled: ScheduledReminder[] = await FollowUpReminderModule.getReminders();
+      const scheduledById = new Map(scheduled.map(reminder => [reminder.followUpId, reminder]));
+      const pending = followUps.filter(followUp => !followUp.completed);
+      // Cancelled follow-ups are completed too, with a cancelled_at
+      const doneIds = new Set(
+        followUps.filter(followUp => followUp.completed).map(followUp => followUp.id),
+      );
+
+      for (const reminder of scheduled) {
+        if (doneIds.has(reminder.followUpId)) {
+          await FollowUpReminderModule.cancelReminder(reminder.followUpId);
+        }
+      }
+
+      const now = Date.now();
+      for (const followUp of pending) {
+        const existing = scheduledById.get(followUp.id);
+        if (existing && existing.scheduledAt === followUp.scheduled_at) {
+          continue;
+        }
+
+        const triggerAt = new Date(followUp.scheduled_at).getTime();
+        if (triggerAt > now) {
+          await this.scheduleReminder(followUp, triggerAt);
+        } else if (existing) {
+          // Rescheduled into the past - it already shows as overdue in the app
+          await FollowUpReminderModule.cancelReminder(followUp.id);
+        }
+      }
+
+      console.log(`[FollowUpReminderService] Synced reminders for ${pending.length} pending follow-ups`);
+    } catch (error) {
+      console.error('[FollowUpReminderService] Failed to sync reminders:', error);
+    }
+  }
+
+  /**
+   * Cancel the reminder for a follow-up (e.g. once it is completed)
+   * @param followUpId - Follow-up ID
+   */
+  async cancelReminder(followUpId: string): Promise<void> {
+    if (Platform.OS !== 'android') {
+      return;
+    }
+
+    try {
+      await FollowUpReminderModule.cancelReminder(followUpId);
+    } catch (error) {
+      console.error('[FollowUpReminderService] Failed to cancel reminder:', error);
+    }
+  }
+
+  /**
+   * Cancel every scheduled reminder (e.g. on logout)
+   */
+  async cancelAll(): Promise<void> {
+    if (Platform.OS !== 'android') {
+      return;
+    }
+
+    try {
+      const scheduled: ScheduledReminder[] = await FollowUpReminderModule.getReminders();
+      for (const reminder of scheduled) {
+        await FollowUpReminderModule.cancelReminder(reminder.followUpId);
+      }
+    } catch (error) {
+      console.error('[FollowUpReminderService] Failed to cancel reminders:', error);
+    }
+  }
+
+  /**
+   * Get the lead opened from a reminder that launched the app, if any
+   * @returns Lead ID or null
+   */
+  async getInitialLeadId(): Promise<string | null> {
+    if (Platform.OS !== 'android') {
+      return null;
+    }
+
+    try {
+      return await FollowUpReminderModule.getInitialLeadId();
+    } catch (error) {
+      console.error('[FollowUpReminderService] Failed to get initial lead:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Listen for reminder taps while the app is running
+   * @param listener - Called with the lead ID of the tapped reminder
+   * @returns Function to remove the listener
+   */
+  addReminderOpenedListener(listener: (leadId: string) => void): () => void {
+    const subscription = DeviceEventEmitter.addListener(
+      REMINDER_OPENED_EVENT,
+      (event: { leadId: string }) => listener(event.leadId)
+    );
+    return () => subscription.remove();
+  }
+
+  private async scheduleReminder(followUp: FollowUp, triggerAt: number): Promise<void> {
+    const leadName = followUp.lead?.student_name || followUp.lead_name || 'a lead';
+    const phone = followUp.lead?.phone_number || followUp.lead_phone;
+    const title = `Follow-up: call ${leadName}`;
+    const body = followUp.description || phone || 'Scheduled follow-up call';
+
+    await FollowUpReminderModule.scheduleReminder(
+      followUp.id,
+      followUp.lead_id,
+      title,
+      body,
+      followUp.scheduled_at,
+      triggerAt
+    );
+  }
+}
+
+export default new FollowUpReminderService();
@@ -1,4 +1,12 @@
 import apiClient from './ApiService';
+import OfflineStorageService from './OfflineStorageService';
+import LocalLeadStore from './LocalLeadStore';
+import FollowUpReminderService from './FollowUpReminderService';
+import SyncOutboxService from './SyncOutboxService';
+import { addDays, calendarDaysBetween, parseDateTime, toApiDateTime } from '../utils/dateTime';
+
+// Reminders are kept for follow-ups due this far ahead (the API allows ranges up to 31 days)
+const REMINDER_WINDOW_DAYS = 30;
 
 export interface FollowUp {
   id: string;
@@ -8,8 +16,12 @@ export interface FollowUp {
   description?: string;
   completed: boolean;
   completed_at?: string;
+  cancelled_at?: string;
+  cancel_reason?: string;
   inserted_at: string;
   updated_at: string;
+  lead_name?: string;
+  lead_phone?: string;
   lead?: {
     id: string;
     student_name: string;
@@ -20,7 +32,12 @@ export interface FollowUp {
 
 export interface FollowUpFilters {
   status?: 'pending' | 'completed';
+  /** Local calendar day (YYYY-MM-DD) */
   date?: string;
+  /** Start of a scheduled_at range (inclusive) */
+  from?: Date;
+  /** End of a scheduled_at range (exclusive) */
+  to?: Date;
 }
 
 export interface CreateFollowUpData {
@@ -29,10 +46,20 @@ export interface CreateFollowUpData {
   description?: string;
 }
 
+export interface UpdateFollowUpData {
+  scheduled_at?: string;
+  description?: string;
+}
+
+export interface CompleteAndScheduleNextResult {
+  completed: FollowUp;
+  next: FollowUp;
+}
+
 class FollowUpService {
   /**
    * Fetch follow-ups for the current telecaller with optional filters
-   * @param filters - Optional filters (status, date)
+   * @param filters - Optional filters (status, date, from/to range)
    * @returns Promise with array of follow-ups
    */
   async fetchFollowUps(filters: FollowUpFilters = {}): Promise<FollowUp[]> {
@@ -44,7 +71,16 @@ class FollowUpService {
       }
 
       if (filters.date) {
-        params.date = filters.date;
+        // The API filters by instant, so turn the local day into its boundaries
+        const [year, month, day] = filters.date.split('-').map(Number);
+        const start = new Date(year, month - 1, day);
+        params.from = toApiDateTime(start);
+        params.to = toApiDateTime(addDays(start, 1));
+      }
+
+      if (filters.from && filters.to) {
+        params.from = toApiDateTime(filters.from);
+        params.to = toApiDateTime(filters.to);
       }
 
       const response = await apiClient.get<{ data: FollowUp[] }>('/followups', { params });
@@ -59,17 +95,49 @@ class FollowUpService {
    * Create a new follow-up task for a lead
    * @param leadId - Lead ID
    * @param data - Follow-up data (scheduled_at, description)
-   * @returns Promise with created follow-up
+   * @param queueIfOffline - Queue in the sync outbox when the server can't be reached (default: true)
+   * @returns Promise with created follow-up (with a local ID if it was queued)
    */
-  async createFollowUp(leadId: string, data: Omit<CreateFollowUpData, 'lead_id'>): Promise<FollowUp> {
+  async createFollowUp(
+    leadId: string,
+    data: Omit<CreateFollowUpData, 'lead_id'>,
+    queueIfOffline: boolean = true
+  ): Promise<FollowUp> {
     try {
-      const response = await apiClient.post<FollowUp>('/followups', {
+      const response = await apiClient.post<{ data: FollowUp }>('/followups', {
         lead_id: leadId,
         ...data,
       });
-      return response.data;
+      return response.data.data;
     } catch (error) {
       console.error('[FollowUpService] Failed to create follow-up:', error);
+
+      if (queueIfOffline && this.shouldQueue(error)) {
+        const localId = SyncOutboxService.createLocalId();
+        await SyncOutboxService.enqueue({
+          id: localId,
+          type: 'create_followup',
+          leadId,
+          payload: data,
+        });
+        console.log('[FollowUpService] Queued follow-up for retry when online:', localId);
+
+        const now = new Date().toISOString();
+        const followUp: FollowUp = {
+          id: localId,
+          lead_id: leadId,
+          telecaller_id: '',
+          scheduled_at: data.scheduled_at,
+          description: data.description,
+          completed: false,
+          inserted_at: now,
+          updated_at: now,
+        };
+        await LocalLeadStore.upsertLocalFollowup(followUp);
+
+        return followUp;
+      }
+
       throw error;
     }
   }
@@ -81,16 +149,194 @@ class FollowUpService {
    */
   async markComplete(id: string): Promise<FollowUp> {
     try {
-      const response = await apiClient.patch<FollowUp>(`/followups/${id}`, {
+      const response = await apiClient.patch<{ data: FollowUp }>(`/followups/${id}`, {
         completed: true,
       });
-      return response.data;
+
+      // No need to be reminded about a follow-up that's done
+      await FollowUpReminderService.cancelReminder(id);
+
+      return response.data.data;
     } catch (error) {
       console.error('[FollowUpService] Failed to mark follow-up complete:', error);
       throw error;
     }
   }
 
+  /**
+   * Reschedule a follow-up or change its description
+   * Follow-ups that haven't synced yet (local IDs) are updated after they are created
+   * @param leadId - Lead ID
+   * @param followUpId - Follow-up ID (may be a local ID awaiting sync)
+   * @param data - New scheduled time and/or description
+   * @param queueIfOffline - Queue in the sync outbox when the server can't be reached (default: true)
+   * @returns Promise with updated follow-up
+   */
+  async updateFollowUp(
+    leadId: string,
+    followUpId: string,
+    data: UpdateFollowUpData,
+    queueIfOffline: boolean = true
+  ): Promise<FollowUp> {
+    // The reminder is scheduled again for the new time on the next reminder sync
+    await FollowUpReminderService.cancelReminder(followUpId);
+
+    const queueUpdate = async (): Promise<FollowUp> => {
+      await SyncOutboxService.enqueue({
+        type: 'update_followup',
+        leadId,
+        payload: { followUpId, ...data },
+        dependsOn: SyncOutboxService.isLocalId(followUpId) ? [followUpId] : [],
+      });
+      await LocalLeadStore.applyFollowupUpdate(leadId, followUpId, data);
+      console.log('[FollowUpService] Queued follow-up update for retry when online:', followUpId);
+
+      return { id: followUpId, lead_id: leadId, ...data } as FollowUp;
+    };
+
+    if (queueIfOffline && SyncOutboxService.isLocalId(followUpId)) {
+      return queueUpdate();
+    }
+
+    try {
+      const response = await apiClient.patch<{ data: FollowUp }>(`/followups/${followUpId}`, data);
+      return response.data.data;
+    } catch (error) {
+      console.error('[FollowUpService] Failed to update follow-up:', error);
+
+      if (queueIfOffline && this.shouldQueue(error)) {
+        return queueUpdate();
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a follow-up, recording why it is no longer needed
+   * @param leadId - Lead ID
+   * @param followUpId - Follow-up ID (may be a local ID awaiting sync)
+   * @param reason - Why the follow-up was cancelled
+   * @param queueIfOffline - Queue in the sync outbox when the server can't be reached (default: true)
+   * @returns Promise with cancelled follow-up
+   */
+  async cancelFollowUp(
+    leadId: string,
+    followUpId: string,
+    reason: string,
+    queueIfOffline: boolean = true
+  ): Promise<FollowUp> {
+    await FollowUpReminderService.cancelReminder(followUpId);
+
+    const queueCancel = async (): Promise<FollowUp> => {
+      await SyncOutboxService.enqueue({
+        type: 'cancel_followup',
+        leadId,
+        payload: { followUpId, reason },
+        dependsOn: SyncOutboxService.isLocalId(followUpId) ? [followUpId] : [],
+      });
+
+      const now = new Date().toISOString();
+      const changes = { completed: true, completed_at: now, cancelled_at: now, cancel_reason: reason };
+      await LocalLeadStore.applyFollowupUpdate(leadId, followUpId, changes);
+      console.log('[FollowUpService] Queued follow-up cancellation for retry when online:', followUpId);
+
+      return { id: followUpId, lead_id: leadId, ...changes } as FollowUp;
+    };
+
+    if (queueIfOffline && SyncOutboxService.isLocalId(followUpId)) {
+      return queueCancel();
+    }
+
+    try {
+      const response = await apiClient.delete<{ data: FollowUp }>(`/followups/${followUpId}`, {
+        data: { reason },
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('[FollowUpService] Failed to cancel follow-up:', error);
+
+      if (queueIfOffline && this.shouldQueue(error)) {
+        return queueCancel();
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a follow-up and book the next one for the same lead in one step
+   * @param leadId - Lead ID
+   * @param followUpId - Follow-up ID (may be a local ID awaiting sync)
+   * @param next - Scheduled time and description of the next follow-up
+   * @param queueIfOffline - Queue in the sync outbox when the server can't be reached (default: true)
+   * @returns Promise with the completed follow-up and the next one (with a local ID if it was queued)
+   */
+  async completeAndScheduleNext(
+    leadId: string,
+    followUpId: string,
+    next: Omit<CreateFollowUpData, 'lead_id'>,
+    queueIfOffline: boolean = true
+  ): Promise<CompleteAndScheduleNextResult> {
+    await FollowUpReminderService.cancelReminder(followUpId);
+
+    const queueComplete = async (): Promise<CompleteAndScheduleNextResult> => {
+      // The outbox item ID doubles as the local ID of the next follow-up
+      const localId = SyncOutboxService.createLocalId();
+      await SyncOutboxService.enqueue({
+        id: localId,
+        type: 'complete_followup',
+        leadId,
+        payload: { followUpId, next },
+        dependsOn: SyncOutboxService.isLocalId(followUpId) ? [followUpId] : [],
+      });
+
+      const now = new Date().toISOString();
+      const completedChanges = { completed: true, completed_at: now };
+      const nextFollowUp: FollowUp = {
+        id: localId,
+        lead_id: leadId,
+        telecaller_id: '',
+        scheduled_at: next.scheduled_at,
+        description: next.description,
+        completed: false,
+        inserted_at: now,
+        updated_at: now,
+      };
+      await LocalLeadStore.applyFollowupUpdate(leadId, followUpId, completedChanges);
+      await LocalLeadStore.upsertLocalFollowup(nextFollowUp);
+      console.log('[FollowUpService] Queued follow-up completion for retry when online:', followUpId);
+
+      return {
+        completed: { id: followUpId, lead_id: leadId, ...completedChanges } as FollowUp,
+        next: nextFollowUp,
+      };
+    };
+
+    if (queueIfOffline && SyncOutboxService.isLocalId(followUpId)) {
+      return queueComplete();
+    }
+
+    try {
+      const response = await apiClient.patch<{ data: FollowUp; next_followup: FollowUp }>(
+        `/followups/${followUpId}`,
+        { completed: true, next_followup: next }
+      );
+      return {
+        completed: response.data.data,
+        next: response.data.next_followup,
+      };
+    } catch (error) {
+      console.error('[FollowUpService] Failed to complete follow-up:', error);
+
+      if (queueIfOffline && this.shouldQueue(error)) {
+        return queueComplete();
+      }
+
+      throw error;
+    }
+  }
+
   /**
    * Get follow-ups grouped by date category
    * @returns Promise with categorized follow-ups
@@ -103,21 +349,19 @@ class FollowUpService {
     try {
       const followUps = await this.fetchFollowUps({ status: 'pending' });
 
-      const now = new Date();
-      const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const todayEnd = new Date(todayStart);
-      todayEnd.setDate(todayEnd.getDate() + 1);
+      // Keep on-device reminders in step with the latest follow-ups
+      this.syncReminders();
 
       const overdue: FollowUp[] = [];
       const today: FollowUp[] = [];
       const upcoming: FollowUp[] = [];
 
       followUps.forEach(followUp => {
-        const scheduledDate = new Date(followUp.scheduled_at);
+        const days = calendarDaysBetween(parseDateTime(followUp.scheduled_at)!);
 
-        if (scheduledDate < todayStart) {
+        if (days < 0) {
           overdue.push(followUp);
-        } else if (scheduledDate >= todayStart && scheduledDate < todayEnd) {
+        } else if (days === 0) {
           today.push(followUp);
         } else {
           upcoming.push(followUp);
@@ -130,6 +374,48 @@ class FollowUpService {
       throw error;
     }
   }
+
+  /**
+   * Bring on-device reminders in line with every follow-up due soon
+   * The whole range is fetched, completed and cancelled follow-ups included,
+   * so reminders are only cancelled for follow-ups known to be done
+   */
+  async syncReminders(): Promise<void> {
+    try {
+      const from = new Date();
+      const followUps = await this.fetchFollowUps({
+        from,
+        to: addDays(from, REMINDER_WINDOW_DAYS),
+      });
+      await FollowUpReminderService.syncReminders(followUps);
+    } catch (error) {
+      console.warn('[FollowUpService] Failed to sync follow-up reminders:', error);
+    }
+  }
+
+  /**
+   * Get pending follow-ups for a run of days, earliest first
+   * @param start - First day of the agenda (local midnight)
+   * @param days - Number of days to include
+   * @returns Promise with follow-ups scheduled in the range
+   */
+  async getAgenda(start: Date, days: number): Promise<FollowUp[]> {
+    try {
+      return await this.fetchFollowUps({ status: 'pending', from: start, to: addDays(start, days) });
+    } catch (error) {
+      console.error('[FollowUpService] Failed to get agenda:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a failed request should be queued for retry instead of surfaced
+   * Queues when the device is offline or the request never got a response
+   * @param error - Request error
+   */
+  private shouldQueue(error: any): boolean {
+    return !OfflineStorageService.isDeviceOnline() || !error?.response;
+  }
 }
 
 export default new FollowUpService();
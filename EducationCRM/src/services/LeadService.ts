@@ -2,7 +2,9 @@ import apiClient from './ApiService';
 import ReactNativeBlobUtil from 'react-native-blob-util';
 import CacheService from './CacheService';
 import OfflineStorageService from './OfflineStorageService';
-import S3Service from './S3Service';
+import LocalLeadStore from './LocalLeadStore';
+import SyncOutboxService from './SyncOutboxService';
+import RecordingCacheService from './RecordingCacheService';
 
 export interface Lead {
   id: string;
@@ -13,7 +15,8 @@ export interface Lead {
   city?: string;
   preferred_course?: string;
   preferred_university?: string;
-  status: 'new' | 'contacted' | 'interested' | 'not_interested' | 'enrolled' | 'lost';
+  /** Stage key from the branch pipeline (see PipelineService) */
+  status: string;
   telecaller_id: string;
   branch_id: string;
   assigned_at?: string;
@@ -27,6 +30,8 @@ export interface LeadDetail extends Lead {
   notes: LeadNote[];
   call_logs: CallLog[];
   followups: Followup[];
+  /** Missing on leads stored before status history was synced */
+  status_changes?: LeadStatusChange[];
 }
 
 export interface LeadNote {
@@ -37,16 +42,56 @@ export interface LeadNote {
   inserted_at: string;
 }
 
+export type CallDirection = 'outbound' | 'inbound';
+
 export interface CallLog {
   id: string;
   lead_id: string;
   telecaller_id: string;
-  outcome: 'connected' | 'no_answer' | 'busy' | 'invalid_number';
+  /** 'pending' until the disposition of a call logged as it was placed is saved */
+  outcome: CallData['outcome'] | 'pending';
   duration_seconds?: number;
+  /** Inbound calls are students calling back (default: outbound) */
+  direction?: CallDirection;
   recording_path?: string;
+  /** SHA-256 computed on the phone that recorded the call */
+  recording_sha256?: string;
+  /** Set once the server checked the stored recording against the checksum */
+  recording_verified_at?: string;
+  /** Moments marked while the call was being recorded, in offset order */
+  bookmarks?: CallBookmark[];
+  /** Branch manager's review: percentage of the rubric's maximum, null until reviewed */
+  qa_score?: number | null;
+  qa_reviewed_at?: string | null;
+  qa_scores?: QaScore[];
+  /** Coaching comments left at points in the recording */
+  qa_comments?: QaComment[];
   inserted_at: string;
 }
 
+export interface CallBookmark {
+  /** Seconds from the start of the recording */
+  offset_seconds: number;
+  label: string;
+}
+
+export interface QaScore {
+  /** Key of the rubric criterion */
+  criterion: string;
+  label: string;
+  score: number;
+  max_score: number;
+}
+
+export interface QaComment {
+  /** Seconds from the start of the recording */
+  offset_seconds: number;
+  body: string;
+}
+
+/** Why a recording was deleted, kept in the server's audit trail */
+export type RecordingDeletionReason = 'student_request' | 'wrong_lead' | 'test_call' | 'other';
+
 export interface Followup {
   id: string;
   lead_id: string;
@@ -55,10 +100,22 @@ export interface Followup {
   description?: string;
   completed: boolean;
   completed_at?: string;
+  cancelled_at?: string;
+  cancel_reason?: string;
   inserted_at: string;
   updated_at: string;
 }
 
+export interface LeadStatusChange {
+  id: string;
+  lead_id: string;
+  from_status?: string;
+  to_status: string;
+  reason_code?: string;
+  reason_note?: string;
+  inserted_at: string;
+}
+
 export interface LeadFilters {
   status?: string;
   search?: string;
@@ -79,11 +136,15 @@ export interface UpdateLeadData {
   preferred_course?: string;
   preferred_university?: string;
   status?: string;
+  /** Reason code, required when moving to not_interested or lost */
+  status_reason?: string;
+  status_note?: string;
 }
 
 export interface CallData {
   outcome: 'connected' | 'no_answer' | 'busy' | 'invalid_number';
   duration_seconds?: number;
+  direction?: CallDirection;
 }
 
 class LeadService {
@@ -134,26 +195,14 @@ class LeadService {
       // Cache the response data
       CacheService.cacheLeadList(cacheKey, response.data.data);
 
-      // Store for offline viewing
-      await OfflineStorageService.storeLeadList(response.data.data);
-
       return response.data;
     } catch (error) {
       console.error('[LeadService] Failed to fetch leads:', error);
 
-      // If offline, try to return stored data
-      if (!OfflineStorageService.isDeviceOnline()) {
-        const offlineData = await OfflineStorageService.getLeadList();
-        if (offlineData) {
-          console.log('[LeadService] Returning offline lead list');
-          return {
-            data: offlineData,
-            page: 1,
-            page_size: 50,
-            total_count: offlineData.length,
-            total_pages: 1,
-          };
-        }
+      // If the server can't be reached, answer filters and search from the local store
+      if (this.shouldQueue(error) && LocalLeadStore.hasData()) {
+        console.log('[LeadService] Returning leads from local store');
+        return LocalLeadStore.query(filters, page);
       }
 
       throw error;
@@ -182,18 +231,18 @@ class LeadService {
       // Cache the response
       CacheService.cacheLeadDetail(id, response.data.data);
 
-      // Store for offline viewing
-      await OfflineStorageService.storeLeadDetail(id, response.data.data);
+      // Keep the local store current for offline viewing
+      await LocalLeadStore.upsertLead(response.data.data);
 
       return response.data.data;
     } catch (error) {
       console.error('[LeadService] Failed to get lead:', error);
 
-      // If offline, try to return stored data
-      if (!OfflineStorageService.isDeviceOnline()) {
-        const offlineData = await OfflineStorageService.getLeadDetail(id);
+      // If the server can't be reached, try the local store
+      if (this.shouldQueue(error)) {
+        const offlineData = await LocalLeadStore.getLead(id);
         if (offlineData) {
-          console.log('[LeadService] Returning offline lead detail');
+          console.log('[LeadService] Returning lead detail from local store');
           return offlineData;
         }
       }
@@ -207,9 +256,15 @@ class LeadService {
    * @param id - Lead ID
    * @param data - Updated lead data
    * @param optimistic - Whether to update cache optimistically (default: true)
+   * @param queueIfOffline - Queue in the sync outbox when the server can't be reached (default: true)
    * @returns Promise with updated lead
    */
-  async updateLead(id: string, data: UpdateLeadData, optimistic: boolean = true): Promise<Lead> {
+  async updateLead(
+    id: string,
+    data: UpdateLeadData,
+    optimistic: boolean = true,
+    queueIfOffline: boolean = true
+  ): Promise<Lead> {
     try {
       // Optimistically update cache before API call
       if (optimistic) {
@@ -226,12 +281,25 @@ class LeadService {
       console.error('[LeadService] Failed to update lead:', error);
 
       // If offline, queue the request for retry
-      if (!OfflineStorageService.isDeviceOnline()) {
-        await OfflineStorageService.queueFailedRequest({
+      if (queueIfOffline && this.shouldQueue(error)) {
+        await SyncOutboxService.enqueue({
           type: 'update_lead',
           leadId: id,
-          data,
+          payload: data,
         });
+        const storedLead = await LocalLeadStore.getLead(id);
+        if (data.status && storedLead && storedLead.status !== data.status) {
+          await LocalLeadStore.addLocalStatusChange({
+            id: SyncOutboxService.createLocalId(),
+            lead_id: id,
+            from_status: storedLead.status,
+            to_status: data.status,
+            reason_code: data.status_reason,
+            reason_note: data.status_note,
+            inserted_at: new Date().toISOString(),
+          });
+        }
+        await LocalLeadStore.applyLeadUpdate(id, data as Partial<Lead>);
         console.log('[LeadService] Queued lead update for retry when online');
         // Return optimistic data
         return { id, ...data } as Lead;
@@ -251,20 +319,155 @@ class LeadService {
    * Log a call attempt for a lead
    * @param leadId - Lead ID
    * @param callData - Call outcome and duration
-   * @returns Promise with created call log
+   * @param queueIfOffline - Queue in the sync outbox when the server can't be reached (default: true)
+   * @returns Promise with created call log (with a local ID if it was queued)
    */
-  async logCall(leadId: string, callData: CallData): Promise<CallLog> {
+  async logCall(
+    leadId: string,
+    callData: Omit<CallData, 'outcome'> & { outcome: CallLog['outcome'] },
+    queueIfOffline: boolean = true
+  ): Promise<CallLog> {
     try {
       const response = await apiClient.post<{ data: CallLog }>(`/leads/${leadId}/calls`, callData);
       return response.data.data;
     } catch (error) {
       console.error('[LeadService] Failed to log call:', error);
+
+      // Queue the call log so it isn't lost; the local ID lets recordings depend on it
+      if (queueIfOffline && this.shouldQueue(error)) {
+        const localId = SyncOutboxService.createLocalId();
+        await SyncOutboxService.enqueue({
+          id: localId,
+          type: 'log_call',
+          leadId,
+          payload: callData,
+        });
+        console.log('[LeadService] Queued call log for retry when online:', localId);
+
+        const callLog: CallLog = {
+          id: localId,
+          lead_id: leadId,
+          telecaller_id: '',
+          outcome: callData.outcome,
+          duration_seconds: callData.duration_seconds,
+          direction: callData.direction,
+          inserted_at: new Date().toISOString(),
+        };
+        await LocalLeadStore.upsertLocalCallLog(callLog);
+
+        return callLog;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Record the disposition of a call once it has ended
+   * Calls that haven't synced yet (local IDs) are updated after their call log is created
+   * @param leadId - Lead ID
+   * @param callLogId - Call log ID (may be a local ID awaiting sync)
+   * @param callData - Actual call outcome and duration
+   * @param queueIfOffline - Queue in the sync outbox when the server can't be reached (default: true)
+   * @returns Promise with updated call log
+   */
+  async updateCall(
+    leadId: string,
+    callLogId: string,
+    callData: CallData,
+    queueIfOffline: boolean = true
+  ): Promise<CallLog> {
+    const queueUpdate = async (): Promise<CallLog> => {
+      await SyncOutboxService.enqueue({
+        type: 'update_call',
+        leadId,
+        payload: { callLogId, ...callData },
+        dependsOn: SyncOutboxService.isLocalId(callLogId) ? [callLogId] : [],
+      });
+      console.log('[LeadService] Queued call disposition for retry when online:', callLogId);
+
+      return {
+        id: callLogId,
+        lead_id: leadId,
+        telecaller_id: '',
+        outcome: callData.outcome,
+        duration_seconds: callData.duration_seconds,
+        direction: callData.direction,
+        inserted_at: new Date().toISOString(),
+      };
+    };
+
+    if (queueIfOffline && SyncOutboxService.isLocalId(callLogId)) {
+      return queueUpdate();
+    }
+
+    try {
+      const response = await apiClient.patch<{ data: CallLog }>(
+        `/leads/${leadId}/calls/${callLogId}`,
+        callData
+      );
+
+      CacheService.invalidateLeadDetail(leadId);
+
+      return response.data.data;
+    } catch (error) {
+      console.error('[LeadService] Failed to update call:', error);
+
+      if (queueIfOffline && this.shouldQueue(error)) {
+        return queueUpdate();
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Add a note to a lead
+   * @param leadId - Lead ID
+   * @param note - Note text
+   * @param queueIfOffline - Queue in the sync outbox when the server can't be reached (default: true)
+   * @returns Promise with created note (with a local ID if it was queued)
+   */
+  async addNote(leadId: string, note: string, queueIfOffline: boolean = true): Promise<LeadNote> {
+    try {
+      const response = await apiClient.post<{ data: LeadNote }>(`/leads/${leadId}/notes`, { note });
+
+      // Invalidate cache so the note shows up on next fetch
+      CacheService.invalidateLeadDetail(leadId);
+
+      return response.data.data;
+    } catch (error) {
+      console.error('[LeadService] Failed to add note:', error);
+
+      if (queueIfOffline && this.shouldQueue(error)) {
+        const localId = SyncOutboxService.createLocalId();
+        await SyncOutboxService.enqueue({
+          id: localId,
+          type: 'add_note',
+          leadId,
+          payload: { note },
+        });
+        console.log('[LeadService] Queued note for retry when online:', localId);
+
+        const localNote: LeadNote = {
+          id: localId,
+          lead_id: leadId,
+          telecaller_id: '',
+          note,
+          inserted_at: new Date().toISOString(),
+        };
+        await LocalLeadStore.addLocalNote(localNote);
+
+        return localNote;
+      }
+
       throw error;
     }
   }
 
   /**
    * Upload call recording with chunked upload support and retry logic
+   * Goes through RecordingUploadService, which decrypts and checksums the recording
    * @param leadId - Lead ID
    * @param audioFilePath - Local path to audio file
    * @param onProgress - Optional callback for upload progress
@@ -282,33 +485,18 @@ class LeadService {
     const baseDelay = 1000; // 1 second
 
     try {
-      // 1. Get presigned URL
-      console.log('[LeadService] Requesting presigned URL...');
-      const filename = audioFilePath.split('/').pop() || 'recording.aac';
-      const presignResponse = await apiClient.post<{ data: { upload_url: string; key: string; public_url: string } }>(
-        `/leads/${leadId}/recordings/presign`,
-        { filename }
-      );
-
-      const { upload_url, key, public_url } = presignResponse.data.data;
-
-      // 2. Upload to S3
-      console.log('[LeadService] Uploading to S3...');
-      await S3Service.uploadFile(audioFilePath, upload_url, 'audio/aac', onProgress);
-
-      // 3. Attach to call log
-      console.log('[LeadService] Attaching recording to call log...');
-      const attachResponse = await apiClient.post<{ data: { id: string; recording_path: string } }>(
-        `/leads/${leadId}/recordings`,
-        {
-          call_log_id: callLogId,
-          s3_key: key
-        }
-      );
+      // Imported lazily, as RecordingUploadService depends on this service's types
+      const RecordingUploadService = (await import('./RecordingUploadService')).default;
+      const result = await RecordingUploadService.performUpload({
+        filePath: audioFilePath,
+        leadId,
+        callLogId,
+        onProgress,
+      });
 
       return {
-        recording_id: attachResponse.data.data.id,
-        recording_path: attachResponse.data.data.recording_path
+        recording_id: result.recordingId!,
+        recording_path: result.recordingPath!,
       };
     } catch (error) {
       console.error(`[LeadService] Failed to upload recording (attempt ${retryCount + 1}/${maxRetries}):`, error);
@@ -336,6 +524,31 @@ class LeadService {
     return `${apiClient.defaults.baseURL}/leads/${leadId}/recordings/${recordingId}`;
   }
 
+  /**
+   * Delete a call recording on the server and from the recording cache
+   * Only managers of the lead's branch and admins may delete, and the deletion
+   * is audited, so it is never queued for later
+   * @param leadId - Lead ID
+   * @param recordingId - Recording (call log) ID
+   * @param reasonCode - Why the recording is deleted
+   * @param reasonNote - Details, required for 'other'
+   */
+  async deleteRecording(
+    leadId: string,
+    recordingId: string,
+    reasonCode: RecordingDeletionReason,
+    reasonNote?: string
+  ): Promise<void> {
+    console.log('[LeadService] Deleting recording:', recordingId);
+
+    await apiClient.delete(`/leads/${leadId}/recordings/${recordingId}`, {
+      data: { reason_code: reasonCode, reason_note: reasonNote || undefined },
+    });
+
+    CacheService.invalidateLeadDetail(leadId);
+    await RecordingCacheService.deleteCachedRecording(recordingId);
+  }
+
   /**
    * Clear all cached lead data
    */
@@ -350,6 +563,15 @@ class LeadService {
   clearLeadCache(leadId: string): void {
     CacheService.invalidateLeadDetail(leadId);
   }
+
+  /**
+   * Whether a failed request should be queued for retry instead of surfaced
+   * Queues when the device is offline or the request never got a response
+   * @param error - Request error
+   */
+  private shouldQueue(error: any): boolean {
+    return !OfflineStorageService.isDeviceOnline() || !error?.response;
+  }
 }
 
 export default new LeadService();
@@ -0,0 +1,639 @@
+/**
+ * LocalLeadStore - Local copy of the telecaller's whole book of leads
+ * Keeps leads with their notes, call logs and follow-ups encrypted in AsyncStorage, one
+ * key per lead, syncs incrementally using the `updated_since` cursor of `/api/leads`, and
+ * answers list filters and search from memory indexes when the device is offline.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiClient from './ApiService';
+import SecureStorageService from './SecureStorageService';
+import { parseDateTime } from '../utils/dateTime';
+import {
+  Lead,
+  LeadDetail,
+  LeadFilters,
+  LeadsResponse,
+  LeadNote,
+  CallLog,
+  Followup,
+  LeadStatusChange,
+} from './LeadService';
+
+// Each lead is stored under its own key, so a change only rewrites that lead and no
+// single value grows past what Android's AsyncStorage can read back
+const LEAD_KEY_PREFIX = '@lead_store_lead:';
+// Whole book in one value, as stored by earlier versions
+const LEGACY_LEADS_STORAGE_KEY = '@lead_store_leads';
+const META_STORAGE_KEY = '@lead_store_meta';
+const INITIAL_CURSOR = '1970-01-01T00:00:00Z';
+const SYNC_PAGE_SIZE = 200;
+const DEFAULT_PAGE_SIZE = 50;
+const STORAGE_BATCH_SIZE = 100;
+// Periodically re-download everything so leads reassigned away from us disappear
+const FULL_SYNC_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
+
+interface StoreMeta {
+  cursor: string;
+  lastSyncAt: number | null;
+  lastFullSyncAt: number | null;
+  // User whose leads these are; null until someone logs in
+  ownerId: string | null;
+}
+
+const EMPTY_META: StoreMeta = {
+  cursor: INITIAL_CURSOR,
+  lastSyncAt: null,
+  lastFullSyncAt: null,
+  ownerId: null,
+};
+
+interface SyncResponse {
+  data: LeadDetail[];
+  meta: {
+    next_cursor: string;
+    has_more: boolean;
+  };
+}
+
+class LocalLeadStore {
+  private leads: Map<string, LeadDetail> = new Map();
+  private statusIndex: Map<string, Set<string>> = new Map();
+  private searchIndex: Map<string, string> = new Map();
+  // Last 10 digits of phone and alternate phone -> lead IDs, for caller identification
+  private phoneIndex: Map<string, Set<string>> = new Map();
+  private meta: StoreMeta = { ...EMPTY_META };
+  private loadPromise: Promise<void> | null = null;
+  private syncPromise: Promise<void> | null = null;
+  private persistError: string | null = null;
+  // Leads whose last save failed, saved again with the next change
+  private unsavedLeadIds: Set<string> = new Set();
+  private persistListeners: Array<(error: string | null) => void> = [];
+
+  /**
+   * Load stored leads into memory and build indexes
+   */
+  async initialize(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Pull every lead changed since the last sync
+   * Concurrent calls share the same sync run
+   * @param full - Discard the cursor and re-download all leads
+   */
+  sync(full: boolean = false): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync(full).finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * Whether at least one sync has completed
+   */
+  hasData(): boolean {
+    return this.meta.lastSyncAt !== null;
+  }
+
+  /**
+   * Get time of the last successful sync
+   */
+  getLastSyncAt(): number | null {
+    return this.meta.lastSyncAt;
+  }
+
+  /**
+   * Answer a lead list query from the local store
+   * Sorted like the server: leads with due follow-ups first, then most recently updated
+   * @param filters - Status and search filters
+   * @param page - Page number (default: 1)
+   * @param pageSize - Results per page (default: 50)
+   * @returns Paginated leads response
+   */
+  async query(
+    filters: LeadFilters = {},
+    page: number = 1,
+    pageSize: number = DEFAULT_PAGE_SIZE,
+  ): Promise<LeadsResponse> {
+    await this.initialize();
+
+    const ids: Iterable<string> = filters.status
+      ? this.statusIndex.get(filters.status) || new Set<string>()
+      : this.leads.keys();
+
+    const search = this.normalize(filters.search || '');
+    const searchDigits = (filters.search || '').replace(/\D/g, '');
+    const now = Date.now();
+
+    const matches: LeadDetail[] = [];
+    for (const id of ids) {
+      const lead = this.leads.get(id);
+      if (!lead) {
+        continue;
+      }
+
+      if (search) {
+        const haystack = this.searchIndex.get(id) || '';
+        const nameMatch = haystack.includes(search);
+        const phoneMatch = searchDigits.length > 0 && haystack.includes(searchDigits);
+        if (!nameMatch && !phoneMatch) {
+          continue;
+        }
+      }
+
+      matches.push(lead);
+    }
+
+    matches.sort((a, b) => {
+      const dueDiff = this.countDueFollowups(b, now) - this.countDueFollowups(a, now);
+      if (dueDiff !== 0) {
+        return dueDiff;
+      }
+      return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
+    });
+
+    const start = (page - 1) * pageSize;
+    const data: Lead[] = matches
+      .slice(start, start + pageSize)
+      .map(({ notes: _notes, call_logs: _callLogs, followups: _followups, ...lead }) => lead);
+
+    return {
+      data,
+      page,
+      page_size: pageSize,
+      total_count: matches.length,
+      total_pages: Math.max(1, Math.ceil(matches.length / pageSize)),
+    };
+  }
+
+  /**
+   * Get a single lead with its history
+   * @param leadId - Lead ID
+   */
+  async getLead(leadId: string): Promise<LeadDetail | null> {
+    await this.initialize();
+    return this.leads.get(leadId) || null;
+  }
+
+  /**
+   * Find leads whose phone or alternate phone is the given number
+   * Only the last 10 digits are compared, so +91 and trunk prefixes don't matter
+   * @param phoneNumber - Phone number in any format
+   */
+  async findByPhoneNumber(phoneNumber: string): Promise<LeadDetail[]> {
+    await this.initialize();
+
+    const ids = this.phoneIndex.get(this.phoneKey(phoneNumber));
+    if (!ids) {
+      return [];
+    }
+
+    return Array.from(ids)
+      .map(id => this.leads.get(id))
+      .filter((lead): lead is LeadDetail => !!lead);
+  }
+
+  /**
+   * Call logs created within a time window, closest to `around` first
+   * @param around - Time the call happened
+   * @param windowMs - How far either side of `around` to look
+   */
+  async findCallLogsNear(
+    around: Date,
+    windowMs: number,
+  ): Promise<{ lead: LeadDetail; callLog: CallLog }[]> {
+    await this.initialize();
+
+    const target = around.getTime();
+    const matches: { lead: LeadDetail; callLog: CallLog; distance: number }[] = [];
+    for (const lead of this.leads.values()) {
+      for (const callLog of lead.call_logs) {
+        // inserted_at is naive UTC, which new Date() would read as local time
+        const insertedAt = parseDateTime(callLog.inserted_at);
+        if (!insertedAt) {
+          continue;
+        }
+
+        const distance = Math.abs(insertedAt.getTime() - target);
+        if (distance <= windowMs) {
+          matches.push({ lead, callLog, distance });
+        }
+      }
+    }
+
+    return matches
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ lead, callLog }) => ({ lead, callLog }));
+  }
+
+  /**
+   * Store a lead fetched from the server
+   * @param lead - Lead detail
+   */
+  async upsertLead(lead: LeadDetail): Promise<void> {
+    await this.initialize();
+    this.indexLead(lead);
+    await this.persistLeads([lead.id]);
+  }
+
+  /**
+   * Apply a local edit to a stored lead (e.g. an update queued while offline)
+   * @param leadId - Lead ID
+   * @param changes - Changed fields
+   */
+  async applyLeadUpdate(leadId: string, changes: Partial<Lead>): Promise<void> {
+    await this.updateStoredLead(leadId, lead => ({ ...lead, ...changes }));
+  }
+
+  /**
+   * Add a note created locally to a stored lead
+   */
+  async addLocalNote(note: LeadNote): Promise<void> {
+    await this.updateStoredLead(note.lead_id, lead => ({
+      ...lead,
+      notes: [note, ...lead.notes],
+    }));
+  }
+
+  /**
+   * Add a status change made locally to a stored lead
+   */
+  async addLocalStatusChange(statusChange: LeadStatusChange): Promise<void> {
+    await this.updateStoredLead(statusChange.lead_id, lead => ({
+      ...lead,
+      status_changes: [statusChange, ...(lead.status_changes || [])],
+    }));
+  }
+
+  /**
+   * Add or replace a call log on a stored lead
+   */
+  async upsertLocalCallLog(callLog: CallLog): Promise<void> {
+    await this.updateStoredLead(callLog.lead_id, lead => ({
+      ...lead,
+      call_logs: [callLog, ...lead.call_logs.filter(c => c.id !== callLog.id)],
+    }));
+  }
+
+  /**
+   * Add or replace a follow-up on a stored lead
+   */
+  async upsertLocalFollowup(followup: Followup): Promise<void> {
+    await this.updateStoredLead(followup.lead_id, lead => ({
+      ...lead,
+      followups: [followup, ...lead.followups.filter(f => f.id !== followup.id)],
+    }));
+  }
+
+  /**
+   * Apply a local edit to a follow-up on a stored lead
+   * @param leadId - Lead ID
+   * @param followupId - Follow-up ID
+   * @param changes - Changed fields
+   */
+  async applyFollowupUpdate(
+    leadId: string,
+    followupId: string,
+    changes: Partial<Followup>,
+  ): Promise<void> {
+    await this.updateStoredLead(leadId, lead => ({
+      ...lead,
+      followups: lead.followups.map(f => (f.id === followupId ? { ...f, ...changes } : f)),
+    }));
+  }
+
+  /**
+   * Why the last save of leads failed, or null if it succeeded
+   * @returns Error message
+   */
+  getPersistError(): string | null {
+    return this.persistError;
+  }
+
+  /**
+   * Subscribe to failures of saving leads on the phone
+   * @param listener - Callback receiving the error message, or null once saving works again
+   * @returns Unsubscribe function
+   */
+  subscribePersistError(listener: (error: string | null) => void): () => void {
+    this.persistListeners.push(listener);
+    return () => {
+      this.persistListeners = this.persistListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Take ownership of the store for the user logging in
+   * Leads stored for a different user are removed first, so one telecaller
+   * never sees another's book. Leads stored before owners were recorded are
+   * kept for whoever logs in next.
+   * @param ownerId - ID of the user logging in
+   */
+  async claim(ownerId: string): Promise<void> {
+    await this.initialize();
+
+    if (this.meta.ownerId && this.meta.ownerId !== ownerId) {
+      console.log('[LocalLeadStore] Leads belong to another user, clearing them');
+      await this.clear();
+    }
+
+    this.meta = { ...this.meta, ownerId };
+    await AsyncStorage.setItem(META_STORAGE_KEY, JSON.stringify(this.meta));
+  }
+
+  /**
+   * Remove all locally stored leads (e.g. on logout)
+   */
+  async clear(): Promise<void> {
+    this.leads.clear();
+    this.statusIndex.clear();
+    this.searchIndex.clear();
+    this.phoneIndex.clear();
+    this.meta = { ...EMPTY_META };
+
+    try {
+      const leadKeys = (await AsyncStorage.getAllKeys()).filter(key =>
+        key.startsWith(LEAD_KEY_PREFIX),
+      );
+      await AsyncStorage.multiRemove([...leadKeys, LEGACY_LEADS_STORAGE_KEY, META_STORAGE_KEY]);
+      this.unsavedLeadIds.clear();
+      this.setPersistError(null);
+      console.log('[LocalLeadStore] Cleared local lead store');
+    } catch (error) {
+      console.error('[LocalLeadStore] Failed to clear local lead store:', error);
+    }
+  }
+
+  private async runSync(full: boolean): Promise<void> {
+    await this.initialize();
+
+    const now = Date.now();
+    const fullSync =
+      full || !this.meta.lastFullSyncAt || now - this.meta.lastFullSyncAt > FULL_SYNC_INTERVAL;
+    let cursor = fullSync ? INITIAL_CURSOR : this.meta.cursor;
+    const seen = new Set<string>();
+    const removed: string[] = [];
+
+    try {
+      console.log(`[LocalLeadStore] Starting ${fullSync ? 'full' : 'delta'} sync from ${cursor}`);
+
+      let hasMore = true;
+      while (hasMore) {
+        const response = await apiClient.get<SyncResponse>('/leads', {
+          params: { updated_since: cursor, per_page: SYNC_PAGE_SIZE },
+        });
+
+        response.data.data.forEach(lead => {
+          this.indexLead(lead);
+          seen.add(lead.id);
+        });
+
+        cursor = response.data.meta.next_cursor;
+        hasMore = response.data.meta.has_more;
+      }
+
+      // A full sync returns every lead we own - anything else was reassigned
+      if (fullSync) {
+        Array.from(this.leads.keys())
+          .filter(id => !seen.has(id))
+          .forEach(id => {
+            this.removeFromIndexes(id);
+            removed.push(id);
+          });
+      }
+
+      this.meta = {
+        ...this.meta,
+        cursor,
+        lastSyncAt: now,
+        lastFullSyncAt: fullSync ? now : this.meta.lastFullSyncAt,
+      };
+
+      // Leave the cursor where it was, so the next sync downloads these leads again
+      if (!(await this.persistLeads([...seen, ...removed]))) {
+        throw new Error('Synced leads could not be saved');
+      }
+      await AsyncStorage.setItem(META_STORAGE_KEY, JSON.stringify(this.meta));
+
+      console.log(`[LocalLeadStore] Sync complete, ${seen.size} leads changed, ${this.leads.size} stored`);
+    } catch (error) {
+      console.error('[LocalLeadStore] Sync failed:', error);
+      throw error;
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const leadKeys = (await AsyncStorage.getAllKeys()).filter(key =>
+        key.startsWith(LEAD_KEY_PREFIX),
+      );
+      const [[, metaJson], [, legacyLeadsJson]] = await AsyncStorage.multiGet([
+        META_STORAGE_KEY,
+        LEGACY_LEADS_STORAGE_KEY,
+      ]);
+      const unreadableKeys: string[] = [];
+
+      for (let i = 0; i < leadKeys.length; i += STORAGE_BATCH_SIZE) {
+        const entries = await AsyncStorage.multiGet(leadKeys.slice(i, i + STORAGE_BATCH_SIZE));
+        for (const [key, stored] of entries) {
+          const lead = await this.readLead(stored);
+          if (lead) {
+            this.indexLead(lead);
+          } else {
+            unreadableKeys.push(key);
+          }
+        }
+      }
+
+      let unreadable = unreadableKeys.length > 0;
+      if (unreadable) {
+        await AsyncStorage.multiRemove(unreadableKeys);
+      }
+      if (legacyLeadsJson && !(await this.migrateLegacyLeads(legacyLeadsJson))) {
+        unreadable = true;
+      }
+
+      // Leads that can't be decrypted any more are downloaded again from scratch
+      if (metaJson) {
+        const meta: StoreMeta = { ...EMPTY_META, ...JSON.parse(metaJson) };
+        this.meta = unreadable ? { ...EMPTY_META, ownerId: meta.ownerId } : meta;
+      }
+
+      console.log(`[LocalLeadStore] Loaded ${this.leads.size} leads`);
+    } catch (error) {
+      console.error('[LocalLeadStore] Failed to load local lead store:', error);
+    }
+  }
+
+  private async readLead(stored: string | null): Promise<LeadDetail | null> {
+    try {
+      const json = await SecureStorageService.decrypt(stored);
+      return json ? JSON.parse(json) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Move leads stored as one value by earlier versions to a key per lead
+   * @param stored - Stored value of the whole book
+   * @returns False if the stored leads could not be read
+   */
+  private async migrateLegacyLeads(stored: string): Promise<boolean> {
+    const leadsJson = await SecureStorageService.decrypt(stored);
+    if (!leadsJson) {
+      await AsyncStorage.removeItem(LEGACY_LEADS_STORAGE_KEY);
+      return false;
+    }
+
+    const legacyLeads: LeadDetail[] = JSON.parse(leadsJson);
+    legacyLeads.forEach(lead => this.indexLead(lead));
+
+    // Keep the old value until every lead is saved under its own key
+    if (await this.persistLeads(legacyLeads.map(lead => lead.id))) {
+      await AsyncStorage.removeItem(LEGACY_LEADS_STORAGE_KEY);
+      console.log(`[LocalLeadStore] Migrated ${legacyLeads.length} leads to one key per lead`);
+    }
+    return true;
+  }
+
+  private async updateStoredLead(
+    leadId: string,
+    update: (lead: LeadDetail) => LeadDetail,
+  ): Promise<void> {
+    await this.initialize();
+
+    const lead = this.leads.get(leadId);
+    if (!lead) {
+      return;
+    }
+
+    this.indexLead(update(lead));
+    await this.persistLeads([leadId]);
+  }
+
+  private indexLead(lead: LeadDetail): void {
+    this.removeFromIndexes(lead.id);
+
+    const normalized: LeadDetail = {
+      ...lead,
+      notes: lead.notes || [],
+      call_logs: lead.call_logs || [],
+      followups: lead.followups || [],
+    };
+    this.leads.set(lead.id, normalized);
+
+    if (!this.statusIndex.has(lead.status)) {
+      this.statusIndex.set(lead.status, new Set());
+    }
+    this.statusIndex.get(lead.status)!.add(lead.id);
+
+    const phones = [lead.phone_number, lead.alternate_phone]
+      .filter(Boolean)
+      .map(phone => phone!.replace(/\D/g, ''))
+      .join(' ');
+    this.searchIndex.set(lead.id, `${this.normalize(lead.student_name)} ${phones}`);
+
+    [lead.phone_number, lead.alternate_phone].forEach(phone => {
+      const key = phone ? this.phoneKey(phone) : '';
+      if (!key) {
+        return;
+      }
+      if (!this.phoneIndex.has(key)) {
+        this.phoneIndex.set(key, new Set());
+      }
+      this.phoneIndex.get(key)!.add(lead.id);
+    });
+  }
+
+  private removeFromIndexes(leadId: string): void {
+    const existing = this.leads.get(leadId);
+    if (existing) {
+      this.statusIndex.get(existing.status)?.delete(leadId);
+      [existing.phone_number, existing.alternate_phone].forEach(phone => {
+        if (phone) {
+          this.phoneIndex.get(this.phoneKey(phone))?.delete(leadId);
+        }
+      });
+    }
+    this.leads.delete(leadId);
+    this.searchIndex.delete(leadId);
+  }
+
+  /**
+   * Save the given leads, removing those no longer in the store
+   * A failure is kept until the next successful save, for the UI to report,
+   * and leads that failed to save are retried along with the next change
+   * @param changedIds - IDs of changed or removed leads
+   * @returns Whether every lead was saved
+   */
+  private async persistLeads(changedIds: string[]): Promise<boolean> {
+    const leadIds = Array.from(new Set([...this.unsavedLeadIds, ...changedIds]));
+
+    try {
+      for (let i = 0; i < leadIds.length; i += STORAGE_BATCH_SIZE) {
+        const batch = leadIds.slice(i, i + STORAGE_BATCH_SIZE);
+        const changed: [string, string][] = [];
+        const removed: string[] = [];
+
+        for (const leadId of batch) {
+          const lead = this.leads.get(leadId);
+          if (lead) {
+            changed.push([
+              `${LEAD_KEY_PREFIX}${leadId}`,
+              await SecureStorageService.encrypt(JSON.stringify(lead)),
+            ]);
+          } else {
+            removed.push(`${LEAD_KEY_PREFIX}${leadId}`);
+          }
+        }
+
+        if (changed.length > 0) {
+          await AsyncStorage.multiSet(changed);
+        }
+        if (removed.length > 0) {
+          await AsyncStorage.multiRemove(removed);
+        }
+      }
+
+      this.unsavedLeadIds.clear();
+      this.setPersistError(null);
+      return true;
+    } catch (error) {
+      console.error('[LocalLeadStore] Failed to persist leads:', error);
+      leadIds.forEach(leadId => this.unsavedLeadIds.add(leadId));
+      this.setPersistError('Recent lead changes could not be saved on this phone');
+      return false;
+    }
+  }
+
+  private setPersistError(error: string | null): void {
+    if (error === this.persistError) {
+      return;
+    }
+    this.persistError = error;
+    this.persistListeners.forEach(listener => listener(error));
+  }
+
+  private countDueFollowups(lead: LeadDetail, now: number): number {
+    return lead.followups.filter(
+      followup => !followup.completed && new Date(followup.scheduled_at).getTime() <= now,
+    ).length;
+  }
+
+  private phoneKey(phoneNumber: string): string {
+    return phoneNumber.replace(/\D/g, '').slice(-10);
+  }
+
+  private normalize(value: string): string {
+    return value.toLowerCase().trim();
+  }
+}
+
+export default new LocalLeadStore();
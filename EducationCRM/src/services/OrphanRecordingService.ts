@@ -0,0 +1,227 @@
+/**
+ * OrphanRecordingService - Call recordings that couldn't be linked to a lead
+ * Recordings of calls made outside the app (or while no call log existed) are kept
+ * encrypted in AsyncStorage with the number and time of the call, so the telecaller can
+ * assign them to a lead later instead of losing them.
+ */
+
+import ReactNativeBlobUtil from 'react-native-blob-util';
+import LeadService, { CallDirection, CallLog, Lead } from './LeadService';
+import LocalLeadStore from './LocalLeadStore';
+import RecordingService from './RecordingService';
+import RecordingUploadService from './RecordingUploadService';
+import SecureStorageService from './SecureStorageService';
+
+const ORPHAN_RECORDINGS_KEY = '@orphan_recordings';
+// Call logs created this close to the recording are suggested as the call it belongs to
+const CALL_MATCH_WINDOW = 10 * 60 * 1000; // 10 minutes
+const MAX_MATCHES = 5;
+
+export interface OrphanRecording {
+  id: string;
+  filePath: string;
+  /** Number captured by the recorder, if the phone reported one */
+  phoneNumber: string | null;
+  direction: CallDirection;
+  startedAt: string;
+  durationSeconds: number;
+  fileSize: number;
+}
+
+export interface OrphanMatch {
+  lead: Lead;
+  /** Call log without a recording to attach to, or null to log a new call */
+  callLog: CallLog | null;
+  reason: 'phone_and_time' | 'phone' | 'time';
+}
+
+const REASON_ORDER: Record<OrphanMatch['reason'], number> = {
+  phone_and_time: 0,
+  phone: 1,
+  time: 2,
+};
+
+class OrphanRecordingService {
+  private recordings: OrphanRecording[] = [];
+  private listeners: Array<(recordings: OrphanRecording[]) => void> = [];
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Load stored orphan recordings, dropping any whose file has been deleted
+   */
+  async initialize(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Get orphan recordings, newest first
+   */
+  async list(): Promise<OrphanRecording[]> {
+    await this.initialize();
+    return this.recordings;
+  }
+
+  /**
+   * Keep a recording that has no lead or call log yet
+   * @param recording - Recording details (without ID)
+   * @returns Stored orphan recording
+   */
+  async add(recording: Omit<OrphanRecording, 'id'>): Promise<OrphanRecording> {
+    await this.initialize();
+
+    const orphan: OrphanRecording = {
+      id: `orphan_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      ...recording,
+    };
+    await this.setRecordings([
+      orphan,
+      ...this.recordings.filter(r => r.filePath !== recording.filePath),
+    ]);
+
+    console.log('[OrphanRecordingService] Stored unassigned recording:', orphan.filePath);
+    return orphan;
+  }
+
+  /**
+   * Suggest the leads a recording probably belongs to
+   * Leads with the captured phone number and call logs made around the same time
+   * (that don't have a recording yet) are suggested, best matches first
+   * @param recording - Orphan recording
+   */
+  async findMatches(recording: OrphanRecording): Promise<OrphanMatch[]> {
+    const phoneLeads = recording.phoneNumber
+      ? await LocalLeadStore.findByPhoneNumber(recording.phoneNumber)
+      : [];
+    const phoneLeadIds = new Set(phoneLeads.map(lead => lead.id));
+
+    const nearbyCalls = (
+      await LocalLeadStore.findCallLogsNear(new Date(recording.startedAt), CALL_MATCH_WINDOW)
+    ).filter(({ callLog }) => !callLog.recording_path);
+
+    const matches: OrphanMatch[] = nearbyCalls.map(({ lead, callLog }) => ({
+      lead,
+      callLog,
+      reason: phoneLeadIds.has(lead.id) ? 'phone_and_time' : 'time',
+    }));
+
+    const leadsWithCall = new Set(matches.map(match => match.lead.id));
+    phoneLeads
+      .filter(lead => !leadsWithCall.has(lead.id))
+      .forEach(lead => matches.push({ lead, callLog: null, reason: 'phone' }));
+
+    return matches
+      .sort((a, b) => REASON_ORDER[a.reason] - REASON_ORDER[b.reason])
+      .slice(0, MAX_MATCHES);
+  }
+
+  /**
+   * Link a recording to a lead and upload it
+   * Logs a connected call for the recording when no call log is given. Failed
+   * uploads are queued in the sync outbox, so the recording leaves this list either way.
+   * @param recording - Orphan recording
+   * @param leadId - Lead the call was with
+   * @param callLogId - Existing call log to attach the recording to (optional)
+   */
+  async assign(recording: OrphanRecording, leadId: string, callLogId?: string): Promise<void> {
+    const targetCallLogId =
+      callLogId ||
+      (
+        await LeadService.logCall(leadId, {
+          outcome: 'connected',
+          duration_seconds: recording.durationSeconds,
+          direction: recording.direction,
+        })
+      ).id;
+
+    // Off the list before uploading, so a second tap can't log the call twice
+    await this.remove(recording.id);
+
+    const result = await RecordingUploadService.uploadRecording({
+      filePath: recording.filePath,
+      leadId,
+      callLogId: targetCallLogId,
+    });
+
+    if (result.success) {
+      await RecordingService.deleteRecording(recording.filePath);
+      LeadService.clearLeadCache(leadId);
+    }
+
+    console.log('[OrphanRecordingService] Assigned recording to call log:', targetCallLogId);
+  }
+
+  /**
+   * Delete a recording the telecaller doesn't want to keep
+   * @param recording - Orphan recording
+   */
+  async discard(recording: OrphanRecording): Promise<void> {
+    await RecordingService.deleteRecording(recording.filePath);
+    await this.remove(recording.id);
+  }
+
+  /**
+   * Delete every orphan recording and its file (e.g. on logout)
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+
+    for (const recording of this.recordings) {
+      await RecordingService.deleteRecording(recording.filePath).catch(error => {
+        console.warn('[OrphanRecordingService] Failed to delete recording:', error);
+      });
+    }
+
+    await this.setRecordings([]);
+  }
+
+  /**
+   * Subscribe to changes of the orphan recording list
+   * @param listener - Callback receiving the current list
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (recordings: OrphanRecording[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async remove(id: string): Promise<void> {
+    await this.initialize();
+    await this.setRecordings(this.recordings.filter(r => r.id !== id));
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await SecureStorageService.getItem(ORPHAN_RECORDINGS_KEY);
+      const recordings: OrphanRecording[] = stored ? JSON.parse(stored) : [];
+
+      const existing: OrphanRecording[] = [];
+      for (const recording of recordings) {
+        if (await ReactNativeBlobUtil.fs.exists(recording.filePath.replace('file://', ''))) {
+          existing.push(recording);
+        }
+      }
+
+      await this.setRecordings(existing);
+    } catch (error) {
+      console.error('[OrphanRecordingService] Failed to load orphan recordings:', error);
+    }
+  }
+
+  private async setRecordings(recordings: OrphanRecording[]): Promise<void> {
+    this.recordings = recordings;
+    this.listeners.forEach(listener => listener(this.recordings));
+
+    try {
+      await SecureStorageService.setItem(ORPHAN_RECORDINGS_KEY, JSON.stringify(this.recordings));
+    } catch (error) {
+      console.error('[OrphanRecordingService] Failed to persist orphan recordings:', error);
+    }
+  }
+}
+
+export default new OrphanRecordingService();
@@ -2,11 +2,20 @@ import { Platform, PermissionsAndroid, Permission, Linking, Alert } from 'react-
 
 export type PermissionStatus = 'granted' | 'denied' | 'never_ask_again';
 
+export type PermissionType = 'call' | 'recording' | 'phoneState' | 'callLog';
+
 export interface PermissionResult {
   status: PermissionStatus;
   permission: string;
 }
 
+const ANDROID_PERMISSION_NAMES: Record<PermissionType, string> = {
+  call: 'CALL_PHONE',
+  recording: 'RECORD_AUDIO',
+  phoneState: 'READ_PHONE_STATE',
+  callLog: 'READ_CALL_LOG',
+};
+
 class PermissionService {
   /**
    * Request phone call permission (CALL_PHONE)
@@ -179,6 +188,103 @@ class PermissionService {
     }
   }
 
+  /**
+   * Check if call log permission is granted
+   * @returns Promise with boolean indicating if permission is granted
+   */
+  async hasCallLogPermission(): Promise<boolean> {
+    if (Platform.OS !== 'android') {
+      return true;
+    }
+
+    try {
+      const result = await PermissionsAndroid.check(
+        PermissionsAndroid.PERMISSIONS.READ_CALL_LOG
+      );
+      return result;
+    } catch (error) {
+      console.error('[PermissionService] Failed to check call log permission:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Request call log permission (READ_CALL_LOG)
+   * Used to read the real duration and result of calls
+   * @returns Promise with permission status
+   */
+  async requestCallLogPermission(): Promise<PermissionResult> {
+    if (Platform.OS !== 'android') {
+      return {
+        status: 'granted',
+        permission: 'READ_CALL_LOG',
+      };
+    }
+
+    try {
+      const result = await PermissionsAndroid.request(
+        PermissionsAndroid.PERMISSIONS.READ_CALL_LOG,
+        {
+          title: 'Call Log Permission',
+          message: 'Education CRM needs access to your call log to record how long calls to students lasted and whether they were answered.',
+          buttonNeutral: 'Ask Me Later',
+          buttonNegative: 'Cancel',
+          buttonPositive: 'OK',
+        }
+      );
+
+      return {
+        status: this.mapPermissionResult(result),
+        permission: 'READ_CALL_LOG',
+      };
+    } catch (error) {
+      console.error('[PermissionService] Failed to request call log permission:', error);
+      return {
+        status: 'denied',
+        permission: 'READ_CALL_LOG',
+      };
+    }
+  }
+
+  /**
+   * Request notification permission (POST_NOTIFICATIONS, Android 13+)
+   * Needed to show follow-up reminders
+   * @returns Promise with permission status
+   */
+  async requestNotificationPermission(): Promise<PermissionResult> {
+    // Notifications don't need a runtime permission before Android 13
+    if (Platform.OS !== 'android' || Number(Platform.Version) < 33) {
+      return {
+        status: 'granted',
+        permission: 'POST_NOTIFICATIONS',
+      };
+    }
+
+    try {
+      const result = await PermissionsAndroid.request(
+        PermissionsAndroid.PERMISSIONS.POST_NOTIFICATIONS,
+        {
+          title: 'Notification Permission',
+          message: 'Education CRM needs to show notifications to remind you of scheduled follow-up calls.',
+          buttonNeutral: 'Ask Me Later',
+          buttonNegative: 'Cancel',
+          buttonPositive: 'OK',
+        }
+      );
+
+      return {
+        status: this.mapPermissionResult(result),
+        permission: 'POST_NOTIFICATIONS',
+      };
+    } catch (error) {
+      console.error('[PermissionService] Failed to request notification permission:', error);
+      return {
+        status: 'denied',
+        permission: 'POST_NOTIFICATIONS',
+      };
+    }
+  }
+
   /**
    * Check all required permissions
    * @returns Promise with object containing status of all permissions
@@ -187,19 +293,22 @@ class PermissionService {
     call: boolean;
     recording: boolean;
     phoneState: boolean;
+    callLog: boolean;
     allGranted: boolean;
   }> {
-    const [call, recording, phoneState] = await Promise.all([
+    const [call, recording, phoneState, callLog] = await Promise.all([
       this.hasCallPermission(),
       this.hasRecordingPermission(),
       this.hasPhoneStatePermission(),
+      this.hasCallLogPermission(),
     ]);
 
     return {
       call,
       recording,
       phoneState,
-      allGranted: call && recording && phoneState,
+      callLog,
+      allGranted: call && recording && phoneState && callLog,
     };
   }
 
@@ -211,6 +320,7 @@ class PermissionService {
     call: PermissionResult;
     recording: PermissionResult;
     phoneState: PermissionResult;
+    callLog: PermissionResult;
     allGranted: boolean;
   }> {
     if (Platform.OS !== 'android') {
@@ -218,6 +328,7 @@ class PermissionService {
         call: { status: 'granted', permission: 'CALL_PHONE' },
         recording: { status: 'granted', permission: 'RECORD_AUDIO' },
         phoneState: { status: 'granted', permission: 'READ_PHONE_STATE' },
+        callLog: { status: 'granted', permission: 'READ_CALL_LOG' },
         allGranted: true,
       };
     }
@@ -227,6 +338,7 @@ class PermissionService {
         PermissionsAndroid.PERMISSIONS.CALL_PHONE,
         PermissionsAndroid.PERMISSIONS.RECORD_AUDIO,
         PermissionsAndroid.PERMISSIONS.READ_PHONE_STATE,
+        PermissionsAndroid.PERMISSIONS.READ_CALL_LOG,
       ]);
 
       const call: PermissionResult = {
@@ -244,11 +356,21 @@ class PermissionService {
         permission: 'READ_PHONE_STATE',
       };
 
+      const callLog: PermissionResult = {
+        status: this.mapPermissionResult(results[PermissionsAndroid.PERMISSIONS.READ_CALL_LOG]),
+        permission: 'READ_CALL_LOG',
+      };
+
       return {
         call,
         recording,
         phoneState,
-        allGranted: call.status === 'granted' && recording.status === 'granted' && phoneState.status === 'granted',
+        callLog,
+        allGranted:
+          call.status === 'granted' &&
+          recording.status === 'granted' &&
+          phoneState.status === 'granted' &&
+          callLog.status === 'granted',
       };
     } catch (error) {
       console.error('[PermissionService] Failed to request all permissions:', error);
@@ -256,6 +378,7 @@ class PermissionService {
         call: { status: 'denied', permission: 'CALL_PHONE' },
         recording: { status: 'denied', permission: 'RECORD_AUDIO' },
         phoneState: { status: 'denied', permission: 'READ_PHONE_STATE' },
+        callLog: { status: 'denied', permission: 'READ_CALL_LOG' },
         allGranted: false,
       };
     }
@@ -279,9 +402,9 @@ class PermissionService {
 
   /**
    * Show explanation dialog for denied permissions
-   * @param permissionType - Type of permission ('call' or 'recording' or 'phoneState')
+   * @param permissionType - Type of permission
    */
-  showPermissionExplanation(permissionType: 'call' | 'recording' | 'phoneState'): void {
+  showPermissionExplanation(permissionType: PermissionType): void {
     const explanations = {
       call: {
         title: 'Phone Call Permission Required',
@@ -295,6 +418,10 @@ class PermissionService {
         title: 'Phone State Permission Required',
         message: 'Education CRM needs permission to detect call state for automatic call recording. This allows the app to automatically start and stop recording when calls begin and end.',
       },
+      callLog: {
+        title: 'Call Log Permission Required',
+        message: 'Education CRM needs permission to read your call log so the real duration of each call, and whether it was answered, is saved on the lead. Without it you will have to enter these yourself.',
+      },
     };
 
     const explanation = explanations[permissionType];
@@ -308,13 +435,14 @@ class PermissionService {
 
   /**
    * Show dialog to open app settings when permission is permanently denied
-   * @param permissionType - Type of permission ('call' or 'recording' or 'phoneState')
+   * @param permissionType - Type of permission
    */
-  showSettingsDialog(permissionType: 'call' | 'recording' | 'phoneState'): void {
+  showSettingsDialog(permissionType: PermissionType): void {
     const messages = {
       call: 'Phone call permission is required to use this app. Please enable it in Settings.',
       recording: 'Audio recording permission is required for call recording. Please enable it in Settings to use this feature.',
       phoneState: 'Phone state permission is required for automatic call recording. Please enable it in Settings.',
+      callLog: 'Call log permission is required to save call durations automatically. Please enable it in Settings.',
     };
 
     Alert.alert(
@@ -354,18 +482,20 @@ class PermissionService {
    * @param permissionType - Type of permission to request
    * @returns Promise with permission result
    */
-  async requestPermissionWithHandling(permissionType: 'call' | 'recording' | 'phoneState'): Promise<PermissionResult> {
+  async requestPermissionWithHandling(permissionType: PermissionType): Promise<PermissionResult> {
     // First check if permission is already granted
     const hasPermission = permissionType === 'call' 
       ? await this.hasCallPermission()
       : permissionType === 'recording'
       ? await this.hasRecordingPermission()
+      : permissionType === 'callLog'
+      ? await this.hasCallLogPermission()
       : await this.hasPhoneStatePermission();
 
     if (hasPermission) {
       return {
         status: 'granted',
-        permission: permissionType === 'call' ? 'CALL_PHONE' : permissionType === 'recording' ? 'RECORD_AUDIO' : 'READ_PHONE_STATE',
+        permission: ANDROID_PERMISSION_NAMES[permissionType],
       };
     }
 
@@ -374,6 +504,8 @@ class PermissionService {
       ? await this.requestCallPermission()
       : permissionType === 'recording'
       ? await this.requestRecordingPermission()
+      : permissionType === 'callLog'
+      ? await this.requestCallLogPermission()
       : await this.requestPhoneStatePermission();
 
     // Handle different permission states
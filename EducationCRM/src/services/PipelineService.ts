@@ -0,0 +1,213 @@
+/**
+ * PipelineService - Lead status pipeline of the telecaller's branch
+ * Loads the stages (keys, labels, colors, order, transitions) from `/api/pipeline`
+ * and keeps a copy in AsyncStorage so status chips, badges and pickers render
+ * offline. Until the first load the default pipeline is used.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiClient from './ApiService';
+
+const PIPELINE_STORAGE_KEY = '@lead_pipeline';
+
+export interface PipelineStage {
+  key: string;
+  label: string;
+  color: string;
+  position: number;
+  terminal: boolean;
+  requires_reason: boolean;
+  transitions: string[];
+}
+
+export interface StatusReason {
+  key: string;
+  label: string;
+}
+
+export interface Pipeline {
+  stages: PipelineStage[];
+  reasons: StatusReason[];
+}
+
+/**
+ * Mirrors the server's default pipeline for branches without their own stages
+ */
+export const DEFAULT_PIPELINE: Pipeline = {
+  stages: [
+    {
+      key: 'new',
+      label: 'New',
+      color: '#1e40af',
+      position: 0,
+      terminal: false,
+      requires_reason: false,
+      transitions: ['contacted', 'interested', 'not_interested', 'lost'],
+    },
+    {
+      key: 'contacted',
+      label: 'Contacted',
+      color: '#92400e',
+      position: 1,
+      terminal: false,
+      requires_reason: false,
+      transitions: ['interested', 'not_interested', 'enrolled', 'lost'],
+    },
+    {
+      key: 'interested',
+      label: 'Interested',
+      color: '#065f46',
+      position: 2,
+      terminal: false,
+      requires_reason: false,
+      transitions: ['contacted', 'not_interested', 'enrolled', 'lost'],
+    },
+    {
+      key: 'not_interested',
+      label: 'Not Interested',
+      color: '#991b1b',
+      position: 3,
+      terminal: false,
+      requires_reason: true,
+      transitions: ['contacted', 'interested', 'lost'],
+    },
+    {
+      key: 'enrolled',
+      label: 'Enrolled',
+      color: '#166534',
+      position: 4,
+      terminal: true,
+      requires_reason: false,
+      transitions: [],
+    },
+    {
+      key: 'lost',
+      label: 'Lost',
+      color: '#374151',
+      position: 5,
+      terminal: false,
+      requires_reason: true,
+      transitions: ['contacted'],
+    },
+  ],
+  reasons: [
+    { key: 'fees', label: 'Fees too high' },
+    { key: 'location', label: 'Location' },
+    { key: 'course_unavailable', label: 'Course not offered' },
+    { key: 'enrolled_elsewhere', label: 'Enrolled elsewhere' },
+    { key: 'no_response', label: 'No response' },
+    { key: 'wrong_number', label: 'Wrong number' },
+    { key: 'other', label: 'Other' },
+  ],
+};
+
+interface PipelineResponse {
+  data: Pipeline;
+}
+
+class PipelineService {
+  private pipeline: Pipeline = DEFAULT_PIPELINE;
+  private listeners: Array<(pipeline: Pipeline) => void> = [];
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Load the cached pipeline from storage
+   */
+  async initialize(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Fetch the pipeline from the server and cache it
+   * Keeps the current pipeline if the request fails (e.g. offline)
+   */
+  async refresh(): Promise<void> {
+    await this.initialize();
+
+    try {
+      const response = await apiClient.get<PipelineResponse>('/pipeline');
+      this.setPipeline(response.data.data);
+      await AsyncStorage.setItem(PIPELINE_STORAGE_KEY, JSON.stringify(this.pipeline));
+      console.log(`[PipelineService] Loaded ${this.pipeline.stages.length} pipeline stages`);
+    } catch (error) {
+      console.warn('[PipelineService] Failed to refresh pipeline, using cached copy:', error);
+    }
+  }
+
+  /**
+   * Get the current pipeline
+   */
+  getPipeline(): Pipeline {
+    return this.pipeline;
+  }
+
+  /**
+   * Get the pipeline stages in display order
+   */
+  getStages(): PipelineStage[] {
+    return this.pipeline.stages;
+  }
+
+  /**
+   * Get a stage by its status key
+   * @param key - Lead status
+   * @returns Stage, or undefined if the pipeline doesn't have it
+   */
+  getStage(key?: string): PipelineStage | undefined {
+    return this.pipeline.stages.find(stage => stage.key === key);
+  }
+
+  /**
+   * Get the accepted status reason codes
+   */
+  getReasons(): StatusReason[] {
+    return this.pipeline.reasons;
+  }
+
+  /**
+   * Subscribe to pipeline changes
+   * @param listener - Callback receiving the updated pipeline
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (pipeline: Pipeline) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Forget the cached pipeline (e.g. on logout, as the next user may be in another branch)
+   */
+  async clear(): Promise<void> {
+    this.setPipeline(DEFAULT_PIPELINE);
+
+    try {
+      await AsyncStorage.removeItem(PIPELINE_STORAGE_KEY);
+    } catch (error) {
+      console.error('[PipelineService] Failed to clear cached pipeline:', error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(PIPELINE_STORAGE_KEY);
+      if (stored) {
+        this.setPipeline(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error('[PipelineService] Failed to load cached pipeline:', error);
+    }
+  }
+
+  private setPipeline(pipeline: Pipeline): void {
+    const stages = [...(pipeline.stages || [])].sort((a, b) => a.position - b.position);
+    this.pipeline = stages.length > 0 ? { stages, reasons: pipeline.reasons || [] } : DEFAULT_PIPELINE;
+    this.listeners.forEach(listener => listener(this.pipeline));
+  }
+}
+
+export default new PipelineService();
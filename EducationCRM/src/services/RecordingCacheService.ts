@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import ReactNativeBlobUtil from 'react-native-blob-util';
+import SecureStorageService from './SecureStorageService';
 
 /**
  * CachedRecording - Represents a cached recording
@@ -12,6 +13,8 @@ export interface CachedRecording {
   fileSize: number;
   cachedAt: number;
   lastAccessedAt: number;
+  /** Stored encrypted with SecureStorageService; read it with SecureStorageService.readFile */
+  encrypted?: boolean;
 }
 
 const CACHE_STORAGE_KEY = '@recording_cache';
@@ -21,9 +24,11 @@ const MAX_CACHE_AGE_DAYS = 30; // Maximum age of cached recordings
 
 /**
  * RecordingCacheService - Manages local caching of recordings for offline playback
+ * Recordings are encrypted once downloaded, so the cache holds no playable audio
  */
 class RecordingCacheService {
   private cacheDir: string = '';
+  private pendingDownloads: Map<string, Promise<string>> = new Map(); // recording ID -> local path
 
   /**
    * Initialize the cache service
@@ -54,12 +59,38 @@ class RecordingCacheService {
    * @param recordingId - Recording ID
    * @param leadId - Lead ID
    * @param remoteUrl - Remote URL of the recording
+   * @param headers - Request headers, e.g. authorization
    * @returns Promise that resolves to the local file path
    */
   async cacheRecording(
     recordingId: string,
     leadId: string,
-    remoteUrl: string
+    remoteUrl: string,
+    headers: Record<string, string> = {}
+  ): Promise<string> {
+    // A recording that is already downloading is not fetched twice
+    const pending = this.pendingDownloads.get(recordingId);
+    if (pending) {
+      return pending;
+    }
+
+    const download = this.downloadRecording(recordingId, leadId, remoteUrl, headers);
+    this.pendingDownloads.set(recordingId, download);
+    try {
+      return await download;
+    } finally {
+      this.pendingDownloads.delete(recordingId);
+    }
+  }
+
+  /**
+   * Download a recording into the cache unless it is there already
+   */
+  private async downloadRecording(
+    recordingId: string,
+    leadId: string,
+    remoteUrl: string,
+    headers: Record<string, string>
   ): Promise<string> {
     try {
       // Check if already cached
@@ -76,7 +107,19 @@ class RecordingCacheService {
 
       const response = await ReactNativeBlobUtil.config({
         path: localPath,
-      }).fetch('GET', remoteUrl);
+      }).fetch('GET', remoteUrl, headers);
+
+      // Don't keep an error body as the recording
+      const status = response.info().status;
+      if (status >= 400) {
+        await ReactNativeBlobUtil.fs.unlink(localPath).catch(() => {
+          // Ignore errors if file doesn't exist
+        });
+        throw new Error(`Failed to download recording (HTTP ${status})`);
+      }
+
+      // Recordings are student PII; don't leave them readable on disk
+      const encrypted = await SecureStorageService.encryptFile(localPath);
 
       // Get file size
       const stat = await ReactNativeBlobUtil.fs.stat(localPath);
@@ -91,6 +134,7 @@ class RecordingCacheService {
         fileSize,
         cachedAt: Date.now(),
         lastAccessedAt: Date.now(),
+        encrypted,
       };
 
       await this.addToCacheIndex(cachedRecording);
@@ -121,6 +165,12 @@ class RecordingCacheService {
         return null;
       }
 
+      // Recordings cached before encryption was added are downloaded again
+      if (!cached.encrypted && SecureStorageService.isAvailable()) {
+        await this.deleteCachedRecording(recordingId);
+        return null;
+      }
+
       // Check if file still exists
       const exists = await ReactNativeBlobUtil.fs.exists(cached.localPath);
       if (!exists) {
@@ -142,7 +192,8 @@ class RecordingCacheService {
    */
   async deleteCachedRecording(recordingId: string): Promise<void> {
     try {
-      const cached = await this.getCachedRecording(recordingId);
+      const cache = await this.getCacheIndex();
+      const cached = cache.find(item => item.recordingId === recordingId);
       if (!cached) {
         return;
       }
@@ -331,7 +382,7 @@ class RecordingCacheService {
   }
 
   /**
-   * Clean up old cache entries
+   * Clean up old cache entries, and any left unencrypted
    */
   private async cleanupOldCache(): Promise<void> {
     try {
@@ -341,7 +392,8 @@ class RecordingCacheService {
 
       for (const item of cache) {
         const age = now - item.cachedAt;
-        if (age > maxAge) {
+        const unencrypted = !item.encrypted && SecureStorageService.isAvailable();
+        if (age > maxAge || unencrypted) {
           await this.deleteCachedRecording(item.recordingId);
         }
       }
@@ -0,0 +1,266 @@
+import {
+  AppState,
+  DeviceEventEmitter,
+  EmitterSubscription,
+  NativeEventSubscription,
+  NativeModules,
+  Platform,
+} from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import AccessibilityService, { AccessibilityStatus } from './AccessibilityService';
+import PermissionService from './PermissionService';
+import RecordingService from './RecordingService';
+import CallRecordingEventService from './CallRecordingEventService';
+import CallHelper from '../utils/CallHelper';
+import { formatDateTime } from '../utils/dateTime';
+import {
+  analyzeLevels,
+  LevelProfile,
+  RecordingHealth,
+  VERDICT_MESSAGES,
+} from '../utils/recordingHealth';
+
+const { RecordingDiagnosticsModule } = NativeModules;
+
+const TEST_NUMBER_KEY = '@diagnostics_test_number';
+const LEVEL_WINDOW_MS = 100;
+// The recorder broadcasts the finished file shortly after the call ends
+const RECORDING_WAIT_TIMEOUT = 10000; // ms
+
+export type RecordingMode = 'accessibility' | 'app';
+
+export type TestCallStep = 'calling' | 'waiting_for_recording' | 'analyzing';
+
+/**
+ * What the phone allows the app to record with
+ */
+export interface DiagnosticsEnvironment {
+  device: string;
+  osVersion: string;
+  permissions: {
+    call: boolean;
+    recording: boolean;
+    phoneState: boolean;
+    callLog: boolean;
+  };
+  accessibility: AccessibilityStatus;
+  /** Who records calls: the accessibility service, or the app while it's in the background */
+  recordingMode: RecordingMode;
+  checkedAt: string;
+}
+
+export interface TestCallResult {
+  audioSource: string;
+  fileSize: number;
+  health: RecordingHealth;
+  testedAt: string;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const yesNo = (value: boolean): string => (value ? 'yes' : 'no');
+
+/**
+ * RecordingDiagnosticsService - Checks whether call recording works on this phone
+ * Collects the recording setup and runs a guided test call whose recording is
+ * analyzed for silent or one-sided audio, then thrown away
+ */
+class RecordingDiagnosticsService {
+  /**
+   * Collect permissions, accessibility state and device details
+   * @returns Current recording setup
+   */
+  async getEnvironment(): Promise<DiagnosticsEnvironment> {
+    const [permissions, accessibility] = await Promise.all([
+      PermissionService.checkPermissions(),
+      AccessibilityService.getStatus(),
+    ]);
+
+    const constants = Platform.OS === 'android' ? Platform.constants : null;
+
+    return {
+      device: constants ? `${constants.Manufacturer} ${constants.Model}` : Platform.OS,
+      osVersion: constants ? `Android ${constants.Release}` : String(Platform.Version),
+      permissions: {
+        call: permissions.call,
+        recording: permissions.recording,
+        phoneState: permissions.phoneState,
+        callLog: permissions.callLog,
+      },
+      accessibility,
+      recordingMode:
+        accessibility.isEnabled && accessibility.autoRecordEnabled ? 'accessibility' : 'app',
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get the number used for the last test call
+   */
+  async getLastTestNumber(): Promise<string> {
+    return (await AsyncStorage.getItem(TEST_NUMBER_KEY)) || '';
+  }
+
+  /**
+   * Place a test call, record it the way real calls are recorded and analyze the file
+   * The user should stay silent while the other side talks, then speak, then hang up
+   * @param phoneNumber - Number to call (a colleague, or a voicemail that talks)
+   * @param mode - Recording mode from getEnvironment()
+   * @param onStep - Called as the test moves on
+   * @returns Analysis of the test recording
+   */
+  async runTestCall(
+    phoneNumber: string,
+    mode: RecordingMode,
+    onStep?: (step: TestCallStep) => void,
+  ): Promise<TestCallResult> {
+    if (Platform.OS !== 'android' || !RecordingDiagnosticsModule) {
+      throw new Error('The recording check is only available on Android');
+    }
+
+    await AsyncStorage.setItem(TEST_NUMBER_KEY, phoneNumber);
+
+    const subscriptions: EmitterSubscription[] = [];
+    const recordingStopped = new Promise<any>(resolve => {
+      subscriptions.push(
+        DeviceEventEmitter.addListener('com.educationcrm.RECORDING_STOPPED', resolve),
+      );
+    });
+
+    // Keep the test recording out of Unassigned Recordings
+    CallRecordingEventService.claimOutboundRecordings(true);
+    let filePath: string | null = null;
+    const testCall = this.followTestCall(mode === 'app');
+
+    try {
+      onStep?.('calling');
+      await CallHelper.initiateCall(phoneNumber);
+      await testCall.returned;
+
+      onStep?.('waiting_for_recording');
+      if (mode === 'app' && RecordingService.isCurrentlyRecording()) {
+        await RecordingService.stopRecording();
+      }
+
+      const stopped = await Promise.race([
+        recordingStopped,
+        wait(RECORDING_WAIT_TIMEOUT).then(() => null),
+      ]);
+      if (!stopped?.filePath) {
+        throw new Error(
+          mode === 'accessibility'
+            ? 'The accessibility service did not record the test call.'
+            : 'The app could not record the test call.',
+        );
+      }
+      filePath = stopped.filePath as string;
+
+      onStep?.('analyzing');
+      const profile: LevelProfile = await RecordingDiagnosticsModule.measureLevels(
+        filePath,
+        LEVEL_WINDOW_MS,
+      );
+
+      const result: TestCallResult = {
+        audioSource: stopped.audioSource || (await AccessibilityService.getUsedAudioSource()),
+        fileSize: stopped.fileSize || 0,
+        health: analyzeLevels(profile),
+        testedAt: new Date().toISOString(),
+      };
+      console.log('[RecordingDiagnosticsService] Test call result:', result);
+      return result;
+    } finally {
+      testCall.stop();
+      subscriptions.forEach(subscription => subscription.remove());
+      CallRecordingEventService.claimOutboundRecordings(false);
+
+      if (filePath) {
+        RecordingService.deleteRecording(filePath).catch(error =>
+          console.error('[RecordingDiagnosticsService] Failed to delete test recording:', error),
+        );
+      }
+    }
+  }
+
+  /**
+   * Build a plain-text report for the support team
+   * @param environment - Recording setup
+   * @param result - Test call result, if a test was run
+   * @returns Report text
+   */
+  buildReport(environment: DiagnosticsEnvironment, result: TestCallResult | null): string {
+    const { accessibility, permissions } = environment;
+    const lines = [
+      'EducationCRM recording check',
+      `Checked: ${formatDateTime(environment.checkedAt)}`,
+      `Device: ${environment.device} (${environment.osVersion})`,
+      '',
+      `Recording mode: ${
+        environment.recordingMode === 'accessibility' ? 'Accessibility service' : 'App'
+      }`,
+      `Accessibility service enabled: ${yesNo(accessibility.isEnabled)}`,
+      `Accessibility service running: ${yesNo(accessibility.isRunning)}`,
+      `Auto-record: ${yesNo(accessibility.autoRecordEnabled)}`,
+      `Last audio source: ${accessibility.audioSource}`,
+      '',
+      `Phone permission: ${yesNo(permissions.call)}`,
+      `Microphone permission: ${yesNo(permissions.recording)}`,
+      `Phone state permission: ${yesNo(permissions.phoneState)}`,
+      `Call log permission: ${yesNo(permissions.callLog)}`,
+    ];
+
+    if (result) {
+      const { health } = result;
+      lines.push(
+        '',
+        `Test call: ${formatDateTime(result.testedAt)}`,
+        `Result: ${health.verdict} - ${VERDICT_MESSAGES[health.verdict]}`,
+        `Audio source: ${result.audioSource}`,
+        `Length: ${health.durationSeconds} s, ${Math.round(result.fileSize / 1024)} KB`,
+        `Peak level: ${health.peakDb} dBFS, average ${health.averageDb} dBFS`,
+        `Sound in ${Math.round(health.activeRatio * 100)}% of the call, ` +
+          `longest silence ${health.longestSilenceSeconds} s`,
+      );
+    } else {
+      lines.push('', 'Test call: not run');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Watch the app state during the test call
+   * In app recording mode the recording starts once the dialer has the screen,
+   * as it does for real calls
+   * @returns Promise resolving when the user comes back, and a function to stop watching
+   */
+  private followTestCall(recordInApp: boolean): { returned: Promise<void>; stop: () => void } {
+    let inDialer = false;
+    let subscription: NativeEventSubscription | null = null;
+
+    const returned = new Promise<void>(resolve => {
+      subscription = AppState.addEventListener('change', state => {
+        if (state === 'background' || state === 'inactive') {
+          if (!inDialer && recordInApp) {
+            RecordingService.startRecording().catch(error =>
+              console.error('[RecordingDiagnosticsService] Failed to start recording:', error),
+            );
+          }
+          inDialer = true;
+          return;
+        }
+
+        if (state === 'active' && inDialer) {
+          resolve();
+        }
+      });
+    });
+
+    return {
+      returned,
+      stop: () => subscription?.remove(),
+    };
+  }
+}
+
+export default new RecordingDiagnosticsService();
@@ -89,6 +89,8 @@ class RecordingService {
 
   /**
    * Stops the current recording and returns metadata
+   * Resolves once the recorder has encrypted the file, so the file can be
+   * uploaded right away and never sits on the device in plaintext
    * @returns Promise that resolves to recording metadata
    */
   async stopRecording(): Promise<RecordingMetadata> {
@@ -1,33 +1,41 @@
-import apiClient from './ApiService';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiClient, { API_BASE_URL, TOKEN_KEY } from './ApiService';
 import S3Service from './S3Service';
 import ReactNativeBlobUtil from 'react-native-blob-util';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import NetInfo from '@react-native-community/netinfo';
-import ErrorMessageService from './ErrorMessageService';
+import SyncOutboxService from './SyncOutboxService';
+import SecureStorageService from './SecureStorageService';
+import type { CallBookmark } from './LeadService';
+
+const UPLOAD_SESSIONS_KEY = '@recording_upload_sessions';
 
 export interface UploadResult {
   success: boolean;
+  /** Not uploaded yet, but kept in the sync outbox, which will retry it */
+  queued?: boolean;
   recordingId?: string;
   recordingPath?: string;
   error?: string;
 }
 
-export interface UploadParams {
-  filePath: string;
-  leadId: string;
-  callLogId: string;
-  onProgress?: (progress: number) => void;
-}
+/**
+ * Upload progress callback
+ * @param progress - Percentage (0-100)
+ * @param bytesUploaded - Bytes the server has received (chunked uploads only)
+ * @param totalBytes - File size (chunked uploads only)
+ */
+export type UploadProgressCallback = (
+  progress: number,
+  bytesUploaded?: number,
+  totalBytes?: number
+) => void;
 
-export interface PendingUpload {
-  id: string;
+export interface UploadParams {
   filePath: string;
   leadId: string;
   callLogId: string;
-  retryCount: number;
-  timestamp: number;
-  lastError?: string;
-  status: 'pending' | 'uploading' | 'failed' | 'completed';
+  /** Moments marked during the call, stored with the recording */
+  bookmarks?: CallBookmark[];
+  onProgress?: UploadProgressCallback;
 }
 
 interface PresignResponse {
@@ -39,6 +47,7 @@ interface PresignResponse {
 interface AttachRecordingResponse {
   id: string;
   recording_path: string;
+  verified: boolean;
   message: string;
 }
 
@@ -53,6 +62,28 @@ interface ChunkedUploadAppendResponse {
   total_size: number;
 }
 
+/**
+ * Chunked upload session kept on the device so an upload can resume after an
+ * app kill or network drop
+ */
+interface ChunkedUploadSession {
+  uploadId: string;
+  fileSize: number;
+  chunkSize: number;
+}
+
+/**
+ * Error thrown when the server's copy of a recording doesn't match the checksum
+ * computed on the device. Unlike other rejected requests it is worth retrying,
+ * so the sync outbox re-queues it.
+ */
+export class RecordingIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingIntegrityError';
+  }
+}
+
 /**
  * RecordingUploadService - Handles uploading call recordings to the backend
  * 
@@ -62,164 +93,174 @@ interface ChunkedUploadAppendResponse {
  * 3. Confirm upload to backend with S3 key
  * 
  * Fallback Flow (if S3 fails):
- * 1. Initialize chunked upload session
- * 2. Upload file in chunks
+ * 1. Initialize chunked upload session, or resume the stored one from the
+ *    server's `chunks_received`
+ * 2. Upload the file in binary chunks, each sliced to a temp file so the
+ *    recording is never held in memory, with a SHA-256 checksum per chunk
  * 3. Finalize chunked upload
  * 
+ * Integrity:
+ * - A SHA-256 of the recording is computed before upload and sent with the
+ *   presign, attach and finalize calls; the server rejects a stored file that
+ *   doesn't match it and marks matching recordings verified
+ *
+ * Encryption:
+ * - Recordings are encrypted on the device once they stop; each attempt
+ *   uploads from a decrypted copy that is deleted when the attempt ends
+ *
  * Retry Logic:
- * - Automatic retry with exponential backoff (3 attempts)
- * - Failed uploads stored in AsyncStorage for persistence
- * - Retry when network is restored
+ * - Failed uploads are queued in SyncOutboxService, which retries with
+ *   exponential backoff and waits for the call log to be created first
  */
 class RecordingUploadService {
   private readonly CHUNK_SIZE = 1024 * 1024; // 1MB chunks
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_QUEUE_KEY = '@recording_upload_retry_queue';
-  private readonly BASE_RETRY_DELAY = 1000; // 1 second
-  private isProcessingQueue: boolean = false;
-  private netInfoUnsubscribe: (() => void) | null = null;
 
   /**
-   * Initialize the service and start listening for network changes
+   * Upload a recording, queueing it in the sync outbox if the attempt fails
+   * The outbox retries with backoff and keeps the item until it succeeds or is
+   * discarded, so the local file must not be deleted on failure.
+   * @param params - Upload parameters
+   * @returns Promise with upload result, `queued` when it was left to the outbox
+   * @throws Error if the upload failed and could not be queued either
    */
-  async initialize(): Promise<void> {
-    // Listen for network state changes
-    this.netInfoUnsubscribe = NetInfo.addEventListener((state: any) => {
-      if (state.isConnected && !this.isProcessingQueue) {
-        void this.processRetryQueue();
-      }
-    });
+  async uploadRecording(params: UploadParams): Promise<UploadResult> {
+    const { filePath, leadId, callLogId, bookmarks = [] } = params;
 
-    // Process queue on initialization if online
-    const netInfo = await NetInfo.fetch();
-    if (netInfo.isConnected) {
-      void this.processRetryQueue();
+    // Call log not created on the server yet - upload once it exists
+    if (SyncOutboxService.isLocalId(callLogId)) {
+      await this.enqueueUpload(filePath, leadId, callLogId, bookmarks);
+      return {
+        success: false,
+        queued: true,
+        error: 'Call log pending sync, recording queued',
+      };
     }
-  }
 
-  /**
-   * Cleanup listeners
-   */
-  cleanup(): void {
-    if (this.netInfoUnsubscribe) {
-      this.netInfoUnsubscribe();
-      this.netInfoUnsubscribe = null;
+    try {
+      return await this.performUpload(params);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[RecordingUploadService] Upload failed, queueing in outbox:', errorMessage);
+
+      await this.enqueueUpload(filePath, leadId, callLogId, bookmarks);
+
+      return {
+        success: false,
+        queued: true,
+        error: errorMessage,
+      };
     }
   }
 
   /**
    * Upload a recording file using S3 presigned URL with chunked upload fallback
-   * Includes automatic retry with exponential backoff
+   * Used directly by the sync outbox, which owns retries
    * @param params - Upload parameters
-   * @param retryCount - Current retry attempt (internal use)
    * @returns Promise with upload result
+   * @throws Error if both upload methods fail
    */
-  async uploadRecording(params: UploadParams, retryCount: number = 0): Promise<UploadResult> {
-    const { filePath, leadId, callLogId, onProgress } = params;
+  async performUpload(params: UploadParams): Promise<UploadResult> {
+    const { filePath, leadId, callLogId, bookmarks = [], onProgress } = params;
+
+    console.log('[RecordingUploadService] Starting upload for call log:', callLogId);
+
+    const { uploadPath, stagingDir } = await this.stageRecording(filePath, callLogId);
 
     try {
-      console.log('[RecordingUploadService] Starting upload for call log:', callLogId);
+      // Hashed natively in a stream, so large recordings aren't loaded into memory
+      const sha256 = await ReactNativeBlobUtil.fs.hash(uploadPath, 'sha256');
+
+      // A chunked upload was interrupted - carry on with it instead of starting over on S3
+      if (await this.getSession(callLogId)) {
+        return await this.uploadViaChunks(uploadPath, leadId, callLogId, sha256, bookmarks, onProgress);
+      }
 
-      // Try S3 presigned URL upload first
       try {
-        const result = await this.uploadViaS3(filePath, leadId, callLogId, onProgress);
-        
-        // Success - remove from retry queue if it was there
-        await this.removeFromRetryQueue(callLogId);
-        
-        return result;
+        return await this.uploadViaS3(uploadPath, leadId, callLogId, sha256, bookmarks, onProgress);
       } catch (s3Error) {
         console.warn('[RecordingUploadService] S3 upload failed, falling back to chunked upload:', s3Error);
-        
-        // Fallback to chunked upload
-        const result = await this.uploadViaChunks(filePath, leadId, callLogId, onProgress);
-        
-        // Success - remove from retry queue if it was there
-        await this.removeFromRetryQueue(callLogId);
-        
-        return result;
+        return await this.uploadViaChunks(uploadPath, leadId, callLogId, sha256, bookmarks, onProgress);
       }
-    } catch (error) {
-      console.error(`[RecordingUploadService] Upload failed (attempt ${retryCount + 1}/${this.MAX_RETRIES}):`, error);
-      
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-      // Retry with exponential backoff
-      if (retryCount < this.MAX_RETRIES - 1) {
-        const delay = this.BASE_RETRY_DELAY * Math.pow(2, retryCount);
-        console.log(`[RecordingUploadService] Retrying upload in ${delay}ms...`);
-
-        await this.sleep(delay);
-        return this.uploadRecording(params, retryCount + 1);
+    } finally {
+      if (stagingDir) {
+        await ReactNativeBlobUtil.fs.unlink(stagingDir).catch(() => {});
       }
-
-      // Max retries exceeded - add to persistent retry queue
-      console.log('[RecordingUploadService] Max retries exceeded, adding to retry queue');
-      await this.addToRetryQueue({
-        id: callLogId,
-        filePath,
-        leadId,
-        callLogId,
-        retryCount: 0,
-        timestamp: Date.now(),
-        lastError: errorMessage,
-        status: 'failed',
-      });
-
-      return {
-        success: false,
-        error: errorMessage,
-      };
     }
   }
 
   /**
-   * Retry a specific upload from the queue
-   * @param uploadId - Upload ID (call log ID)
-   * @returns Promise with upload result
+   * Delete decrypted copies and chunk slices left behind by interrupted
+   * uploads, and forget their sessions (e.g. on logout)
    */
-  async retryUpload(uploadId: string): Promise<UploadResult> {
+  async clearStagedUploads(): Promise<void> {
+    const cacheDir = ReactNativeBlobUtil.fs.dirs.CacheDir;
+
     try {
-      const queue = await this.getRetryQueue();
-      const upload = queue.find(u => u.id === uploadId);
-
-      if (!upload) {
-        return {
-          success: false,
-          error: 'Upload not found in retry queue',
-        };
+      const entries = await ReactNativeBlobUtil.fs.ls(cacheDir);
+      for (const entry of entries.filter(name => name.startsWith('upload_'))) {
+        await ReactNativeBlobUtil.fs.unlink(`${cacheDir}/${entry}`).catch(() => {});
       }
+      await AsyncStorage.removeItem(UPLOAD_SESSIONS_KEY);
+    } catch (error) {
+      console.error('[RecordingUploadService] Failed to clear staged uploads:', error);
+    }
+  }
 
-      // Update status to uploading
-      upload.status = 'uploading';
-      await this.updateInRetryQueue(upload);
-
-      // Attempt upload with exponential backoff
-      const delay = this.BASE_RETRY_DELAY * Math.pow(2, upload.retryCount);
-      await this.sleep(delay);
+  /**
+   * Get a plaintext copy of a recording to upload
+   * Encrypted recordings are decrypted into a staging directory named after
+   * the call log, keeping the filename the server sees; recordings made before
+   * encryption was added are uploaded as they are
+   * @param filePath - Local recording path
+   * @param callLogId - Call log ID
+   * @returns Path to upload from, and the staging directory to delete afterwards
+   */
+  private async stageRecording(
+    filePath: string,
+    callLogId: string
+  ): Promise<{ uploadPath: string; stagingDir: string | null }> {
+    const cleanPath = filePath.replace('file://', '');
 
-      const result = await this.uploadRecording({
-        filePath: upload.filePath,
-        leadId: upload.leadId,
-        callLogId: upload.callLogId,
-      });
+    if (!(await SecureStorageService.isEncryptedFile(cleanPath))) {
+      return { uploadPath: cleanPath, stagingDir: null };
+    }
 
-      if (!result.success) {
-        // Update retry count and status
-        upload.retryCount += 1;
-        upload.lastError = result.error;
-        upload.status = 'failed';
-        await this.updateInRetryQueue(upload);
-      }
+    const stagingDir = `${ReactNativeBlobUtil.fs.dirs.CacheDir}/upload_${callLogId}`;
+    // Left behind if the app was killed during an earlier attempt
+    await ReactNativeBlobUtil.fs.unlink(stagingDir).catch(() => {});
+    await ReactNativeBlobUtil.fs.mkdir(stagingDir);
 
-      return result;
+    const uploadPath = `${stagingDir}/${this.extractFilename(cleanPath)}`;
+    try {
+      await SecureStorageService.decryptFile(cleanPath, uploadPath);
     } catch (error) {
-      console.error('[RecordingUploadService] Retry upload error:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+      await ReactNativeBlobUtil.fs.unlink(stagingDir).catch(() => {});
+      throw error;
     }
+
+    return { uploadPath, stagingDir };
+  }
+
+  /**
+   * Queue a recording upload in the sync outbox
+   * @param filePath - Local file path
+   * @param leadId - Lead ID
+   * @param callLogId - Call log ID (may be a local ID awaiting sync)
+   * @param bookmarks - Bookmarks to store with the recording
+   */
+  private async enqueueUpload(
+    filePath: string,
+    leadId: string,
+    callLogId: string,
+    bookmarks: CallBookmark[]
+  ): Promise<void> {
+    await SyncOutboxService.enqueue({
+      id: `upload_${callLogId}`,
+      type: 'upload_recording',
+      leadId,
+      payload: { filePath, callLogId, bookmarks },
+      dependsOn: SyncOutboxService.isLocalId(callLogId) ? [callLogId] : [],
+    });
   }
 
   /**
@@ -227,6 +268,8 @@ class RecordingUploadService {
    * @param filePath - Local file path
    * @param leadId - Lead ID
    * @param callLogId - Call log ID
+   * @param sha256 - Hex SHA-256 of the recording
+   * @param bookmarks - Bookmarks to store with the recording
    * @param onProgress - Progress callback
    * @returns Promise with upload result
    */
@@ -234,7 +277,9 @@ class RecordingUploadService {
     filePath: string,
     leadId: string,
     callLogId: string,
-    onProgress?: (progress: number) => void
+    sha256: string,
+    bookmarks: CallBookmark[],
+    onProgress?: UploadProgressCallback
   ): Promise<UploadResult> {
     try {
       // Step 1: Request presigned URL
@@ -247,6 +292,7 @@ class RecordingUploadService {
         {
           filename,
           content_type: contentType,
+          sha256,
         }
       );
 
@@ -272,6 +318,8 @@ class RecordingUploadService {
         {
           call_log_id: callLogId,
           s3_key: key,
+          sha256,
+          bookmarks,
         }
       );
 
@@ -297,124 +345,236 @@ class RecordingUploadService {
 
   /**
    * Upload file using chunked upload (fallback)
+   * Resumes a stored session where the server left off; the session is kept on
+   * failure so the outbox retry can continue it
    * @param filePath - Local file path
    * @param leadId - Lead ID
    * @param callLogId - Call log ID
-   * @param onProgress - Progress callback
+   * @param sha256 - Hex SHA-256 of the recording
+   * @param bookmarks - Bookmarks to store with the recording
+   * @param onProgress - Progress callback, called as bytes are sent
    * @returns Promise with upload result
    */
   private async uploadViaChunks(
     filePath: string,
     leadId: string,
     callLogId: string,
-    onProgress?: (progress: number) => void
+    sha256: string,
+    bookmarks: CallBookmark[],
+    onProgress?: UploadProgressCallback
   ): Promise<UploadResult> {
-    let uploadId: string | null = null;
+    const cleanPath = filePath.replace('file://', '');
+    const fileSize = Number((await ReactNativeBlobUtil.fs.stat(cleanPath)).size);
 
-    try {
-      const filename = this.extractFilename(filePath);
-      const cleanPath = filePath.replace('file://', '');
+    if (fileSize === 0) {
+      throw new Error('Recording file is empty');
+    }
 
-      // Step 1: Initialize chunked upload
-      console.log('[RecordingUploadService] Initializing chunked upload...');
-      const initResponse = await apiClient.post<{ data: ChunkedUploadInitResponse }>(
-        `/leads/${leadId}/recordings`,
-        {
-          action: 'init',
-          filename,
-          call_log_id: callLogId,
-        }
-      );
+    const { session, chunksReceived } = await this.openChunkedSession(
+      leadId,
+      callLogId,
+      this.extractFilename(filePath),
+      fileSize
+    );
+    const totalChunks = Math.ceil(fileSize / session.chunkSize);
+    const slicePath = `${ReactNativeBlobUtil.fs.dirs.CacheDir}/upload_${session.uploadId}.part`;
 
-      if (!initResponse.data?.data?.upload_id) {
-        throw new Error('Invalid init response');
+    const reportProgress = (bytesUploaded: number) => {
+      if (onProgress) {
+        // Finalizing is the last 5%
+        onProgress((bytesUploaded / fileSize) * 95, bytesUploaded, fileSize);
       }
+    };
 
-      uploadId = initResponse.data.data.upload_id;
-      console.log('[RecordingUploadService] Upload session initialized:', uploadId);
-
-      // Step 2: Read entire file and upload in chunks
-      const fileInfo = await ReactNativeBlobUtil.fs.stat(cleanPath);
-      const fileSize = fileInfo.size;
-      const totalChunks = Math.ceil(fileSize / this.CHUNK_SIZE);
-
-      console.log(`[RecordingUploadService] Uploading ${totalChunks} chunks...`);
-
-      // Read entire file as base64
-      const fileData = await ReactNativeBlobUtil.fs.readFile(cleanPath, 'base64');
-
-      for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
-        const start = chunkIndex * this.CHUNK_SIZE;
-        const end = Math.min(start + this.CHUNK_SIZE, fileSize);
-        
-        // Calculate base64 positions (base64 is ~4/3 the size of binary)
-        const base64ChunkSize = Math.ceil(this.CHUNK_SIZE * 4 / 3);
-        const base64Start = Math.floor(start * 4 / 3);
-        const base64End = Math.ceil(end * 4 / 3);
-        
-        // Extract chunk from base64 data
-        const chunkData = fileData.substring(base64Start, base64End);
-
-        // Upload chunk
-        await apiClient.post<{ data: ChunkedUploadAppendResponse }>(
-          `/leads/${leadId}/recordings`,
-          {
-            action: 'append',
-            upload_id: uploadId,
-            chunk_index: chunkIndex,
-            chunk: chunkData,
-          }
-        );
+    try {
+      console.log(
+        `[RecordingUploadService] Uploading chunks ${chunksReceived + 1}-${totalChunks} of ${totalChunks}...`
+      );
+      reportProgress(Math.min(chunksReceived * session.chunkSize, fileSize));
 
-        // Update progress
-        if (onProgress) {
-          const progress = ((chunkIndex + 1) / totalChunks) * 90; // 90% for chunks
-          onProgress(progress);
-        }
+      for (let chunkIndex = chunksReceived; chunkIndex < totalChunks; chunkIndex++) {
+        const start = chunkIndex * session.chunkSize;
+        const end = Math.min(start + session.chunkSize, fileSize);
+
+        // Only this chunk is copied out of the recording
+        await ReactNativeBlobUtil.fs.slice(cleanPath, slicePath, start, end);
+        const checksum = await ReactNativeBlobUtil.fs.hash(slicePath, 'sha256');
+
+        await this.sendChunk(leadId, session.uploadId, chunkIndex, slicePath, checksum, sent => {
+          reportProgress(start + Math.min(sent, end - start));
+        });
 
         console.log(`[RecordingUploadService] Uploaded chunk ${chunkIndex + 1}/${totalChunks}`);
       }
+    } catch (error) {
+      console.error('[RecordingUploadService] Chunked upload interrupted:', error);
+      throw error;
+    } finally {
+      await ReactNativeBlobUtil.fs.unlink(slicePath).catch(() => {});
+    }
 
-      // Step 3: Finalize upload
-      console.log('[RecordingUploadService] Finalizing chunked upload...');
-      const finalizeResponse = await apiClient.post<{ data: AttachRecordingResponse }>(
+    // Step 3: Finalize upload
+    console.log('[RecordingUploadService] Finalizing chunked upload...');
+    let finalizeResponse;
+    try {
+      finalizeResponse = await apiClient.post<{ data: AttachRecordingResponse }>(
         `/leads/${leadId}/recordings`,
         {
           action: 'finalize',
-          upload_id: uploadId,
+          upload_id: session.uploadId,
           total_chunks: totalChunks,
           call_log_id: callLogId,
+          sha256,
+          bookmarks,
         }
       );
-
-      if (!finalizeResponse.data?.data) {
-        throw new Error('Invalid finalize response');
+    } catch (error: any) {
+      if (error?.response?.data?.error?.code === 'CHECKSUM_MISMATCH') {
+        // The server discarded the assembled file; the retry uploads it from scratch
+        await this.forgetSession(callLogId);
+        throw new RecordingIntegrityError('Uploaded recording did not match its checksum');
       }
+      throw error;
+    }
 
-      if (onProgress) {
-        onProgress(100);
-      }
+    if (!finalizeResponse.data?.data) {
+      throw new Error('Invalid finalize response');
+    }
 
-      console.log('[RecordingUploadService] Chunked upload successful');
-      return {
-        success: true,
-        recordingId: finalizeResponse.data.data.id,
-        recordingPath: finalizeResponse.data.data.recording_path,
-      };
-    } catch (error) {
-      console.error('[RecordingUploadService] Chunked upload error:', error);
-      
-      // Cancel upload session on error
-      if (uploadId) {
-        try {
-          await this.cancelChunkedUpload(leadId, uploadId);
-        } catch (cancelError) {
-          console.error('[RecordingUploadService] Failed to cancel upload:', cancelError);
+    await this.forgetSession(callLogId);
+
+    if (onProgress) {
+      onProgress(100, fileSize, fileSize);
+    }
+
+    console.log('[RecordingUploadService] Chunked upload successful');
+    return {
+      success: true,
+      recordingId: finalizeResponse.data.data.id,
+      recordingPath: finalizeResponse.data.data.recording_path,
+    };
+  }
+
+  /**
+   * Resume the stored upload session for a call log, or start a new one
+   * @param leadId - Lead ID
+   * @param callLogId - Call log ID
+   * @param filename - Recording filename
+   * @param fileSize - Recording size in bytes
+   * @returns Session and the chunk index to continue from
+   */
+  private async openChunkedSession(
+    leadId: string,
+    callLogId: string,
+    filename: string,
+    fileSize: number
+  ): Promise<{ session: ChunkedUploadSession; chunksReceived: number }> {
+    const stored = await this.getSession(callLogId);
+
+    if (stored && stored.fileSize === fileSize) {
+      try {
+        const statusResponse = await apiClient.post<{ data: ChunkedUploadAppendResponse }>(
+          `/leads/${leadId}/recordings`,
+          {
+            action: 'status',
+            upload_id: stored.uploadId,
+          }
+        );
+
+        const chunksReceived = statusResponse.data.data.chunks_received;
+        console.log(`[RecordingUploadService] Resuming upload ${stored.uploadId} at chunk ${chunksReceived}`);
+        return { session: stored, chunksReceived };
+      } catch (error: any) {
+        // Server dropped the session (e.g. temp files cleaned up) - start over
+        if (error?.response?.status !== 404) {
+          throw error;
         }
+        console.log('[RecordingUploadService] Stored upload session expired, starting over');
       }
+    } else if (stored) {
+      // The file changed since the session started, so its chunks are useless
+      await this.cancelChunkedUpload(leadId, stored.uploadId);
+    }
 
-      throw error;
+    // Step 1: Initialize chunked upload
+    console.log('[RecordingUploadService] Initializing chunked upload...');
+    const initResponse = await apiClient.post<{ data: ChunkedUploadInitResponse }>(
+      `/leads/${leadId}/recordings`,
+      {
+        action: 'init',
+        filename,
+        call_log_id: callLogId,
+      }
+    );
+
+    if (!initResponse.data?.data?.upload_id) {
+      throw new Error('Invalid init response');
+    }
+
+    const session: ChunkedUploadSession = {
+      uploadId: initResponse.data.data.upload_id,
+      fileSize,
+      chunkSize: this.CHUNK_SIZE,
+    };
+    await this.saveSession(callLogId, session);
+
+    console.log('[RecordingUploadService] Upload session initialized:', session.uploadId);
+    return { session, chunksReceived: 0 };
+  }
+
+  /**
+   * Send one chunk as a binary multipart part, streamed from its temp file
+   * @param leadId - Lead ID
+   * @param uploadId - Upload session ID
+   * @param chunkIndex - Zero-based chunk index
+   * @param chunkPath - Temp file holding the chunk
+   * @param checksum - Hex SHA-256 of the chunk
+   * @param onSent - Called with the bytes of this chunk sent so far
+   * @returns Server's view of the upload after this chunk
+   */
+  private async sendChunk(
+    leadId: string,
+    uploadId: string,
+    chunkIndex: number,
+    chunkPath: string,
+    checksum: string,
+    onSent: (sent: number) => void
+  ): Promise<ChunkedUploadAppendResponse> {
+    const token = await AsyncStorage.getItem(TOKEN_KEY);
+
+    const response = await ReactNativeBlobUtil.fetch(
+      'POST',
+      `${API_BASE_URL}/leads/${leadId}/recordings`,
+      {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'multipart/form-data',
+      },
+      [
+        { name: 'action', data: 'append' },
+        { name: 'upload_id', data: uploadId },
+        { name: 'chunk_index', data: String(chunkIndex) },
+        { name: 'checksum', data: checksum },
+        {
+          name: 'file',
+          filename: `chunk_${chunkIndex}`,
+          type: 'application/octet-stream',
+          data: ReactNativeBlobUtil.wrap(chunkPath),
+        },
+      ]
+    ).uploadProgress({ interval: 250 }, sent => onSent(Number(sent)));
+
+    const status = response.info().status;
+
+    if (status === 404) {
+      // Session is gone on the server; the next attempt starts a new one
+      await this.forgetSession(uploadId, true);
     }
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Chunk ${chunkIndex} upload failed with status ${status}`);
+    }
+
+    return response.json().data;
   }
 
   /**
@@ -434,6 +594,46 @@ class RecordingUploadService {
     }
   }
 
+  /**
+   * Get the stored upload session for a call log
+   * @param callLogId - Call log ID
+   */
+  private async getSession(callLogId: string): Promise<ChunkedUploadSession | null> {
+    const sessions = await this.getSessions();
+    return sessions[callLogId] || null;
+  }
+
+  private async saveSession(callLogId: string, session: ChunkedUploadSession): Promise<void> {
+    const sessions = await this.getSessions();
+    sessions[callLogId] = session;
+    await AsyncStorage.setItem(UPLOAD_SESSIONS_KEY, JSON.stringify(sessions));
+  }
+
+  /**
+   * Drop a stored upload session
+   * @param id - Call log ID, or the upload ID when `byUploadId` is set
+   * @param byUploadId - Match on the session's upload ID
+   */
+  private async forgetSession(id: string, byUploadId: boolean = false): Promise<void> {
+    const sessions = await this.getSessions();
+    const remaining = Object.fromEntries(
+      Object.entries(sessions).filter(([callLogId, session]) =>
+        byUploadId ? session.uploadId !== id : callLogId !== id
+      )
+    );
+    await AsyncStorage.setItem(UPLOAD_SESSIONS_KEY, JSON.stringify(remaining));
+  }
+
+  private async getSessions(): Promise<Record<string, ChunkedUploadSession>> {
+    try {
+      const stored = await AsyncStorage.getItem(UPLOAD_SESSIONS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('[RecordingUploadService] Failed to read upload sessions:', error);
+      return {};
+    }
+  }
+
   /**
    * Extract filename from file path
    * @param filePath - Full file path
@@ -465,166 +665,6 @@ class RecordingUploadService {
         return 'audio/aac';
     }
   }
-
-  /**
-   * Sleep for specified milliseconds
-   * @param ms - Milliseconds to sleep
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  // ========== Retry Queue Management ==========
-
-  /**
-   * Get retry queue from AsyncStorage
-   * @returns Promise with array of pending uploads
-   */
-  private async getRetryQueue(): Promise<PendingUpload[]> {
-    try {
-      const queueJson = await AsyncStorage.getItem(this.RETRY_QUEUE_KEY);
-      if (!queueJson) {
-        return [];
-      }
-      return JSON.parse(queueJson);
-    } catch (error) {
-      console.error('[RecordingUploadService] Failed to get retry queue:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Save retry queue to AsyncStorage
-   * @param queue - Array of pending uploads
-   */
-  private async saveRetryQueue(queue: PendingUpload[]): Promise<void> {
-    try {
-      await AsyncStorage.setItem(this.RETRY_QUEUE_KEY, JSON.stringify(queue));
-    } catch (error) {
-      console.error('[RecordingUploadService] Failed to save retry queue:', error);
-    }
-  }
-
-  /**
-   * Add upload to retry queue
-   * @param upload - Pending upload
-   */
-  private async addToRetryQueue(upload: PendingUpload): Promise<void> {
-    try {
-      const queue = await this.getRetryQueue();
-      
-      // Check if already in queue
-      const existingIndex = queue.findIndex(u => u.id === upload.id);
-      if (existingIndex !== -1) {
-        // Update existing entry
-        queue[existingIndex] = upload;
-      } else {
-        // Add new entry
-        queue.push(upload);
-      }
-
-      await this.saveRetryQueue(queue);
-      console.log('[RecordingUploadService] Added to retry queue:', upload.id);
-    } catch (error) {
-      console.error('[RecordingUploadService] Failed to add to retry queue:', error);
-    }
-  }
-
-  /**
-   * Remove upload from retry queue
-   * @param uploadId - Upload ID (call log ID)
-   */
-  private async removeFromRetryQueue(uploadId: string): Promise<void> {
-    try {
-      const queue = await this.getRetryQueue();
-      const filteredQueue = queue.filter(u => u.id !== uploadId);
-      await this.saveRetryQueue(filteredQueue);
-      console.log('[RecordingUploadService] Removed from retry queue:', uploadId);
-    } catch (error) {
-      console.error('[RecordingUploadService] Failed to remove from retry queue:', error);
-    }
-  }
-
-  /**
-   * Update upload in retry queue
-   * @param upload - Updated upload
-   */
-  private async updateInRetryQueue(upload: PendingUpload): Promise<void> {
-    try {
-      const queue = await this.getRetryQueue();
-      const index = queue.findIndex(u => u.id === upload.id);
-      if (index !== -1) {
-        queue[index] = upload;
-        await this.saveRetryQueue(queue);
-      }
-    } catch (error) {
-      console.error('[RecordingUploadService] Failed to update retry queue:', error);
-    }
-  }
-
-  /**
-   * Process retry queue when network is restored
-   */
-  async processRetryQueue(): Promise<void> {
-    if (this.isProcessingQueue) {
-      console.log('[RecordingUploadService] Already processing retry queue');
-      return;
-    }
-
-    try {
-      this.isProcessingQueue = true;
-
-      // Check network connectivity
-      const netInfo = await NetInfo.fetch();
-      if (!netInfo.isConnected) {
-        console.log('[RecordingUploadService] No network connection, skipping retry queue');
-        return;
-      }
-
-      const queue = await this.getRetryQueue();
-      console.log(`[RecordingUploadService] Processing ${queue.length} queued uploads`);
-
-      for (const upload of queue) {
-        try {
-          // Check if max retries exceeded
-          if (upload.retryCount >= this.MAX_RETRIES) {
-            console.log(`[RecordingUploadService] Max retries exceeded for ${upload.id}`);
-            continue;
-          }
-
-          // Attempt retry
-          console.log(`[RecordingUploadService] Retrying upload ${upload.id} (attempt ${upload.retryCount + 1})`);
-          await this.retryUpload(upload.id);
-        } catch (error) {
-          console.error(`[RecordingUploadService] Failed to retry upload ${upload.id}:`, error);
-        }
-      }
-    } catch (error) {
-      console.error('[RecordingUploadService] Error processing retry queue:', error);
-    } finally {
-      this.isProcessingQueue = false;
-    }
-  }
-
-  /**
-   * Get retry queue for UI display
-   * @returns Promise with array of pending uploads
-   */
-  async getRetryQueueForDisplay(): Promise<PendingUpload[]> {
-    return this.getRetryQueue();
-  }
-
-  /**
-   * Clear retry queue
-   */
-  async clearRetryQueue(): Promise<void> {
-    try {
-      await AsyncStorage.removeItem(this.RETRY_QUEUE_KEY);
-      console.log('[RecordingUploadService] Retry queue cleared');
-    } catch (error) {
-      console.error('[RecordingUploadService] Failed to clear retry queue:', error);
-    }
-  }
 }
 
 export default new RecordingUploadService();
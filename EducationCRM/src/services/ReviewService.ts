@@ -0,0 +1,109 @@
+/**
+ * ReviewService - Branch managers' reviews of recorded calls
+ * Managers score calls against their branch's rubric (`/api/reviews/rubric`)
+ * and leave coaching comments at points in the recording. Telecallers see the
+ * result on the call log of the lead.
+ */
+
+import apiClient from './ApiService';
+import { CallBookmark, QaComment, QaScore } from './LeadService';
+
+export interface QaCriterion {
+  key: string;
+  label: string;
+  max_score: number;
+  position: number;
+}
+
+export interface ReviewableCall {
+  id: string;
+  lead_id: string;
+  student_name: string;
+  telecaller_id: string;
+  telecaller_name: string | null;
+  branch_id: string;
+  outcome: 'pending' | 'connected' | 'no_answer' | 'busy' | 'invalid_number';
+  duration_seconds?: number;
+  direction?: string;
+  bookmarks: CallBookmark[];
+  qa_score: number | null;
+  qa_reviewed_at: string | null;
+  qa_scores: QaScore[];
+  qa_comments: QaComment[];
+  inserted_at: string;
+}
+
+export interface ReviewFilters {
+  /** true for reviewed calls only, false for calls awaiting review */
+  reviewed?: boolean;
+  telecaller_id?: string;
+}
+
+export interface SubmittedScore {
+  criterion: string;
+  score: number;
+}
+
+class ReviewService {
+  /**
+   * Fetch the review rubric of a branch
+   * @param branchId - Branch of the call being reviewed; only admins may pick another branch
+   * @returns Promise with the criteria in rubric order
+   */
+  async getRubric(branchId?: string): Promise<QaCriterion[]> {
+    const response = await apiClient.get<{ data: { criteria: QaCriterion[] } }>('/reviews/rubric', {
+      params: { branch_id: branchId },
+    });
+    return [...response.data.data.criteria].sort((a, b) => a.position - b.position);
+  }
+
+  /**
+   * Fetch the branch's recorded calls, newest first
+   * @param filters - Optional review status and telecaller filters
+   * @returns Promise with the calls
+   */
+  async getCalls(filters: ReviewFilters = {}): Promise<ReviewableCall[]> {
+    const params: Record<string, string> = {};
+    if (filters.reviewed !== undefined) {
+      params.reviewed = String(filters.reviewed);
+    }
+    if (filters.telecaller_id) {
+      params.telecaller_id = filters.telecaller_id;
+    }
+
+    const response = await apiClient.get<{ data: ReviewableCall[] }>('/reviews', { params });
+    return response.data.data;
+  }
+
+  /**
+   * Save the review of a call, replacing any earlier review
+   * @param callId - Call log ID
+   * @param scores - One score per rubric criterion
+   * @param comments - Coaching comments
+   * @returns Promise with the reviewed call
+   */
+  async submitReview(
+    callId: string,
+    scores: SubmittedScore[],
+    comments: QaComment[]
+  ): Promise<ReviewableCall> {
+    console.log('[ReviewService] Submitting review for call:', callId);
+
+    const response = await apiClient.put<{ data: ReviewableCall }>(`/reviews/${callId}`, {
+      scores,
+      comments,
+    });
+    return response.data.data;
+  }
+
+  /**
+   * Get the URL a manager plays a call's recording from
+   * @param callId - Call log ID
+   * @returns URL string for downloading the recording
+   */
+  getRecordingUrl(callId: string): string {
+    return `${apiClient.defaults.baseURL}/reviews/${callId}/recording`;
+  }
+}
+
+export default new ReviewService();
@@ -0,0 +1,169 @@
+/**
+ * SecureStorageService - Encrypts lead data and recordings kept on the device
+ * Uses a device-bound AES key in the Android Keystore (SecureStorageModule).
+ * Logging out destroys the key, which leaves anything still on disk unreadable.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NativeModules } from 'react-native';
+import ReactNativeBlobUtil from 'react-native-blob-util';
+
+const { SecureStorageModule } = NativeModules;
+
+// Marks stored values written by this service; anything else is legacy plaintext
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+class SecureStorageService {
+  /**
+   * Whether values and files are encrypted on this device
+   * Without the native module (e.g. iOS, tests) they are stored as they are
+   */
+  isAvailable(): boolean {
+    return !!SecureStorageModule;
+  }
+
+  /**
+   * Encrypt a value and store it in AsyncStorage
+   * @param key - Storage key
+   * @param value - Plaintext value
+   */
+  async setItem(key: string, value: string): Promise<void> {
+    await AsyncStorage.setItem(key, await this.encrypt(value));
+  }
+
+  /**
+   * Read and decrypt a value from AsyncStorage
+   * Values stored before encryption was added are returned as they are, and
+   * encrypted on their next write
+   * @param key - Storage key
+   * @returns Plaintext value, or null if missing or encrypted with a destroyed key
+   */
+  async getItem(key: string): Promise<string | null> {
+    return this.decrypt(await AsyncStorage.getItem(key));
+  }
+
+  /**
+   * Encrypt a value for storage
+   * @param value - Plaintext value
+   * @returns Encrypted value with its prefix
+   */
+  async encrypt(value: string): Promise<string> {
+    if (!SecureStorageModule) {
+      return value;
+    }
+
+    const encrypted: string = await SecureStorageModule.encryptString(value);
+    return `${ENCRYPTED_PREFIX}${encrypted}`;
+  }
+
+  /**
+   * Decrypt a stored value
+   * @param stored - Value as stored, encrypted or legacy plaintext
+   * @returns Plaintext value, or null if it can no longer be decrypted
+   */
+  async decrypt(stored: string | null): Promise<string | null> {
+    if (stored === null || !stored.startsWith(ENCRYPTED_PREFIX)) {
+      return stored;
+    }
+
+    if (!SecureStorageModule) {
+      console.warn('[SecureStorage] Encrypted value found but encryption is unavailable');
+      return null;
+    }
+
+    try {
+      return await SecureStorageModule.decryptString(stored.slice(ENCRYPTED_PREFIX.length));
+    } catch (error) {
+      console.error('[SecureStorage] Failed to decrypt stored value:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Encrypt a downloaded file in place, or into a new location
+   * The plaintext file is deleted once the encrypted copy is written, and also
+   * if it can't be encrypted, rather than being left readable
+   * @param sourcePath - Plaintext file
+   * @param destPath - Encrypted file, defaults to the source path
+   * @returns Whether the file was encrypted (false if encryption is unavailable)
+   */
+  async encryptFile(sourcePath: string, destPath: string = sourcePath): Promise<boolean> {
+    if (!SecureStorageModule) {
+      return false;
+    }
+
+    try {
+      await SecureStorageModule.encryptFile(sourcePath, destPath);
+      return true;
+    } catch (error) {
+      await ReactNativeBlobUtil.fs.unlink(sourcePath).catch(() => {
+        // Ignore errors if file doesn't exist
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Read and decrypt a file written by encryptFile
+   * The plaintext is only held in memory
+   * @param filePath - Encrypted file
+   * @returns File contents as base64
+   */
+  async readFile(filePath: string): Promise<string> {
+    if (!SecureStorageModule) {
+      throw new Error('Encryption is not available on this device');
+    }
+
+    return SecureStorageModule.readDecryptedFile(filePath);
+  }
+
+  /**
+   * Whether a file was encrypted on this device, e.g. a call recording, which
+   * the recorders encrypt as soon as it stops
+   * @param filePath - File to check
+   * @returns False for plaintext files, and whenever encryption is unavailable
+   */
+  async isEncryptedFile(filePath: string): Promise<boolean> {
+    if (!SecureStorageModule) {
+      return false;
+    }
+
+    return SecureStorageModule.isEncryptedFile(filePath);
+  }
+
+  /**
+   * Write the plaintext of an encrypted file to a new location
+   * Only for files that have to leave the device, e.g. recordings being
+   * uploaded; the caller deletes the copy as soon as it is done with it
+   * @param sourcePath - Encrypted file, which is kept
+   * @param destPath - Plaintext copy
+   */
+  async decryptFile(sourcePath: string, destPath: string): Promise<void> {
+    if (!SecureStorageModule) {
+      throw new Error('Encryption is not available on this device');
+    }
+
+    await SecureStorageModule.decryptFile(sourcePath, destPath);
+  }
+
+  /**
+   * Destroy the device key (e.g. on logout)
+   * Everything encrypted so far becomes unreadable and a new key is created on
+   * the next write
+   */
+  async destroyKey(): Promise<void> {
+    if (!SecureStorageModule) {
+      return;
+    }
+
+    try {
+      await SecureStorageModule.destroyKey();
+      console.log('[SecureStorage] Encryption key destroyed');
+    } catch (error) {
+      console.error('[SecureStorage] Failed to destroy encryption key:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export default new SecureStorageService();
@@ -0,0 +1,857 @@
+/**
+ * SyncOutboxService - Durable outbox for every mutation made by the app
+ * Replaces the separate failed-request, upload and recording retry queues with
+ * a single persistent queue that supports priorities, dependencies between
+ * items and exponential backoff. Items are never dropped: permanent failures
+ * are parked in the 'failed' state until they are retried or discarded.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import SecureStorageService from './SecureStorageService';
+
+export type OutboxItemType =
+  | 'update_lead'
+  | 'log_call'
+  | 'update_call'
+  | 'add_note'
+  | 'create_followup'
+  | 'update_followup'
+  | 'cancel_followup'
+  | 'complete_followup'
+  | 'upload_recording';
+
+export type OutboxItemState = 'pending' | 'in_progress' | 'done' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  type: OutboxItemType;
+  leadId: string;
+  payload: any;
+  state: OutboxItemState;
+  priority: number;
+  dependsOn: string[];
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+  result?: any;
+}
+
+export interface EnqueueOptions {
+  id?: string;
+  type: OutboxItemType;
+  leadId: string;
+  payload: any;
+  priority?: number;
+  dependsOn?: string[];
+}
+
+export interface OutboxStats {
+  pending: number;
+  inProgress: number;
+  failed: number;
+}
+
+/**
+ * Default priorities - higher runs first. Call logs go before recordings so
+ * dependent uploads are unblocked as early as possible.
+ */
+export const OUTBOX_PRIORITY: Record<OutboxItemType, number> = {
+  log_call: 40,
+  update_call: 35,
+  update_lead: 30,
+  create_followup: 30,
+  update_followup: 30,
+  cancel_followup: 30,
+  complete_followup: 30,
+  add_note: 20,
+  upload_recording: 10,
+};
+
+const OUTBOX_STORAGE_KEY = '@sync_outbox';
+// User whose changes are in the outbox
+const OUTBOX_OWNER_KEY = '@sync_outbox_owner';
+const LOCAL_ID_PREFIX = 'local_';
+const BASE_RETRY_DELAY = 2000; // 2 seconds
+const MAX_RETRY_DELAY = 30 * 60 * 1000; // 30 minutes
+const FLUSH_POLL_INTERVAL = 250; // ms
+
+// Legacy queues migrated into the outbox on first start
+const LEGACY_FAILED_REQUESTS_KEY = '@offline_failed_requests';
+const LEGACY_UPLOAD_QUEUE_KEY = '@upload_queue';
+const LEGACY_RECORDING_RETRY_KEY = '@recording_upload_retry_queue';
+
+/**
+ * Error thrown by handlers when a request can never succeed (e.g. validation
+ * errors). The item is parked as 'failed' instead of being retried.
+ */
+export class PermanentSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentSyncError';
+  }
+}
+
+/**
+ * Error thrown when a stored outbox can't be decrypted or parsed. It is kept
+ * as it is rather than being treated as empty and overwritten.
+ */
+export class OutboxUnreadableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboxUnreadableError';
+  }
+}
+
+/**
+ * Error thrown when a user logs in while another user's changes are still
+ * waiting in the outbox. They would be sent with the wrong user's token.
+ */
+export class OutboxOwnedByOtherUserError extends Error {
+  readonly unsyncedCount: number;
+
+  constructor(unsyncedCount: number) {
+    super(`${unsyncedCount} change(s) by another user have not been synced yet`);
+    this.name = 'OutboxOwnedByOtherUserError';
+    this.unsyncedCount = unsyncedCount;
+  }
+}
+
+class SyncOutboxService {
+  private isOnline: boolean = true;
+  private isProcessing: boolean = false;
+  private netInfoUnsubscribe: (() => void) | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Array<(stats: OutboxStats) => void> = [];
+  private writeLock: Promise<void> = Promise.resolve();
+
+  /**
+   * Initialize the outbox, migrate legacy queues and start monitoring network status
+   */
+  async initialize(): Promise<void> {
+    if (this.netInfoUnsubscribe) {
+      return;
+    }
+
+    await this.migrateLegacyQueues();
+    await this.resetInterruptedItems();
+
+    const netInfoState = await NetInfo.fetch();
+    this.isOnline = netInfoState.isConnected ?? false;
+
+    this.netInfoUnsubscribe = NetInfo.addEventListener(state => {
+      const wasOffline = !this.isOnline;
+      this.isOnline = state.isConnected ?? false;
+
+      if (wasOffline && this.isOnline) {
+        console.log('[SyncOutbox] Network restored, processing outbox');
+        this.processQueue(true);
+      }
+    });
+
+    if (this.isOnline) {
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Cleanup listeners and timers
+   */
+  cleanup(): void {
+    if (this.netInfoUnsubscribe) {
+      this.netInfoUnsubscribe();
+      this.netInfoUnsubscribe = null;
+    }
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Add a mutation to the outbox and trigger processing
+   * @param options - Item type, payload, priority and dependencies
+   * @returns Promise with the stored outbox item
+   * @throws Error if the outbox could not be saved
+   */
+  async enqueue(options: EnqueueOptions): Promise<OutboxItem> {
+    const item: OutboxItem = {
+      id: options.id || this.generateId(),
+      type: options.type,
+      leadId: options.leadId,
+      payload: options.payload,
+      state: 'pending',
+      priority: options.priority ?? OUTBOX_PRIORITY[options.type],
+      dependsOn: options.dependsOn || [],
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    };
+
+    const saved = await this.mutateQueue(queue => {
+      const existingIndex = queue.findIndex(existing => existing.id === item.id);
+      if (existingIndex !== -1) {
+        queue[existingIndex] = item;
+      } else {
+        queue.push(item);
+      }
+      return queue;
+    });
+    if (!saved) {
+      throw new Error(`Could not save ${item.type} to the outbox`);
+    }
+
+    console.log(`[SyncOutbox] Enqueued ${item.type}: ${item.id}`);
+    this.processQueue();
+
+    return item;
+  }
+
+  /**
+   * Generate an id for a record created while offline. The id doubles as the
+   * outbox item id so dependent items can reference it.
+   */
+  createLocalId(): string {
+    return `${LOCAL_ID_PREFIX}${this.generateId()}`;
+  }
+
+  /**
+   * Check whether an id belongs to a record that has not reached the server yet
+   */
+  isLocalId(id: string | null | undefined): boolean {
+    return !!id && id.startsWith(LOCAL_ID_PREFIX);
+  }
+
+  /**
+   * Get all outbox items
+   * @returns Promise with the stored items, or an empty list if nothing is stored
+   * @throws OutboxUnreadableError if the stored outbox can't be decrypted or parsed
+   */
+  async getItems(): Promise<OutboxItem[]> {
+    const data = await SecureStorageService.getItem(OUTBOX_STORAGE_KEY);
+    if (data === null) {
+      if ((await AsyncStorage.getItem(OUTBOX_STORAGE_KEY)) !== null) {
+        throw new OutboxUnreadableError('Stored outbox could not be decrypted');
+      }
+      return [];
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch {
+      throw new OutboxUnreadableError('Stored outbox is corrupt');
+    }
+  }
+
+  /**
+   * Get outbox statistics for UI display
+   */
+  async getStats(): Promise<OutboxStats> {
+    const items = await this.getItems();
+    return this.computeStats(items);
+  }
+
+  /**
+   * Subscribe to outbox changes
+   * @param listener - Callback receiving updated stats
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (stats: OutboxStats) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Move a failed item back to pending and retry it immediately
+   * @param itemId - Outbox item ID
+   */
+  async retryItem(itemId: string): Promise<void> {
+    await this.mutateQueue(queue =>
+      queue.map(item =>
+        item.id === itemId && item.state === 'failed'
+          ? { ...item, state: 'pending', attempts: 0, nextAttemptAt: Date.now() }
+          : item,
+      ),
+    );
+    this.processQueue(true);
+  }
+
+  /**
+   * Retry every failed item
+   */
+  async retryFailed(): Promise<void> {
+    await this.mutateQueue(queue =>
+      queue.map(item =>
+        item.state === 'failed'
+          ? { ...item, state: 'pending', attempts: 0, nextAttemptAt: Date.now() }
+          : item,
+      ),
+    );
+    this.processQueue(true);
+  }
+
+  /**
+   * Explicitly discard an item (and anything depending on it)
+   * @param itemId - Outbox item ID
+   */
+  async discardItem(itemId: string): Promise<void> {
+    await this.mutateQueue(queue => {
+      const discarded = new Set<string>([itemId]);
+      let changed = true;
+      while (changed) {
+        changed = false;
+        queue.forEach(item => {
+          if (!discarded.has(item.id) && item.dependsOn.some(dep => discarded.has(dep))) {
+            discarded.add(item.id);
+            changed = true;
+          }
+        });
+      }
+      return queue.filter(item => !discarded.has(item.id));
+    });
+  }
+
+  /**
+   * Sync everything that can be synced now, e.g. before logging out
+   * Waits for a run already in progress, then runs once more ignoring backoff
+   * @returns Stats of the items still unsynced afterwards
+   */
+  async flush(): Promise<OutboxStats> {
+    while (this.isProcessing) {
+      await new Promise<void>(resolve => setTimeout(resolve, FLUSH_POLL_INTERVAL));
+    }
+
+    await this.processQueue(true);
+    return this.getStats();
+  }
+
+  /**
+   * Take ownership of the outbox for the user logging in
+   * Another user's finished or unreadable items are cleared; their unsynced
+   * changes are kept and the login refused. Items queued before owners were
+   * recorded are kept for whoever logs in next.
+   * @param ownerId - ID of the user logging in
+   * @throws OutboxOwnedByOtherUserError if another user's changes are unsynced
+   */
+  async claim(ownerId: string): Promise<void> {
+    const currentOwner = await AsyncStorage.getItem(OUTBOX_OWNER_KEY);
+
+    if (currentOwner && currentOwner !== ownerId) {
+      const unsynced = await this.getItems()
+        .then(items => items.filter(item => item.state !== 'done').length)
+        .catch(error => {
+          // Nobody can read it any more, so there is nothing to keep
+          console.warn('[SyncOutbox] Another user\'s outbox could not be read:', error);
+          return 0;
+        });
+
+      if (unsynced > 0) {
+        throw new OutboxOwnedByOtherUserError(unsynced);
+      }
+
+      console.log('[SyncOutbox] Outbox belonged to another user, clearing it');
+      await this.clearAll();
+    }
+
+    await AsyncStorage.setItem(OUTBOX_OWNER_KEY, ownerId);
+  }
+
+  /**
+   * Clear the entire outbox
+   * Recordings queued for upload are deleted with it, as nothing would upload them
+   */
+  async clearAll(): Promise<void> {
+    try {
+      // An unreadable outbox is still removed, only its recordings can't be found
+      const items = await this.getItems().catch(error => {
+        console.warn('[SyncOutbox] Clearing an outbox that could not be read:', error);
+        return [] as OutboxItem[];
+      });
+      const uploads = items.filter(item => item.type === 'upload_recording');
+      if (uploads.length > 0) {
+        const RecordingService = (await import('./RecordingService')).default;
+        for (const item of uploads) {
+          await RecordingService.deleteRecording(item.payload.filePath).catch(error => {
+            console.warn('[SyncOutbox] Failed to delete queued recording:', error);
+          });
+        }
+      }
+
+      await AsyncStorage.multiRemove([OUTBOX_STORAGE_KEY, OUTBOX_OWNER_KEY]);
+      this.notifyListeners([]);
+      console.log('[SyncOutbox] Outbox cleared');
+    } catch (error) {
+      console.error('[SyncOutbox] Failed to clear outbox:', error);
+    }
+  }
+
+  /**
+   * Process all due items in priority order, respecting dependencies
+   * @param force - Ignore backoff delays (e.g. when the network comes back)
+   */
+  async processQueue(force: boolean = false): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    if (!this.isOnline) {
+      console.log('[SyncOutbox] Device is offline, skipping outbox processing');
+      return;
+    }
+
+    try {
+      this.isProcessing = true;
+
+      if (force) {
+        await this.mutateQueue(queue =>
+          queue.map(item =>
+            item.state === 'pending' ? { ...item, nextAttemptAt: Date.now() } : item,
+          ),
+        );
+      }
+
+      let item = await this.getNextRunnableItem();
+      while (item && this.isOnline) {
+        await this.runItem(item);
+        item = await this.getNextRunnableItem();
+      }
+
+      await this.pruneCompleted();
+    } catch (error) {
+      console.error('[SyncOutbox] Error processing outbox:', error);
+    } finally {
+      this.isProcessing = false;
+      await this.scheduleNextAttempt();
+    }
+  }
+
+  /**
+   * Pick the highest priority pending item whose dependencies are done
+   */
+  private async getNextRunnableItem(): Promise<OutboxItem | null> {
+    const queue = await this.getItems();
+    const now = Date.now();
+    const byId = new Map(queue.map(item => [item.id, item]));
+
+    const runnable = queue
+      .filter(item => item.state === 'pending' && item.nextAttemptAt <= now)
+      .filter(item =>
+        item.dependsOn.every(dep => {
+          const dependency = byId.get(dep);
+          // A dependency missing from the queue has already been pruned after completing
+          return !dependency || dependency.state === 'done';
+        }),
+      )
+      .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt);
+
+    return runnable[0] || null;
+  }
+
+  /**
+   * Execute a single item and record its outcome
+   */
+  private async runItem(item: OutboxItem): Promise<void> {
+    await this.updateItem(item.id, { state: 'in_progress' });
+
+    try {
+      const dependencyResults = await this.getDependencyResults(item);
+      const result = await this.executeItem(item, dependencyResults);
+
+      await this.updateItem(item.id, {
+        state: 'done',
+        result: result ?? null,
+        lastError: undefined,
+      });
+      console.log(`[SyncOutbox] Completed ${item.type}: ${item.id}`);
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (error instanceof PermanentSyncError) {
+        console.error(`[SyncOutbox] ${item.type} ${item.id} failed permanently:`, message);
+        await this.updateItem(item.id, { state: 'failed', attempts, lastError: message });
+        return;
+      }
+
+      const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY);
+      console.warn(
+        `[SyncOutbox] ${item.type} ${item.id} failed (attempt ${attempts}), retrying in ${delay}ms:`,
+        message,
+      );
+      await this.updateItem(item.id, {
+        state: 'pending',
+        attempts,
+        lastError: message,
+        nextAttemptAt: Date.now() + delay,
+      });
+    }
+  }
+
+  /**
+   * Collect results of completed dependencies keyed by item ID
+   */
+  private async getDependencyResults(item: OutboxItem): Promise<Record<string, any>> {
+    if (item.dependsOn.length === 0) {
+      return {};
+    }
+
+    const queue = await this.getItems();
+    const results: Record<string, any> = {};
+    item.dependsOn.forEach(dep => {
+      const dependency = queue.find(q => q.id === dep);
+      if (dependency) {
+        results[dep] = dependency.result;
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Dispatch an item to the service that owns the mutation
+   * Services are imported dynamically to avoid circular dependencies
+   */
+  private async executeItem(item: OutboxItem, dependencyResults: Record<string, any>): Promise<any> {
+    const LeadService = (await import('./LeadService')).default;
+    const FollowUpService = (await import('./FollowUpService')).default;
+
+    try {
+      switch (item.type) {
+        case 'update_lead':
+          return await LeadService.updateLead(item.leadId, item.payload, false, false);
+        case 'log_call':
+          return await LeadService.logCall(item.leadId, item.payload, false);
+        case 'update_call': {
+          const { callLogId, ...callData } = item.payload;
+          return await LeadService.updateCall(
+            item.leadId,
+            this.resolveId(callLogId, dependencyResults),
+            callData,
+            false,
+          );
+        }
+        case 'add_note':
+          return await LeadService.addNote(item.leadId, item.payload.note, false);
+        case 'create_followup':
+          return await FollowUpService.createFollowUp(item.leadId, item.payload, false);
+        case 'update_followup': {
+          const { followUpId, ...data } = item.payload;
+          return await FollowUpService.updateFollowUp(
+            item.leadId,
+            this.resolveId(followUpId, dependencyResults),
+            data,
+            false,
+          );
+        }
+        case 'cancel_followup':
+          return await FollowUpService.cancelFollowUp(
+            item.leadId,
+            this.resolveId(item.payload.followUpId, dependencyResults),
+            item.payload.reason,
+            false,
+          );
+        case 'complete_followup': {
+          const { next } = await FollowUpService.completeAndScheduleNext(
+            item.leadId,
+            this.resolveId(item.payload.followUpId, dependencyResults),
+            item.payload.next,
+            false,
+          );
+          // Later items refer to the next follow-up by this item's ID
+          return next;
+        }
+        case 'upload_recording': {
+          const RecordingUploadService = (await import('./RecordingUploadService')).default;
+          const RecordingService = (await import('./RecordingService')).default;
+          const callLogId = this.resolveId(item.payload.callLogId, dependencyResults);
+          const result = await RecordingUploadService.performUpload({
+            filePath: item.payload.filePath,
+            leadId: item.leadId,
+            callLogId,
+            bookmarks: item.payload.bookmarks,
+          });
+
+          // Local copy is only removed once the server has the recording
+          await RecordingService.deleteRecording(item.payload.filePath).catch(error => {
+            console.warn('[SyncOutbox] Failed to delete uploaded recording:', error);
+          });
+          LeadService.clearLeadCache(item.leadId);
+          return result;
+        }
+        default:
+          throw new PermanentSyncError(`Unknown outbox item type: ${item.type}`);
+      }
+    } catch (error: any) {
+      const status = error?.response?.status;
+      // Client errors other than timeouts/rate limits will not succeed on retry
+      if (status && status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429) {
+        throw new PermanentSyncError(
+          error?.response?.data?.error?.message || `Request rejected with status ${status}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a local id with the server id returned by the dependency that created it
+   */
+  private resolveId(id: string, dependencyResults: Record<string, any>): string {
+    if (!this.isLocalId(id)) {
+      return id;
+    }
+
+    const created = dependencyResults[id];
+    if (!created?.id) {
+      throw new Error(`Dependency ${id} has not produced a server id yet`);
+    }
+    return created.id;
+  }
+
+  /**
+   * Remove completed items that no remaining item depends on
+   */
+  private async pruneCompleted(): Promise<void> {
+    await this.mutateQueue(queue => {
+      const referenced = new Set<string>();
+      queue
+        .filter(item => item.state !== 'done')
+        .forEach(item => item.dependsOn.forEach(dep => referenced.add(dep)));
+
+      return queue.filter(item => item.state !== 'done' || referenced.has(item.id));
+    });
+  }
+
+  /**
+   * Items left 'in_progress' by an app kill are returned to 'pending'
+   */
+  private async resetInterruptedItems(): Promise<void> {
+    await this.mutateQueue(queue =>
+      queue.map(item => (item.state === 'in_progress' ? { ...item, state: 'pending' } : item)),
+    );
+  }
+
+  /**
+   * Schedule a timer for the earliest backed-off item
+   */
+  private async scheduleNextAttempt(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    let queue: OutboxItem[];
+    try {
+      queue = await this.getItems();
+    } catch (error) {
+      console.error('[SyncOutbox] Not scheduling a retry, outbox could not be read:', error);
+      return;
+    }
+
+    const pending = queue.filter(item => item.state === 'pending');
+    if (pending.length === 0 || !this.isOnline) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...pending.map(item => item.nextAttemptAt));
+    const delay = Math.max(nextAttemptAt - Date.now(), 1000);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processQueue();
+    }, delay);
+  }
+
+  /**
+   * Move items from the old per-feature queues into the outbox
+   * Old uploads queued without a call log become orphan recordings, so the
+   * telecaller can attach them to the right call. The legacy queues are only
+   * removed once everything they held has been stored again.
+   */
+  private async migrateLegacyQueues(): Promise<void> {
+    try {
+      const [[, failedRequests], [, uploadQueue], [, recordingQueue]] = await AsyncStorage.multiGet([
+        LEGACY_FAILED_REQUESTS_KEY,
+        LEGACY_UPLOAD_QUEUE_KEY,
+        LEGACY_RECORDING_RETRY_KEY,
+      ]);
+
+      const migrated: OutboxItem[] = [];
+      const now = Date.now();
+      const toItem = (
+        type: OutboxItemType,
+        leadId: string,
+        payload: any,
+        createdAt?: number,
+      ): OutboxItem => ({
+        id: this.generateId(),
+        type,
+        leadId,
+        payload,
+        state: 'pending',
+        priority: OUTBOX_PRIORITY[type],
+        dependsOn: [],
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: createdAt || now,
+      });
+
+      if (failedRequests) {
+        JSON.parse(failedRequests).forEach((request: any) => {
+          migrated.push(toItem(request.type, request.leadId, request.data, request.timestamp));
+        });
+      }
+
+      const uploadsWithoutCall: any[] = [];
+      if (uploadQueue) {
+        JSON.parse(uploadQueue).forEach((upload: any) => {
+          if (!upload.callLogId) {
+            uploadsWithoutCall.push(upload);
+            return;
+          }
+
+          migrated.push(
+            toItem(
+              'upload_recording',
+              upload.leadId,
+              { filePath: upload.filePath, callLogId: upload.callLogId },
+              upload.timestamp,
+            ),
+          );
+        });
+      }
+
+      if (recordingQueue) {
+        JSON.parse(recordingQueue)
+          .filter((upload: any) => upload.status !== 'completed')
+          .forEach((upload: any) => {
+            migrated.push(
+              toItem(
+                'upload_recording',
+                upload.leadId,
+                { filePath: upload.filePath, callLogId: upload.callLogId },
+                upload.timestamp,
+              ),
+            );
+          });
+      }
+
+      if (migrated.length > 0) {
+        if (!(await this.mutateQueue(queue => [...queue, ...migrated]))) {
+          console.warn('[SyncOutbox] Legacy queues kept, outbox could not be saved');
+          return;
+        }
+        console.log(`[SyncOutbox] Migrated ${migrated.length} items from legacy queues`);
+      }
+
+      if (uploadsWithoutCall.length > 0) {
+        await this.migrateUploadsWithoutCall(uploadsWithoutCall);
+      }
+
+      if (failedRequests || uploadQueue || recordingQueue) {
+        await AsyncStorage.multiRemove([
+          LEGACY_FAILED_REQUESTS_KEY,
+          LEGACY_UPLOAD_QUEUE_KEY,
+          LEGACY_RECORDING_RETRY_KEY,
+        ]);
+      }
+    } catch (error) {
+      console.error('[SyncOutbox] Failed to migrate legacy queues:', error);
+    }
+  }
+
+  /**
+   * Keep legacy uploads that were never linked to a call log as orphan recordings
+   * Services are imported dynamically to avoid circular dependencies
+   */
+  private async migrateUploadsWithoutCall(uploads: any[]): Promise<void> {
+    const ReactNativeBlobUtil = (await import('react-native-blob-util')).default;
+    const OrphanRecordingService = (await import('./OrphanRecordingService')).default;
+
+    for (const upload of uploads) {
+      const path = upload.filePath.replace('file://', '');
+      if (!(await ReactNativeBlobUtil.fs.exists(path))) {
+        console.warn('[SyncOutbox] Legacy upload file no longer exists:', upload.filePath);
+        continue;
+      }
+
+      const stat = await ReactNativeBlobUtil.fs.stat(path);
+      await OrphanRecordingService.add({
+        filePath: upload.filePath,
+        phoneNumber: null,
+        // Only outgoing calls were recorded before inbound calls were supported
+        direction: 'outbound',
+        startedAt: new Date(upload.timestamp || Date.now()).toISOString(),
+        durationSeconds: 0,
+        fileSize: Number(stat.size),
+      });
+    }
+
+    console.log(`[SyncOutbox] Moved ${uploads.length} legacy uploads to orphan recordings`);
+  }
+
+  /**
+   * Update fields of a single item
+   */
+  private async updateItem(itemId: string, updates: Partial<OutboxItem>): Promise<void> {
+    await this.mutateQueue(queue =>
+      queue.map(item => (item.id === itemId ? { ...item, ...updates } : item)),
+    );
+  }
+
+  /**
+   * Serialize read-modify-write cycles so concurrent enqueues don't overwrite each other
+   * Nothing is written when the stored outbox can't be read, so its items are
+   * never replaced by an empty queue
+   * @returns Whether the updated queue was saved
+   */
+  private mutateQueue(mutator: (queue: OutboxItem[]) => OutboxItem[]): Promise<boolean> {
+    const run = this.writeLock.then(async () => {
+      try {
+        const queue = await this.getItems();
+        const updated = mutator(queue);
+        await SecureStorageService.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(updated));
+        this.notifyListeners(updated);
+        return true;
+      } catch (error) {
+        if (error instanceof OutboxUnreadableError) {
+          console.error('[SyncOutbox] Outbox left unchanged, it could not be read:', error);
+          return false;
+        }
+        console.error('[SyncOutbox] Failed to save outbox:', error);
+        return false;
+      }
+    });
+
+    this.writeLock = run.then(() => undefined);
+    return run;
+  }
+
+  private computeStats(items: OutboxItem[]): OutboxStats {
+    return {
+      pending: items.filter(item => item.state === 'pending').length,
+      inProgress: items.filter(item => item.state === 'in_progress').length,
+      failed: items.filter(item => item.state === 'failed').length,
+    };
+  }
+
+  private notifyListeners(items: OutboxItem[]): void {
+    const stats = this.computeStats(items);
+    this.listeners.forEach(listener => {
+      try {
+        listener(stats);
+      } catch (error) {
+        console.error('[SyncOutbox] Error in listener:', error);
+      }
+    });
+  }
+
+  private generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  }
+}
+
+export default new SyncOutboxService();
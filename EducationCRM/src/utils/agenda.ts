@@ -0,0 +1,73 @@
+import { FollowUp } from '../services/FollowUpService';
+import { addDays, parseDateTime, startOfDay } from './dateTime';
+
+/**
+ * Hours shown in the agenda (8:00 - 20:00)
+ */
+export const AGENDA_HOURS = Array.from({ length: 13 }, (_, i) => 8 + i);
+
+/**
+ * More callbacks than this in one hour can't realistically all be made
+ */
+export const SLOT_CAPACITY = 4;
+
+/**
+ * Daily load at which a day is shown as busy / overbooked
+ */
+export const DAY_BUSY_THRESHOLD = 15;
+export const DAY_FULL_THRESHOLD = 25;
+
+/**
+ * Monday (local time) of the week containing the given date
+ */
+export const startOfWeek = (date: Date): Date => {
+  const day = startOfDay(date);
+  const offset = (day.getDay() + 6) % 7;
+  return addDays(day, -offset);
+};
+
+/**
+ * Key identifying a calendar day, e.g. "2024-12-01"
+ */
+export const dayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Key identifying a one-hour slot, e.g. "2024-12-01@10"
+ */
+export const slotKey = (date: Date): string => `${dayKey(date)}@${date.getHours()}`;
+
+/**
+ * Count follow-ups per day and per hour slot
+ * @param followUps - Follow-ups to count
+ * @returns Counts keyed by dayKey and slotKey
+ */
+export const countLoad = (
+  followUps: FollowUp[],
+): { byDay: Map<string, number>; bySlot: Map<string, number> } => {
+  const byDay = new Map<string, number>();
+  const bySlot = new Map<string, number>();
+
+  followUps.forEach(followUp => {
+    const date = parseDateTime(followUp.scheduled_at)!;
+    const day = dayKey(date);
+    const slot = slotKey(date);
+    byDay.set(day, (byDay.get(day) || 0) + 1);
+    bySlot.set(slot, (bySlot.get(slot) || 0) + 1);
+  });
+
+  return { byDay, bySlot };
+};
+
+/**
+ * Colour for a day's load in the week strip
+ */
+export const dayLoadColor = (count: number): string => {
+  if (count >= DAY_FULL_THRESHOLD) {
+    return '#ef4444';
+  }
+  if (count >= DAY_BUSY_THRESHOLD) {
+    return '#f59e0b';
+  }
+  return '#10b981';
+};
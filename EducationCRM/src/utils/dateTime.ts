@@ -0,0 +1,204 @@
+/**
+ * Shared date/time helpers
+ *
+ * The API sends `utc_datetime` fields with a trailing "Z" but `inserted_at` /
+ * `updated_at` as naive UTC timestamps without one. Always go through
+ * parseDateTime so both are read as UTC, and send toApiDateTime values back.
+ */
+
+/**
+ * Timezone the institute works in; labels are shown in it when the device differs
+ */
+export const BUSINESS_TIMEZONE_LABEL = 'IST';
+
+// India has no daylight saving, so a fixed offset is exact
+const BUSINESS_UTC_OFFSET_MINUTES = 330;
+
+const MINUTE_MS = 60 * 1000;
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  hour: 'numeric',
+  minute: '2-digit',
+  hour12: true,
+};
+
+/**
+ * Parse an API timestamp, treating timestamps without an offset as UTC
+ * @param value - ISO8601 string or Date
+ * @returns Date, or null when the value can't be parsed
+ */
+export const parseDateTime = (value: string | Date | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  const hasOffset = /([zZ]|[+-]\d{2}:?\d{2})$/.test(value);
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const normalized = hasOffset || isDateOnly ? value : `${value}Z`;
+  const date = new Date(normalized);
+
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Formatters accept API strings directly; unparseable values render as "Invalid Date"
+const toDate = (value: Date | string): Date => parseDateTime(value) || new Date(NaN);
+
+/**
+ * Serialize a date for the API (UTC, ISO8601)
+ */
+export const toApiDateTime = (date: Date): string => date.toISOString();
+
+/**
+ * Midnight (local time) of the given date
+ */
+export const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+/**
+ * Add a number of calendar days to a date, keeping the local time of day
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Whole calendar days from `from` to `date` (0 = same day, -1 = the day before)
+ */
+export const calendarDaysBetween = (date: Date, from: Date = new Date()): number =>
+  Math.round((startOfDay(date).getTime() - startOfDay(from).getTime()) / (24 * 60 * MINUTE_MS));
+
+/**
+ * Whether two dates fall on the same local calendar day
+ */
+export const isSameDay = (a: Date, b: Date): boolean => calendarDaysBetween(a, b) === 0;
+
+/**
+ * Combine a calendar day and a time of day (local time) into one date
+ * @param day - Date supplying year, month and day
+ * @param time - Date supplying hours and minutes
+ */
+export const combineDateAndTime = (day: Date, time: Date): Date => {
+  const result = new Date(day);
+  result.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return result;
+};
+
+/**
+ * Format a time of day, e.g. "2:30 PM"
+ */
+export const formatTime = (value: Date | string): string =>
+  toDate(value).toLocaleTimeString('en-US', TIME_FORMAT);
+
+/**
+ * Format a calendar day, e.g. "Mon, Dec 2, 2024"
+ */
+export const formatDate = (value: Date | string): string =>
+  toDate(value).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+/**
+ * Format a date and time, e.g. "Dec 2, 2024, 2:30 PM"
+ */
+export const formatDateTime = (value: Date | string): string =>
+  toDate(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    ...TIME_FORMAT,
+  });
+
+/**
+ * Human label relative to today, e.g. "Today at 2:30 PM", "Yesterday at 9:00 AM",
+ * "Tomorrow at 10:00 AM", "Mon 4:00 PM" within a week, otherwise "Dec 2, 2:30 PM"
+ * @param value - Date or API timestamp to describe
+ * @param now - Reference time (default: now)
+ */
+export const formatRelative = (value: Date | string, now: Date = new Date()): string => {
+  const date = toDate(value);
+  const days = calendarDaysBetween(date, now);
+
+  if (days === 0) {
+    return `Today at ${formatTime(date)}`;
+  }
+  if (days === -1) {
+    return `Yesterday at ${formatTime(date)}`;
+  }
+  if (days === 1) {
+    return `Tomorrow at ${formatTime(date)}`;
+  }
+  if (Math.abs(days) < 7) {
+    return date.toLocaleDateString('en-US', { weekday: 'short', ...TIME_FORMAT });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', ...TIME_FORMAT });
+};
+
+/**
+ * Label for a calendar day: "Today", "Yesterday", "Tomorrow", otherwise the date
+ */
+export const formatDayLabel = (value: Date | string, now: Date = new Date()): string => {
+  const date = toDate(value);
+  const days = calendarDaysBetween(date, now);
+
+  if (days === 0) {
+    return 'Today';
+  }
+  if (days === -1) {
+    return 'Yesterday';
+  }
+  if (days === 1) {
+    return 'Tomorrow';
+  }
+  return formatDate(date);
+};
+
+/**
+ * Whether the device clock is set to the business timezone
+ */
+export const isDeviceInBusinessTimezone = (date: Date = new Date()): boolean =>
+  -date.getTimezoneOffset() === BUSINESS_UTC_OFFSET_MINUTES;
+
+/**
+ * Wall-clock time of a date in the business timezone, e.g. "2:30 PM IST"
+ */
+export const formatBusinessTime = (date: Date): string => {
+  // Shift so the UTC fields hold the business wall-clock time
+  const shifted = new Date(date.getTime() + BUSINESS_UTC_OFFSET_MINUTES * MINUTE_MS);
+  const label = shifted.toLocaleTimeString('en-US', { ...TIME_FORMAT, timeZone: 'UTC' });
+  return `${label} ${BUSINESS_TIMEZONE_LABEL}`;
+};
+
+/**
+ * Check that a date is far enough in the future to schedule a follow-up for
+ * @param date - Proposed time
+ * @param now - Reference time (default: now)
+ * @param minLeadMinutes - Minimum minutes from now (default: 1)
+ * @returns Error message, or null when the time is valid
+ */
+export const validateFutureDateTime = (
+  date: Date | null,
+  now: Date = new Date(),
+  minLeadMinutes: number = 1
+): string | null => {
+  if (!date || isNaN(date.getTime())) {
+    return 'Please select a date and time';
+  }
+
+  if (date.getTime() < now.getTime() + minLeadMinutes * MINUTE_MS) {
+    return 'Follow-up time must be in the future';
+  }
+
+  return null;
+};
@@ -0,0 +1,19 @@
+import { addDays } from './dateTime';
+
+/**
+ * Quick picks for scheduling the next follow-up
+ */
+export const FOLLOW_UP_PRESETS: { label: string; days: number }[] = [
+  { label: 'Tomorrow', days: 1 },
+  { label: 'In 3 days', days: 3 },
+  { label: 'Next week', days: 7 },
+];
+
+/**
+ * Build a follow-up time N days from now at 10:00 local time
+ */
+export const followUpDateFor = (days: number): Date => {
+  const date = addDays(new Date(), days);
+  date.setHours(10, 0, 0, 0);
+  return date;
+};
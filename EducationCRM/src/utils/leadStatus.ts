@@ -0,0 +1,45 @@
+import PipelineService from '../services/PipelineService';
+
+// Badge colors for statuses the pipeline doesn't know
+const UNKNOWN_STATUS_COLOR = '#6b7280';
+
+/**
+ * Display label for a status value, falling back to the raw value
+ */
+export const statusLabel = (status?: string): string =>
+  PipelineService.getStage(status)?.label || status || 'Unknown';
+
+/**
+ * Badge colors for a status: the stage color as text on a light tint of it
+ */
+export const statusColors = (status?: string): { bg: string; text: string } => {
+  const color = PipelineService.getStage(status)?.color || UNKNOWN_STATUS_COLOR;
+  return { bg: `${color}1f`, text: color };
+};
+
+/**
+ * Whether a lead can move from one status to another (staying put is always allowed)
+ * Leads in a status the pipeline doesn't know can move to any stage, like on the server
+ */
+export const canTransition = (from: string, to: string): boolean => {
+  if (from === to) {
+    return true;
+  }
+
+  const stage = PipelineService.getStage(from);
+  return stage
+    ? stage.transitions.includes(to)
+    : PipelineService.getStages().some(option => option.key === to);
+};
+
+/**
+ * Whether moving a lead from one status to another needs a reason code
+ */
+export const requiresStatusReason = (from: string, to: string): boolean =>
+  from !== to && !!PipelineService.getStage(to)?.requires_reason;
+
+/**
+ * Display label for a status reason code
+ */
+export const statusReasonLabel = (reason?: string): string =>
+  PipelineService.getReasons().find(option => option.key === reason)?.label || reason || '';
@@ -0,0 +1,89 @@
+/**
+ * Judging a test call recording from its loudness profile
+ *
+ * The guided test asks the telecaller to stay silent while the other side talks
+ * for about ten seconds, then to speak. A recording that only captured the
+ * telecaller's microphone has a long silent stretch where the other side talked.
+ */
+
+// Windows quieter than this are treated as silence (dBFS)
+const SILENCE_DB = -50;
+// A recording whose loudest window stays below this captured nothing usable
+const AUDIBLE_PEAK_DB = -40;
+const MIN_ACTIVE_RATIO = 0.05;
+// The other side talks for ~10 s; a gap this long means it wasn't recorded
+const ONE_SIDED_GAP_SECONDS = 6;
+const MIN_TEST_SECONDS = 15;
+
+export type RecordingVerdict = 'ok' | 'silent' | 'one_sided' | 'too_short';
+
+/**
+ * Loudness of a recording in fixed windows, as measured by the native decoder
+ */
+export interface LevelProfile {
+  durationMs: number;
+  windowMs: number;
+  /** RMS level of each window in dBFS (-100 for digital silence) */
+  levels: number[];
+}
+
+export interface RecordingHealth {
+  verdict: RecordingVerdict;
+  durationSeconds: number;
+  peakDb: number;
+  averageDb: number;
+  /** Share of windows with sound above the silence threshold */
+  activeRatio: number;
+  longestSilenceSeconds: number;
+}
+
+export const VERDICT_MESSAGES: Record<RecordingVerdict, string> = {
+  ok: 'Both sides of the call were recorded.',
+  silent: 'The recording is silent. The phone is not letting the app record calls.',
+  one_sided:
+    'Only one side of the call was recorded. Try speakerphone, or enable the ' +
+    'accessibility service so a call audio source can be used.',
+  too_short: 'The test call was too short to judge. Stay on the call for at least 20 seconds.',
+};
+
+/**
+ * Judge a recording from its loudness profile
+ * @param profile - Per-window levels of the recording
+ * @returns Verdict and the numbers it is based on
+ */
+export function analyzeLevels(profile: LevelProfile): RecordingHealth {
+  const { levels, windowMs } = profile;
+  const durationSeconds = Math.round(profile.durationMs / 1000);
+
+  const peakDb = levels.length > 0 ? Math.max(...levels) : -100;
+  const averageDb =
+    levels.length > 0 ? levels.reduce((sum, level) => sum + level, 0) / levels.length : -100;
+  const activeWindows = levels.filter(level => level > SILENCE_DB).length;
+  const activeRatio = levels.length > 0 ? activeWindows / levels.length : 0;
+
+  let longestSilentWindows = 0;
+  let silentRun = 0;
+  levels.forEach(level => {
+    silentRun = level > SILENCE_DB ? 0 : silentRun + 1;
+    longestSilentWindows = Math.max(longestSilentWindows, silentRun);
+  });
+  const longestSilenceSeconds = (longestSilentWindows * windowMs) / 1000;
+
+  let verdict: RecordingVerdict = 'ok';
+  if (peakDb < AUDIBLE_PEAK_DB || activeRatio < MIN_ACTIVE_RATIO) {
+    verdict = 'silent';
+  } else if (durationSeconds < MIN_TEST_SECONDS) {
+    verdict = 'too_short';
+  } else if (longestSilenceSeconds >= ONE_SIDED_GAP_SECONDS) {
+    verdict = 'one_sided';
+  }
+
+  return {
+    verdict,
+    durationSeconds,
+    peakDb: Math.round(peakDb),
+    averageDb: Math.round(averageDb),
+    activeRatio: Math.round(activeRatio * 100) / 100,
+    longestSilenceSeconds: Math.round(longestSilenceSeconds * 10) / 10,
+  };
+}
@@ -0,0 +1,111 @@
+import { LeadDetail, LeadNote, CallLog, Followup, LeadStatusChange } from '../services/LeadService';
+import { formatDayLabel, parseDateTime, startOfDay } from './dateTime';
+
+export type TimelineFilter = 'all' | 'notes' | 'calls' | 'followups' | 'status';
+
+export type TimelineEntry =
+  | { kind: 'note'; key: string; at: Date; note: LeadNote }
+  | { kind: 'call'; key: string; at: Date; call: CallLog }
+  | { kind: 'followup_created'; key: string; at: Date; followup: Followup }
+  | { kind: 'followup_completed'; key: string; at: Date; followup: Followup }
+  | { kind: 'followup_cancelled'; key: string; at: Date; followup: Followup }
+  | { kind: 'status_change'; key: string; at: Date; change: LeadStatusChange };
+
+export interface TimelineSection {
+  title: string;
+  data: TimelineEntry[];
+}
+
+export const TIMELINE_FILTERS: { label: string; value: TimelineFilter }[] = [
+  { label: 'All', value: 'all' },
+  { label: 'Notes', value: 'notes' },
+  { label: 'Calls', value: 'calls' },
+  { label: 'Follow-ups', value: 'followups' },
+  { label: 'Status', value: 'status' },
+];
+
+const FILTER_KINDS: Record<Exclude<TimelineFilter, 'all'>, TimelineEntry['kind'][]> = {
+  notes: ['note'],
+  calls: ['call'],
+  followups: ['followup_created', 'followup_completed', 'followup_cancelled'],
+  status: ['status_change'],
+};
+
+/**
+ * Merge a lead's notes, calls, follow-ups and status changes into one list, newest first
+ * A follow-up contributes an entry when it was booked and another when it was
+ * completed or cancelled
+ * @param lead - Lead detail
+ * @returns Timeline entries
+ */
+export const buildTimeline = (lead: LeadDetail): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [];
+  const push = (entry: TimelineEntry) => entries.push(entry);
+  const toDate = (value?: string): Date => parseDateTime(value) || new Date(NaN);
+
+  lead.notes.forEach(note =>
+    push({ kind: 'note', key: `note-${note.id}`, at: toDate(note.inserted_at), note })
+  );
+
+  lead.call_logs.forEach(call =>
+    push({ kind: 'call', key: `call-${call.id}`, at: toDate(call.inserted_at), call })
+  );
+
+  lead.followups.forEach(followup => {
+    push({
+      kind: 'followup_created',
+      key: `followup-${followup.id}`,
+      at: toDate(followup.inserted_at),
+      followup,
+    });
+
+    if (followup.cancelled_at) {
+      push({
+        kind: 'followup_cancelled',
+        key: `followup-cancelled-${followup.id}`,
+        at: toDate(followup.cancelled_at),
+        followup,
+      });
+    } else if (followup.completed && followup.completed_at) {
+      push({
+        kind: 'followup_completed',
+        key: `followup-completed-${followup.id}`,
+        at: toDate(followup.completed_at),
+        followup,
+      });
+    }
+  });
+
+  (lead.status_changes || []).forEach(change =>
+    push({ kind: 'status_change', key: `status-${change.id}`, at: toDate(change.inserted_at), change })
+  );
+
+  return entries
+    .filter(entry => !isNaN(entry.at.getTime()))
+    .sort((a, b) => b.at.getTime() - a.at.getTime());
+};
+
+/**
+ * Keep only the entries matching a filter
+ */
+export const filterTimeline = (entries: TimelineEntry[], filter: TimelineFilter): TimelineEntry[] =>
+  filter === 'all' ? entries : entries.filter(entry => FILTER_KINDS[filter].includes(entry.kind));
+
+/**
+ * Group entries (already sorted newest first) into one section per day
+ */
+export const groupTimelineByDay = (entries: TimelineEntry[]): TimelineSection[] => {
+  const sections: TimelineSection[] = [];
+  let currentKey: number | null = null;
+
+  entries.forEach(entry => {
+    const key = startOfDay(entry.at).getTime();
+    if (key !== currentKey) {
+      sections.push({ title: formatDayLabel(entry.at), data: [] });
+      currentKey = key;
+    }
+    sections[sections.length - 1].data.push(entry);
+  });
+
+  return sections;
+};
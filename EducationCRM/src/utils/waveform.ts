@@ -0,0 +1,116 @@
+/**
+ * Waveform of a decoded recording: bar heights for display and the silent
+ * stretches a reviewer can skip over
+ */
+
+export const WAVEFORM_BARS = 80;
+
+// Level windows used to find silence
+const SILENCE_WINDOW_SECONDS = 0.1;
+// RMS below this (about -45 dBFS) is silence
+const SILENCE_THRESHOLD = 0.0056;
+// Shorter pauses are part of the conversation
+const MIN_SILENCE_SECONDS = 2;
+
+export interface SilentRegion {
+  /** Seconds from the start */
+  start: number;
+  end: number;
+}
+
+export interface Waveform {
+  /** Peak of each bar, 0..1 relative to the loudest bar */
+  peaks: number[];
+  silentRegions: SilentRegion[];
+  duration: number;
+}
+
+/**
+ * Compute bar peaks from PCM samples
+ * @param samples - Samples in -1..1
+ * @param barCount - Number of bars
+ * @returns Peak per bar, scaled so the loudest bar is 1
+ */
+export function computePeaks(samples: ArrayLike<number>, barCount: number): number[] {
+  const peaks = new Array<number>(barCount).fill(0);
+  if (samples.length === 0) {
+    return peaks;
+  }
+
+  const samplesPerBar = samples.length / barCount;
+  for (let i = 0; i < samples.length; i++) {
+    const bar = Math.min(barCount - 1, Math.floor(i / samplesPerBar));
+    const value = Math.abs(samples[i]);
+    if (value > peaks[bar]) {
+      peaks[bar] = value;
+    }
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+}
+
+/**
+ * Find stretches of silence long enough to skip
+ * @param samples - Samples in -1..1
+ * @param sampleRate - Samples per second
+ * @returns Silent regions in order
+ */
+export function findSilentRegions(samples: ArrayLike<number>, sampleRate: number): SilentRegion[] {
+  const windowSize = Math.max(1, Math.round(sampleRate * SILENCE_WINDOW_SECONDS));
+  const regions: SilentRegion[] = [];
+  let silenceStart: number | null = null;
+
+  const closeRegion = (end: number) => {
+    if (silenceStart !== null && end - silenceStart >= MIN_SILENCE_SECONDS) {
+      regions.push({ start: silenceStart, end });
+    }
+    silenceStart = null;
+  };
+
+  for (let offset = 0; offset < samples.length; offset += windowSize) {
+    const end = Math.min(samples.length, offset + windowSize);
+    let sumSquares = 0;
+    for (let i = offset; i < end; i++) {
+      sumSquares += samples[i] * samples[i];
+    }
+
+    const isSilent = Math.sqrt(sumSquares / (end - offset)) < SILENCE_THRESHOLD;
+    if (isSilent && silenceStart === null) {
+      silenceStart = offset / sampleRate;
+    } else if (!isSilent) {
+      closeRegion(offset / sampleRate);
+    }
+  }
+  closeRegion(samples.length / sampleRate);
+
+  return regions;
+}
+
+/**
+ * Build the waveform of a recording
+ * @param samples - Samples of the first channel, in -1..1
+ * @param sampleRate - Samples per second
+ * @param barCount - Number of bars (default: WAVEFORM_BARS)
+ */
+export function buildWaveform(
+  samples: ArrayLike<number>,
+  sampleRate: number,
+  barCount: number = WAVEFORM_BARS,
+): Waveform {
+  return {
+    peaks: computePeaks(samples, barCount),
+    silentRegions: findSilentRegions(samples, sampleRate),
+    duration: samples.length / sampleRate,
+  };
+}
+
+/**
+ * Find the silent region a position falls in
+ * @param regions - Silent regions
+ * @param time - Position in seconds
+ * @returns Region, or null when the position isn't in silence
+ */
+export function silentRegionAt(regions: SilentRegion[], time: number): SilentRegion | null {
+  return regions.find(region => time >= region.start && time < region.end) || null;
+}
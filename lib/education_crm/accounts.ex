@@ -113,6 +113,7 @@ defmodule EducationCrm.Accounts do
 
   @doc """
   Creates a telecaller account with branch assignment.
+  Pass `"role" => "manager"` to create a branch manager instead.
   Returns {:ok, user} on success, {:error, changeset} on failure.
   Invalidates the telecaller cache for the branch on success.
   """
@@ -120,7 +121,7 @@ defmodule EducationCrm.Accounts do
     attrs_with_branch =
       attrs
       |> Map.put("branch_id", branch_id)
-      |> Map.put("role", "telecaller")
+      |> Map.put("role", if(attrs["role"] == "manager", do: "manager", else: "telecaller"))
 
     result =
       %User{}
@@ -139,18 +140,22 @@ defmodule EducationCrm.Accounts do
 
   @doc """
   Lists telecallers with lead count aggregation.
-  Accepts optional filters: branch_id, active status.
+  Accepts optional filters: branch_id, active status, role.
+  The role defaults to "telecaller"; pass "manager" for branch managers or
+  "all" for both.
   Returns list of telecallers with lead_count field.
   Results are cached per branch for 1 hour (3600 seconds).
   """
   def list_telecallers(filters \\ %{}) do
     branch_id = Map.get(filters, :branch_id)
     active = Map.get(filters, :active, true)
+    role = Map.get(filters, :role, "telecaller")
+    filters = Map.put(filters, :role, role)
 
     # Only cache if filtering by branch_id and active status
     cache_key =
       if branch_id && is_boolean(active) do
-        {:telecallers_list, branch_id, active}
+        {:telecallers_list, branch_id, active, role}
       else
         nil
       end
@@ -175,7 +180,7 @@ defmodule EducationCrm.Accounts do
     query =
       from u in User,
         left_join: l in assoc(u, :leads),
-        where: u.role == "telecaller",
+        where: u.role != "admin",
         group_by: u.id,
         select: %{
           id: u.id,
@@ -201,6 +206,9 @@ defmodule EducationCrm.Accounts do
       {:active, active}, query when is_boolean(active) ->
         from u in query, where: u.active == ^active
 
+      {:role, role}, query when role in ~w(telecaller manager) ->
+        from u in query, where: u.role == ^role
+
       _, query ->
         query
     end)
@@ -235,9 +243,10 @@ defmodule EducationCrm.Accounts do
 
   # Private helper to invalidate telecaller cache for a branch
   defp invalidate_telecaller_cache(branch_id) do
-    # Invalidate both active and inactive caches
-    EducationCrm.Cache.delete({:telecallers_list, branch_id, true})
-    EducationCrm.Cache.delete({:telecallers_list, branch_id, false})
+    # Invalidate both active and inactive caches of every role
+    for active <- [true, false], role <- ~w(telecaller manager all) do
+      EducationCrm.Cache.delete({:telecallers_list, branch_id, active, role})
+    end
   end
 
   @doc """
@@ -252,6 +261,9 @@ defmodule EducationCrm.Accounts do
     %{
       total_calls: integer,
       connected_calls: integer,
+      talk_time_seconds: integer,
+      reviewed_calls: integer,
+      average_qa_score: float | nil,
       total_leads: integer,
       contacted_leads: integer,
       enrolled_leads: integer,
@@ -285,10 +297,21 @@ defmodule EducationCrm.Accounts do
       from c in call_stats_query,
         select: %{
           total_calls: count(c.id),
-          connected_calls: fragment("COUNT(CASE WHEN ? = 'connected' THEN 1 END)", c.outcome)
+          connected_calls: fragment("COUNT(CASE WHEN ? = 'connected' THEN 1 END)", c.outcome),
+          talk_time_seconds: coalesce(sum(c.duration_seconds), 0),
+          reviewed_calls: count(c.qa_reviewed_at),
+          average_qa_score: avg(c.qa_score)
         }
 
-    call_results = Repo.one(call_stats) || %{total_calls: 0, connected_calls: 0}
+    call_results =
+      Repo.one(call_stats) ||
+        %{
+          total_calls: 0,
+          connected_calls: 0,
+          talk_time_seconds: 0,
+          reviewed_calls: 0,
+          average_qa_score: nil
+        }
 
     # Get lead statistics
     lead_stats_query =
@@ -299,17 +322,19 @@ defmodule EducationCrm.Accounts do
       from l in lead_stats_query,
         select: %{
           total_leads: count(l.id),
-          contacted_leads:
-            fragment(
-              "COUNT(CASE WHEN ? IN ('contacted', 'interested', 'not_interested', 'enrolled', 'lost') THEN 1 END)",
-              l.status
-            ),
+          # Every lead starts as "new", so any other stage, including a
+          # branch's own stages, means it has been worked
+          contacted_leads: fragment("COUNT(CASE WHEN ? <> 'new' THEN 1 END)", l.status),
           enrolled_leads: fragment("COUNT(CASE WHEN ? = 'enrolled' THEN 1 END)", l.status)
         }
 
     lead_results =
       Repo.one(lead_stats) || %{total_leads: 0, contacted_leads: 0, enrolled_leads: 0}
 
+    # nil until a manager has reviewed one of the calls
+    average_qa_score =
+      call_results.average_qa_score && Float.round(call_results.average_qa_score, 1)
+
     # Calculate conversion rate
     conversion_rate =
       if lead_results.contacted_leads > 0 do
@@ -321,6 +346,9 @@ defmodule EducationCrm.Accounts do
     %{
       total_calls: call_results.total_calls,
       connected_calls: call_results.connected_calls,
+      talk_time_seconds: call_results.talk_time_seconds,
+      reviewed_calls: call_results.reviewed_calls,
+      average_qa_score: average_qa_score,
       total_leads: lead_results.total_leads,
       contacted_leads: lead_results.contacted_leads,
       enrolled_leads: lead_results.enrolled_leads,
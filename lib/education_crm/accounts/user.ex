@@ -1,6 +1,8 @@
 defmodule EducationCrm.Accounts.User do
   @moduledoc """
-  Schema for users (admins and telecallers).
+  Schema for users (admins, branch managers and telecallers).
+
+  Managers review the recorded calls of their branch's telecallers.
   """
   use Ecto.Schema
   import Ecto.Changeset
@@ -8,7 +10,7 @@ defmodule EducationCrm.Accounts.User do
   @primary_key {:id, :binary_id, autogenerate: true}
   @foreign_key_type :binary_id
 
-  @valid_roles ~w(admin telecaller)
+  @valid_roles ~w(admin manager telecaller)
 
   schema "users" do
     field :username, :string
@@ -37,7 +39,7 @@ defmodule EducationCrm.Accounts.User do
     |> validate_length(:username, min: 3, max: 100)
     |> validate_length(:password, min: 8, max: 100)
     |> validate_inclusion(:role, @valid_roles)
-    |> validate_branch_for_telecaller()
+    |> validate_branch_for_role()
     |> unique_constraint(:username)
     |> hash_password()
   end
@@ -51,7 +53,7 @@ defmodule EducationCrm.Accounts.User do
     |> validate_required([:username, :role])
     |> validate_length(:username, min: 3, max: 100)
     |> validate_inclusion(:role, @valid_roles)
-    |> validate_branch_for_telecaller()
+    |> validate_branch_for_role()
     |> unique_constraint(:username)
   end
 
@@ -66,12 +68,12 @@ defmodule EducationCrm.Accounts.User do
     |> hash_password()
   end
 
-  defp validate_branch_for_telecaller(changeset) do
+  defp validate_branch_for_role(changeset) do
     role = get_field(changeset, :role)
     branch_id = get_field(changeset, :branch_id)
 
-    if role == "telecaller" and is_nil(branch_id) do
-      add_error(changeset, :branch_id, "must be set for telecaller role")
+    if role in ~w(manager telecaller) and is_nil(branch_id) do
+      add_error(changeset, :branch_id, "must be set for #{role} role")
     else
       changeset
     end
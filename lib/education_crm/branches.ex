@@ -6,6 +6,8 @@ defmodule EducationCrm.Branches do
   import Ecto.Query, warn: false
   alias EducationCrm.Repo
   alias EducationCrm.Branches.Branch
+  alias EducationCrm.Leads.Pipeline
+  alias EducationCrm.Reviews
 
   @doc """
   Creates a branch with the given attributes.
@@ -38,7 +40,7 @@ defmodule EducationCrm.Branches do
 
   @doc """
   Updates a branch with the given attributes.
-  Invalidates the branches cache on success.
+  Invalidates the branches, pipeline and review rubric caches on success.
 
   ## Examples
 
@@ -58,6 +60,8 @@ defmodule EducationCrm.Branches do
     case result do
       {:ok, branch} ->
         invalidate_branches_cache()
+        EducationCrm.Cache.delete({:pipeline, branch.id})
+        EducationCrm.Cache.delete({:qa_rubric, branch.id})
         {:ok, branch}
 
       error ->
@@ -143,6 +147,70 @@ defmodule EducationCrm.Branches do
   """
   def get_branch!(id), do: Repo.get!(Branch, id)
 
+  @doc """
+  Returns the lead pipeline stages for a branch, ordered by position.
+  Branches without their own stages (and a nil branch) get the default pipeline.
+  Results are cached for 1 hour (3600 seconds).
+
+  ## Examples
+
+      iex> get_pipeline(branch_id)
+      [%PipelineStage{key: "new"}, ...]
+
+  """
+  def get_pipeline(nil), do: Pipeline.default_stages()
+
+  def get_pipeline(branch_id) do
+    cache_key = {:pipeline, branch_id}
+
+    case EducationCrm.Cache.get(cache_key) do
+      {:ok, stages} ->
+        stages
+
+      {:error, :not_found} ->
+        stages =
+          case Repo.get(Branch, branch_id) do
+            %Branch{pipeline_stages: [_ | _] = stages} -> Enum.sort_by(stages, & &1.position)
+            _ -> Pipeline.default_stages()
+          end
+
+        EducationCrm.Cache.put(cache_key, stages, 3600)
+        stages
+    end
+  end
+
+  @doc """
+  Returns the call review rubric for a branch, ordered by position.
+  Branches without their own rubric (and a nil branch) get the default rubric.
+  Results are cached for 1 hour (3600 seconds).
+
+  ## Examples
+
+      iex> get_qa_rubric(branch_id)
+      [%QaCriterion{key: "greeting"}, ...]
+
+  """
+  def get_qa_rubric(nil), do: Reviews.default_rubric()
+
+  def get_qa_rubric(branch_id) do
+    cache_key = {:qa_rubric, branch_id}
+
+    case EducationCrm.Cache.get(cache_key) do
+      {:ok, rubric} ->
+        rubric
+
+      {:error, :not_found} ->
+        rubric =
+          case Repo.get(Branch, branch_id) do
+            %Branch{qa_rubric: [_ | _] = rubric} -> Enum.sort_by(rubric, & &1.position)
+            _ -> Reviews.default_rubric()
+          end
+
+        EducationCrm.Cache.put(cache_key, rubric, 3600)
+        rubric
+    end
+  end
+
   @doc """
   Returns an `%Ecto.Changeset{}` for tracking branch changes.
 
@@ -13,6 +13,11 @@ defmodule EducationCrm.Branches.Branch do
     field :location, :string
     field :active, :boolean, default: true
 
+    # Lead pipeline for this branch; empty means the default pipeline
+    embeds_many :pipeline_stages, EducationCrm.Branches.PipelineStage, on_replace: :delete
+    # Criteria managers score calls on; empty means the default rubric
+    embeds_many :qa_rubric, EducationCrm.Branches.QaCriterion, on_replace: :delete
+
     has_many :users, EducationCrm.Accounts.User
     has_many :leads, EducationCrm.Leads.Lead
 
@@ -28,5 +33,57 @@ defmodule EducationCrm.Branches.Branch do
     |> validate_required([:name, :location])
     |> validate_length(:name, min: 1, max: 255)
     |> validate_length(:location, min: 1, max: 255)
+    |> cast_embed(:pipeline_stages,
+      sort_param: :pipeline_stages_sort,
+      drop_param: :pipeline_stages_drop
+    )
+    |> validate_pipeline()
+    |> cast_embed(:qa_rubric, sort_param: :qa_rubric_sort, drop_param: :qa_rubric_drop)
+    |> validate_qa_rubric()
+  end
+
+  # Every lead starts as "new", so a custom pipeline must keep that stage, and
+  # transitions may only point at stages in the same pipeline.
+  defp validate_pipeline(changeset) do
+    case get_field(changeset, :pipeline_stages) do
+      [] ->
+        changeset
+
+      stages ->
+        keys = Enum.map(stages, & &1.key)
+
+        unknown =
+          stages
+          |> Enum.flat_map(& &1.transitions)
+          |> Enum.reject(&(&1 in keys))
+          |> Enum.uniq()
+
+        cond do
+          "new" not in keys ->
+            add_error(changeset, :pipeline_stages, "must include a \"new\" stage")
+
+          length(Enum.uniq(keys)) != length(keys) ->
+            add_error(changeset, :pipeline_stages, "stage keys must be unique")
+
+          unknown != [] ->
+            add_error(changeset, :pipeline_stages, "transitions to unknown stages: %{keys}",
+              keys: Enum.join(unknown, ", ")
+            )
+
+          true ->
+            changeset
+        end
+    end
+  end
+
+  # Scores are stored by criterion key, so keys can't repeat
+  defp validate_qa_rubric(changeset) do
+    keys = changeset |> get_field(:qa_rubric) |> Enum.map(& &1.key)
+
+    if length(Enum.uniq(keys)) == length(keys) do
+      changeset
+    else
+      add_error(changeset, :qa_rubric, "criterion keys must be unique")
+    end
   end
 end
@@ -0,0 +1,49 @@
+defmodule EducationCrm.Branches.PipelineStage do
+  @moduledoc """
+  Embedded schema for one stage of a branch's lead pipeline.
+
+  The stage `key` is what gets stored in `leads.status`; `transitions` lists
+  the keys a lead can move to from this stage. A `terminal` (final) stage has
+  no transitions - leads stay in it for good.
+  """
+  use Ecto.Schema
+  import Ecto.Changeset
+
+  @primary_key false
+
+  embedded_schema do
+    field :key, :string
+    field :label, :string
+    field :color, :string
+    field :position, :integer, default: 0
+    field :terminal, :boolean, default: false
+    field :requires_reason, :boolean, default: false
+    field :transitions, {:array, :string}, default: []
+  end
+
+  @doc """
+  Changeset for a pipeline stage.
+  """
+  def changeset(stage, attrs) do
+    stage
+    |> cast(attrs, [:key, :label, :color, :position, :terminal, :requires_reason, :transitions])
+    # Forms send an empty entry so every transition can be unselected
+    |> update_change(:transitions, &Enum.reject(&1, fn key -> key == "" end))
+    |> validate_required([:key, :label, :color])
+    |> validate_format(:key, ~r/^[a-z][a-z0-9_]*$/,
+      message: "must be lowercase letters, numbers and underscores"
+    )
+    |> validate_length(:key, max: 50)
+    |> validate_length(:label, max: 50)
+    |> validate_format(:color, ~r/^#[0-9a-fA-F]{6}$/, message: "must be a hex color like #3b82f6")
+    |> validate_final_stage()
+  end
+
+  defp validate_final_stage(changeset) do
+    if get_field(changeset, :terminal) == true and get_field(changeset, :transitions) != [] do
+      add_error(changeset, :transitions, "must be empty for a final stage")
+    else
+      changeset
+    end
+  end
+end
@@ -0,0 +1,34 @@
+defmodule EducationCrm.Branches.QaCriterion do
+  @moduledoc """
+  Embedded schema for one criterion of a branch's call review rubric.
+
+  Managers score each reviewed call from 0 to `max_score` on every criterion
+  of the rubric.
+  """
+  use Ecto.Schema
+  import Ecto.Changeset
+
+  @primary_key false
+
+  embedded_schema do
+    field :key, :string
+    field :label, :string
+    field :max_score, :integer, default: 5
+    field :position, :integer, default: 0
+  end
+
+  @doc """
+  Changeset for a rubric criterion.
+  """
+  def changeset(criterion, attrs) do
+    criterion
+    |> cast(attrs, [:key, :label, :max_score, :position])
+    |> validate_required([:key, :label, :max_score])
+    |> validate_format(:key, ~r/^[a-z][a-z0-9_]*$/,
+      message: "must be lowercase letters, numbers and underscores"
+    )
+    |> validate_length(:key, max: 50)
+    |> validate_length(:label, max: 50)
+    |> validate_number(:max_score, greater_than: 0, less_than_or_equal_to: 10)
+  end
+end
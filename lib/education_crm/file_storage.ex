@@ -24,7 +24,6 @@ defmodule EducationCrm.FileStorage do
       upload_id: upload_id,
       filename: filename,
       call_log_id: call_log_id,
-      chunks_received: 0,
       created_at: DateTime.utc_now()
     }
 
@@ -37,35 +36,69 @@ defmodule EducationCrm.FileStorage do
   @doc """
   Appends a chunk to an ongoing upload session.
 
+  Chunks are stored by index, so re-sending a chunk after a dropped connection
+  replaces it rather than counting it twice. When a SHA-256 `checksum` (hex) is
+  given the chunk is only stored if it matches.
+
+  `chunks_received` is the number of consecutive chunks stored from index 0,
+  which is where a resumed upload should continue.
+
   ## Examples
 
       iex> append_chunk("upload_id", 0, <<binary_data>>)
       {:ok, %{chunks_received: 1, total_size: 1048576}}
 
+      iex> append_chunk("upload_id", 0, <<binary_data>>, "bad checksum")
+      {:error, :checksum_mismatch}
+
       iex> append_chunk("invalid_id", 0, <<binary_data>>)
       {:error, :upload_not_found}
 
   """
-  def append_chunk(upload_id, chunk_index, chunk_data) do
+  def append_chunk(upload_id, chunk_index, chunk_data, checksum \\ nil) do
     temp_dir = get_temp_upload_dir(upload_id)
     metadata_path = Path.join(temp_dir, "metadata.json")
 
-    if File.exists?(metadata_path) do
-      chunk_path = Path.join(temp_dir, "chunk_#{chunk_index}")
-      File.write!(chunk_path, chunk_data)
+    cond do
+      not File.exists?(metadata_path) ->
+        {:error, :upload_not_found}
 
-      # Update metadata
-      metadata =
-        metadata_path
-        |> File.read!()
-        |> Jason.decode!()
-        |> Map.update!("chunks_received", &(&1 + 1))
+      not checksum_matches?(chunk_data, checksum) ->
+        {:error, :checksum_mismatch}
+
+      true ->
+        # Write then rename so a request cut off mid-write never leaves a partial chunk
+        chunk_path = Path.join(temp_dir, "chunk_#{chunk_index}")
+        File.write!(chunk_path <> ".part", chunk_data)
+        File.rename!(chunk_path <> ".part", chunk_path)
+
+        get_chunked_upload_status(upload_id)
+    end
+  end
+
+  @doc """
+  Returns the progress of an upload session so a client can resume it.
+
+  ## Examples
 
-      File.write!(metadata_path, Jason.encode!(metadata))
+      iex> get_chunked_upload_status("upload_id")
+      {:ok, %{chunks_received: 3, total_size: 3145728}}
 
-      total_size = calculate_upload_size(temp_dir)
+      iex> get_chunked_upload_status("invalid_id")
+      {:error, :upload_not_found}
+
+  """
+  def get_chunked_upload_status(upload_id) do
+    temp_dir = get_temp_upload_dir(upload_id)
 
-      {:ok, %{chunks_received: metadata["chunks_received"], total_size: total_size}}
+    if File.exists?(Path.join(temp_dir, "metadata.json")) do
+      chunks_received = count_consecutive_chunks(temp_dir)
+
+      {:ok,
+       %{
+         chunks_received: chunks_received,
+         total_size: calculate_upload_size(temp_dir, chunks_received)
+       }}
     else
       {:error, :upload_not_found}
     end
@@ -95,7 +128,7 @@ defmodule EducationCrm.FileStorage do
         |> File.read!()
         |> Jason.decode!()
 
-      if metadata["chunks_received"] == expected_chunks do
+      if expected_chunks > 0 and count_consecutive_chunks(temp_dir) >= expected_chunks do
         # Combine chunks into final file
         recordings_dir = get_recordings_dir()
         File.mkdir_p!(recordings_dir)
@@ -109,11 +142,7 @@ defmodule EducationCrm.FileStorage do
         File.open!(final_path, [:write, :binary], fn file ->
           Enum.each(0..(expected_chunks - 1), fn chunk_index ->
             chunk_path = Path.join(temp_dir, "chunk_#{chunk_index}")
-
-            if File.exists?(chunk_path) do
-              chunk_data = File.read!(chunk_path)
-              IO.binwrite(file, chunk_data)
-            end
+            IO.binwrite(file, File.read!(chunk_path))
           end)
         end)
 
@@ -153,6 +182,46 @@ defmodule EducationCrm.FileStorage do
     end
   end
 
+  @doc """
+  Checks a stored file against the SHA-256 (hex) computed on the phone.
+  A nil checksum (older app versions) is not checked.
+
+  ## Examples
+
+      iex> verify_checksum("priv/static/recordings/file.aac", "9f86d0...")
+      :ok
+
+      iex> verify_checksum("priv/static/recordings/file.aac", "0000...")
+      {:error, :checksum_mismatch}
+
+  """
+  def verify_checksum(_file_path, nil), do: :ok
+
+  def verify_checksum(file_path, expected) do
+    if sha256_file(file_path) == String.downcase(expected) do
+      :ok
+    else
+      {:error, :checksum_mismatch}
+    end
+  end
+
+  @doc """
+  Computes the hex SHA-256 of a file without loading it into memory.
+
+  ## Examples
+
+      iex> sha256_file("priv/static/recordings/file.aac")
+      "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+
+  """
+  def sha256_file(file_path) do
+    file_path
+    |> File.stream!([], 65_536)
+    |> Enum.reduce(:crypto.hash_init(:sha256), &:crypto.hash_update(&2, &1))
+    |> :crypto.hash_final()
+    |> Base.encode16(case: :lower)
+  end
+
   @doc """
   Deletes a recording file.
 
@@ -204,14 +273,26 @@ defmodule EducationCrm.FileStorage do
     Application.get_env(:education_crm, :recordings_path, "priv/static/recordings")
   end
 
-  defp calculate_upload_size(temp_dir) do
-    temp_dir
-    |> File.ls!()
-    |> Enum.filter(&String.starts_with?(&1, "chunk_"))
-    |> Enum.reduce(0, fn chunk_file, acc ->
-      chunk_path = Path.join(temp_dir, chunk_file)
-      %{size: size} = File.stat!(chunk_path)
-      acc + size
-    end)
+  defp checksum_matches?(_chunk_data, nil), do: true
+  defp checksum_matches?(_chunk_data, ""), do: true
+
+  defp checksum_matches?(chunk_data, checksum) do
+    :crypto.hash(:sha256, chunk_data) |> Base.encode16(case: :lower) == String.downcase(checksum)
+  end
+
+  defp count_consecutive_chunks(temp_dir) do
+    Stream.iterate(0, &(&1 + 1))
+    |> Enum.find(fn index -> not File.exists?(Path.join(temp_dir, "chunk_#{index}")) end)
+  end
+
+  defp calculate_upload_size(temp_dir, chunk_count) do
+    if chunk_count == 0 do
+      0
+    else
+      Enum.reduce(0..(chunk_count - 1), 0, fn index, acc ->
+        %{size: size} = File.stat!(Path.join(temp_dir, "chunk_#{index}"))
+        acc + size
+      end)
+    end
   end
 end
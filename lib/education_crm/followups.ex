@@ -5,6 +5,7 @@ defmodule EducationCrm.Followups do
 
   import Ecto.Query, warn: false
   alias EducationCrm.Repo
+  alias EducationCrm.Leads
   alias EducationCrm.Leads.Followup
 
   @doc """
@@ -25,9 +26,13 @@ defmodule EducationCrm.Followups do
       |> Map.put(:lead_id, lead_id)
       |> Map.put(:telecaller_id, telecaller_id)
 
-    %Followup{}
-    |> Followup.changeset(attrs_with_ids)
-    |> Repo.insert()
+    with {:ok, followup} <-
+           %Followup{}
+           |> Followup.changeset(attrs_with_ids)
+           |> Repo.insert() do
+      Leads.touch_lead(lead_id)
+      {:ok, followup}
+    end
   end
 
   @doc """
@@ -93,6 +98,34 @@ defmodule EducationCrm.Followups do
     |> Repo.all()
   end
 
+  @doc """
+  Lists follow-ups for a telecaller scheduled within a time range, earliest first.
+
+  Used for the agenda view, so results are not paginated.
+
+  ## Options
+
+    * `:completed` - Filter by completion status (optional)
+
+  ## Examples
+
+      iex> list_followups_between(tc_id, ~U[2024-12-01 00:00:00Z], ~U[2024-12-08 00:00:00Z])
+      [%Followup{}, ...]
+
+      iex> list_followups_between(tc_id, from, to, completed: false)
+      [%Followup{completed: false}, ...]
+
+  """
+  def list_followups_between(telecaller_id, from, to, opts \\ []) do
+    Followup
+    |> where([f], f.telecaller_id == ^telecaller_id)
+    |> where([f], f.scheduled_at >= ^from and f.scheduled_at < ^to)
+    |> filter_by_completed(Keyword.get(opts, :completed))
+    |> order_by([f], asc: f.scheduled_at)
+    |> preload([:lead])
+    |> Repo.all()
+  end
+
   @doc """
   Counts total follow-ups for a telecaller with optional filters.
 
@@ -139,12 +172,98 @@ defmodule EducationCrm.Followups do
         {:error, :not_found}
 
       followup ->
-        followup
-        |> Followup.complete_changeset()
-        |> Repo.update()
+        with {:ok, followup} <-
+               followup
+               |> Followup.complete_changeset()
+               |> Repo.update() do
+          Leads.touch_lead(followup.lead_id)
+          {:ok, followup}
+        end
     end
   end
 
+  @doc """
+  Reschedules or edits an open follow-up.
+
+  ## Examples
+
+      iex> update_followup(followup, %{scheduled_at: ~U[2024-12-02 10:00:00Z], description: "Call after exams"})
+      {:ok, %Followup{}}
+
+      iex> update_followup(completed_followup, %{scheduled_at: ~U[2024-12-02 10:00:00Z]})
+      {:error, %Ecto.Changeset{}}
+
+  """
+  def update_followup(%Followup{} = followup, attrs) do
+    with {:ok, followup} <-
+           followup
+           |> Followup.update_changeset(attrs)
+           |> Repo.update() do
+      Leads.touch_lead(followup.lead_id)
+      {:ok, followup}
+    end
+  end
+
+  @doc """
+  Cancels an open follow-up, recording why.
+
+  ## Examples
+
+      iex> cancel_followup(followup, "Student already enrolled elsewhere")
+      {:ok, %Followup{completed: true, cancel_reason: "Student already enrolled elsewhere"}}
+
+      iex> cancel_followup(followup, nil)
+      {:error, %Ecto.Changeset{}}
+
+  """
+  def cancel_followup(%Followup{} = followup, reason) do
+    with {:ok, followup} <-
+           followup
+           |> Followup.cancel_changeset(reason)
+           |> Repo.update() do
+      Leads.touch_lead(followup.lead_id)
+      {:ok, followup}
+    end
+  end
+
+  @doc """
+  Completes a follow-up and schedules the next one for the same lead in one step.
+
+  Nothing is changed if the next follow-up is invalid.
+
+  ## Examples
+
+      iex> complete_and_schedule_next(followup, %{scheduled_at: ~U[2024-12-08 10:00:00Z]})
+      {:ok, {%Followup{completed: true}, %Followup{completed: false}}}
+
+      iex> complete_and_schedule_next(followup, %{})
+      {:error, %Ecto.Changeset{}}
+
+  """
+  def complete_and_schedule_next(%Followup{} = followup, next_attrs) do
+    Repo.transaction(fn ->
+      completed =
+        case followup |> Followup.complete_changeset() |> Repo.update() do
+          {:ok, completed} -> completed
+          {:error, changeset} -> Repo.rollback(changeset)
+        end
+
+      next_attrs =
+        next_attrs
+        |> Map.put(:lead_id, followup.lead_id)
+        |> Map.put(:telecaller_id, followup.telecaller_id)
+
+      case %Followup{} |> Followup.changeset(next_attrs) |> Repo.insert() do
+        {:ok, next} ->
+          Leads.touch_lead(followup.lead_id)
+          {completed, next}
+
+        {:error, changeset} ->
+          Repo.rollback(changeset)
+      end
+    end)
+  end
+
   @doc """
   Gets upcoming follow-up notifications for the next 24 hours.
 
@@ -5,7 +5,11 @@ defmodule EducationCrm.Leads do
 
   import Ecto.Query, warn: false
   alias EducationCrm.Repo
-  alias EducationCrm.Leads.{Lead, LeadNote, CallLog}
+  alias EducationCrm.Branches
+  alias EducationCrm.Leads.{Lead, LeadNote, CallLog, LeadStatusChange, RecordingDeletion}
+  alias EducationCrm.FileStorage
+  alias EducationCrm.Services.S3Service
+  require Logger
 
   @doc """
   Creates a single lead.
@@ -46,7 +50,7 @@ defmodule EducationCrm.Leads do
   """
   def get_lead(id) do
     Lead
-    |> preload([:notes, :call_logs, :followups, :telecaller, :branch])
+    |> preload([:notes, :call_logs, :followups, :status_changes, :telecaller, :branch])
     |> Repo.get!(id)
   end
 
@@ -64,14 +68,15 @@ defmodule EducationCrm.Leads do
   """
   def get_lead_by(clauses) do
     Lead
-    |> preload([:notes, :call_logs, :followups, :telecaller, :branch])
+    |> preload([:notes, :call_logs, :followups, :status_changes, :telecaller, :branch])
     |> Repo.get_by(clauses)
   end
 
   @doc """
   Updates a lead with telecaller-editable fields.
 
-  Validates that the telecaller owns the lead before updating.
+  Validates that the telecaller owns the lead before updating. A change of
+  status is recorded as a `LeadStatusChange` in the same transaction.
 
   ## Examples
 
@@ -81,20 +86,50 @@ defmodule EducationCrm.Leads do
       iex> update_lead(lead, %{email: "invalid"}, telecaller_id)
       {:error, %Ecto.Changeset{}}
 
+      iex> update_lead(lead, %{status: "lost", status_reason: "fees"}, telecaller_id)
+      {:ok, %Lead{status: "lost"}}
+
       iex> update_lead(lead, %{}, wrong_telecaller_id)
       {:error, :unauthorized}
 
   """
   def update_lead(%Lead{telecaller_id: telecaller_id} = lead, attrs, telecaller_id) do
-    lead
-    |> Lead.telecaller_update_changeset(attrs)
-    |> Repo.update()
+    stages = Branches.get_pipeline(lead.branch_id)
+
+    Repo.transaction(fn ->
+      with {:ok, updated_lead} <-
+             lead |> Lead.telecaller_update_changeset(attrs, stages) |> Repo.update(),
+           :ok <- record_status_change(lead, updated_lead, telecaller_id) do
+        updated_lead
+      else
+        {:error, changeset} -> Repo.rollback(changeset)
+      end
+    end)
   end
 
   def update_lead(_lead, _attrs, _telecaller_id) do
     {:error, :unauthorized}
   end
 
+  defp record_status_change(%Lead{status: status}, %Lead{status: status}, _telecaller_id),
+    do: :ok
+
+  defp record_status_change(%Lead{} = before, %Lead{} = updated, telecaller_id) do
+    attrs = %{
+      lead_id: updated.id,
+      telecaller_id: telecaller_id,
+      from_status: before.status,
+      to_status: updated.status,
+      reason_code: updated.status_reason,
+      reason_note: updated.status_note
+    }
+
+    case %LeadStatusChange{} |> LeadStatusChange.changeset(attrs) |> Repo.insert() do
+      {:ok, _status_change} -> :ok
+      {:error, changeset} -> {:error, changeset}
+    end
+  end
+
   @doc """
   Distributes leads evenly across telecallers using round-robin algorithm.
 
@@ -234,6 +269,72 @@ defmodule EducationCrm.Leads do
     )
   end
 
+  @doc """
+  Lists leads changed after a sync cursor, with notes, call logs, follow-ups and
+  status changes preloaded, for incremental sync to the mobile app.
+
+  Leads are ordered by `updated_at` then `id` so the cursor can resume exactly
+  where the previous page ended, even when many leads share a timestamp.
+
+  ## Options
+
+    * `:telecaller_id` - Filter by telecaller (required)
+    * `:updated_since` - `NaiveDateTime` lower bound (required)
+    * `:after_id` - Lead ID that ended the previous page at `updated_since` (optional)
+    * `:limit` - Maximum leads to return (default: 100)
+
+  ## Examples
+
+      iex> list_leads_updated_since(telecaller_id: tc_id, updated_since: ~N[2024-12-01 10:00:00])
+      [%Lead{notes: [...], call_logs: [...], followups: [...]}, ...]
+
+  """
+  def list_leads_updated_since(opts) do
+    telecaller_id = Keyword.fetch!(opts, :telecaller_id)
+    updated_since = Keyword.fetch!(opts, :updated_since)
+    after_id = Keyword.get(opts, :after_id)
+    limit = Keyword.get(opts, :limit, 100)
+
+    Lead
+    |> where([l], l.telecaller_id == ^telecaller_id)
+    |> after_cursor(updated_since, after_id)
+    |> order_by([l], asc: l.updated_at, asc: l.id)
+    |> limit(^limit)
+    |> preload([:notes, :call_logs, :followups, :status_changes])
+    |> Repo.all()
+  end
+
+  defp after_cursor(query, updated_since, nil) do
+    where(query, [l], l.updated_at > ^updated_since)
+  end
+
+  defp after_cursor(query, updated_since, after_id) do
+    where(
+      query,
+      [l],
+      l.updated_at > ^updated_since or (l.updated_at == ^updated_since and l.id > ^after_id)
+    )
+  end
+
+  @doc """
+  Marks a lead as changed so incremental sync picks up changes to its
+  follow-ups or call logs.
+
+  ## Examples
+
+      iex> touch_lead(lead_id)
+      :ok
+
+  """
+  def touch_lead(lead_id) do
+    now = NaiveDateTime.utc_now() |> NaiveDateTime.truncate(:second)
+
+    from(l in Lead, where: l.id == ^lead_id)
+    |> Repo.update_all(set: [updated_at: now])
+
+    :ok
+  end
+
   @doc """
   Counts total leads for a telecaller with optional filters.
 
@@ -328,30 +429,191 @@ defmodule EducationCrm.Leads do
     end)
   end
 
+  @doc """
+  Updates the outcome and duration of a call log once the call has ended.
+
+  Only the telecaller who logged the call can update it.
+
+  ## Examples
+
+      iex> update_call_log(lead_id, call_log_id, %{outcome: "no_answer", duration_seconds: 0}, telecaller_id)
+      {:ok, %CallLog{}}
+
+      iex> update_call_log(lead_id, call_log_id, %{outcome: "unknown"}, telecaller_id)
+      {:error, %Ecto.Changeset{}}
+
+      iex> update_call_log(lead_id, call_log_id, %{outcome: "busy"}, other_telecaller_id)
+      {:error, :unauthorized}
+
+  """
+  def update_call_log(lead_id, call_log_id, attrs, telecaller_id) do
+    case Repo.get_by(CallLog, id: call_log_id, lead_id: lead_id) do
+      nil ->
+        {:error, :not_found}
+
+      %CallLog{telecaller_id: ^telecaller_id} = call_log ->
+        with {:ok, call_log} <-
+               call_log
+               |> CallLog.disposition_changeset(attrs)
+               |> Repo.update() do
+          touch_lead(lead_id)
+          {:ok, call_log}
+        end
+
+      _call_log ->
+        {:error, :unauthorized}
+    end
+  end
+
   @doc """
   Attaches a recording file path to an existing call log.
 
+  Pass the phone's SHA-256 only once the stored file has been checked against
+  it (see `EducationCrm.FileStorage.verify_checksum/2`); the call log is then
+  marked verified.
+
+  Bookmarks made during the call replace any stored ones; pass nil to keep them.
+
   ## Examples
 
       iex> attach_recording(call_log_id, "/path/to/recording.aac")
       {:ok, %CallLog{}}
 
+      iex> attach_recording(call_log_id, "/path/to/recording.aac", nil, [
+      ...>   %{"offset_seconds" => 42.5, "label" => "Fee discussed"}
+      ...> ])
+      {:ok, %CallLog{bookmarks: [...]}}
+
+      iex> attach_recording(call_log_id, "/path/to/recording.aac", "9f86d0...")
+      {:ok, %CallLog{recording_verified_at: ~U[...]}}
+
       iex> attach_recording(invalid_id, "/path/to/recording.aac")
       {:error, :not_found}
 
   """
-  def attach_recording(call_log_id, file_path) do
+  def attach_recording(call_log_id, file_path, sha256 \\ nil, bookmarks \\ nil) do
     case Repo.get(CallLog, call_log_id) do
       nil ->
         {:error, :not_found}
 
       call_log ->
+        verified_at = if sha256, do: DateTime.utc_now() |> DateTime.truncate(:second)
+
+        attrs = %{
+          recording_path: file_path,
+          recording_sha256: sha256 && String.downcase(sha256),
+          recording_verified_at: verified_at
+        }
+
+        attrs = if is_list(bookmarks), do: Map.put(attrs, :bookmarks, bookmarks), else: attrs
+
         call_log
-        |> CallLog.changeset(%{recording_path: file_path})
+        |> CallLog.recording_changeset(attrs)
         |> Repo.update()
     end
   end
 
+  @doc """
+  Deletes a call's recording and records who deleted it and why.
+
+  The call log keeps its outcome and any review, but loses the recording, its
+  checksum and bookmarks. The audit record and the call log change are saved
+  together; the stored file (local or uploaded) is removed once they are.
+
+  `attrs` holds `"reason_code"` (one of `RecordingDeletion.valid_reasons/0`)
+  and `"reason_note"`, required for "other".
+
+  ## Examples
+
+      iex> delete_recording(call_log, lead, user, %{"reason_code" => "student_request"})
+      {:ok, %RecordingDeletion{}}
+
+      iex> delete_recording(call_log, lead, user, %{"reason_code" => "bored"})
+      {:error, %Ecto.Changeset{}}
+
+  """
+  def delete_recording(%CallLog{recording_path: nil}, _lead, _user, _attrs),
+    do: {:error, :not_found}
+
+  def delete_recording(%CallLog{} = call_log, %Lead{} = lead, user, attrs) do
+    deletion_attrs = %{
+      call_log_id: call_log.id,
+      lead_id: lead.id,
+      branch_id: lead.branch_id,
+      deleted_by_id: user.id,
+      recording_path: call_log.recording_path,
+      recording_sha256: call_log.recording_sha256,
+      reason_code: attrs["reason_code"],
+      reason_note: attrs["reason_note"]
+    }
+
+    result =
+      Repo.transaction(fn ->
+        deletion_changeset = RecordingDeletion.changeset(%RecordingDeletion{}, deletion_attrs)
+
+        with {:ok, deletion} <- Repo.insert(deletion_changeset),
+             {:ok, _call_log} <- Repo.update(CallLog.remove_recording_changeset(call_log)) do
+          deletion
+        else
+          {:error, changeset} -> Repo.rollback(changeset)
+        end
+      end)
+
+    with {:ok, deletion} <- result do
+      remove_recording_file(call_log.recording_path)
+      touch_lead(lead.id)
+      {:ok, deletion}
+    end
+  end
+
+  @doc """
+  Lists recording deletions, newest first, with the lead, call log and user preloaded.
+
+  Accepts options:
+    - :branch_id - only deletions in this branch
+    - :limit - maximum number of deletions (default: 100)
+
+  ## Examples
+
+      iex> list_recording_deletions(branch_id: branch_id)
+      [%RecordingDeletion{}, ...]
+
+  """
+  def list_recording_deletions(opts \\ []) do
+    query =
+      from d in RecordingDeletion,
+        order_by: [desc: d.inserted_at],
+        limit: ^Keyword.get(opts, :limit, 100),
+        preload: [:lead, :branch, :deleted_by, call_log: :telecaller]
+
+    query =
+      case Keyword.get(opts, :branch_id) do
+        nil -> query
+        branch_id -> from d in query, where: d.branch_id == ^branch_id
+      end
+
+    Repo.all(query)
+  end
+
+  # Recordings are either uploaded objects, stored as their URL, or files on this server
+  defp remove_recording_file("http" <> _rest = url) do
+    case S3Service.key_from_url(url) do
+      {:ok, key} -> log_removal_failure(S3Service.delete_object(key), url)
+      :error -> Logger.warning("Deleted recording is not an uploaded object: #{url}")
+    end
+  end
+
+  defp remove_recording_file(path) do
+    log_removal_failure(FileStorage.delete_recording(path), path)
+  end
+
+  # The deletion is already recorded, so a leftover file is logged for cleanup rather than failing
+  defp log_removal_failure(:ok, _path), do: :ok
+
+  defp log_removal_failure({:error, reason}, path) do
+    Logger.error("Failed to remove deleted recording #{path}: #{inspect(reason)}")
+  end
+
   defp update_lead_contact_time(lead_id) do
     from(l in Lead, where: l.id == ^lead_id)
     |> Repo.update_all(
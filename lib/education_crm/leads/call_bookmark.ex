@@ -0,0 +1,28 @@
+defmodule EducationCrm.Leads.CallBookmark do
+  @moduledoc """
+  Embedded schema for a moment the telecaller marked during a recorded call,
+  such as "fee discussed" or "parent joined".
+
+  `offset_seconds` is measured from the start of the call's recording.
+  """
+  use Ecto.Schema
+  import Ecto.Changeset
+
+  @primary_key false
+
+  embedded_schema do
+    field :offset_seconds, :float
+    field :label, :string
+  end
+
+  @doc """
+  Changeset for a bookmark.
+  """
+  def changeset(bookmark, attrs) do
+    bookmark
+    |> cast(attrs, [:offset_seconds, :label])
+    |> validate_required([:offset_seconds, :label])
+    |> validate_number(:offset_seconds, greater_than_or_equal_to: 0)
+    |> validate_length(:label, min: 1, max: 50)
+  end
+end
@@ -9,29 +9,117 @@ defmodule EducationCrm.Leads.CallLog do
   @foreign_key_type :binary_id
 
   @valid_outcomes ~w(connected no_answer busy invalid_number)
+  # Calls logged as they are placed, until the telecaller records how they went
+  @pending_outcome "pending"
+  @valid_directions ~w(outbound inbound)
 
   schema "call_logs" do
     field :outcome, :string
     field :duration_seconds, :integer
+    # Inbound calls are students calling back, matched to the lead by phone number
+    field :direction, :string, default: "outbound"
     field :recording_path, :string
+    # SHA-256 computed on the phone, set once the stored file was checked against it
+    field :recording_sha256, :string
+    field :recording_verified_at, :utc_datetime
+    # Moments marked during the call, uploaded with the recording
+    embeds_many :bookmarks, EducationCrm.Leads.CallBookmark, on_replace: :delete
+
+    # Manager review of the recording, see EducationCrm.Reviews
+    embeds_many :qa_scores, EducationCrm.Reviews.QaScore, on_replace: :delete
+    embeds_many :qa_comments, EducationCrm.Reviews.QaComment, on_replace: :delete
+    field :qa_score, :float
+    field :qa_reviewed_at, :utc_datetime
 
     belongs_to :lead, EducationCrm.Leads.Lead
     belongs_to :telecaller, EducationCrm.Accounts.User
+    belongs_to :qa_reviewer, EducationCrm.Accounts.User
 
     timestamps(updated_at: false)
   end
 
   @doc """
   Changeset for creating a call log.
+  The outcome may be "pending" for a call that has only just been placed.
   """
   def changeset(call_log, attrs) do
     call_log
-    |> cast(attrs, [:outcome, :duration_seconds, :recording_path, :lead_id, :telecaller_id])
+    |> cast(attrs, [
+      :outcome,
+      :duration_seconds,
+      :direction,
+      :recording_path,
+      :lead_id,
+      :telecaller_id
+    ])
     |> validate_required([:outcome, :lead_id, :telecaller_id])
-    |> validate_inclusion(:outcome, @valid_outcomes)
+    |> validate_inclusion(:outcome, [@pending_outcome | @valid_outcomes])
+    |> validate_inclusion(:direction, @valid_directions)
     |> validate_number(:duration_seconds, greater_than_or_equal_to: 0)
     |> validate_length(:recording_path, max: 500)
     |> foreign_key_constraint(:lead_id)
     |> foreign_key_constraint(:telecaller_id)
   end
+
+  @doc """
+  Changeset for attaching an uploaded recording, and its bookmarks, to a call log.
+  """
+  def recording_changeset(call_log, attrs) do
+    call_log
+    |> cast(attrs, [:recording_path, :recording_sha256, :recording_verified_at])
+    |> cast_embed(:bookmarks)
+    |> validate_required([:recording_path])
+    |> validate_length(:recording_path, max: 500)
+    |> validate_format(:recording_sha256, ~r/^[0-9a-f]{64}$/,
+      message: "must be a hex SHA-256 digest"
+    )
+  end
+
+  @doc """
+  Changeset for removing a deleted recording, with its checksum and bookmarks,
+  from a call log. The call itself and any review of it are kept.
+  """
+  def remove_recording_changeset(call_log) do
+    call_log
+    |> change(recording_path: nil, recording_sha256: nil, recording_verified_at: nil)
+    |> put_embed(:bookmarks, [])
+  end
+
+  @doc """
+  Changeset for a manager's review of the call's recording.
+  Scores and comments replace those of an earlier review, and `qa_score` is
+  worked out from the scores as a percentage of their maximum.
+  """
+  def review_changeset(call_log, attrs) do
+    call_log
+    |> cast(attrs, [:qa_reviewed_at, :qa_reviewer_id])
+    |> cast_embed(:qa_scores, required: true)
+    |> cast_embed(:qa_comments)
+    |> validate_required([:qa_reviewed_at, :qa_reviewer_id])
+    |> put_qa_score()
+    |> foreign_key_constraint(:qa_reviewer_id)
+  end
+
+  defp put_qa_score(%Ecto.Changeset{valid?: false} = changeset), do: changeset
+
+  defp put_qa_score(changeset) do
+    scores = get_field(changeset, :qa_scores)
+    total = scores |> Enum.map(& &1.score) |> Enum.sum()
+    max_total = scores |> Enum.map(& &1.max_score) |> Enum.sum()
+
+    put_change(changeset, :qa_score, Float.round(total / max_total * 100, 1))
+  end
+
+  @doc """
+  Changeset for recording the disposition of a call after it ends.
+  Only the outcome and duration can change once a call log exists, and the
+  outcome must be a real one, not "pending".
+  """
+  def disposition_changeset(call_log, attrs) do
+    call_log
+    |> cast(attrs, [:outcome, :duration_seconds])
+    |> validate_required([:outcome])
+    |> validate_inclusion(:outcome, @valid_outcomes)
+    |> validate_number(:duration_seconds, greater_than_or_equal_to: 0)
+  end
 end
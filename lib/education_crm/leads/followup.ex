@@ -1,6 +1,9 @@
 defmodule EducationCrm.Leads.Followup do
   @moduledoc """
   Schema for follow-up tasks.
+
+  A cancelled follow-up is closed like a completed one (`completed` is true) and
+  additionally records `cancelled_at` and `cancel_reason`.
   """
   use Ecto.Schema
   import Ecto.Changeset
@@ -13,6 +16,8 @@ defmodule EducationCrm.Leads.Followup do
     field :description, :string
     field :completed, :boolean, default: false
     field :completed_at, :utc_datetime
+    field :cancelled_at, :utc_datetime
+    field :cancel_reason, :string
 
     belongs_to :lead, EducationCrm.Leads.Lead
     belongs_to :telecaller, EducationCrm.Accounts.User
@@ -43,6 +48,44 @@ defmodule EducationCrm.Leads.Followup do
     |> put_change(:completed_at, DateTime.utc_now() |> DateTime.truncate(:second))
   end
 
+  @doc """
+  Changeset for rescheduling or editing an open follow-up.
+  """
+  def update_changeset(followup, attrs) do
+    followup
+    |> cast(attrs, [:scheduled_at, :description])
+    |> validate_required([:scheduled_at])
+    |> validate_length(:description, max: 1000)
+    |> validate_future_date(:scheduled_at)
+    |> validate_open()
+  end
+
+  @doc """
+  Changeset for cancelling a follow-up with a reason.
+  """
+  def cancel_changeset(followup, reason) do
+    now = DateTime.utc_now() |> DateTime.truncate(:second)
+
+    followup
+    |> change(
+      completed: true,
+      completed_at: now,
+      cancelled_at: now,
+      cancel_reason: reason
+    )
+    |> validate_required([:cancel_reason])
+    |> validate_length(:cancel_reason, max: 500)
+    |> validate_open()
+  end
+
+  defp validate_open(changeset) do
+    if changeset.data.completed do
+      add_error(changeset, :completed, "follow-up is already closed")
+    else
+      changeset
+    end
+  end
+
   defp validate_future_date(changeset, field) do
     case get_change(changeset, field) do
       nil ->
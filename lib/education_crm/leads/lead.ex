@@ -5,6 +5,8 @@ defmodule EducationCrm.Leads.Lead do
   use Ecto.Schema
   import Ecto.Changeset
 
+  alias EducationCrm.Leads.Pipeline
+
   @primary_key {:id, :binary_id, autogenerate: true}
   @foreign_key_type :binary_id
 
@@ -23,12 +25,17 @@ defmodule EducationCrm.Leads.Lead do
     field :last_contacted_at, :utc_datetime
     field :call_count, :integer, default: 0
 
+    # Why the status changed, recorded on the LeadStatusChange rather than the lead
+    field :status_reason, :string, virtual: true
+    field :status_note, :string, virtual: true
+
     belongs_to :telecaller, EducationCrm.Accounts.User
     belongs_to :branch, EducationCrm.Branches.Branch
 
     has_many :notes, EducationCrm.Leads.LeadNote
     has_many :call_logs, EducationCrm.Leads.CallLog
     has_many :followups, EducationCrm.Leads.Followup
+    has_many :status_changes, EducationCrm.Leads.LeadStatusChange
 
     timestamps()
   end
@@ -47,8 +54,12 @@ defmodule EducationCrm.Leads.Lead do
 
   @doc """
   Changeset for telecaller updates - allows updating all editable fields.
+
+  Status changes must follow the transitions of the lead's branch pipeline
+  (see `EducationCrm.Branches.get_pipeline/1`), and moving to a stage marked
+  `requires_reason` needs a `status_reason`.
   """
-  def telecaller_update_changeset(lead, attrs) do
+  def telecaller_update_changeset(lead, attrs, stages \\ Pipeline.default_stages()) do
     lead
     |> cast(attrs, [
       :email,
@@ -57,6 +68,8 @@ defmodule EducationCrm.Leads.Lead do
       :preferred_course,
       :preferred_university,
       :status,
+      :status_reason,
+      :status_note,
       :last_contacted_at,
       :call_count
     ])
@@ -65,7 +78,8 @@ defmodule EducationCrm.Leads.Lead do
     |> validate_length(:city, max: 100)
     |> validate_length(:preferred_course, max: 255)
     |> validate_length(:preferred_university, max: 255)
-    |> validate_inclusion(:status, @valid_statuses)
+    |> validate_inclusion(:status, Pipeline.keys(stages))
+    |> validate_status_transition(stages)
   end
 
   @doc """
@@ -99,6 +113,35 @@ defmodule EducationCrm.Leads.Lead do
     |> validate_inclusion(:status, @valid_statuses)
   end
 
+  defp validate_status_transition(changeset, stages) do
+    from = changeset.data.status
+
+    case get_change(changeset, :status) do
+      nil ->
+        changeset
+
+      to ->
+        changeset
+        |> validate_change(:status, fn :status, _to ->
+          if to in Pipeline.allowed_transitions(stages, from) do
+            []
+          else
+            [status: {"cannot change from %{from} to %{to}", from: from, to: to}]
+          end
+        end)
+        |> validate_status_reason(Pipeline.requires_reason?(stages, to))
+    end
+  end
+
+  defp validate_status_reason(changeset, true = _required) do
+    changeset
+    |> validate_required(:status_reason, message: "is required for this status")
+    |> validate_inclusion(:status_reason, Pipeline.status_reason_codes())
+    |> validate_length(:status_note, max: 500)
+  end
+
+  defp validate_status_reason(changeset, false = _required), do: changeset
+
   defp validate_phone_number(changeset, field) do
     changeset
     |> validate_length(field, max: 20)
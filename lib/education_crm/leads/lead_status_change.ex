@@ -0,0 +1,33 @@
+defmodule EducationCrm.Leads.LeadStatusChange do
+  @moduledoc """
+  Schema recording each change of a lead's status, for the lead's activity history.
+  """
+  use Ecto.Schema
+  import Ecto.Changeset
+
+  @primary_key {:id, :binary_id, autogenerate: true}
+  @foreign_key_type :binary_id
+
+  schema "lead_status_changes" do
+    field :from_status, :string
+    field :to_status, :string
+    field :reason_code, :string
+    field :reason_note, :string
+
+    belongs_to :lead, EducationCrm.Leads.Lead
+    belongs_to :telecaller, EducationCrm.Accounts.User
+
+    timestamps(updated_at: false)
+  end
+
+  @doc """
+  Changeset for recording a status change.
+  """
+  def changeset(status_change, attrs) do
+    status_change
+    |> cast(attrs, [:from_status, :to_status, :reason_code, :reason_note, :lead_id, :telecaller_id])
+    |> validate_required([:to_status, :lead_id, :telecaller_id])
+    |> foreign_key_constraint(:lead_id)
+    |> foreign_key_constraint(:telecaller_id)
+  end
+end
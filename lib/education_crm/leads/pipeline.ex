@@ -0,0 +1,125 @@
+defmodule EducationCrm.Leads.Pipeline do
+  @moduledoc """
+  Lead status pipeline rules.
+
+  A pipeline is an ordered list of `EducationCrm.Branches.PipelineStage`
+  structs. Branches without their own stages use `default_stages/0`.
+  """
+
+  alias EducationCrm.Branches.PipelineStage
+
+  @default_stages [
+    %PipelineStage{
+      key: "new",
+      label: "New",
+      color: "#1e40af",
+      position: 0,
+      transitions: ~w(contacted interested not_interested lost)
+    },
+    %PipelineStage{
+      key: "contacted",
+      label: "Contacted",
+      color: "#92400e",
+      position: 1,
+      transitions: ~w(interested not_interested enrolled lost)
+    },
+    %PipelineStage{
+      key: "interested",
+      label: "Interested",
+      color: "#065f46",
+      position: 2,
+      transitions: ~w(contacted not_interested enrolled lost)
+    },
+    %PipelineStage{
+      key: "not_interested",
+      label: "Not Interested",
+      color: "#991b1b",
+      position: 3,
+      requires_reason: true,
+      transitions: ~w(contacted interested lost)
+    },
+    %PipelineStage{
+      key: "enrolled",
+      label: "Enrolled",
+      color: "#166534",
+      position: 4,
+      terminal: true,
+      transitions: []
+    },
+    %PipelineStage{
+      key: "lost",
+      label: "Lost",
+      color: "#374151",
+      position: 5,
+      requires_reason: true,
+      transitions: ~w(contacted)
+    }
+  ]
+
+  @status_reasons [
+    {"fees", "Fees too high"},
+    {"location", "Location"},
+    {"course_unavailable", "Course not offered"},
+    {"enrolled_elsewhere", "Enrolled elsewhere"},
+    {"no_response", "No response"},
+    {"wrong_number", "Wrong number"},
+    {"other", "Other"}
+  ]
+
+  @doc """
+  Returns the pipeline used by branches that haven't configured their own.
+
+  Nothing goes back to "new" and "enrolled" is final. Lost leads can be
+  reopened as "contacted", so "lost" is not a final stage.
+  """
+  def default_stages, do: @default_stages
+
+  @doc """
+  Returns the accepted status reason codes with their labels.
+  """
+  def status_reasons, do: @status_reasons
+
+  @doc """
+  Returns the accepted status reason codes.
+  """
+  def status_reason_codes, do: Enum.map(@status_reasons, &elem(&1, 0))
+
+  @doc """
+  Returns the stage keys of a pipeline.
+
+  ## Examples
+
+      iex> keys(default_stages())
+      ["new", "contacted", "interested", "not_interested", "enrolled", "lost"]
+
+  """
+  def keys(stages), do: Enum.map(stages, & &1.key)
+
+  @doc """
+  Returns the stage with the given key, or nil.
+  """
+  def get_stage(stages, key), do: Enum.find(stages, &(&1.key == key))
+
+  @doc """
+  Returns the statuses a lead can move to from the given status.
+
+  Leads in a status the pipeline doesn't know (e.g. after a branch renamed
+  its stages) can move to any stage.
+  """
+  def allowed_transitions(stages, status) do
+    case get_stage(stages, status) do
+      %PipelineStage{transitions: transitions} -> transitions
+      nil -> keys(stages)
+    end
+  end
+
+  @doc """
+  Returns true if moving a lead to the given status needs a reason code.
+  """
+  def requires_reason?(stages, status) do
+    case get_stage(stages, status) do
+      %PipelineStage{requires_reason: requires_reason} -> requires_reason
+      nil -> false
+    end
+  end
+end
@@ -0,0 +1,65 @@
+defmodule EducationCrm.Leads.RecordingDeletion do
+  @moduledoc """
+  Schema recording who deleted a call recording and why, so deletions made for
+  student data requests can be accounted for after the file is gone.
+  """
+  use Ecto.Schema
+  import Ecto.Changeset
+
+  @primary_key {:id, :binary_id, autogenerate: true}
+  @foreign_key_type :binary_id
+
+  @valid_reasons ~w(student_request wrong_lead test_call other)
+
+  schema "recording_deletions" do
+    field :recording_path, :string
+    field :recording_sha256, :string
+    field :reason_code, :string
+    field :reason_note, :string
+
+    belongs_to :call_log, EducationCrm.Leads.CallLog
+    belongs_to :lead, EducationCrm.Leads.Lead
+    belongs_to :branch, EducationCrm.Branches.Branch
+    belongs_to :deleted_by, EducationCrm.Accounts.User
+
+    timestamps(updated_at: false)
+  end
+
+  @doc """
+  Returns the reason codes a recording can be deleted for.
+  """
+  def valid_reasons, do: @valid_reasons
+
+  @doc """
+  Changeset for recording a deletion. "other" needs a note explaining it.
+  """
+  def changeset(deletion, attrs) do
+    deletion
+    |> cast(attrs, [
+      :recording_path,
+      :recording_sha256,
+      :reason_code,
+      :reason_note,
+      :call_log_id,
+      :lead_id,
+      :branch_id,
+      :deleted_by_id
+    ])
+    |> validate_required([:recording_path, :reason_code, :branch_id, :deleted_by_id])
+    |> validate_inclusion(:reason_code, @valid_reasons)
+    |> validate_length(:reason_note, max: 1000)
+    |> validate_note_for_other()
+    |> foreign_key_constraint(:call_log_id)
+    |> foreign_key_constraint(:lead_id)
+    |> foreign_key_constraint(:branch_id)
+    |> foreign_key_constraint(:deleted_by_id)
+  end
+
+  defp validate_note_for_other(changeset) do
+    if get_field(changeset, :reason_code) == "other" do
+      validate_required(changeset, [:reason_note], message: "is required for other reasons")
+    else
+      changeset
+    end
+  end
+end
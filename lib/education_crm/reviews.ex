@@ -0,0 +1,159 @@
+defmodule EducationCrm.Reviews do
+  @moduledoc """
+  The Reviews context - branch managers scoring recorded calls against their
+  branch's rubric and leaving time-coded coaching comments.
+
+  Scores and comments are stored on the `EducationCrm.Leads.CallLog`, so the
+  telecaller sees them with the recording.
+  """
+
+  import Ecto.Query, warn: false
+  alias EducationCrm.Repo
+  alias EducationCrm.Accounts.User
+  alias EducationCrm.Branches
+  alias EducationCrm.Branches.QaCriterion
+  alias EducationCrm.Leads.CallLog
+
+  @default_rubric [
+    %QaCriterion{key: "greeting", label: "Greeting", max_score: 5, position: 0},
+    %QaCriterion{key: "needs_discovery", label: "Needs discovery", max_score: 5, position: 1},
+    %QaCriterion{key: "course_pitch", label: "Course pitch", max_score: 5, position: 2},
+    %QaCriterion{key: "closing", label: "Closing", max_score: 5, position: 3}
+  ]
+
+  @default_limit 50
+
+  @doc """
+  Returns the rubric used by branches that haven't configured their own.
+  """
+  def default_rubric, do: @default_rubric
+
+  @doc """
+  Lists recorded calls of a branch's telecallers, newest first.
+  Pass `:all` instead of a branch ID for the calls of every branch.
+
+  Accepts options:
+    - :reviewed - true for reviewed calls only, false for calls awaiting review
+    - :telecaller_id - only calls made by this telecaller
+    - :limit - maximum number of calls (default: 50)
+
+  ## Examples
+
+      iex> list_reviewable_calls(branch_id, reviewed: false)
+      [%CallLog{lead: %Lead{}, telecaller: %User{}}, ...]
+
+  """
+  def list_reviewable_calls(branch_id, opts \\ []) do
+    query =
+      from c in CallLog,
+        join: l in assoc(c, :lead),
+        where: not is_nil(c.recording_path),
+        order_by: [desc: c.inserted_at],
+        limit: ^Keyword.get(opts, :limit, @default_limit),
+        preload: [lead: l, telecaller: []]
+
+    query = in_branch(query, branch_id)
+
+    query =
+      case Keyword.get(opts, :reviewed) do
+        true -> from c in query, where: not is_nil(c.qa_reviewed_at)
+        false -> from c in query, where: is_nil(c.qa_reviewed_at)
+        nil -> query
+      end
+
+    query =
+      case Keyword.get(opts, :telecaller_id) do
+        nil -> query
+        telecaller_id -> from c in query, where: c.telecaller_id == ^telecaller_id
+      end
+
+    Repo.all(query)
+  end
+
+  @doc """
+  Gets a recorded call of a branch, or nil if there is none with that ID in
+  the branch. Pass `:all` instead of a branch ID to look in every branch.
+
+  ## Examples
+
+      iex> get_reviewable_call(branch_id, call_log_id)
+      %CallLog{}
+
+      iex> get_reviewable_call(other_branch_id, call_log_id)
+      nil
+
+  """
+  def get_reviewable_call(branch_id, call_log_id) do
+    with {:ok, uuid} <- Ecto.UUID.cast(call_log_id) do
+      from(c in CallLog,
+        join: l in assoc(c, :lead),
+        where: c.id == ^uuid and not is_nil(c.recording_path),
+        preload: [lead: l, telecaller: []]
+      )
+      |> in_branch(branch_id)
+      |> Repo.one()
+    else
+      :error -> nil
+    end
+  end
+
+  @doc """
+  Saves a manager's review of a call, replacing any earlier review.
+
+  `attrs` holds `"scores"`, a list of `%{"criterion" => key, "score" => n}`
+  with one entry per criterion of the rubric of the lead's branch, and
+  `"comments"`, a list of `%{"offset_seconds" => s, "body" => text}`. The
+  overall score is the percentage of the rubric's maximum.
+
+  ## Examples
+
+      iex> review_call(call_log, manager, %{"scores" => [...], "comments" => [...]})
+      {:ok, %CallLog{qa_score: 85.0}}
+
+      iex> review_call(call_log, manager, %{"scores" => []})
+      {:error, %Ecto.Changeset{}}
+
+  """
+  def review_call(%CallLog{} = call_log, %User{} = reviewer, attrs) do
+    call_log = Repo.preload(call_log, :lead)
+    rubric = Branches.get_qa_rubric(call_log.lead.branch_id)
+    submitted = Map.new(attrs["scores"] || [], &{&1["criterion"], &1["score"]})
+
+    scores =
+      Enum.map(rubric, fn criterion ->
+        %{
+          criterion: criterion.key,
+          label: criterion.label,
+          score: Map.get(submitted, criterion.key),
+          max_score: criterion.max_score
+        }
+      end)
+
+    unknown = Map.keys(submitted) -- Enum.map(rubric, & &1.key)
+
+    call_log
+    |> CallLog.review_changeset(%{
+      qa_scores: scores,
+      qa_comments: attrs["comments"] || [],
+      qa_reviewed_at: DateTime.utc_now() |> DateTime.truncate(:second),
+      qa_reviewer_id: reviewer.id
+    })
+    |> validate_known_criteria(unknown)
+    |> Repo.update()
+  end
+
+  defp in_branch(query, :all), do: query
+
+  defp in_branch(query, branch_id) do
+    from [c, l] in query, where: l.branch_id == ^branch_id
+  end
+
+  # A score for a criterion the rubric doesn't have is a client bug, not something to drop
+  defp validate_known_criteria(changeset, []), do: changeset
+
+  defp validate_known_criteria(changeset, unknown) do
+    Ecto.Changeset.add_error(changeset, :qa_scores, "unknown criteria: %{keys}",
+      keys: Enum.join(unknown, ", ")
+    )
+  end
+end
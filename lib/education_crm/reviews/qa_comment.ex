@@ -0,0 +1,28 @@
+defmodule EducationCrm.Reviews.QaComment do
+  @moduledoc """
+  Embedded schema for a coaching comment a manager left on a recording.
+
+  `offset_seconds` is the playback position the comment refers to, measured
+  from the start of the call's recording.
+  """
+  use Ecto.Schema
+  import Ecto.Changeset
+
+  @primary_key false
+
+  embedded_schema do
+    field :offset_seconds, :float
+    field :body, :string
+  end
+
+  @doc """
+  Changeset for a coaching comment.
+  """
+  def changeset(comment, attrs) do
+    comment
+    |> cast(attrs, [:offset_seconds, :body])
+    |> validate_required([:offset_seconds, :body])
+    |> validate_number(:offset_seconds, greater_than_or_equal_to: 0)
+    |> validate_length(:body, min: 1, max: 1000)
+  end
+end
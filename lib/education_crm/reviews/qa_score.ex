@@ -0,0 +1,42 @@
+defmodule EducationCrm.Reviews.QaScore do
+  @moduledoc """
+  Embedded schema for the score a call got on one rubric criterion.
+
+  The criterion's label and maximum are copied from the rubric at review time,
+  so past reviews still read correctly after a branch changes its rubric.
+  """
+  use Ecto.Schema
+  import Ecto.Changeset
+
+  @primary_key false
+
+  embedded_schema do
+    field :criterion, :string
+    field :label, :string
+    field :score, :integer
+    field :max_score, :integer
+  end
+
+  @doc """
+  Changeset for a criterion score.
+  """
+  def changeset(score, attrs) do
+    score
+    |> cast(attrs, [:criterion, :label, :score, :max_score])
+    |> validate_required([:criterion, :label, :score, :max_score])
+    |> validate_number(:max_score, greater_than: 0)
+    |> validate_number(:score, greater_than_or_equal_to: 0)
+    |> validate_score_within_max()
+  end
+
+  defp validate_score_within_max(changeset) do
+    score = get_field(changeset, :score)
+    max_score = get_field(changeset, :max_score)
+
+    if is_integer(score) and is_integer(max_score) and score > max_score do
+      add_error(changeset, :score, "must be at most %{max}", max: max_score)
+    else
+      changeset
+    end
+  end
+end
@@ -6,8 +6,19 @@ defmodule EducationCrm.Services.S3Service do
   @doc """
   Generates a presigned URL for uploading a file.
   Uses local upload endpoint instead of S3.
+
+  When the file's SHA-256 (hex) is given the upload is rejected unless the
+  body matches it, like S3's `x-amz-checksum-sha256`.
   """
-  def presigned_put_url(key, _content_type) do
+  def presigned_put_url(key, content_type, sha256 \\ nil)
+
+  def presigned_put_url(key, content_type, sha256) when is_binary(sha256) do
+    with {:ok, url} <- presigned_put_url(key, content_type, nil) do
+      {:ok, url <> "?" <> URI.encode_query(%{sha256: sha256})}
+    end
+  end
+
+  def presigned_put_url(key, _content_type, nil) do
     # Ensure upload directory exists
     upload_path = Path.join(:code.priv_dir(:education_crm), "static/uploads")
     File.mkdir_p!(upload_path)
@@ -34,11 +45,82 @@ defmodule EducationCrm.Services.S3Service do
     EducationCrmWeb.Endpoint.url() <> "/uploads/" <> key
   end
 
+  @doc """
+  Returns the hex SHA-256 of a stored object.
+  Keys outside the uploads directory return `{:error, :invalid_key}`.
+  """
+  def object_checksum(key) do
+    with {:ok, path} <- object_path(key) do
+      if File.exists?(path) do
+        {:ok, EducationCrm.FileStorage.sha256_file(path)}
+      else
+        {:error, :not_found}
+      end
+    end
+  end
+
+  @doc """
+  Returns whether a key names an object inside the uploads directory.
+
+  Keys come from clients, so absolute paths and `..` segments are rejected.
+
+  ## Examples
+
+      iex> valid_key?("recordings/lead/call.aac")
+      true
+
+      iex> valid_key?("../../config/prod.exs")
+      false
+  """
+  def valid_key?(key) when is_binary(key) do
+    key != "" and ".." not in Path.split(key) and match?({:ok, _path}, object_path(key))
+  end
+
+  def valid_key?(_key), do: false
+
+  @doc """
+  Returns the key of an object from its public URL, or :error for other URLs.
+  """
+  def key_from_url(url) do
+    prefix = EducationCrmWeb.Endpoint.url() <> "/uploads/"
+
+    case String.split(url, prefix, parts: 2) do
+      ["", key] when key != "" -> if valid_key?(key), do: {:ok, key}, else: :error
+      _ -> :error
+    end
+  end
+
+  @doc """
+  Deletes a stored object. Deleting an object that doesn't exist succeeds.
+  Keys outside the uploads directory return `{:error, :invalid_key}`.
+  """
+  def delete_object(key) do
+    with {:ok, path} <- object_path(key) do
+      case File.rm(path) do
+        :ok -> :ok
+        {:error, :enoent} -> :ok
+        {:error, reason} -> {:error, reason}
+      end
+    end
+  end
+
   @doc """
   Returns the S3 key format.
   """
   def format_key(key), do: "s3:#{key}"
 
+  # Expands the key and checks it still points inside the uploads directory
+  defp object_path(key) do
+    uploads_dir = Path.expand(Path.join(:code.priv_dir(:education_crm), "static/uploads"))
+    path = Path.expand(key, uploads_dir)
+
+    if String.starts_with?(path, uploads_dir <> "/") do
+      {:ok, path}
+    else
+      {:error, :invalid_key}
+    end
+  end
+
   defp bucket do
     System.get_env("AWS_BUCKET_NAME") || "education-crm-uploads"
   end
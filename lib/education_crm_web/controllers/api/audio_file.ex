@@ -0,0 +1,142 @@
+defmodule EducationCrmWeb.Api.AudioFile do
+  @moduledoc """
+  Sends recording files with HTTP Range support, so players can start on the
+  first bytes, seek, and read an MP4 index stored at the end of the file
+  without downloading the whole recording.
+  """
+  import Plug.Conn
+  import Phoenix.Controller, only: [json: 2, redirect: 2]
+
+  @doc """
+  Sends a call log's recording: full URLs (S3 or local uploads) are redirected
+  to, and local files are sent with `send_audio/2`, or 404 when missing.
+  """
+  def send_recording(conn, "http" <> _rest = url), do: redirect(conn, external: url)
+
+  def send_recording(conn, path) do
+    if File.exists?(path) do
+      send_audio(conn, path)
+    else
+      conn
+      |> put_status(:not_found)
+      |> json(%{
+        error: %{
+          code: "NOT_FOUND",
+          message: "Recording file not found"
+        }
+      })
+    end
+  end
+
+  @doc """
+  Sends the file at `file_path`, honouring a `Range: bytes=...` request header.
+
+  Responds 200 with the whole file when no range is requested, 206 with the
+  requested bytes, or 416 when the range can't be satisfied.
+  """
+  def send_audio(conn, file_path) do
+    file_size = File.stat!(file_path).size
+    content_type = content_type(file_path)
+
+    case get_req_header(conn, "range") do
+      [] ->
+        # No range header - send full file
+        conn
+        |> put_resp_content_type(content_type)
+        |> put_resp_header("accept-ranges", "bytes")
+        |> put_resp_header("content-length", to_string(file_size))
+        |> send_file(200, file_path)
+
+      [range_header | _] ->
+        # Parse range header and send partial content
+        case parse_range_header(range_header, file_size) do
+          {:ok, range_start, range_end} ->
+            content_length = range_end - range_start + 1
+
+            conn
+            |> put_resp_content_type(content_type)
+            |> put_resp_header("accept-ranges", "bytes")
+            |> put_resp_header("content-range", "bytes #{range_start}-#{range_end}/#{file_size}")
+            |> put_resp_header("content-length", to_string(content_length))
+            |> send_file(206, file_path, range_start, content_length)
+
+          :error ->
+            conn
+            |> put_status(:requested_range_not_satisfiable)
+            |> put_resp_header("content-range", "bytes */#{file_size}")
+            |> json(%{
+              error: %{
+                code: "INVALID_RANGE",
+                message: "Invalid range request"
+              }
+            })
+        end
+    end
+  end
+
+  @doc """
+  Content type of a recording from its extension.
+  """
+  def content_type(file_path) do
+    case Path.extname(file_path) do
+      ".aac" -> "audio/aac"
+      ".mp3" -> "audio/mpeg"
+      ".m4a" -> "audio/mp4"
+      ".wav" -> "audio/wav"
+      ".ogg" -> "audio/ogg"
+      _ -> "audio/aac"
+    end
+  end
+
+  @doc """
+  Parses a single byte range against a file size.
+
+  Supports `bytes=start-end`, open ended `bytes=start-` and suffix `bytes=-length`
+  ranges. An end past the last byte is clamped to it.
+
+  ## Examples
+
+      iex> parse_range_header("bytes=0-99", 1000)
+      {:ok, 0, 99}
+
+      iex> parse_range_header("bytes=-100", 1000)
+      {:ok, 900, 999}
+
+      iex> parse_range_header("bytes=1000-", 1000)
+      :error
+  """
+  def parse_range_header("bytes=" <> range, file_size) do
+    case String.split(range, "-", parts: 2) do
+      ["", suffix_str] ->
+        case parse_range_value(suffix_str) do
+          suffix when suffix > 0 and file_size > 0 ->
+            {:ok, max(file_size - suffix, 0), file_size - 1}
+
+          _ ->
+            :error
+        end
+
+      [start_str, end_str] ->
+        start = parse_range_value(start_str)
+        end_val = if end_str == "", do: file_size - 1, else: parse_range_value(end_str)
+
+        if start >= 0 and start < file_size and end_val >= start do
+          {:ok, start, min(end_val, file_size - 1)}
+        else
+          :error
+        end
+
+      _ ->
+        :error
+    end
+  end
+
+  def parse_range_header(_, _), do: :error
+
+  defp parse_range_value(str) do
+    case Integer.parse(String.trim(str)) do
+      {num, ""} -> num
+      _ -> -1
+    end
+  end
+end
@@ -7,17 +7,20 @@ defmodule EducationCrmWeb.Api.CallController do
 
   alias EducationCrm.Leads
   alias EducationCrm.FileStorage
+  alias EducationCrmWeb.Api.AudioFile
 
   plug EducationCrmWeb.Plugs.ApiAuth
 
   @doc """
   POST /api/leads/:lead_id/calls
   Logs a call attempt for a lead.
+  Calls logged as they are placed use "pending" until their disposition is recorded.
 
   Request body:
     {
-      "outcome": "connected" | "no_answer" | "busy" | "invalid_number",
-      "duration_seconds": integer (optional)
+      "outcome": "pending" | "connected" | "no_answer" | "busy" | "invalid_number",
+      "duration_seconds": integer (optional),
+      "direction": "outbound" | "inbound" (optional, default "outbound")
     }
 
   Response (201):
@@ -26,6 +29,7 @@ defmodule EducationCrmWeb.Api.CallController do
         "id": "uuid",
         "outcome": "string",
         "duration_seconds": integer,
+        "direction": "string",
         "recording_path": null,
         "inserted_at": "datetime"
       }
@@ -91,6 +95,88 @@ defmodule EducationCrmWeb.Api.CallController do
     end
   end
 
+  @doc """
+  PATCH /api/leads/:lead_id/calls/:id
+  Records the disposition of a call once it has ended.
+
+  Request body:
+    {
+      "outcome": "connected" | "no_answer" | "busy" | "invalid_number",
+      "duration_seconds": integer (optional)
+    }
+
+  Response (200):
+    {
+      "data": {
+        "id": "uuid",
+        "outcome": "string",
+        "duration_seconds": integer,
+        "recording_path": "string" | null,
+        "inserted_at": "datetime"
+      }
+    }
+
+  Response (422):
+    {
+      "error": {
+        "code": "VALIDATION_ERROR",
+        "message": "Validation failed",
+        "details": {...}
+      }
+    }
+  """
+  def update(conn, %{"lead_id" => lead_id, "id" => id} = params) do
+    telecaller_id = conn.assigns.current_telecaller_id
+
+    case verify_lead_access(lead_id, telecaller_id) do
+      {:ok, _lead} ->
+        case Leads.update_call_log(lead_id, id, extract_call_attrs(params), telecaller_id) do
+          {:ok, call_log} ->
+            conn
+            |> put_status(:ok)
+            |> json(%{
+              data: format_call_log(call_log)
+            })
+
+          {:error, :not_found} ->
+            conn
+            |> put_status(:not_found)
+            |> json(%{
+              error: %{
+                code: "NOT_FOUND",
+                message: "Call log not found"
+              }
+            })
+
+          {:error, :unauthorized} ->
+            conn
+            |> put_status(:forbidden)
+            |> json(%{
+              error: %{
+                code: "AUTHORIZATION_ERROR",
+                message: "You are not authorized to update this call log"
+              }
+            })
+
+          {:error, %Ecto.Changeset{} = changeset} ->
+            conn
+            |> put_status(:unprocessable_entity)
+            |> json(%{
+              error: %{
+                code: "VALIDATION_ERROR",
+                message: "Validation failed",
+                details: format_changeset_errors(changeset)
+              }
+            })
+        end
+
+      {:error, status, error} ->
+        conn
+        |> put_status(status)
+        |> json(error)
+    end
+  end
+
   alias EducationCrm.Services.S3Service
 
   @doc """
@@ -100,7 +186,8 @@ defmodule EducationCrmWeb.Api.CallController do
   Request body:
     {
       "filename": "string" (required),
-      "content_type": "string" (optional, default: audio/aac)
+      "content_type": "string" (optional, default: audio/aac),
+      "sha256": "string" (optional, hex SHA-256 the uploaded file must match)
     }
 
   Response (200):
@@ -119,13 +206,14 @@ defmodule EducationCrmWeb.Api.CallController do
       {:ok, _lead} ->
         with {:ok, filename} <- get_required_param(params, "filename") do
           content_type = Map.get(params, "content_type", "audio/aac")
+          sha256 = params["sha256"]
 
           # Generate a unique key
           uuid = Ecto.UUID.generate()
           ext = Path.extname(filename)
           key = "recordings/#{uuid}#{ext}"
 
-          case S3Service.presigned_put_url(key, content_type) do
+          case S3Service.presigned_put_url(key, content_type, sha256) do
             {:ok, upload_url} ->
               public_url = S3Service.get_public_url(key)
 
@@ -171,37 +259,59 @@ defmodule EducationCrmWeb.Api.CallController do
   POST /api/leads/:lead_id/recordings
   Uploads a call recording file with support for chunked uploads.
 
+  Every way of attaching a recording accepts `sha256`, the hex SHA-256 of the
+  recording computed on the phone. The stored file is checked against it and
+  the call log marked verified; a mismatch is rejected with 422
+  CHECKSUM_MISMATCH and the stored file discarded.
+
   For simple upload (multipart/form-data):
     - file: audio file (required)
     - call_log_id: UUID of the call log (required)
+    - sha256: hex SHA-256 of the recording (optional)
+    - bookmarks: list of %{offset_seconds, label} marked during the call (optional)
+
+  For attaching a file uploaded to a presigned URL:
+    - s3_key: key from the presign response (required; keys leaving the uploads
+      directory, e.g. with `..` segments, are rejected with 400)
+    - call_log_id: UUID of the call log (required)
+    - sha256: hex SHA-256 of the recording (optional)
+    - bookmarks: list of %{offset_seconds, label} marked during the call (optional)
 
   For chunked upload initialization:
     - action: "init"
     - filename: original filename (required)
     - call_log_id: UUID of the call log (required)
 
-  For chunked upload append:
+  For chunked upload append (multipart/form-data):
     - action: "append"
     - upload_id: session ID from init (required)
     - chunk_index: zero-based chunk index (required)
-    - chunk: binary chunk data (required)
+    - file: binary chunk data (required; a "chunk" string field is also accepted)
+    - checksum: hex SHA-256 of the chunk (optional; mismatching chunks are rejected)
+
+  For resuming a chunked upload:
+    - action: "status"
+    - upload_id: session ID from init (required)
 
   For chunked upload finalization:
     - action: "finalize"
     - upload_id: session ID from init (required)
     - total_chunks: total number of chunks (required)
     - call_log_id: UUID of the call log (required)
+    - sha256: hex SHA-256 of the whole recording (optional)
+    - bookmarks: list of %{offset_seconds, label} marked during the call (optional)
 
   Response (200):
     {
       "data": {
         "id": "uuid",
         "recording_path": "string",
+        "verified": boolean,
         "message": "Recording uploaded successfully"
       }
     }
 
-  Response (202) for chunk append:
+  Response (202) for chunk append, and (200) for status:
     {
       "data": {
         "upload_id": "string",
@@ -210,6 +320,17 @@ defmodule EducationCrmWeb.Api.CallController do
       }
     }
 
+  `chunks_received` counts consecutive chunks from index 0 - a resumed upload
+  continues at that index.
+
+  Response (422) for a chunk whose checksum doesn't match:
+    {
+      "error": {
+        "code": "CHECKSUM_MISMATCH",
+        "message": "Chunk checksum does not match"
+      }
+    }
+
   Response (201) for init:
     {
       "data": {
@@ -263,8 +384,9 @@ defmodule EducationCrmWeb.Api.CallController do
              {:ok, chunk_index} <- get_required_param(params, "chunk_index"),
              {:ok, chunk_data} <- get_chunk_data(params) do
           chunk_index_int = parse_integer(chunk_index)
+          checksum = params["checksum"]
 
-          case FileStorage.append_chunk(upload_id, chunk_index_int, chunk_data) do
+          case FileStorage.append_chunk(upload_id, chunk_index_int, chunk_data, checksum) do
             {:ok, status} ->
               conn
               |> put_status(:accepted)
@@ -272,6 +394,59 @@ defmodule EducationCrmWeb.Api.CallController do
                 data: Map.put(status, :upload_id, upload_id)
               })
 
+            {:error, :checksum_mismatch} ->
+              conn
+              |> put_status(:unprocessable_entity)
+              |> json(%{
+                error: %{
+                  code: "CHECKSUM_MISMATCH",
+                  message: "Chunk checksum does not match"
+                }
+              })
+
+            {:error, :upload_not_found} ->
+              conn
+              |> put_status(:not_found)
+              |> json(%{
+                error: %{
+                  code: "NOT_FOUND",
+                  message: "Upload session not found"
+                }
+              })
+          end
+        else
+          {:error, field} ->
+            conn
+            |> put_status(:bad_request)
+            |> json(%{
+              error: %{
+                code: "VALIDATION_ERROR",
+                message: "#{field} is required"
+              }
+            })
+        end
+
+      {:error, status, error} ->
+        conn
+        |> put_status(status)
+        |> json(error)
+    end
+  end
+
+  def upload_recording(conn, %{"lead_id" => lead_id, "action" => "status"} = params) do
+    telecaller_id = conn.assigns.current_telecaller_id
+
+    case verify_lead_access(lead_id, telecaller_id) do
+      {:ok, _lead} ->
+        with {:ok, upload_id} <- get_required_param(params, "upload_id") do
+          case FileStorage.get_chunked_upload_status(upload_id) do
+            {:ok, status} ->
+              conn
+              |> put_status(:ok)
+              |> json(%{
+                data: Map.put(status, :upload_id, upload_id)
+              })
+
             {:error, :upload_not_found} ->
               conn
               |> put_status(:not_found)
@@ -313,7 +488,7 @@ defmodule EducationCrmWeb.Api.CallController do
 
           case FileStorage.finalize_chunked_upload(upload_id, total_chunks_int) do
             {:ok, file_path} ->
-              handle_recording_attachment(conn, call_log_id, file_path)
+              handle_verified_attachment(conn, call_log_id, file_path, params["sha256"])
 
             {:error, :upload_not_found} ->
               conn
@@ -354,15 +529,21 @@ defmodule EducationCrmWeb.Api.CallController do
     end
   end
 
-  def upload_recording(conn, %{"lead_id" => lead_id, "call_log_id" => call_log_id, "s3_key" => s3_key}) do
+  def upload_recording(
+        conn,
+        %{"lead_id" => lead_id, "call_log_id" => call_log_id, "s3_key" => s3_key} = params
+      ) do
     telecaller_id = conn.assigns.current_telecaller_id
+    sha256 = params["sha256"]
 
     case verify_lead_access(lead_id, telecaller_id) do
       {:ok, _lead} ->
-        # For S3 uploads, store the public URL
-        # In development, this will be a local URL; in production, an S3 URL
-        file_path = S3Service.get_public_url(s3_key)
-        handle_recording_attachment(conn, call_log_id, file_path)
+        # The key names a file on this server, so keys escaping the uploads dir are refused
+        if S3Service.valid_key?(s3_key) do
+          attach_s3_recording(conn, call_log_id, s3_key, sha256)
+        else
+          render_invalid_s3_key(conn)
+        end
 
       {:error, status, error} ->
         conn
@@ -378,7 +559,7 @@ defmodule EducationCrmWeb.Api.CallController do
       {:ok, _lead} ->
         case params["file"] do
           %Plug.Upload{} = upload ->
-            handle_simple_upload(conn, call_log_id, upload)
+            handle_simple_upload(conn, call_log_id, upload, params["sha256"])
 
           nil ->
             conn
@@ -448,24 +629,8 @@ defmodule EducationCrmWeb.Api.CallController do
               }
             })
 
-          %{recording_path: "http" <> _rest = url} ->
-            # It's already a full URL (from S3 or local uploads), redirect to it
-            redirect(conn, external: url)
-
           %{recording_path: path} ->
-            # It's a local file path
-            if File.exists?(path) do
-              stream_recording(conn, path)
-            else
-              conn
-              |> put_status(:not_found)
-              |> json(%{
-                error: %{
-                  code: "NOT_FOUND",
-                  message: "Recording file not found"
-                }
-              })
-            end
+            AudioFile.send_recording(conn, path)
         end
 
       {:error, status, error} ->
@@ -475,84 +640,80 @@ defmodule EducationCrmWeb.Api.CallController do
     end
   end
 
-  defp stream_recording(conn, file_path) do
-    file_stat = File.stat!(file_path)
-    file_size = file_stat.size
+  @doc """
+  DELETE /api/leads/:lead_id/recordings/:recording_id
+  Deletes a call recording and records who deleted it and why.
 
-    content_type = determine_content_type(file_path)
+  Allowed for managers of the lead's branch and for admins; telecallers can't
+  delete recordings, even of their own calls. The call log stays, without its
+  recording and bookmarks.
 
-    case get_req_header(conn, "range") do
-      [] ->
-        # No range header - send full file
-        conn
-        |> put_resp_content_type(content_type)
-        |> put_resp_header("accept-ranges", "bytes")
-        |> put_resp_header("content-length", to_string(file_size))
-        |> send_file(200, file_path)
+  Request body:
+    {
+      "reason_code": "student_request" | "wrong_lead" | "test_call" | "other",
+      "reason_note": "string" (required for "other")
+    }
 
-      [range_header] ->
-        # Parse range header and send partial content
-        case parse_range_header(range_header, file_size) do
-          {:ok, range_start, range_end} ->
-            content_length = range_end - range_start + 1
+  Response (200):
+    {
+      "data": {
+        "id": "uuid",
+        "call_log_id": "uuid",
+        "reason_code": "string",
+        "deleted_at": "datetime"
+      }
+    }
+
+  Response (404): Recording not found
+  Response (403): Not authorized
+  Response (422): Missing or invalid reason
+  """
+  def delete_recording(conn, %{"lead_id" => lead_id, "recording_id" => recording_id} = params) do
+    user = conn.assigns.current_user
 
+    case verify_recording_delete_access(lead_id, user) do
+      {:ok, lead} ->
+        call_log = Enum.find(lead.call_logs || [], fn cl -> cl.id == recording_id end)
+
+        case call_log && Leads.delete_recording(call_log, lead, user, params) do
+          {:ok, deletion} ->
             conn
-            |> put_resp_content_type(content_type)
-            |> put_resp_header("accept-ranges", "bytes")
-            |> put_resp_header("content-range", "bytes #{range_start}-#{range_end}/#{file_size}")
-            |> put_resp_header("content-length", to_string(content_length))
-            |> send_file(206, file_path, range_start, content_length)
+            |> put_status(:ok)
+            |> json(%{
+              data: %{
+                id: deletion.id,
+                call_log_id: deletion.call_log_id,
+                reason_code: deletion.reason_code,
+                deleted_at: deletion.inserted_at
+              }
+            })
 
-          :error ->
+          {:error, %Ecto.Changeset{} = changeset} ->
             conn
-            |> put_status(:requested_range_not_satisfiable)
-            |> put_resp_header("content-range", "bytes */#{file_size}")
+            |> put_status(:unprocessable_entity)
             |> json(%{
               error: %{
-                code: "INVALID_RANGE",
-                message: "Invalid range request"
+                code: "VALIDATION_ERROR",
+                message: "Validation failed",
+                details: format_changeset_errors(changeset)
               }
             })
-        end
-    end
-  end
 
-  defp determine_content_type(file_path) do
-    case Path.extname(file_path) do
-      ".aac" -> "audio/aac"
-      ".mp3" -> "audio/mpeg"
-      ".m4a" -> "audio/mp4"
-      ".wav" -> "audio/wav"
-      ".ogg" -> "audio/ogg"
-      _ -> "audio/aac"
-    end
-  end
-
-  defp parse_range_header("bytes=" <> range, file_size) do
-    case String.split(range, "-", parts: 2) do
-      [start_str, end_str] ->
-        start = parse_range_value(start_str, 0)
-        end_val = parse_range_value(end_str, file_size - 1)
-
-        if start >= 0 and end_val >= start and end_val < file_size do
-          {:ok, start, end_val}
-        else
-          :error
+          _not_found ->
+            conn
+            |> put_status(:not_found)
+            |> json(%{
+              error: %{
+                code: "NOT_FOUND",
+                message: "Recording not found"
+              }
+            })
         end
 
-      _ ->
-        :error
-    end
-  end
-
-  defp parse_range_header(_, _), do: :error
-
-  defp parse_range_value("", default), do: default
-
-  defp parse_range_value(str, _default) do
-    case Integer.parse(str) do
-      {num, _} -> num
-      :error -> -1
+      {:error, status, error} ->
+        conn
+        |> put_status(status)
+        |> json(error)
     end
   end
 
@@ -575,6 +736,13 @@ defmodule EducationCrmWeb.Api.CallController do
         attrs
       end
 
+    attrs =
+      if params["direction"] do
+        Map.put(attrs, :direction, params["direction"])
+      else
+        attrs
+      end
+
     attrs
   end
 
@@ -604,6 +772,41 @@ defmodule EducationCrmWeb.Api.CallController do
     end
   end
 
+  # Recordings back verification and call reviews, so only managers of the
+  # lead's branch and admins may delete them, never the telecaller who made them
+  defp verify_recording_delete_access(lead_id, %{role: role} = user)
+       when role in ["manager", "admin"] do
+    case Leads.get_lead_by(id: lead_id) do
+      nil ->
+        {:error, :not_found,
+         %{
+           error: %{
+             code: "NOT_FOUND",
+             message: "Lead not found"
+           }
+         }}
+
+      %{branch_id: branch_id} = lead
+      when role == "admin" or (not is_nil(branch_id) and branch_id == user.branch_id) ->
+        {:ok, lead}
+
+      _other_branch ->
+        recording_delete_forbidden()
+    end
+  end
+
+  defp verify_recording_delete_access(_lead_id, _user), do: recording_delete_forbidden()
+
+  defp recording_delete_forbidden do
+    {:error, :forbidden,
+     %{
+       error: %{
+         code: "AUTHORIZATION_ERROR",
+         message: "Only branch managers can delete recordings"
+       }
+     }}
+  end
+
   defp get_required_param(params, key) do
     case params[key] do
       nil -> {:error, key}
@@ -623,10 +826,10 @@ defmodule EducationCrmWeb.Api.CallController do
   defp parse_integer(value) when is_integer(value), do: value
   defp parse_integer(value) when is_binary(value), do: String.to_integer(value)
 
-  defp handle_simple_upload(conn, call_log_id, upload) do
+  defp handle_simple_upload(conn, call_log_id, upload, sha256) do
     case FileStorage.save_recording(upload, call_log_id) do
       {:ok, file_path} ->
-        handle_recording_attachment(conn, call_log_id, file_path)
+        handle_verified_attachment(conn, call_log_id, file_path, sha256)
 
       {:error, reason} ->
         conn
@@ -640,15 +843,84 @@ defmodule EducationCrmWeb.Api.CallController do
     end
   end
 
-  defp handle_recording_attachment(conn, call_log_id, file_path) do
-    case Leads.attach_recording(call_log_id, file_path) do
-      {:ok, _call_log} ->
+  # Attaches a file stored on this server once it matches the phone's checksum;
+  # a corrupted file is deleted so the client uploads it again
+  defp handle_verified_attachment(conn, call_log_id, file_path, sha256) do
+    case FileStorage.verify_checksum(file_path, sha256) do
+      :ok ->
+        handle_recording_attachment(conn, call_log_id, file_path, sha256)
+
+      {:error, :checksum_mismatch} ->
+        FileStorage.delete_recording(file_path)
+        render_checksum_mismatch(conn)
+    end
+  end
+
+  defp attach_s3_recording(conn, call_log_id, s3_key, sha256) do
+    # For S3 uploads, store the public URL
+    # In development, this will be a local URL; in production, an S3 URL
+    file_path = S3Service.get_public_url(s3_key)
+
+    case verify_s3_checksum(s3_key, sha256) do
+      :ok ->
+        handle_recording_attachment(conn, call_log_id, file_path, sha256)
+
+      {:error, :checksum_mismatch} ->
+        render_checksum_mismatch(conn)
+
+      {:error, :invalid_key} ->
+        render_invalid_s3_key(conn)
+    end
+  end
+
+  defp render_invalid_s3_key(conn) do
+    conn
+    |> put_status(:bad_request)
+    |> json(%{
+      error: %{
+        code: "VALIDATION_ERROR",
+        message: "s3_key is invalid"
+      }
+    })
+  end
+
+  defp verify_s3_checksum(_s3_key, nil), do: :ok
+
+  defp verify_s3_checksum(s3_key, sha256) do
+    expected = String.downcase(sha256)
+
+    # Checksums are only read for objects inside the uploads directory
+    case S3Service.object_checksum(s3_key) do
+      {:ok, ^expected} -> :ok
+      {:error, :invalid_key} -> {:error, :invalid_key}
+      _ -> {:error, :checksum_mismatch}
+    end
+  end
+
+  defp render_checksum_mismatch(conn) do
+    conn
+    |> put_status(:unprocessable_entity)
+    |> json(%{
+      error: %{
+        code: "CHECKSUM_MISMATCH",
+        message: "Recording does not match the checksum computed on the device"
+      }
+    })
+  end
+
+  defp handle_recording_attachment(conn, call_log_id, file_path, sha256) do
+    # Sent with the attach or finalize request, alongside the recording itself
+    bookmarks = conn.params["bookmarks"]
+
+    case Leads.attach_recording(call_log_id, file_path, sha256, bookmarks) do
+      {:ok, call_log} ->
         conn
         |> put_status(:ok)
         |> json(%{
           data: %{
             id: call_log_id,
             recording_path: file_path,
+            verified: not is_nil(call_log.recording_verified_at),
             message: "Recording uploaded successfully"
           }
         })
@@ -685,7 +957,16 @@ defmodule EducationCrmWeb.Api.CallController do
       id: call_log.id,
       outcome: call_log.outcome,
       duration_seconds: call_log.duration_seconds,
+      direction: call_log.direction,
       recording_path: call_log.recording_path,
+      recording_sha256: call_log.recording_sha256,
+      recording_verified_at: call_log.recording_verified_at,
+      bookmarks: Enum.map(call_log.bookmarks, &Map.take(&1, [:offset_seconds, :label])),
+      qa_score: call_log.qa_score,
+      qa_reviewed_at: call_log.qa_reviewed_at,
+      qa_scores:
+        Enum.map(call_log.qa_scores, &Map.take(&1, [:criterion, :label, :score, :max_score])),
+      qa_comments: Enum.map(call_log.qa_comments, &Map.take(&1, [:offset_seconds, :body])),
       inserted_at: call_log.inserted_at
     }
   end
@@ -1,7 +1,7 @@
 defmodule EducationCrmWeb.Api.FollowupController do
   @moduledoc """
   API controller for follow-up management.
-  Handles listing, creating, and completing follow-up tasks.
+  Handles listing, creating, rescheduling, completing and cancelling follow-up tasks.
   """
   use EducationCrmWeb, :controller
 
@@ -11,6 +11,9 @@ defmodule EducationCrmWeb.Api.FollowupController do
 
   plug EducationCrmWeb.Plugs.ApiAuth
 
+  # Longest range the agenda can request at once
+  @max_range_days 31
+
   @doc """
   GET /api/followups
   Lists follow-ups for the authenticated telecaller with pagination.
@@ -18,6 +21,9 @@ defmodule EducationCrmWeb.Api.FollowupController do
   Query parameters:
     - due_only: "true" to show only due/overdue followups (default: false)
     - completed: "true" or "false" to filter by completion status (optional)
+    - status: "pending" or "completed", same as completed (optional)
+    - from, to: ISO8601 datetimes to list followups scheduled in [from, to),
+      earliest first and unpaginated (optional, range up to 31 days)
     - page: Page number (default: 1)
     - per_page: Results per page (default: 50, max: 100)
 
@@ -33,6 +39,8 @@ defmodule EducationCrmWeb.Api.FollowupController do
           "description": "string",
           "completed": boolean,
           "completed_at": "datetime",
+          "cancelled_at": "datetime",
+          "cancel_reason": "string",
           "is_overdue": boolean,
           "inserted_at": "datetime",
           "updated_at": "datetime"
@@ -44,7 +52,43 @@ defmodule EducationCrmWeb.Api.FollowupController do
         "total": integer
       }
     }
+
+  Response (400, invalid from/to):
+    {
+      "error": {
+        "code": "VALIDATION_ERROR",
+        "message": "from and to must be ISO8601 datetimes at most 31 days apart"
+      }
+    }
   """
+  def index(conn, %{"from" => from, "to" => to} = params) do
+    telecaller_id = conn.assigns.current_telecaller_id
+
+    case parse_range(from, to) do
+      {:ok, from, to} ->
+        followups =
+          Followups.list_followups_between(telecaller_id, from, to,
+            completed: parse_completed(params)
+          )
+
+        conn
+        |> put_status(:ok)
+        |> json(%{
+          data: Enum.map(followups, &format_followup/1)
+        })
+
+      :error ->
+        conn
+        |> put_status(:bad_request)
+        |> json(%{
+          error: %{
+            code: "VALIDATION_ERROR",
+            message: "from and to must be ISO8601 datetimes at most 31 days apart"
+          }
+        })
+    end
+  end
+
   def index(conn, params) do
     telecaller_id = conn.assigns.current_telecaller_id
     due_only = params["due_only"] == "true"
@@ -63,12 +107,7 @@ defmodule EducationCrmWeb.Api.FollowupController do
       page = parse_int(params["page"], 1)
       per_page = min(parse_int(params["per_page"], 50), 100)
 
-      completed =
-        case params["completed"] do
-          "true" -> true
-          "false" -> false
-          _ -> nil
-        end
+      completed = parse_completed(params)
 
       opts = [
         telecaller_id: telecaller_id,
@@ -203,16 +242,38 @@ defmodule EducationCrmWeb.Api.FollowupController do
 
   @doc """
   PATCH /api/followups/:id
-  Marks a follow-up as completed.
+  Reschedules, edits or completes a follow-up.
+
+  Request body (reschedule/edit - any of):
+    {
+      "scheduled_at": "datetime",
+      "description": "string"
+    }
+
+  Request body (complete - an empty body also completes):
+    {
+      "completed": true
+    }
+
+  Request body (complete and schedule the next follow-up):
+    {
+      "completed": true,
+      "next_followup": {
+        "scheduled_at": "datetime",
+        "description": "string"
+      }
+    }
 
   Response (200):
     {
       "data": {
         "id": "uuid",
-        "completed": true,
+        "scheduled_at": "datetime",
+        "completed": boolean,
         "completed_at": "datetime",
         ...
-      }
+      },
+      "next_followup": {...}  // only when next_followup was given
     }
 
   Response (404):
@@ -230,44 +291,130 @@ defmodule EducationCrmWeb.Api.FollowupController do
         "message": "You are not authorized to update this follow-up"
       }
     }
+
+  Response (422):
+    {
+      "error": {
+        "code": "VALIDATION_ERROR",
+        "message": "Validation failed",
+        "details": {...}
+      }
+    }
   """
-  def update(conn, %{"id" => id}) do
+  def update(conn, %{"id" => id} = params) do
     telecaller_id = conn.assigns.current_telecaller_id
 
     # Get followup and verify ownership
     case get_followup_with_auth(id, telecaller_id) do
-      {:ok, _followup} ->
-        case Followups.complete_followup(id) do
-          {:ok, updated_followup} ->
-            # Reload with associations
-            updated_followup = Repo.preload(updated_followup, [:lead])
-
-            conn
-            |> put_status(:ok)
-            |> json(%{
-              data: format_followup(updated_followup)
-            })
-
-          {:error, :not_found} ->
-            conn
-            |> put_status(:not_found)
-            |> json(%{
-              error: %{
-                code: "NOT_FOUND",
-                message: "Follow-up not found"
-              }
-            })
+      {:ok, followup} ->
+        cond do
+          edit_request?(params) ->
+            case Followups.update_followup(followup, extract_followup_attrs(params)) do
+              {:ok, updated_followup} ->
+                render_followup(conn, updated_followup)
+
+              {:error, %Ecto.Changeset{} = changeset} ->
+                render_validation_error(conn, "Validation failed", changeset)
+            end
+
+          is_map(params["next_followup"]) ->
+            next_attrs = extract_followup_attrs(params["next_followup"])
+
+            case Followups.complete_and_schedule_next(followup, next_attrs) do
+              {:ok, {completed_followup, next_followup}} ->
+                conn
+                |> put_status(:ok)
+                |> json(%{
+                  data: format_followup(Repo.preload(completed_followup, [:lead])),
+                  next_followup: format_followup(Repo.preload(next_followup, [:lead]))
+                })
+
+              {:error, %Ecto.Changeset{} = changeset} ->
+                render_validation_error(conn, "Failed to schedule next follow-up", changeset)
+            end
+
+          true ->
+            complete(conn, id)
+        end
+
+      {:error, :not_found} ->
+        conn
+        |> put_status(:not_found)
+        |> json(%{
+          error: %{
+            code: "NOT_FOUND",
+            message: "Follow-up not found"
+          }
+        })
+
+      {:error, :unauthorized} ->
+        conn
+        |> put_status(:forbidden)
+        |> json(%{
+          error: %{
+            code: "AUTHORIZATION_ERROR",
+            message: "You are not authorized to update this follow-up"
+          }
+        })
+    end
+  end
+
+  @doc """
+  DELETE /api/followups/:id
+  Cancels a follow-up. The follow-up is kept in the lead's history with the reason.
+
+  Request body:
+    {
+      "reason": "string"
+    }
+
+  Response (200):
+    {
+      "data": {
+        "id": "uuid",
+        "completed": true,
+        "cancelled_at": "datetime",
+        "cancel_reason": "string",
+        ...
+      }
+    }
+
+  Response (404):
+    {
+      "error": {
+        "code": "NOT_FOUND",
+        "message": "Follow-up not found"
+      }
+    }
+
+  Response (403):
+    {
+      "error": {
+        "code": "AUTHORIZATION_ERROR",
+        "message": "You are not authorized to cancel this follow-up"
+      }
+    }
+
+  Response (422):
+    {
+      "error": {
+        "code": "VALIDATION_ERROR",
+        "message": "Failed to cancel follow-up",
+        "details": {...}
+      }
+    }
+  """
+  def delete(conn, %{"id" => id} = params) do
+    telecaller_id = conn.assigns.current_telecaller_id
+
+    case get_followup_with_auth(id, telecaller_id) do
+      {:ok, followup} ->
+        case Followups.cancel_followup(followup, params["reason"]) do
+          {:ok, cancelled_followup} ->
+            render_followup(conn, cancelled_followup)
 
           {:error, %Ecto.Changeset{} = changeset} ->
-            conn
-            |> put_status(:unprocessable_entity)
-            |> json(%{
-              error: %{
-                code: "VALIDATION_ERROR",
-                message: "Failed to complete follow-up",
-                details: format_changeset_errors(changeset)
-              }
-            })
+            render_validation_error(conn, "Failed to cancel follow-up", changeset)
         end
 
       {:error, :not_found} ->
@@ -286,7 +433,7 @@ defmodule EducationCrmWeb.Api.FollowupController do
         |> json(%{
           error: %{
             code: "AUTHORIZATION_ERROR",
-            message: "You are not authorized to update this follow-up"
+            message: "You are not authorized to cancel this follow-up"
           }
         })
     end
@@ -294,6 +441,55 @@ defmodule EducationCrmWeb.Api.FollowupController do
 
   # Private helper functions
 
+  defp complete(conn, id) do
+    case Followups.complete_followup(id) do
+      {:ok, updated_followup} ->
+        render_followup(conn, updated_followup)
+
+      {:error, :not_found} ->
+        conn
+        |> put_status(:not_found)
+        |> json(%{
+          error: %{
+            code: "NOT_FOUND",
+            message: "Follow-up not found"
+          }
+        })
+
+      {:error, %Ecto.Changeset{} = changeset} ->
+        render_validation_error(conn, "Failed to complete follow-up", changeset)
+    end
+  end
+
+  # Anything other than a completion that changes the schedule or description
+  defp edit_request?(params) do
+    params["completed"] not in [true, "true"] and
+      (Map.has_key?(params, "scheduled_at") or Map.has_key?(params, "description"))
+  end
+
+  defp render_followup(conn, followup) do
+    # Reload with associations
+    followup = Repo.preload(followup, [:lead])
+
+    conn
+    |> put_status(:ok)
+    |> json(%{
+      data: format_followup(followup)
+    })
+  end
+
+  defp render_validation_error(conn, message, changeset) do
+    conn
+    |> put_status(:unprocessable_entity)
+    |> json(%{
+      error: %{
+        code: "VALIDATION_ERROR",
+        message: message,
+        details: format_changeset_errors(changeset)
+      }
+    })
+  end
+
   defp parse_int(nil, default), do: default
 
   defp parse_int(value, default) when is_binary(value) do
@@ -305,6 +501,23 @@ defmodule EducationCrmWeb.Api.FollowupController do
 
   defp parse_int(value, _default) when is_integer(value), do: value
 
+  defp parse_completed(%{"completed" => "true"}), do: true
+  defp parse_completed(%{"completed" => "false"}), do: false
+  defp parse_completed(%{"status" => "completed"}), do: true
+  defp parse_completed(%{"status" => "pending"}), do: false
+  defp parse_completed(_params), do: nil
+
+  defp parse_range(from, to) do
+    with {:ok, from, _offset} <- DateTime.from_iso8601(from),
+         {:ok, to, _offset} <- DateTime.from_iso8601(to),
+         :lt <- DateTime.compare(from, to),
+         true <- DateTime.diff(to, from, :day) <= @max_range_days do
+      {:ok, from, to}
+    else
+      _ -> :error
+    end
+  end
+
   defp get_followup_with_auth(id, telecaller_id) do
     alias EducationCrm.Leads.Followup
 
@@ -357,6 +570,8 @@ defmodule EducationCrmWeb.Api.FollowupController do
       description: followup.description,
       completed: followup.completed,
       completed_at: followup.completed_at,
+      cancelled_at: followup.cancelled_at,
+      cancel_reason: followup.cancel_reason,
       is_overdue: is_overdue,
       inserted_at: followup.inserted_at,
       updated_at: followup.updated_at
@@ -18,6 +18,7 @@ defmodule EducationCrmWeb.Api.LeadController do
     - search: Search by name or phone (optional)
     - page: Page number (default: 1)
     - per_page: Results per page (default: 50, max: 100)
+    - updated_since: Sync cursor for incremental sync (optional, see below)
 
   Response (200):
     {
@@ -45,7 +46,72 @@ defmodule EducationCrmWeb.Api.LeadController do
         "total": integer
       }
     }
+
+  Incremental sync:
+    When `updated_since` is given, returns leads changed after the cursor with
+    notes, call logs and follow-ups, oldest change first. The cursor is either an
+    ISO8601 timestamp (use "1970-01-01T00:00:00Z" for a full sync) or the
+    `next_cursor` of a previous response.
+
+    Response (200):
+      {
+        "data": [{"id": "uuid", ..., "notes": [...], "call_logs": [...], "followups": [...], "status_changes": [...]}],
+        "meta": {
+          "next_cursor": "string",
+          "has_more": boolean
+        }
+      }
+
+    Response (400):
+      {
+        "error": {
+          "code": "VALIDATION_ERROR",
+          "message": "Invalid updated_since cursor"
+        }
+      }
   """
+  def index(conn, %{"updated_since" => cursor} = params) do
+    telecaller_id = conn.assigns.current_telecaller_id
+    limit = min(parse_int(params["per_page"], 100), 500)
+
+    case parse_sync_cursor(cursor) do
+      {:ok, updated_since, after_id} ->
+        leads =
+          Leads.list_leads_updated_since(
+            telecaller_id: telecaller_id,
+            updated_since: updated_since,
+            after_id: after_id,
+            limit: limit
+          )
+
+        next_cursor =
+          case List.last(leads) do
+            nil -> cursor
+            last -> "#{NaiveDateTime.to_iso8601(last.updated_at)}|#{last.id}"
+          end
+
+        conn
+        |> put_status(:ok)
+        |> json(%{
+          data: Enum.map(leads, &format_lead_detail/1),
+          meta: %{
+            next_cursor: next_cursor,
+            has_more: length(leads) == limit
+          }
+        })
+
+      :error ->
+        conn
+        |> put_status(:bad_request)
+        |> json(%{
+          error: %{
+            code: "VALIDATION_ERROR",
+            message: "Invalid updated_since cursor"
+          }
+        })
+    end
+  end
+
   def index(conn, params) do
     telecaller_id = conn.assigns.current_telecaller_id
     page = parse_int(params["page"], 1)
@@ -104,6 +170,16 @@ defmodule EducationCrmWeb.Api.LeadController do
         "notes": [...],
         "call_logs": [...],
         "followups": [...],
+        "status_changes": [
+          {
+            "id": "uuid",
+            "from_status": "string",
+            "to_status": "string",
+            "reason_code": "string",
+            "reason_note": "string",
+            "inserted_at": "datetime"
+          }
+        ],
         "inserted_at": "datetime",
         "updated_at": "datetime"
       }
@@ -163,6 +239,12 @@ defmodule EducationCrmWeb.Api.LeadController do
   PATCH /api/leads/:id
   Updates a lead's telecaller-editable fields.
 
+  Status changes must follow the allowed transitions (e.g. an enrolled lead
+  can't go back to new) and are recorded in the lead's `status_changes`.
+  Moving to "not_interested" or "lost" requires a `status_reason` code:
+  fees, location, course_unavailable, enrolled_elsewhere, no_response,
+  wrong_number or other.
+
   Request body:
     {
       "email": "string",
@@ -170,7 +252,9 @@ defmodule EducationCrmWeb.Api.LeadController do
       "city": "string",
       "preferred_course": "string",
       "preferred_university": "string",
-      "status": "string"
+      "status": "string",
+      "status_reason": "string" (required for not_interested and lost),
+      "status_note": "string" (optional)
     }
 
   Response (200):
@@ -253,6 +337,80 @@ defmodule EducationCrmWeb.Api.LeadController do
     end
   end
 
+  @doc """
+  POST /api/leads/:lead_id/notes
+  Adds a note to a lead and updates its last contacted time.
+
+  Request body:
+    {
+      "note": "string" (required)
+    }
+
+  Response (201):
+    {
+      "data": {
+        "id": "uuid",
+        "note": "string",
+        "inserted_at": "datetime"
+      }
+    }
+
+  Response (422):
+    {
+      "error": {
+        "code": "VALIDATION_ERROR",
+        "message": "Validation failed",
+        "details": {...}
+      }
+    }
+  """
+  def create_note(conn, %{"lead_id" => lead_id} = params) do
+    telecaller_id = conn.assigns.current_telecaller_id
+
+    case Leads.get_lead_by(id: lead_id) do
+      nil ->
+        conn
+        |> put_status(:not_found)
+        |> json(%{
+          error: %{
+            code: "NOT_FOUND",
+            message: "Lead not found"
+          }
+        })
+
+      %{telecaller_id: ^telecaller_id} ->
+        case Leads.add_note(lead_id, Map.get(params, "note"), telecaller_id) do
+          {:ok, note} ->
+            conn
+            |> put_status(:created)
+            |> json(%{
+              data: format_note(note)
+            })
+
+          {:error, %Ecto.Changeset{} = changeset} ->
+            conn
+            |> put_status(:unprocessable_entity)
+            |> json(%{
+              error: %{
+                code: "VALIDATION_ERROR",
+                message: "Validation failed",
+                details: format_changeset_errors(changeset)
+              }
+            })
+        end
+
+      _lead ->
+        conn
+        |> put_status(:forbidden)
+        |> json(%{
+          error: %{
+            code: "AUTHORIZATION_ERROR",
+            message: "You are not authorized to add notes to this lead"
+          }
+        })
+    end
+  end
+
   # Private helper functions
 
   defp parse_int(nil, default), do: default
@@ -266,6 +424,44 @@ defmodule EducationCrmWeb.Api.LeadController do
 
   defp parse_int(value, _default) when is_integer(value), do: value
 
+  # Cursor format: "<ISO8601 timestamp>" or "<ISO8601 timestamp>|<lead id>"
+  defp parse_sync_cursor(cursor) when is_binary(cursor) do
+    {timestamp, after_id} =
+      case String.split(cursor, "|", parts: 2) do
+        [timestamp, after_id] -> {timestamp, after_id}
+        [timestamp] -> {timestamp, nil}
+      end
+
+    with {:ok, updated_since} <- parse_cursor_timestamp(timestamp),
+         {:ok, after_id} <- cast_cursor_id(after_id) do
+      {:ok, updated_since, after_id}
+    end
+  end
+
+  defp parse_sync_cursor(_cursor), do: :error
+
+  defp parse_cursor_timestamp(timestamp) do
+    case DateTime.from_iso8601(timestamp) do
+      {:ok, datetime, _offset} ->
+        {:ok, DateTime.to_naive(datetime)}
+
+      {:error, _} ->
+        case NaiveDateTime.from_iso8601(timestamp) do
+          {:ok, naive} -> {:ok, naive}
+          {:error, _} -> :error
+        end
+    end
+  end
+
+  defp cast_cursor_id(nil), do: {:ok, nil}
+
+  defp cast_cursor_id(id) do
+    case Ecto.UUID.cast(id) do
+      {:ok, uuid} -> {:ok, uuid}
+      :error -> :error
+    end
+  end
+
   defp maybe_add_filter(opts, _key, nil), do: opts
   defp maybe_add_filter(opts, _key, ""), do: opts
   defp maybe_add_filter(opts, key, value), do: Keyword.put(opts, key, value)
@@ -277,7 +473,9 @@ defmodule EducationCrmWeb.Api.LeadController do
       "city",
       "preferred_course",
       "preferred_university",
-      "status"
+      "status",
+      "status_reason",
+      "status_note"
     ])
   end
 
@@ -316,6 +514,7 @@ defmodule EducationCrmWeb.Api.LeadController do
       notes: Enum.map(lead.notes || [], &format_note/1),
       call_logs: Enum.map(lead.call_logs || [], &format_call_log/1),
       followups: Enum.map(lead.followups || [], &format_followup/1),
+      status_changes: Enum.map(lead.status_changes || [], &format_status_change/1),
       inserted_at: lead.inserted_at,
       updated_at: lead.updated_at
     }
@@ -334,11 +533,31 @@ defmodule EducationCrmWeb.Api.LeadController do
       id: call_log.id,
       outcome: call_log.outcome,
       duration_seconds: call_log.duration_seconds,
+      direction: call_log.direction,
       recording_path: call_log.recording_path,
+      recording_sha256: call_log.recording_sha256,
+      recording_verified_at: call_log.recording_verified_at,
+      bookmarks: Enum.map(call_log.bookmarks, &Map.take(&1, [:offset_seconds, :label])),
+      qa_score: call_log.qa_score,
+      qa_reviewed_at: call_log.qa_reviewed_at,
+      qa_scores:
+        Enum.map(call_log.qa_scores, &Map.take(&1, [:criterion, :label, :score, :max_score])),
+      qa_comments: Enum.map(call_log.qa_comments, &Map.take(&1, [:offset_seconds, :body])),
       inserted_at: call_log.inserted_at
     }
   end
 
+  defp format_status_change(status_change) do
+    %{
+      id: status_change.id,
+      from_status: status_change.from_status,
+      to_status: status_change.to_status,
+      reason_code: status_change.reason_code,
+      reason_note: status_change.reason_note,
+      inserted_at: status_change.inserted_at
+    }
+  end
+
   defp format_followup(followup) do
     %{
       id: followup.id,
@@ -346,6 +565,8 @@ defmodule EducationCrmWeb.Api.LeadController do
       description: followup.description,
       completed: followup.completed,
       completed_at: followup.completed_at,
+      cancelled_at: followup.cancelled_at,
+      cancel_reason: followup.cancel_reason,
       inserted_at: followup.inserted_at,
       updated_at: followup.updated_at
     }
@@ -0,0 +1,67 @@
+defmodule EducationCrmWeb.Api.PipelineController do
+  @moduledoc """
+  API controller for the lead status pipeline.
+  Serves the stages and status reasons the mobile app renders its status
+  chips, badges and pickers from.
+  """
+  use EducationCrmWeb, :controller
+
+  alias EducationCrm.Branches
+  alias EducationCrm.Leads.Pipeline
+
+  plug EducationCrmWeb.Plugs.ApiAuth
+
+  @doc """
+  GET /api/pipeline
+  Gets the lead pipeline of the authenticated user's branch.
+
+  Response (200):
+    {
+      "data": {
+        "stages": [
+          {
+            "key": "string",
+            "label": "string",
+            "color": "#rrggbb",
+            "position": integer,
+            "terminal": boolean,
+            "requires_reason": boolean,
+            "transitions": ["string"]
+          }
+        ],
+        "reasons": [
+          {"key": "string", "label": "string"}
+        ]
+      }
+    }
+  """
+  def show(conn, _params) do
+    user = conn.assigns.current_user
+    stages = Branches.get_pipeline(user.branch_id)
+
+    conn
+    |> put_status(:ok)
+    |> json(%{
+      data: %{
+        stages: Enum.map(stages, &format_stage/1),
+        reasons: Enum.map(Pipeline.status_reasons(), &format_reason/1)
+      }
+    })
+  end
+
+  # Private helper functions
+
+  defp format_stage(stage) do
+    %{
+      key: stage.key,
+      label: stage.label,
+      color: stage.color,
+      position: stage.position,
+      terminal: stage.terminal,
+      requires_reason: stage.requires_reason,
+      transitions: stage.transitions
+    }
+  end
+
+  defp format_reason({key, label}), do: %{key: key, label: label}
+end
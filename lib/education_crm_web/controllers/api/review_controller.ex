@@ -0,0 +1,258 @@
+defmodule EducationCrmWeb.Api.ReviewController do
+  @moduledoc """
+  API controller for call reviews.
+  Branch managers list their telecallers' recorded calls, play them, and
+  score them against the branch's rubric with time-coded coaching comments.
+  Admins review calls of every branch, or of their own if they have one.
+  """
+  use EducationCrmWeb, :controller
+
+  alias EducationCrm.Branches
+  alias EducationCrm.Reviews
+  alias EducationCrmWeb.Api.AudioFile
+
+  plug EducationCrmWeb.Plugs.ApiAuth
+  plug :require_reviewer when action in [:index, :show_recording, :update]
+
+  @doc """
+  GET /api/reviews/rubric
+  Gets the call review rubric of the authenticated user's branch.
+
+  Query parameters:
+    - branch_id: branch whose rubric to get, for admins reviewing other
+      branches (optional, ignored for other users)
+
+  Response (200):
+    {
+      "data": {
+        "criteria": [
+          {"key": "string", "label": "string", "max_score": integer, "position": integer}
+        ]
+      }
+    }
+  """
+  def rubric(conn, params) do
+    user = conn.assigns.current_user
+
+    branch_id =
+      with "admin" <- user.role,
+           {:ok, branch_id} <- Ecto.UUID.cast(params["branch_id"] || "") do
+        branch_id
+      else
+        _ -> user.branch_id
+      end
+
+    rubric = Branches.get_qa_rubric(branch_id)
+
+    conn
+    |> put_status(:ok)
+    |> json(%{data: %{criteria: Enum.map(rubric, &format_criterion/1)}})
+  end
+
+  @doc """
+  GET /api/reviews
+  Lists recorded calls of the manager's branch, newest first.
+
+  Query parameters:
+    - reviewed: "true" or "false" to filter by review status (optional)
+    - telecaller_id: only calls made by this telecaller (optional)
+
+  Response (200):
+    {
+      "data": [
+        {
+          "id": "uuid",
+          "lead_id": "uuid",
+          "student_name": "string",
+          "telecaller_id": "uuid",
+          "telecaller_name": "string",
+          "branch_id": "uuid",
+          "outcome": "string",
+          "duration_seconds": integer,
+          "direction": "string",
+          "bookmarks": [{"offset_seconds": float, "label": "string"}],
+          "qa_score": float | null,
+          "qa_reviewed_at": "datetime" | null,
+          "qa_scores": [{"criterion": "string", "label": "string", "score": integer, "max_score": integer}],
+          "qa_comments": [{"offset_seconds": float, "body": "string"}],
+          "inserted_at": "datetime"
+        }
+      ]
+    }
+
+  Response (403): the user is not a branch manager or admin
+  """
+  def index(conn, params) do
+    user = conn.assigns.current_user
+
+    opts =
+      case params["reviewed"] do
+        "true" -> [reviewed: true]
+        "false" -> [reviewed: false]
+        _ -> []
+      end
+
+    opts =
+      case params["telecaller_id"] do
+        nil -> opts
+        "" -> opts
+        telecaller_id -> Keyword.put(opts, :telecaller_id, telecaller_id)
+      end
+
+    calls = Reviews.list_reviewable_calls(review_branch(user), opts)
+
+    conn
+    |> put_status(:ok)
+    |> json(%{data: Enum.map(calls, &format_call/1)})
+  end
+
+  @doc """
+  GET /api/reviews/:id/recording
+  Streams the recording of a call in the manager's branch, honouring Range
+  requests like the telecaller's recording endpoint.
+
+  Response (404): no recorded call with this ID in the branch
+  """
+  def show_recording(conn, %{"id" => id}) do
+    user = conn.assigns.current_user
+
+    case Reviews.get_reviewable_call(review_branch(user), id) do
+      nil -> not_found(conn)
+      call_log -> AudioFile.send_recording(conn, call_log.recording_path)
+    end
+  end
+
+  @doc """
+  PUT /api/reviews/:id
+  Saves the manager's review of a call, replacing any earlier review.
+
+  Request body:
+    {
+      "scores": [{"criterion": "string", "score": integer}],
+      "comments": [{"offset_seconds": float, "body": "string"}]
+    }
+
+  Every criterion of the branch's rubric must be scored, from 0 to its
+  max_score. The call's qa_score is the percentage of the rubric's maximum.
+
+  Response (200): the reviewed call, as in GET /api/reviews
+
+  Response (422):
+    {
+      "error": {
+        "code": "VALIDATION_ERROR",
+        "message": "Validation failed",
+        "details": {...}
+      }
+    }
+  """
+  def update(conn, %{"id" => id} = params) do
+    user = conn.assigns.current_user
+
+    with {:scores, scores} when is_list(scores) <- {:scores, params["scores"]},
+         call_log when not is_nil(call_log) <-
+           Reviews.get_reviewable_call(review_branch(user), id) do
+      case Reviews.review_call(call_log, user, params) do
+        {:ok, reviewed} ->
+          conn
+          |> put_status(:ok)
+          |> json(%{data: format_call(reviewed)})
+
+        {:error, changeset} ->
+          conn
+          |> put_status(:unprocessable_entity)
+          |> json(%{
+            error: %{
+              code: "VALIDATION_ERROR",
+              message: "Validation failed",
+              details: format_changeset_errors(changeset)
+            }
+          })
+      end
+    else
+      {:scores, _} ->
+        conn
+        |> put_status(:unprocessable_entity)
+        |> json(%{
+          error: %{
+            code: "VALIDATION_ERROR",
+            message: "scores must be a list of criterion scores"
+          }
+        })
+
+      nil ->
+        not_found(conn)
+    end
+  end
+
+  # Private helper functions
+
+  defp require_reviewer(conn, _opts) do
+    if conn.assigns.current_user.role in ~w(manager admin) do
+      conn
+    else
+      conn
+      |> put_status(:forbidden)
+      |> json(%{
+        error: %{
+          code: "AUTHORIZATION_ERROR",
+          message: "Only branch managers and admins can review calls"
+        }
+      })
+      |> halt()
+    end
+  end
+
+  # Admins without a branch review every branch
+  defp review_branch(%{role: "admin", branch_id: nil}), do: :all
+  defp review_branch(user), do: user.branch_id
+
+  defp not_found(conn) do
+    conn
+    |> put_status(:not_found)
+    |> json(%{
+      error: %{
+        code: "NOT_FOUND",
+        message: "Recording not found"
+      }
+    })
+  end
+
+  defp format_criterion(criterion) do
+    %{
+      key: criterion.key,
+      label: criterion.label,
+      max_score: criterion.max_score,
+      position: criterion.position
+    }
+  end
+
+  defp format_call(call_log) do
+    %{
+      id: call_log.id,
+      lead_id: call_log.lead_id,
+      student_name: call_log.lead.student_name,
+      telecaller_id: call_log.telecaller_id,
+      telecaller_name: call_log.telecaller && call_log.telecaller.username,
+      branch_id: call_log.lead.branch_id,
+      outcome: call_log.outcome,
+      duration_seconds: call_log.duration_seconds,
+      direction: call_log.direction,
+      bookmarks: Enum.map(call_log.bookmarks, &Map.take(&1, [:offset_seconds, :label])),
+      qa_score: call_log.qa_score,
+      qa_reviewed_at: call_log.qa_reviewed_at,
+      qa_scores:
+        Enum.map(call_log.qa_scores, &Map.take(&1, [:criterion, :label, :score, :max_score])),
+      qa_comments: Enum.map(call_log.qa_comments, &Map.take(&1, [:offset_seconds, :body])),
+      inserted_at: call_log.inserted_at
+    }
+  end
+
+  defp format_changeset_errors(changeset) do
+    Ecto.Changeset.traverse_errors(changeset, fn {msg, opts} ->
+      Regex.replace(~r"%{(\w+)}", msg, fn _, key ->
+        opts |> Keyword.get(String.to_existing_atom(key), key) |> to_string()
+      end)
+    end)
+  end
+end
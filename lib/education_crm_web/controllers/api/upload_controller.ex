@@ -5,9 +5,22 @@ defmodule EducationCrmWeb.Api.UploadController do
   """
   use EducationCrmWeb, :controller
 
+  alias EducationCrmWeb.Api.AudioFile
+
   @doc """
   PUT /api/uploads/*key
   Handles file uploads to simulate S3 presigned URL behavior.
+
+  Query parameters:
+    - sha256: hex SHA-256 the body must match (set by the presigned URL)
+
+  Response (422) when the body doesn't match the checksum:
+    {
+      "error": {
+        "code": "CHECKSUM_MISMATCH",
+        "message": "Uploaded file does not match its checksum"
+      }
+    }
   """
   def upload(conn, %{"key" => key_parts}) when is_list(key_parts) do
     # Join the key parts to get the full path
@@ -22,7 +35,23 @@ defmodule EducationCrmWeb.Api.UploadController do
   defp do_upload(conn, key) do
     # Read the request body
     {:ok, body, conn} = Plug.Conn.read_body(conn)
+    expected_sha256 = conn.query_params["sha256"]
+
+    if expected_sha256 && sha256(body) != String.downcase(expected_sha256) do
+      conn
+      |> put_status(:unprocessable_entity)
+      |> json(%{
+        error: %{
+          code: "CHECKSUM_MISMATCH",
+          message: "Uploaded file does not match its checksum"
+        }
+      })
+    else
+      save_upload(conn, key, body)
+    end
+  end
 
+  defp save_upload(conn, key, body) do
     # Ensure upload directory exists
     upload_path = Path.join(:code.priv_dir(:education_crm), "static/uploads")
     File.mkdir_p!(upload_path)
@@ -59,6 +88,7 @@ defmodule EducationCrmWeb.Api.UploadController do
   @doc """
   GET /uploads/*path
   Serves uploaded files in development mode.
+  Range requests are honoured so recordings can be streamed.
   """
   def serve(conn, %{"path" => path}) do
     # Join path segments
@@ -67,12 +97,7 @@ defmodule EducationCrmWeb.Api.UploadController do
     full_path = Path.join(upload_path, file_path)
 
     if File.exists?(full_path) do
-      content_type = determine_content_type(full_path)
-
-      conn
-      |> put_resp_content_type(content_type)
-      |> put_resp_header("accept-ranges", "bytes")
-      |> send_file(200, full_path)
+      AudioFile.send_audio(conn, full_path)
     else
       conn
       |> put_status(:not_found)
@@ -85,14 +110,5 @@ defmodule EducationCrmWeb.Api.UploadController do
     end
   end
 
-  defp determine_content_type(file_path) do
-    case Path.extname(file_path) do
-      ".aac" -> "audio/aac"
-      ".mp3" -> "audio/mpeg"
-      ".m4a" -> "audio/mp4"
-      ".wav" -> "audio/wav"
-      ".ogg" -> "audio/ogg"
-      _ -> "audio/aac"
-    end
-  end
+  defp sha256(body), do: :crypto.hash(:sha256, body) |> Base.encode16(case: :lower)
 end
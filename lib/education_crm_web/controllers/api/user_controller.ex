@@ -52,6 +52,9 @@ defmodule EducationCrmWeb.Api.UserController do
       "data": {
         "total_calls": integer,
         "connected_calls": integer,
+        "talk_time_seconds": integer,
+        "reviewed_calls": integer,
+        "average_qa_score": float | null,
         "total_leads": integer,
         "contacted_leads": integer,
         "enrolled_leads": integer,
@@ -88,6 +91,9 @@ defmodule EducationCrmWeb.Api.UserController do
       data: %{
         total_calls: stats.total_calls,
         connected_calls: stats.connected_calls,
+        talk_time_seconds: stats.talk_time_seconds,
+        reviewed_calls: stats.reviewed_calls,
+        average_qa_score: stats.average_qa_score,
         total_leads: stats.total_leads,
         contacted_leads: stats.contacted_leads,
         enrolled_leads: stats.enrolled_leads,
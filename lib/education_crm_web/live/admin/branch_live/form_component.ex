@@ -1,10 +1,15 @@
 defmodule EducationCrmWeb.Admin.BranchLive.FormComponent do
   @moduledoc """
   LiveComponent for branch create/edit form.
+
+  Branches use the default lead pipeline and call review rubric until an admin
+  customizes them; customized stages and criteria start as a copy of the defaults.
   """
   use EducationCrmWeb, :live_component
 
   alias EducationCrm.Branches
+  alias EducationCrm.Leads.Pipeline
+  alias EducationCrm.Reviews
 
   @impl true
   def update(%{branch: branch} = assigns, socket) do
@@ -13,7 +18,7 @@ defmodule EducationCrmWeb.Admin.BranchLive.FormComponent do
     socket =
       socket
       |> assign(assigns)
-      |> assign(:form, to_form(changeset))
+      |> assign_form(changeset)
 
     {:ok, socket}
   end
@@ -25,7 +30,27 @@ defmodule EducationCrmWeb.Admin.BranchLive.FormComponent do
       |> Branches.change_branch(branch_params)
       |> Map.put(:action, :validate)
 
-    {:noreply, assign(socket, :form, to_form(changeset))}
+    {:noreply, assign_form(socket, changeset)}
+  end
+
+  @impl true
+  def handle_event("customize_pipeline", _params, socket) do
+    changeset =
+      Ecto.Changeset.put_embed(
+        socket.assigns.form.source,
+        :pipeline_stages,
+        Pipeline.default_stages()
+      )
+
+    {:noreply, assign_form(socket, changeset)}
+  end
+
+  @impl true
+  def handle_event("customize_rubric", _params, socket) do
+    changeset =
+      Ecto.Changeset.put_embed(socket.assigns.form.source, :qa_rubric, Reviews.default_rubric())
+
+    {:noreply, assign_form(socket, changeset)}
   end
 
   @impl true
@@ -44,7 +69,7 @@ defmodule EducationCrmWeb.Admin.BranchLive.FormComponent do
          |> push_patch(to: socket.assigns.patch)}
 
       {:error, %Ecto.Changeset{} = changeset} ->
-        {:noreply, assign(socket, :form, to_form(changeset))}
+        {:noreply, assign_form(socket, changeset)}
     end
   end
 
@@ -59,10 +84,21 @@ defmodule EducationCrmWeb.Admin.BranchLive.FormComponent do
          |> push_patch(to: socket.assigns.patch)}
 
       {:error, %Ecto.Changeset{} = changeset} ->
-        {:noreply, assign(socket, :form, to_form(changeset))}
+        {:noreply, assign_form(socket, changeset)}
     end
   end
 
+  # Stage keys are offered as transition targets for every stage
+  defp assign_form(socket, changeset) do
+    stages = Ecto.Changeset.get_field(changeset, :pipeline_stages)
+
+    socket
+    |> assign(:form, to_form(changeset))
+    |> assign(:custom_pipeline, stages != [])
+    |> assign(:custom_rubric, Ecto.Changeset.get_field(changeset, :qa_rubric) != [])
+    |> assign(:stage_keys, stages |> Enum.map(& &1.key) |> Enum.reject(&(&1 in [nil, ""])))
+  end
+
   defp notify_parent(msg), do: send(self(), msg)
 
   @impl true
@@ -98,6 +134,163 @@ defmodule EducationCrmWeb.Admin.BranchLive.FormComponent do
           />
         </div>
 
+        <div class="border-t border-gray-200 pt-6">
+          <div class="flex items-center justify-between mb-4">
+            <div>
+              <h3 class="text-lg font-semibold text-gray-900">Lead Pipeline</h3>
+              <p class="text-sm text-gray-600">
+                Stages leads of this branch move through. Every pipeline needs a "new" stage.
+              </p>
+            </div>
+            <button
+              :if={@custom_pipeline}
+              type="button"
+              name="branch[pipeline_stages_sort][]"
+              value="new"
+              phx-click={JS.dispatch("change")}
+              class="px-3 py-2 text-sm font-medium text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+            >
+              <.icon name="hero-plus" class="w-4 h-4 inline mr-1" /> Add Stage
+            </button>
+          </div>
+
+          <div
+            :if={!@custom_pipeline}
+            class="p-4 bg-gray-50 rounded-lg flex items-center justify-between"
+          >
+            <p class="text-sm text-gray-600">This branch uses the default pipeline.</p>
+            <button
+              type="button"
+              phx-click="customize_pipeline"
+              phx-target={@myself}
+              class="px-3 py-2 text-sm font-medium text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+            >
+              Customize
+            </button>
+          </div>
+
+          <div class="space-y-4">
+            <.inputs_for :let={stage} field={@form[:pipeline_stages]}>
+              <div class="p-4 bg-gray-50 rounded-lg">
+                <input type="hidden" name="branch[pipeline_stages_sort][]" value={stage.index} />
+                <div class="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <.input field={stage[:key]} type="text" label="Key" placeholder="e.g., visited" />
+                  <.input field={stage[:label]} type="text" label="Label" />
+                  <.input field={stage[:color]} type="text" label="Color" placeholder="#3b82f6" />
+                  <.input field={stage[:position]} type="number" label="Position" min="0" />
+                </div>
+                <input type="hidden" name={stage[:transitions].name <> "[]"} value="" />
+                <.input
+                  field={stage[:transitions]}
+                  type="select"
+                  label="Can move to"
+                  options={@stage_keys}
+                  multiple
+                />
+                <div class="flex items-center justify-between">
+                  <div class="flex gap-6">
+                    <.input field={stage[:terminal]} type="checkbox" label="Final stage" />
+                    <.input
+                      field={stage[:requires_reason]}
+                      type="checkbox"
+                      label="Needs a reason"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    name="branch[pipeline_stages_drop][]"
+                    value={stage.index}
+                    phx-click={JS.dispatch("change")}
+                    class="px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <.icon name="hero-trash" class="w-4 h-4 inline mr-1" /> Remove
+                  </button>
+                </div>
+              </div>
+            </.inputs_for>
+          </div>
+          <input type="hidden" name="branch[pipeline_stages_drop][]" />
+          <p :for={error <- @form[:pipeline_stages].errors} class="mt-1.5 text-sm text-error">
+            {translate_error(error)}
+          </p>
+        </div>
+
+        <div class="border-t border-gray-200 pt-6">
+          <div class="flex items-center justify-between mb-4">
+            <div>
+              <h3 class="text-lg font-semibold text-gray-900">Call Review Rubric</h3>
+              <p class="text-sm text-gray-600">
+                Criteria managers score this branch's recorded calls on.
+              </p>
+            </div>
+            <button
+              :if={@custom_rubric}
+              type="button"
+              name="branch[qa_rubric_sort][]"
+              value="new"
+              phx-click={JS.dispatch("change")}
+              class="px-3 py-2 text-sm font-medium text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+            >
+              <.icon name="hero-plus" class="w-4 h-4 inline mr-1" /> Add Criterion
+            </button>
+          </div>
+
+          <div
+            :if={!@custom_rubric}
+            class="p-4 bg-gray-50 rounded-lg flex items-center justify-between"
+          >
+            <p class="text-sm text-gray-600">This branch uses the default rubric.</p>
+            <button
+              type="button"
+              phx-click="customize_rubric"
+              phx-target={@myself}
+              class="px-3 py-2 text-sm font-medium text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+            >
+              Customize
+            </button>
+          </div>
+
+          <div class="space-y-4">
+            <.inputs_for :let={criterion} field={@form[:qa_rubric]}>
+              <div class="p-4 bg-gray-50 rounded-lg">
+                <input type="hidden" name="branch[qa_rubric_sort][]" value={criterion.index} />
+                <div class="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <.input
+                    field={criterion[:key]}
+                    type="text"
+                    label="Key"
+                    placeholder="e.g., objection_handling"
+                  />
+                  <.input field={criterion[:label]} type="text" label="Label" />
+                  <.input
+                    field={criterion[:max_score]}
+                    type="number"
+                    label="Max Score"
+                    min="1"
+                    max="10"
+                  />
+                  <.input field={criterion[:position]} type="number" label="Position" min="0" />
+                </div>
+                <div class="flex justify-end">
+                  <button
+                    type="button"
+                    name="branch[qa_rubric_drop][]"
+                    value={criterion.index}
+                    phx-click={JS.dispatch("change")}
+                    class="px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <.icon name="hero-trash" class="w-4 h-4 inline mr-1" /> Remove
+                  </button>
+                </div>
+              </div>
+            </.inputs_for>
+          </div>
+          <input type="hidden" name="branch[qa_rubric_drop][]" />
+          <p :for={error <- @form[:qa_rubric].errors} class="mt-1.5 text-sm text-error">
+            {translate_error(error)}
+          </p>
+        </div>
+
         <div class="flex items-center justify-end gap-3 pt-4">
           <.button
             type="button"
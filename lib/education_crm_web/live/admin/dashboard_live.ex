@@ -6,6 +6,8 @@ defmodule EducationCrmWeb.Admin.DashboardLive do
 
   import Ecto.Query
   alias EducationCrm.Repo
+  alias EducationCrm.Branches
+  alias EducationCrm.Branches.PipelineStage
   alias EducationCrm.Leads.{Lead, CallLog}
   alias EducationCrm.Accounts.User
 
@@ -72,9 +74,33 @@ defmodule EducationCrmWeb.Admin.DashboardLive do
     |> assign(:active_telecallers, active_telecallers)
     |> assign(:todays_calls, todays_calls)
     |> assign(:leads_by_status, leads_by_status)
+    |> assign(:status_stages, status_stages(leads_by_status))
     |> assign(:recent_calls, recent_calls)
   end
 
+  # Stages of every active branch's pipeline, each key once, followed by
+  # statuses leads still have that no pipeline lists any more
+  defp status_stages(leads_by_status) do
+    pipelines =
+      case Branches.list_branches() do
+        [] -> [Branches.get_pipeline(nil)]
+        branches -> Enum.map(branches, &Branches.get_pipeline(&1.id))
+      end
+
+    stages = pipelines |> List.flatten() |> Enum.uniq_by(& &1.key)
+
+    known = MapSet.new(stages, & &1.key)
+
+    unlisted =
+      leads_by_status
+      |> Map.keys()
+      |> Enum.reject(&MapSet.member?(known, &1))
+      |> Enum.sort()
+      |> Enum.map(&%PipelineStage{key: &1, label: Phoenix.Naming.humanize(&1), color: "#374151"})
+
+    stages ++ unlisted
+  end
+
   @impl true
   def render(assigns) do
     ~H"""
@@ -133,37 +159,11 @@ defmodule EducationCrmWeb.Admin.DashboardLive do
       <div class="bg-white rounded-2xl shadow-lg p-6 border border-purple-100">
         <h2 class="text-xl font-bold text-gray-900 mb-4">Leads by Status</h2>
         <div class="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-          <div class="text-center p-4 bg-gray-50 rounded-lg">
-            <p class="text-2xl font-bold text-gray-700">{Map.get(@leads_by_status, "new", 0)}</p>
-            <p class="text-sm text-gray-600 mt-1">New</p>
-          </div>
-          <div class="text-center p-4 bg-blue-50 rounded-lg">
-            <p class="text-2xl font-bold text-blue-700">
-              {Map.get(@leads_by_status, "contacted", 0)}
+          <div :for={stage <- @status_stages} class="text-center p-4 bg-gray-50 rounded-lg">
+            <p class="text-2xl font-bold" style={"color: #{stage.color}"}>
+              {Map.get(@leads_by_status, stage.key, 0)}
             </p>
-            <p class="text-sm text-blue-600 mt-1">Contacted</p>
-          </div>
-          <div class="text-center p-4 bg-green-50 rounded-lg">
-            <p class="text-2xl font-bold text-green-700">
-              {Map.get(@leads_by_status, "interested", 0)}
-            </p>
-            <p class="text-sm text-green-600 mt-1">Interested</p>
-          </div>
-          <div class="text-center p-4 bg-yellow-50 rounded-lg">
-            <p class="text-2xl font-bold text-yellow-700">
-              {Map.get(@leads_by_status, "not_interested", 0)}
-            </p>
-            <p class="text-sm text-yellow-600 mt-1">Not Interested</p>
-          </div>
-          <div class="text-center p-4 bg-purple-50 rounded-lg">
-            <p class="text-2xl font-bold text-purple-700">
-              {Map.get(@leads_by_status, "enrolled", 0)}
-            </p>
-            <p class="text-sm text-purple-600 mt-1">Enrolled</p>
-          </div>
-          <div class="text-center p-4 bg-red-50 rounded-lg">
-            <p class="text-2xl font-bold text-red-700">{Map.get(@leads_by_status, "lost", 0)}</p>
-            <p class="text-sm text-red-600 mt-1">Lost</p>
+            <p class="text-sm text-gray-600 mt-1">{stage.label}</p>
           </div>
         </div>
       </div>
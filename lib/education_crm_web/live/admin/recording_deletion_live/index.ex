@@ -0,0 +1,150 @@
+defmodule EducationCrmWeb.Admin.RecordingDeletionLive.Index do
+  @moduledoc """
+  LiveView listing deleted call recordings: who deleted what, when and why.
+  """
+  use EducationCrmWeb, :live_view
+
+  alias EducationCrm.Branches
+  alias EducationCrm.Leads
+
+  @reason_labels %{
+    "student_request" => "Student data request",
+    "wrong_lead" => "Recorded on the wrong lead",
+    "test_call" => "Test call",
+    "other" => "Other"
+  }
+
+  @impl true
+  def mount(_params, _session, socket) do
+    socket =
+      socket
+      |> assign(:page_title, "Recording Deletions")
+      |> assign(:branches, Branches.list_branches())
+      |> assign(:filter_branch_id, nil)
+      |> load_deletions()
+
+    {:ok, socket}
+  end
+
+  @impl true
+  def handle_event("filter", %{"branch_id" => branch_id}, socket) do
+    branch_id = if branch_id == "", do: nil, else: branch_id
+
+    socket =
+      socket
+      |> assign(:filter_branch_id, branch_id)
+      |> load_deletions()
+
+    {:noreply, socket}
+  end
+
+  defp load_deletions(socket) do
+    deletions = Leads.list_recording_deletions(branch_id: socket.assigns.filter_branch_id)
+    stream(socket, :deletions, deletions, reset: true)
+  end
+
+  defp reason_label(reason_code), do: Map.get(@reason_labels, reason_code, reason_code)
+
+  @impl true
+  def render(assigns) do
+    ~H"""
+    <div class="space-y-6">
+      <!-- Page Header -->
+      <div>
+        <h1 class="text-3xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+          Recording Deletions
+        </h1>
+        <p class="text-gray-600 mt-1">Audit trail of deleted call recordings</p>
+      </div>
+
+    <!-- Filters -->
+      <div class="bg-white rounded-2xl shadow-lg p-6 border border-purple-100">
+        <form phx-change="filter" class="flex flex-wrap gap-4">
+          <div class="flex-1 min-w-[200px]">
+            <label for="branch_id" class="block text-sm font-medium text-gray-700 mb-2">
+              Branch
+            </label>
+            <select
+              name="branch_id"
+              id="branch_id"
+              class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            >
+              <option value="">All Branches</option>
+              <%= for branch <- @branches do %>
+                <option value={branch.id} selected={branch.id == @filter_branch_id}>
+                  {branch.name}
+                </option>
+              <% end %>
+            </select>
+          </div>
+        </form>
+      </div>
+
+    <!-- Deletions List -->
+      <div class="bg-white rounded-2xl shadow-lg border border-purple-100 overflow-hidden">
+        <div class="overflow-x-auto">
+          <table class="w-full">
+            <thead class="bg-gradient-to-r from-purple-50 to-pink-50 border-b border-purple-100">
+              <tr>
+                <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Deleted</th>
+                <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Lead</th>
+                <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Call</th>
+                <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Deleted By</th>
+                <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Reason</th>
+              </tr>
+            </thead>
+            <tbody id="deletions" phx-update="stream" class="divide-y divide-gray-100">
+              <tr
+                :for={{id, deletion} <- @streams.deletions}
+                id={id}
+                class="hover:bg-purple-50/50 transition-colors"
+              >
+                <td class="px-6 py-4">
+                  <p class="text-gray-900">
+                    {Calendar.strftime(deletion.inserted_at, "%d %b %Y %H:%M")}
+                  </p>
+                  <p class="text-xs text-gray-500">{deletion.branch.name}</p>
+                </td>
+                <td class="px-6 py-4">
+                  <p class="font-medium text-gray-900">
+                    {if deletion.lead, do: deletion.lead.student_name, else: "Deleted lead"}
+                  </p>
+                </td>
+                <td class="px-6 py-4">
+                  <%= if deletion.call_log do %>
+                    <p class="text-gray-600">
+                      {Calendar.strftime(deletion.call_log.inserted_at, "%d %b %Y %H:%M")}
+                    </p>
+                    <p class="text-xs text-gray-500">
+                      by {deletion.call_log.telecaller && deletion.call_log.telecaller.username}
+                    </p>
+                  <% else %>
+                    <p class="text-gray-400">Deleted call</p>
+                  <% end %>
+                </td>
+                <td class="px-6 py-4">
+                  <p class="text-gray-900">{deletion.deleted_by.username}</p>
+                  <p class="text-xs text-gray-500">{deletion.deleted_by.role}</p>
+                </td>
+                <td class="px-6 py-4">
+                  <span class="px-3 py-1 bg-purple-100 text-purple-700 rounded-full text-sm font-medium">
+                    {reason_label(deletion.reason_code)}
+                  </span>
+                  <p :if={deletion.reason_note} class="text-sm text-gray-600 mt-2">
+                    {deletion.reason_note}
+                  </p>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div :if={@streams.deletions == %{}} class="p-12 text-center">
+          <.icon name="hero-shield-check" class="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p class="text-gray-500 text-lg">No recordings have been deleted</p>
+        </div>
+      </div>
+    </div>
+    """
+  end
+end
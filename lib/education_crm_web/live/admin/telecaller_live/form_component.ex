@@ -103,6 +103,18 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.FormComponent do
           <% end %>
         </div>
 
+        <div>
+          <label for="role" class="block text-sm font-medium text-gray-900 mb-2">Role</label>
+          <select
+            name="user[role]"
+            id="role"
+            class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          >
+            <option value="telecaller">Telecaller</option>
+            <option value="manager">Branch manager (reviews calls)</option>
+          </select>
+        </div>
+
         <div class="flex items-center justify-end gap-3 pt-4">
           <.button
             type="button"
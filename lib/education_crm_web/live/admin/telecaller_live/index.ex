@@ -1,6 +1,6 @@
 defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
   @moduledoc """
-  LiveView for managing telecallers with filters and create action.
+  LiveView for managing telecallers and branch managers with filters and create action.
   """
   use EducationCrmWeb, :live_view
 
@@ -18,6 +18,7 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
       |> assign(:branches, branches)
       |> assign(:filter_branch_id, nil)
       |> assign(:filter_active, true)
+      |> assign(:filter_role, "all")
       |> load_telecallers()
 
     {:ok, socket}
@@ -41,7 +42,7 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
   end
 
   @impl true
-  def handle_event("filter", %{"branch_id" => branch_id, "active" => active}, socket) do
+  def handle_event("filter", %{"branch_id" => branch_id, "active" => active} = params, socket) do
     branch_id = if branch_id == "", do: nil, else: branch_id
     active = active == "true"
 
@@ -49,6 +50,7 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
       socket
       |> assign(:filter_branch_id, branch_id)
       |> assign(:filter_active, active)
+      |> assign(:filter_role, Map.get(params, "role", "all"))
       |> load_telecallers()
 
     {:noreply, socket}
@@ -87,7 +89,10 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
         filters
       end
 
-    filters = Map.put(filters, :active, socket.assigns.filter_active)
+    filters =
+      filters
+      |> Map.put(:active, socket.assigns.filter_active)
+      |> Map.put(:role, socket.assigns.filter_role)
 
     telecallers = Accounts.list_telecallers(filters)
 
@@ -111,7 +116,7 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
           <h1 class="text-3xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
             Telecallers
           </h1>
-          <p class="text-gray-600 mt-1">Manage telecaller accounts</p>
+          <p class="text-gray-600 mt-1">Manage telecaller and branch manager accounts</p>
         </div>
         <.link
           patch={~p"/admin/telecallers/new"}
@@ -155,6 +160,23 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
               <option value="false" selected={@filter_active == false}>Inactive</option>
             </select>
           </div>
+
+          <div class="flex-1 min-w-[200px]">
+            <label for="role_filter" class="block text-sm font-medium text-gray-700 mb-2">
+              Role
+            </label>
+            <select
+              name="role"
+              id="role_filter"
+              class="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            >
+              <option value="all" selected={@filter_role == "all"}>All Roles</option>
+              <option value="telecaller" selected={@filter_role == "telecaller"}>
+                Telecallers
+              </option>
+              <option value="manager" selected={@filter_role == "manager"}>Managers</option>
+            </select>
+          </div>
         </form>
       </div>
       
@@ -165,6 +187,7 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
             <thead class="bg-gradient-to-r from-purple-50 to-pink-50 border-b border-purple-100">
               <tr>
                 <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Username</th>
+                <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Role</th>
                 <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Branch</th>
                 <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Lead Count</th>
                 <th class="px-6 py-4 text-left text-sm font-semibold text-gray-700">Status</th>
@@ -180,6 +203,11 @@ defmodule EducationCrmWeb.Admin.TelecallerLive.Index do
                 <td class="px-6 py-4">
                   <p class="font-medium text-gray-900">{telecaller.username}</p>
                 </td>
+                <td class="px-6 py-4">
+                  <p class="text-gray-600">
+                    {if telecaller.role == "manager", do: "Manager", else: "Telecaller"}
+                  </p>
+                </td>
                 <td class="px-6 py-4">
                   <p class="text-gray-600">{telecaller.branch && telecaller.branch.name}</p>
                 </td>
@@ -49,6 +49,7 @@ defmodule EducationCrmWeb.Router do
       live "/telecallers/new", TelecallerLive.Index, :new
       live "/import", ImportLive.New, :new
       live "/reports", ReportLive.Index, :index
+      live "/recording-deletions", RecordingDeletionLive.Index, :index
     end
   end
 
@@ -68,22 +69,35 @@ defmodule EducationCrmWeb.Router do
     get "/leads", LeadController, :index
     get "/leads/:id", LeadController, :show
     patch "/leads/:id", LeadController, :update
+    post "/leads/:lead_id/notes", LeadController, :create_note
 
     # Call logging endpoints (requires authentication)
     post "/leads/:lead_id/calls", CallController, :create
+    patch "/leads/:lead_id/calls/:id", CallController, :update
     post "/leads/:lead_id/recordings/presign", CallController, :presign_upload
     post "/leads/:lead_id/recordings", CallController, :upload_recording
     get "/leads/:lead_id/recordings/:recording_id", CallController, :show_recording
+    delete "/leads/:lead_id/recordings/:recording_id", CallController, :delete_recording
 
     # Follow-up endpoints (requires authentication)
     get "/followups", FollowupController, :index
     post "/followups", FollowupController, :create
     patch "/followups/:id", FollowupController, :update
+    delete "/followups/:id", FollowupController, :delete
 
     # User profile endpoints (requires authentication)
     get "/me", UserController, :me
     get "/me/stats", UserController, :stats
 
+    # Lead status pipeline for the user's branch (requires authentication)
+    get "/pipeline", PipelineController, :show
+
+    # Call reviews by branch managers (requires authentication)
+    get "/reviews/rubric", ReviewController, :rubric
+    get "/reviews", ReviewController, :index
+    get "/reviews/:id/recording", ReviewController, :show_recording
+    put "/reviews/:id", ReviewController, :update
+
     # Upload endpoint for presigned URL simulation
     put "/uploads/*key", UploadController, :upload
   end
@@ -0,0 +1,10 @@
+defmodule EducationCrm.Repo.Migrations.AddCancellationToFollowups do
+  use Ecto.Migration
+
+  def change do
+    alter table(:followups) do
+      add :cancelled_at, :utc_datetime
+      add :cancel_reason, :text
+    end
+  end
+end
@@ -0,0 +1,17 @@
+defmodule EducationCrm.Repo.Migrations.CreateLeadStatusChanges do
+  use Ecto.Migration
+
+  def change do
+    create table(:lead_status_changes, primary_key: false) do
+      add :id, :binary_id, primary_key: true
+      add :lead_id, references(:leads, type: :binary_id, on_delete: :delete_all), null: false
+      add :telecaller_id, references(:users, type: :binary_id, on_delete: :nothing), null: false
+      add :from_status, :string
+      add :to_status, :string, null: false
+
+      timestamps(updated_at: false)
+    end
+
+    create index(:lead_status_changes, [:lead_id, :inserted_at])
+  end
+end
@@ -0,0 +1,10 @@
+defmodule EducationCrm.Repo.Migrations.AddReasonToLeadStatusChanges do
+  use Ecto.Migration
+
+  def change do
+    alter table(:lead_status_changes) do
+      add :reason_code, :string
+      add :reason_note, :text
+    end
+  end
+end
@@ -0,0 +1,10 @@
+defmodule EducationCrm.Repo.Migrations.AddPipelineStagesToBranches do
+  use Ecto.Migration
+
+  def change do
+    alter table(:branches) do
+      # Branch-specific lead pipeline; empty means the default pipeline
+      add :pipeline_stages, {:array, :map}, null: false, default: []
+    end
+  end
+end
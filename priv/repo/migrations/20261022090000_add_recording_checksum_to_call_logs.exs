@@ -0,0 +1,10 @@
+defmodule EducationCrm.Repo.Migrations.AddRecordingChecksumToCallLogs do
+  use Ecto.Migration
+
+  def change do
+    alter table(:call_logs) do
+      add :recording_sha256, :string, size: 64
+      add :recording_verified_at, :utc_datetime
+    end
+  end
+end
@@ -0,0 +1,9 @@
+defmodule EducationCrm.Repo.Migrations.AddDirectionToCallLogs do
+  use Ecto.Migration
+
+  def change do
+    alter table(:call_logs) do
+      add :direction, :string, null: false, default: "outbound"
+    end
+  end
+end
@@ -0,0 +1,9 @@
+defmodule EducationCrm.Repo.Migrations.AddBookmarksToCallLogs do
+  use Ecto.Migration
+
+  def change do
+    alter table(:call_logs) do
+      add :bookmarks, {:array, :map}, null: false, default: []
+    end
+  end
+end
@@ -0,0 +1,21 @@
+defmodule EducationCrm.Repo.Migrations.AddQaReviews do
+  use Ecto.Migration
+
+  def change do
+    alter table(:branches) do
+      # Branch-specific call review rubric; empty means the default rubric
+      add :qa_rubric, {:array, :map}, null: false, default: []
+    end
+
+    alter table(:call_logs) do
+      add :qa_scores, {:array, :map}, null: false, default: []
+      add :qa_comments, {:array, :map}, null: false, default: []
+      # Percentage of the rubric's maximum, averaged into telecaller stats
+      add :qa_score, :float
+      add :qa_reviewed_at, :utc_datetime
+      add :qa_reviewer_id, references(:users, type: :binary_id, on_delete: :nothing)
+    end
+
+    create index(:call_logs, [:qa_reviewer_id])
+  end
+end
@@ -0,0 +1,24 @@
+defmodule EducationCrm.Repo.Migrations.CreateRecordingDeletions do
+  use Ecto.Migration
+
+  def change do
+    # Audit trail of deleted call recordings; kept when the lead or call log is deleted
+    create table(:recording_deletions, primary_key: false) do
+      add :id, :binary_id, primary_key: true
+      add :call_log_id, references(:call_logs, type: :binary_id, on_delete: :nilify_all)
+      add :lead_id, references(:leads, type: :binary_id, on_delete: :nilify_all)
+      add :branch_id, references(:branches, type: :binary_id, on_delete: :nothing), null: false
+      add :deleted_by_id, references(:users, type: :binary_id, on_delete: :nothing), null: false
+      add :recording_path, :string, size: 500, null: false
+      add :recording_sha256, :string
+      add :reason_code, :string, null: false
+      add :reason_note, :text
+
+      timestamps(updated_at: false)
+    end
+
+    create index(:recording_deletions, [:branch_id, :inserted_at])
+    create index(:recording_deletions, [:lead_id])
+    create index(:recording_deletions, [:deleted_by_id])
+  end
+end
@@ -0,0 +1,41 @@
+defmodule EducationCrm.AccountsTest do
+  use EducationCrm.DataCase
+
+  alias EducationCrm.{Accounts, Branches}
+
+  describe "list_telecallers/1" do
+    setup do
+      {:ok, branch} = Branches.create_branch(%{name: "Test Branch", location: "Test City"})
+
+      {:ok, _telecaller} =
+        Accounts.create_telecaller(
+          %{"username" => "telecaller1", "password" => "password123"},
+          branch.id
+        )
+
+      {:ok, _manager} =
+        Accounts.create_telecaller(
+          %{"username" => "manager1", "password" => "password123", "role" => "manager"},
+          branch.id
+        )
+
+      %{branch: branch}
+    end
+
+    test "lists telecallers only by default", %{branch: branch} do
+      assert ["telecaller1"] = usernames(%{branch_id: branch.id})
+    end
+
+    test "lists managers, or everyone but admins", %{branch: branch} do
+      assert ["manager1"] = usernames(%{branch_id: branch.id, role: "manager"})
+      assert ["manager1", "telecaller1"] = usernames(%{branch_id: branch.id, role: "all"})
+    end
+  end
+
+  defp usernames(filters) do
+    filters
+    |> Accounts.list_telecallers()
+    |> Enum.map(& &1.username)
+    |> Enum.sort()
+  end
+end
@@ -0,0 +1,57 @@
+defmodule EducationCrm.Leads.LeadTest do
+  use ExUnit.Case, async: true
+
+  alias EducationCrm.Branches.PipelineStage
+  alias EducationCrm.Leads.{Lead, Pipeline}
+
+  defp change_status(from, to, attrs \\ %{}) do
+    Lead.telecaller_update_changeset(%Lead{status: from}, Map.put(attrs, "status", to))
+  end
+
+  describe "status transitions" do
+    test "follow the pipeline" do
+      assert change_status("new", "contacted").valid?
+
+      changeset = change_status("contacted", "new")
+      refute changeset.valid?
+      assert {"cannot change from %{from} to %{to}", _} = changeset.errors[:status]
+    end
+
+    test "leave enrolled for no other stage" do
+      for status <- Pipeline.keys(Pipeline.default_stages()) -- ["enrolled"] do
+        refute change_status("enrolled", status).valid?
+      end
+    end
+
+    test "reopen lost leads as contacted" do
+      assert change_status("lost", "contacted").valid?
+      refute change_status("lost", "interested").valid?
+    end
+
+    test "need a reason for stages that require one" do
+      refute change_status("contacted", "lost").valid?
+      assert change_status("contacted", "lost", %{"status_reason" => "fees"}).valid?
+    end
+  end
+
+  describe "default pipeline" do
+    test "has no transitions out of final stages" do
+      for %PipelineStage{terminal: true} = stage <- Pipeline.default_stages() do
+        assert stage.transitions == [], "#{stage.key} is final but has transitions"
+      end
+    end
+
+    test "final stages can't be configured with transitions" do
+      changeset =
+        PipelineStage.changeset(%PipelineStage{}, %{
+          key: "lost",
+          label: "Lost",
+          color: "#374151",
+          terminal: true,
+          transitions: ["contacted"]
+        })
+
+      assert {"must be empty for a final stage", _} = changeset.errors[:transitions]
+    end
+  end
+end
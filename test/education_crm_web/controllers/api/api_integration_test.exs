@@ -4,6 +4,7 @@ defmodule EducationCrmWeb.Api.ApiIntegrationTest do
   alias EducationCrm.Repo
   alias EducationCrm.Accounts.User
   alias EducationCrm.Branches.Branch
+  alias EducationCrm.Leads.CallLog
   alias EducationCrm.Leads.Lead
 
   setup do
@@ -171,6 +172,7 @@ defmodule EducationCrmWeb.Api.ApiIntegrationTest do
                "data" => %{
                  "total_calls" => 1,
                  "connected_calls" => 1,
+                 "talk_time_seconds" => 120,
                  "total_leads" => 1
                }
              } = json_response(conn, 200)
@@ -184,6 +186,1004 @@ defmodule EducationCrmWeb.Api.ApiIntegrationTest do
       assert %{"data" => %{"message" => "Successfully logged out"}} = json_response(conn, 200)
     end
 
+    test "notes can be added to a lead", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/notes", %{"note" => "Asked for fee structure"})
+
+      assert %{"data" => %{"id" => _id, "note" => "Asked for fee structure"}} =
+               json_response(conn, 201)
+
+      # Empty notes are rejected
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/notes", %{"note" => ""})
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 422)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/leads/#{lead.id}")
+
+      assert %{"data" => %{"notes" => [%{"note" => "Asked for fee structure"}]}} =
+               json_response(conn, 200)
+    end
+
+    test "status changes are recorded on the lead", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/leads/#{lead.id}", %{"status" => "contacted"})
+
+      assert %{
+               "data" => %{
+                 "status" => "contacted",
+                 "status_changes" => [%{"from_status" => "new", "to_status" => "contacted"}]
+               }
+             } = json_response(conn, 200)
+
+      # Updates that leave the status alone add no history
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/leads/#{lead.id}", %{"city" => "Pune", "status" => "contacted"})
+
+      assert %{"data" => %{"status_changes" => [_only_change]}} = json_response(conn, 200)
+    end
+
+    test "status transitions are enforced and reasons recorded", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      patch_lead = fn attrs ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/leads/#{lead.id}", attrs)
+      end
+
+      # A new lead can't be enrolled without being contacted first
+      conn = patch_lead.(%{"status" => "enrolled"})
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR", "details" => %{"status" => [_]}}} =
+               json_response(conn, 422)
+
+      # Losing a lead needs a reason code
+      conn = patch_lead.(%{"status" => "lost"})
+
+      assert %{"error" => %{"details" => %{"status_reason" => [_]}}} = json_response(conn, 422)
+
+      conn = patch_lead.(%{"status" => "lost", "status_reason" => "bored"})
+      assert %{"error" => %{"details" => %{"status_reason" => [_]}}} = json_response(conn, 422)
+
+      conn =
+        patch_lead.(%{"status" => "lost", "status_reason" => "fees", "status_note" => "Too costly"})
+
+      assert %{
+               "data" => %{
+                 "status" => "lost",
+                 "status_changes" => [
+                   %{
+                     "from_status" => "new",
+                     "to_status" => "lost",
+                     "reason_code" => "fees",
+                     "reason_note" => "Too costly"
+                   }
+                 ]
+               }
+             } = json_response(conn, 200)
+
+      # Lost leads can only be reopened as contacted
+      conn = patch_lead.(%{"status" => "interested"})
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 422)
+
+      conn = patch_lead.(%{"status" => "contacted"})
+      assert %{"data" => %{"status" => "contacted"}} = json_response(conn, 200)
+    end
+
+    test "branches can configure their own lead pipeline", %{
+      conn: conn,
+      branch: branch,
+      lead: lead
+    } do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      get_pipeline = fn ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/pipeline")
+      end
+
+      # Branches without their own stages get the default pipeline
+      conn = get_pipeline.()
+
+      assert %{"data" => %{"stages" => stages, "reasons" => [%{"key" => "fees"} | _]}} =
+               json_response(conn, 200)
+
+      assert Enum.map(stages, & &1["key"]) ==
+               ~w(new contacted interested not_interested enrolled lost)
+
+      {:ok, _branch} =
+        EducationCrm.Branches.update_branch(branch, %{
+          pipeline_stages: [
+            %{
+              key: "new",
+              label: "New",
+              color: "#1e40af",
+              position: 0,
+              transitions: ["counselling_booked"]
+            },
+            %{
+              key: "counselling_booked",
+              label: "Counselling Booked",
+              color: "#7c3aed",
+              position: 1,
+              transitions: ["documents_pending"]
+            },
+            %{
+              key: "documents_pending",
+              label: "Documents Pending",
+              color: "#92400e",
+              position: 2,
+              terminal: true
+            }
+          ]
+        })
+
+      conn = get_pipeline.()
+
+      assert %{
+               "data" => %{
+                 "stages" => [
+                   %{"key" => "new"},
+                   %{"key" => "counselling_booked", "label" => "Counselling Booked"},
+                   %{"key" => "documents_pending", "terminal" => true}
+                 ]
+               }
+             } = json_response(conn, 200)
+
+      # Lead updates follow the branch's pipeline
+      patch_lead = fn attrs ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/leads/#{lead.id}", attrs)
+      end
+
+      conn = patch_lead.(%{"status" => "contacted"})
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 422)
+
+      conn = patch_lead.(%{"status" => "counselling_booked"})
+      assert %{"data" => %{"status" => "counselling_booked"}} = json_response(conn, 200)
+
+      # Leads in the branch's own stages count as contacted
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/me/stats")
+
+      assert %{"data" => %{"contacted_leads" => 1}} = json_response(conn, 200)
+
+      # Custom pipelines must keep the "new" stage
+      assert {:error, changeset} =
+               EducationCrm.Branches.update_branch(branch, %{
+                 pipeline_stages: [%{key: "open", label: "Open", color: "#1e40af"}]
+               })
+
+      assert Keyword.has_key?(changeset.errors, :pipeline_stages)
+    end
+
+    test "call disposition updates the logged call", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/calls", %{
+          "outcome" => "pending",
+          "duration_seconds" => 0
+        })
+
+      assert %{"data" => %{"id" => call_log_id, "outcome" => "pending"}} =
+               json_response(conn, 201)
+
+      # The disposition has to say how the call went
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/leads/#{lead.id}/calls/#{call_log_id}", %{"outcome" => "pending"})
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 422)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/leads/#{lead.id}/calls/#{call_log_id}", %{
+          "outcome" => "no_answer",
+          "duration_seconds" => 25
+        })
+
+      assert %{
+               "data" => %{
+                 "id" => ^call_log_id,
+                 "outcome" => "no_answer",
+                 "duration_seconds" => 25
+               }
+             } = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/leads/#{lead.id}/calls/#{call_log_id}", %{"outcome" => "voicemail"})
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 422)
+    end
+
+    test "chunked recording uploads can be resumed", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      post_recording = fn params ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/recordings", params)
+      end
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/calls", %{"outcome" => "connected"})
+
+      call_log_id = json_response(conn, 201)["data"]["id"]
+
+      conn =
+        post_recording.(%{
+          "action" => "init",
+          "filename" => "call.aac",
+          "call_log_id" => call_log_id
+        })
+
+      upload_id = json_response(conn, 201)["data"]["upload_id"]
+
+      sha256 = fn data -> :crypto.hash(:sha256, data) |> Base.encode16(case: :lower) end
+      chunks = [<<0, 1, 2, 255>>, <<3, 4, 5>>]
+
+      append = fn index, checksum ->
+        post_recording.(%{
+          "action" => "append",
+          "upload_id" => upload_id,
+          "chunk_index" => index,
+          "chunk" => Enum.at(chunks, index),
+          "checksum" => checksum
+        })
+      end
+
+      conn = append.(0, sha256.(Enum.at(chunks, 0)))
+      assert %{"data" => %{"chunks_received" => 1, "total_size" => 4}} = json_response(conn, 202)
+
+      # A chunk re-sent after a dropped connection isn't counted twice
+      conn = append.(0, sha256.(Enum.at(chunks, 0)))
+      assert %{"data" => %{"chunks_received" => 1}} = json_response(conn, 202)
+
+      # Corrupted chunks are rejected
+      conn = append.(1, sha256.("something else"))
+      assert %{"error" => %{"code" => "CHECKSUM_MISMATCH"}} = json_response(conn, 422)
+
+      conn = post_recording.(%{"action" => "status", "upload_id" => upload_id})
+      assert %{"data" => %{"chunks_received" => 1, "total_size" => 4}} = json_response(conn, 200)
+
+      conn = append.(1, sha256.(Enum.at(chunks, 1)))
+      assert %{"data" => %{"chunks_received" => 2, "total_size" => 7}} = json_response(conn, 202)
+
+      conn =
+        post_recording.(%{
+          "action" => "finalize",
+          "upload_id" => upload_id,
+          "total_chunks" => 2,
+          "call_log_id" => call_log_id,
+          "sha256" => sha256.(Enum.join(chunks))
+        })
+
+      assert %{"data" => %{"recording_path" => recording_path, "verified" => true}} =
+               json_response(conn, 200)
+
+      assert File.read!(recording_path) == Enum.join(chunks)
+
+      File.rm!(recording_path)
+    end
+
+    test "recordings that don't match the device checksum are rejected", %{
+      conn: conn,
+      lead: lead
+    } do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/calls", %{"outcome" => "connected"})
+
+      call_log_id = json_response(conn, 201)["data"]["id"]
+
+      recording = Path.join(System.tmp_dir!(), "checksum_test_#{call_log_id}.aac")
+      File.write!(recording, "recorded audio")
+      on_exit(fn -> File.rm(recording) end)
+
+      upload = fn sha256 ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/recordings", %{
+          "call_log_id" => call_log_id,
+          "file" => %Plug.Upload{path: recording, filename: "call.aac"},
+          "sha256" => sha256
+        })
+      end
+
+      conn = upload.(:crypto.hash(:sha256, "something else") |> Base.encode16(case: :lower))
+      assert %{"error" => %{"code" => "CHECKSUM_MISMATCH"}} = json_response(conn, 422)
+
+      sha256 = :crypto.hash(:sha256, "recorded audio") |> Base.encode16(case: :lower)
+      conn = upload.(sha256)
+
+      assert %{"data" => %{"recording_path" => recording_path, "verified" => true}} =
+               json_response(conn, 200)
+
+      File.rm!(recording_path)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/leads/#{lead.id}")
+
+      assert %{"data" => %{"call_logs" => [%{"recording_sha256" => ^sha256} = call_log]}} =
+               json_response(conn, 200)
+
+      assert call_log["recording_verified_at"]
+    end
+
+    test "uploaded object keys can't leave the uploads directory", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/calls", %{"outcome" => "connected"})
+
+      call_log_id = json_response(conn, 201)["data"]["id"]
+
+      for s3_key <- ["../../../mix.exs", "recordings/../../secret", "/etc/passwd"] do
+        conn =
+          build_conn()
+          |> put_req_header("authorization", "Bearer #{token}")
+          |> post(~p"/api/leads/#{lead.id}/recordings", %{
+            "call_log_id" => call_log_id,
+            "s3_key" => s3_key
+          })
+
+        assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 400)
+      end
+
+      # A checksum must not reveal whether a file outside the uploads directory matches
+      sha256 = :crypto.hash(:sha256, File.read!("mix.exs")) |> Base.encode16(case: :lower)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/recordings", %{
+          "call_log_id" => call_log_id,
+          "s3_key" => "../../../../../../mix.exs",
+          "sha256" => sha256
+        })
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 400)
+
+      assert Repo.get!(CallLog, call_log_id).recording_path == nil
+    end
+
+    test "bookmarks made during a call are stored with its recording", %{
+      conn: conn,
+      lead: lead
+    } do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/calls", %{"outcome" => "connected"})
+
+      call_log_id = json_response(conn, 201)["data"]["id"]
+
+      recording = Path.join(System.tmp_dir!(), "bookmark_test_#{call_log_id}.aac")
+      File.write!(recording, "recorded audio")
+      on_exit(fn -> File.rm(recording) end)
+
+      upload = fn bookmarks ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/recordings", %{
+          "call_log_id" => call_log_id,
+          "file" => %Plug.Upload{path: recording, filename: "call.aac"},
+          "bookmarks" => bookmarks
+        })
+      end
+
+      conn = upload.([%{"offset_seconds" => -1, "label" => "Fee discussed"}])
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR", "details" => %{"bookmarks" => _}}} =
+               json_response(conn, 422)
+
+      conn =
+        upload.([
+          %{"offset_seconds" => 42.5, "label" => "Fee discussed"},
+          %{"offset_seconds" => 95, "label" => "Parent joined"}
+        ])
+
+      assert %{"data" => %{"recording_path" => recording_path}} = json_response(conn, 200)
+      File.rm!(recording_path)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/leads/#{lead.id}")
+
+      assert %{"data" => %{"call_logs" => [%{"bookmarks" => bookmarks}]}} =
+               json_response(conn, 200)
+
+      assert bookmarks == [
+               %{"offset_seconds" => 42.5, "label" => "Fee discussed"},
+               %{"offset_seconds" => 95.0, "label" => "Parent joined"}
+             ]
+    end
+
+    test "branch managers score recorded calls and telecallers see the review", %{
+      conn: conn,
+      branch: branch,
+      telecaller: telecaller,
+      lead: lead
+    } do
+      %User{}
+      |> User.changeset(%{
+        username: "manager1",
+        password: "password123",
+        role: "manager",
+        branch_id: branch.id
+      })
+      |> Repo.insert!()
+
+      call_log =
+        %CallLog{}
+        |> CallLog.changeset(%{
+          outcome: "connected",
+          duration_seconds: 180,
+          recording_path: "https://example.com/recordings/call.aac",
+          lead_id: lead.id,
+          telecaller_id: telecaller.id
+        })
+        |> Repo.insert!()
+
+      login = fn username ->
+        conn =
+          post(build_conn(), ~p"/api/auth/login", %{username: username, password: "password123"})
+
+        json_response(conn, 200)["data"]["access_token"]
+      end
+
+      telecaller_token = login.("telecaller1")
+      manager_token = login.("manager1")
+
+      # Only managers can review
+      conn =
+        conn
+        |> put_req_header("authorization", "Bearer #{telecaller_token}")
+        |> get(~p"/api/reviews")
+
+      assert %{"error" => %{"code" => "AUTHORIZATION_ERROR"}} = json_response(conn, 403)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{manager_token}")
+        |> get(~p"/api/reviews?reviewed=false")
+
+      assert %{"data" => [%{"id" => call_id, "student_name" => "John Doe"}]} =
+               json_response(conn, 200)
+
+      assert call_id == call_log.id
+
+      review = fn scores ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{manager_token}")
+        |> put(~p"/api/reviews/#{call_log.id}", %{
+          "scores" => scores,
+          "comments" => [%{"offset_seconds" => 12.5, "body" => "Ask about the budget earlier"}]
+        })
+      end
+
+      # Every criterion of the default rubric must be scored
+      conn = review.([%{"criterion" => "greeting", "score" => 5}])
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR", "details" => %{"qa_scores" => _}}} =
+               json_response(conn, 422)
+
+      conn =
+        review.([
+          %{"criterion" => "greeting", "score" => 5},
+          %{"criterion" => "needs_discovery", "score" => 4},
+          %{"criterion" => "course_pitch", "score" => 4},
+          %{"criterion" => "closing", "score" => 3}
+        ])
+
+      assert %{"data" => %{"qa_score" => 80.0, "qa_reviewed_at" => reviewed_at}} =
+               json_response(conn, 200)
+
+      refute is_nil(reviewed_at)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{manager_token}")
+        |> get(~p"/api/reviews?reviewed=false")
+
+      assert %{"data" => []} = json_response(conn, 200)
+
+      # The telecaller sees the review on the call and in their stats
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{telecaller_token}")
+        |> get(~p"/api/leads/#{lead.id}")
+
+      assert %{"data" => %{"call_logs" => [call]}} = json_response(conn, 200)
+      assert call["qa_score"] == 80.0
+      assert length(call["qa_scores"]) == 4
+
+      assert call["qa_comments"] == [
+               %{"offset_seconds" => 12.5, "body" => "Ask about the budget earlier"}
+             ]
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{telecaller_token}")
+        |> get(~p"/api/me/stats")
+
+      assert %{"data" => %{"average_qa_score" => 80.0, "reviewed_calls" => 1}} =
+               json_response(conn, 200)
+    end
+
+    test "admins review calls of every branch", %{telecaller: telecaller, lead: lead} do
+      %User{}
+      |> User.changeset(%{username: "admin1", password: "password123", role: "admin"})
+      |> Repo.insert!()
+
+      call_log =
+        %CallLog{}
+        |> CallLog.changeset(%{
+          outcome: "connected",
+          duration_seconds: 90,
+          recording_path: "https://example.com/recordings/call.aac",
+          lead_id: lead.id,
+          telecaller_id: telecaller.id
+        })
+        |> Repo.insert!()
+
+      conn =
+        post(build_conn(), ~p"/api/auth/login", %{username: "admin1", password: "password123"})
+
+      token = json_response(conn, 200)["data"]["access_token"]
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/reviews?reviewed=false")
+
+      assert %{"data" => [%{"id" => call_id, "branch_id" => branch_id}]} =
+               json_response(conn, 200)
+
+      assert call_id == call_log.id
+      assert branch_id == lead.branch_id
+
+      # The rubric is the one of the call's branch
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/reviews/rubric?branch_id=#{branch_id}")
+
+      assert %{"data" => %{"criteria" => criteria}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> put(~p"/api/reviews/#{call_log.id}", %{
+          "scores" => Enum.map(criteria, &%{"criterion" => &1["key"], "score" => 5}),
+          "comments" => []
+        })
+
+      assert %{"data" => %{"qa_score" => 100.0}} = json_response(conn, 200)
+    end
+
+    test "recordings are deleted with a reason and the deletion is audited", %{
+      branch: branch,
+      telecaller: telecaller,
+      lead: lead
+    } do
+      recording_path =
+        Path.join(System.tmp_dir!(), "recording_#{System.unique_integer([:positive])}.aac")
+
+      File.write!(recording_path, "audio")
+
+      call_log =
+        %CallLog{}
+        |> CallLog.changeset(%{
+          outcome: "connected",
+          duration_seconds: 60,
+          recording_path: recording_path,
+          lead_id: lead.id,
+          telecaller_id: telecaller.id
+        })
+        |> Repo.insert!()
+
+      manager =
+        %User{}
+        |> User.changeset(%{
+          username: "manager1",
+          password: "password123",
+          role: "manager",
+          branch_id: branch.id
+        })
+        |> Repo.insert!()
+
+      other_branch =
+        %Branch{}
+        |> Branch.changeset(%{name: "Other Branch", location: "Other Location"})
+        |> Repo.insert!()
+
+      for {username, role, branch_id} <- [
+            {"telecaller2", "telecaller", branch.id},
+            {"manager2", "manager", other_branch.id}
+          ] do
+        %User{}
+        |> User.changeset(%{
+          username: username,
+          password: "password123",
+          role: role,
+          branch_id: branch_id
+        })
+        |> Repo.insert!()
+      end
+
+      login = fn username ->
+        conn =
+          post(build_conn(), ~p"/api/auth/login", %{username: username, password: "password123"})
+
+        json_response(conn, 200)["data"]["access_token"]
+      end
+
+      delete_recording = fn token, params ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> delete(~p"/api/leads/#{lead.id}/recordings/#{call_log.id}", params)
+      end
+
+      # Telecallers, even the lead's own, and managers of other branches can't delete it
+      for username <- ["telecaller1", "telecaller2", "manager2"] do
+        conn = delete_recording.(login.(username), %{"reason_code" => "student_request"})
+        assert %{"error" => %{"code" => "AUTHORIZATION_ERROR"}} = json_response(conn, 403)
+      end
+
+      assert File.exists?(recording_path)
+
+      token = login.("manager1")
+
+      # A reason is required, and "other" needs a note
+      conn = delete_recording.(token, %{})
+
+      assert %{"error" => %{"details" => %{"reason_code" => ["can't be blank"]}}} =
+               json_response(conn, 422)
+
+      conn = delete_recording.(token, %{"reason_code" => "other"})
+      assert %{"error" => %{"details" => %{"reason_note" => _}}} = json_response(conn, 422)
+      assert File.exists?(recording_path)
+
+      conn = delete_recording.(token, %{"reason_code" => "student_request"})
+
+      assert %{"data" => %{"call_log_id" => call_log_id, "reason_code" => "student_request"}} =
+               json_response(conn, 200)
+
+      assert call_log_id == call_log.id
+      refute File.exists?(recording_path)
+
+      # The call stays without its recording, and can't be deleted twice
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{login.("telecaller1")}")
+        |> get(~p"/api/leads/#{lead.id}")
+
+      assert %{"data" => %{"call_logs" => [%{"recording_path" => nil}]}} =
+               json_response(conn, 200)
+
+      conn = delete_recording.(token, %{"reason_code" => "student_request"})
+      assert %{"error" => %{"code" => "NOT_FOUND"}} = json_response(conn, 404)
+
+      assert [deletion] = EducationCrm.Leads.list_recording_deletions(branch_id: branch.id)
+      assert deletion.deleted_by_id == manager.id
+      assert deletion.recording_path == recording_path
+      assert deletion.lead_id == lead.id
+    end
+
+    test "inbound calls are logged with their direction", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      log_call = fn params ->
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/leads/#{lead.id}/calls", params)
+      end
+
+      conn = log_call.(%{"outcome" => "connected"})
+      assert %{"data" => %{"direction" => "outbound"}} = json_response(conn, 201)
+
+      conn = log_call.(%{"outcome" => "connected", "direction" => "inbound"})
+      assert %{"data" => %{"direction" => "inbound"}} = json_response(conn, 201)
+
+      conn = log_call.(%{"outcome" => "connected", "direction" => "sideways"})
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR", "details" => %{"direction" => _}}} =
+               json_response(conn, 422)
+    end
+
+    test "follow-ups can be rescheduled, rolled over and cancelled", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      in_days = fn days ->
+        DateTime.utc_now() |> DateTime.add(days, :day) |> DateTime.truncate(:second)
+      end
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/followups", %{
+          "lead_id" => lead.id,
+          "scheduled_at" => DateTime.to_iso8601(in_days.(1))
+        })
+
+      followup_id = json_response(conn, 201)["data"]["id"]
+
+      # Reschedule and add a description
+      rescheduled_at = DateTime.to_iso8601(in_days.(2))
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/followups/#{followup_id}", %{
+          "scheduled_at" => rescheduled_at,
+          "description" => "Call after exams"
+        })
+
+      assert %{
+               "data" => %{
+                 "scheduled_at" => ^rescheduled_at,
+                 "description" => "Call after exams",
+                 "completed" => false
+               }
+             } = json_response(conn, 200)
+
+      # Complete and book the next one
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/followups/#{followup_id}", %{
+          "completed" => true,
+          "next_followup" => %{"scheduled_at" => DateTime.to_iso8601(in_days.(7))}
+        })
+
+      assert %{
+               "data" => %{"completed" => true},
+               "next_followup" => %{"id" => next_id, "completed" => false}
+             } = json_response(conn, 200)
+
+      # A closed follow-up can't be rescheduled
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> patch(~p"/api/followups/#{followup_id}", %{
+          "scheduled_at" => DateTime.to_iso8601(in_days.(3))
+        })
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 422)
+
+      # Cancelling needs a reason
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> delete(~p"/api/followups/#{next_id}")
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 422)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> delete(~p"/api/followups/#{next_id}", %{"reason" => "Enrolled elsewhere"})
+
+      assert %{
+               "data" => %{
+                 "completed" => true,
+                 "cancel_reason" => "Enrolled elsewhere"
+               }
+             } = json_response(conn, 200)
+    end
+
+    test "follow-ups can be listed for an agenda range", %{conn: conn, lead: lead} do
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      now = DateTime.utc_now() |> DateTime.truncate(:second)
+
+      for days <- [3, 1, 10] do
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/followups", %{
+          "lead_id" => lead.id,
+          "scheduled_at" => now |> DateTime.add(days, :day) |> DateTime.to_iso8601()
+        })
+      end
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/followups", %{
+          "from" => DateTime.to_iso8601(now),
+          "to" => now |> DateTime.add(7, :day) |> DateTime.to_iso8601(),
+          "status" => "pending"
+        })
+
+      assert %{"data" => [first, second]} = json_response(conn, 200)
+      assert first["scheduled_at"] < second["scheduled_at"]
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/followups", %{
+          "from" => DateTime.to_iso8601(now),
+          "to" => now |> DateTime.add(60, :day) |> DateTime.to_iso8601()
+        })
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 400)
+    end
+
+    test "incremental sync pages through changed leads", %{
+      conn: conn,
+      branch: branch,
+      telecaller: telecaller,
+      lead: lead
+    } do
+      other_lead =
+        %Lead{}
+        |> Lead.changeset(%{
+          student_name: "Jane Roe",
+          phone_number: "9876543210",
+          status: "new",
+          telecaller_id: telecaller.id,
+          branch_id: branch.id,
+          assigned_at: DateTime.utc_now()
+        })
+        |> Repo.insert!()
+
+      conn =
+        post(conn, ~p"/api/auth/login", %{
+          username: "telecaller1",
+          password: "password123"
+        })
+
+      assert %{"data" => %{"access_token" => token}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/leads", %{"updated_since" => "1970-01-01T00:00:00Z", "per_page" => 1})
+
+      assert %{
+               "data" => [first],
+               "meta" => %{"has_more" => true, "next_cursor" => cursor}
+             } = json_response(conn, 200)
+
+      assert %{"notes" => [], "call_logs" => [], "followups" => []} = first
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/leads", %{"updated_since" => cursor, "per_page" => 1})
+
+      assert %{"data" => [second], "meta" => %{"next_cursor" => cursor}} =
+               json_response(conn, 200)
+
+      assert Enum.sort([first["id"], second["id"]]) == Enum.sort([lead.id, other_lead.id])
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/leads", %{"updated_since" => cursor, "per_page" => 1})
+
+      assert %{"data" => [], "meta" => %{"has_more" => false}} = json_response(conn, 200)
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/leads", %{"updated_since" => "yesterday"})
+
+      assert %{"error" => %{"code" => "VALIDATION_ERROR"}} = json_response(conn, 400)
+    end
+
     test "unauthorized access is blocked", %{conn: conn, lead: lead} do
       # Try to access leads without token
       conn = get(conn, ~p"/api/leads")
@@ -0,0 +1,34 @@
+defmodule EducationCrmWeb.Api.AudioFileTest do
+  use ExUnit.Case, async: true
+
+  import EducationCrmWeb.Api.AudioFile, only: [parse_range_header: 2]
+
+  doctest EducationCrmWeb.Api.AudioFile
+
+  describe "parse_range_header/2" do
+    test "reads a closed range" do
+      assert parse_range_header("bytes=100-199", 1000) == {:ok, 100, 199}
+    end
+
+    test "runs an open range to the last byte" do
+      assert parse_range_header("bytes=500-", 1000) == {:ok, 500, 999}
+    end
+
+    test "clamps an end past the last byte" do
+      assert parse_range_header("bytes=0-65535", 1000) == {:ok, 0, 999}
+    end
+
+    test "returns the tail for a suffix range" do
+      assert parse_range_header("bytes=-200", 1000) == {:ok, 800, 999}
+      assert parse_range_header("bytes=-5000", 1000) == {:ok, 0, 999}
+    end
+
+    test "rejects unsatisfiable and malformed ranges" do
+      assert parse_range_header("bytes=1000-1100", 1000) == :error
+      assert parse_range_header("bytes=200-100", 1000) == :error
+      assert parse_range_header("bytes=-0", 1000) == :error
+      assert parse_range_header("bytes=0-1,5-6", 1000) == :error
+      assert parse_range_header("items=0-10", 1000) == :error
+    end
+  end
+end